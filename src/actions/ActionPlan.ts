@@ -12,6 +12,7 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { dirname, basename } from 'path';
 import { createLogger } from '../utils/logger.js';
+import { PlanBuilder } from './PlanBuilder.js';
 import type {
   ActionPlan as ActionPlanType,
   Action,
@@ -214,9 +215,11 @@ export class ActionPlan {
 
   /**
    * Create a filtered copy of this plan
+   * Actions that depend on a filtered-out action are dropped too, so a merge
+   * never runs without the golden record updates planned before it
    */
   createFiltered(filter: ActionFilter): ActionPlan {
-    const filteredActions = this.getActions(filter);
+    const filteredActions = this.withoutMissingDependencies(this.getActions(filter));
 
     // Recalculate summary for filtered actions
     const summary = this.calculateSummary(filteredActions);
@@ -230,6 +233,29 @@ export class ActionPlan {
     return new ActionPlan(filteredData);
   }
 
+  /**
+   * Drop actions whose dependencies are not in the set, directly or transitively
+   */
+  private withoutMissingDependencies(actions: Action[]): Action[] {
+    let kept = actions;
+    let previousSize = -1;
+
+    while (kept.length !== previousSize) {
+      previousSize = kept.length;
+      const ids = new Set(kept.map((a) => a.id));
+      kept = kept.filter((a) => (a.dependencies ?? []).every((depId) => ids.has(depId)));
+    }
+
+    if (kept.length < actions.length) {
+      logger.warn(
+        { dropped: actions.length - kept.length },
+        'Dropped filtered actions whose dependencies were filtered out'
+      );
+    }
+
+    return kept;
+  }
+
   /**
    * Calculate summary statistics for a set of actions
    */
@@ -273,6 +299,7 @@ export class ActionPlan {
       by_detection_method,
       estimated_api_calls,
       estimated_ai_cost_usd: this.data.summary.estimated_ai_cost_usd, // Keep original
+      estimated_marketing_contacts_freed: PlanBuilder.estimateMarketingContactsFreed(actions),
     };
   }
 
@@ -17,6 +17,7 @@ import {
 import { ActionPlan as ActionPlanClass } from './ActionPlan.js';
 import { ExecutionLock } from './ExecutionLock.js';
 import { createLogger } from '../utils/logger.js';
+import { isLifecycleStageRegression } from '../utils/lifecycle.js';
 
 const logger = createLogger('Executor');
 
@@ -100,10 +101,23 @@ export class Executor {
         await this.acquireLock(executionId);
       }
 
+      // Dependencies missing from the plan (e.g. filtered out) block their dependents
+      const validation = planObj.validateDependencies();
+      if (!validation.valid) {
+        logger.warn({ errors: validation.errors }, 'Plan has dependencies on missing actions');
+      }
+      const actionIds = new Set(plan.actions.map((a) => a.id));
+      const missingDependencies = plan.actions
+        .flatMap((a) => a.dependencies ?? [])
+        .filter((depId) => !actionIds.has(depId));
+
       // Validate and order actions
       const orderedActions = this.orderActionsByDependencies(plan.actions);
       logger.info({ count: orderedActions.length }, 'Actions ordered by dependencies');
 
+      // Actions that failed or were skipped for a failed dependency block their dependents
+      const blocked = new Set<string>(missingDependencies);
+
       // Execute actions
       for (let i = 0; i < orderedActions.length; i++) {
         const action = orderedActions[i];
@@ -119,10 +133,17 @@ export class Executor {
           });
         }
 
-        // Execute action
-        const result = await this.executeAction(action, record.results);
+        // Execute action, unless something it depends on did not happen
+        const blockedBy = (action.dependencies ?? []).find((depId) => blocked.has(depId));
+        const result = blockedBy
+          ? this.skipBlockedAction(action, blockedBy, actionIds.has(blockedBy))
+          : await this.executeAction(action, record.results);
         record.actions.push(result);
 
+        if (result.status === 'failed' || blockedBy) {
+          blocked.add(action.id);
+        }
+
         // Update results
         if (result.status === 'success') {
           record.results.successful++;
@@ -189,6 +210,7 @@ export class Executor {
     const ordered: Action[] = [];
     const remaining = new Set(actions);
     const completed = new Set<string>();
+    const planIds = new Set(actions.map((a) => a.id));
 
     // Keep processing until no more actions can be ordered
     let lastSize = remaining.size;
@@ -196,9 +218,9 @@ export class Executor {
       let addedAny = false;
 
       for (const action of remaining) {
-        // Check if all dependencies are completed
+        // Check if all dependencies are completed; missing ones are skipped at execution
         const deps = action.dependencies || [];
-        const canExecute = deps.every((depId) => completed.has(depId));
+        const canExecute = deps.every((depId) => completed.has(depId) || !planIds.has(depId));
 
         if (canExecute) {
           ordered.push(action);
@@ -223,6 +245,27 @@ export class Executor {
     return ordered;
   }
 
+  /**
+   * Skip an action whose dependency failed, was skipped or is not in the plan
+   * e.g. a merge after a failed golden record update would lose the surviving values
+   */
+  private skipBlockedAction(
+    action: Action,
+    dependencyId: string,
+    inPlan: boolean
+  ): ExecutedAction {
+    const reason = inPlan ? 'failed or was skipped' : 'is not in the plan';
+    logger.warn({ actionId: action.id, dependencyId }, `Dependency ${reason} - skipping action`);
+
+    return {
+      action_id: action.id,
+      status: 'skipped',
+      error: `Skipped because dependency ${dependencyId} ${reason}`,
+      rollback_data: null,
+      is_reversible: action.reversible,
+    };
+  }
+
   /**
    * Execute a single action
    */
@@ -239,6 +282,13 @@ export class Executor {
       is_reversible: action.reversible,
     };
 
+    // Review-only actions document findings; there is nothing to execute
+    if (action.type === 'flag_for_review') {
+      logger.info({ actionId: action.id }, 'Review-only action - skipping execution');
+      result.status = 'skipped';
+      return result;
+    }
+
     try {
       // Capture rollback data before making changes
       if (action.reversible && !this.options.dryRun) {
@@ -277,6 +327,9 @@ export class Executor {
       case 'merge_contacts':
         await this.executeMergeContacts(action);
         break;
+      case 'merge_companies':
+        await this.executeMergeCompanies(action);
+        break;
       case 'remove_from_list':
         await this.executeRemoveFromList(action);
         break;
@@ -309,7 +362,52 @@ export class Executor {
     const stringValue = new_value === null || new_value === undefined
       ? ''
       : String(new_value);
-    const properties = { [property]: stringValue };
+
+    if (property === 'lifecyclestage' && stringValue !== '') {
+      await this.updateLifecycleStage(action, stringValue);
+    } else {
+      await this.updateObject(action, { [property]: stringValue });
+    }
+
+    logger.info({ actionId: action.id, object_type, object_id, property }, 'Updated property');
+  }
+
+  /**
+   * Set a lifecycle stage
+   * HubSpot only moves lifecycle stage backwards once it has been cleared.
+   * If the new stage is then rejected, the previous stage is written back.
+   */
+  private async updateLifecycleStage(action: Action, stage: string): Promise<void> {
+    const { object_type, object_id } = action.target;
+    const current = await this.fetchPropertyValue(object_type, object_id, 'lifecyclestage');
+    const previous = typeof current?.value === 'string' ? current.value : '';
+
+    if (!isLifecycleStageRegression(previous, stage)) {
+      await this.updateObject(action, { lifecyclestage: stage });
+      return;
+    }
+
+    await this.updateObject(action, { lifecyclestage: '' });
+    try {
+      await this.updateObject(action, { lifecyclestage: stage });
+    } catch (error) {
+      try {
+        await this.updateObject(action, { lifecyclestage: previous });
+      } catch (restoreError) {
+        logger.error(
+          { actionId: action.id, object_id, previous, error: restoreError },
+          'Failed to restore lifecycle stage after a rejected update'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write properties to the action's target object
+   */
+  private async updateObject(action: Action, properties: Record<string, string>): Promise<void> {
+    const { object_type, object_id } = action.target;
 
     switch (object_type) {
       case 'contact':
@@ -327,8 +425,6 @@ export class Executor {
           action.id
         );
     }
-
-    logger.info({ actionId: action.id, object_type, object_id, property }, 'Updated property');
   }
 
   /**
@@ -357,6 +453,22 @@ export class Executor {
     logger.warn({ actionId: action.id, primaryId, secondaryId }, 'Merged contacts (NOT REVERSIBLE)');
   }
 
+  /**
+   * Merge companies action (NOT REVERSIBLE!)
+   */
+  private async executeMergeCompanies(action: Action): Promise<void> {
+    // Same shape as contact merges: object_id is the primary, new_value the secondary ID
+    const primaryId = action.target.object_id;
+    const secondaryId = action.change.new_value as string;
+
+    if (!secondaryId) {
+      throw new ExecutionError('Missing secondary company ID for merge', action.id);
+    }
+
+    await this.hubspot.mergeCompanies(primaryId, secondaryId);
+    logger.warn({ actionId: action.id, primaryId, secondaryId }, 'Merged companies (NOT REVERSIBLE)');
+  }
+
   /**
    * Remove from list action
    */
@@ -403,6 +515,33 @@ export class Executor {
     );
   }
 
+  /**
+   * Fetch the current value of a property
+   * Returns null for object types without properties
+   */
+  private async fetchPropertyValue(
+    object_type: string,
+    object_id: string,
+    property: string
+  ): Promise<{ value: unknown } | null> {
+    switch (object_type) {
+      case 'contact': {
+        const contact = await this.hubspot.getContact(object_id);
+        return { value: contact.properties[property] };
+      }
+      case 'company': {
+        const company = await this.hubspot.getCompany(object_id);
+        return { value: company.properties[property] };
+      }
+      case 'deal': {
+        const deal = await this.hubspot.getDeal(object_id);
+        return { value: deal.properties[property] };
+      }
+      default:
+        return null;
+    }
+  }
+
   /**
    * Capture current values for rollback
    */
@@ -416,34 +555,14 @@ export class Executor {
         case 'update_property': {
           if (!property) return null;
 
-          let currentValue: unknown;
-
-          // Fetch current value
-          switch (object_type) {
-            case 'contact': {
-              const contact = await this.hubspot.getContact(object_id);
-              currentValue = contact.properties[property];
-              break;
-            }
-            case 'company': {
-              const company = await this.hubspot.getCompany(object_id);
-              currentValue = company.properties[property];
-              break;
-            }
-            case 'deal': {
-              const deal = await this.hubspot.getDeal(object_id);
-              currentValue = deal.properties[property];
-              break;
-            }
-            default:
-              return null;
-          }
+          const current = await this.fetchPropertyValue(object_type, object_id, property);
+          if (!current) return null;
 
           return {
             object_type,
             object_id,
             property,
-            original_value: currentValue,
+            original_value: current.value,
           };
         }
 
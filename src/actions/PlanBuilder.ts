@@ -26,6 +26,126 @@ import type {
 
 const logger = createLogger('plan-builder');
 
+/**
+ * Maps audit issue types to the action that fixes them
+ */
+const ISSUE_ACTION_TYPES: Record<string, ActionType> = {
+  // Data quality (Epic 6)
+  missing_required_field: 'update_property',
+  invalid_email_format: 'update_property',
+  invalid_phone_format: 'flag_for_review', // No valid number to write back
+  nonstandard_phone_format: 'update_property', // Rewritten to E.164
+  invalid_url_format: 'update_property',
+  obvious_typo: 'update_property',
+  name_typo: 'update_property',
+  name_casing: 'update_property',
+  honorific_in_name: 'update_property',
+  full_name_in_firstname: 'update_property',
+  invalid_name_characters: 'update_property',
+  email_in_name: 'flag_for_review',
+  semantic_anomaly: 'update_property',
+  stale_contact: 'set_marketing_status', // Default to downgrade marketing status
+
+  // Duplicate detection (Epic 9)
+  duplicate: 'merge_contacts',
+  duplicate_needs_review: 'flag_for_review', // Tier 3 investigation could not decide
+  golden_record_value: 'update_property', // Survivorship value copied before a merge
+  duplicate_company: 'merge_companies',
+  duplicate_company_needs_review: 'flag_for_review', // Shared domain, different names
+
+  // Property analysis (Epic 10) - property definitions are changed by hand in HubSpot
+  low_fill_rate_property: 'flag_for_review',
+  unused_property: 'flag_for_review',
+  near_duplicate_property: 'flag_for_review',
+  unused_enum_option: 'flag_for_review',
+  property_recommendation: 'flag_for_review',
+
+  // List hygiene (Epic 11)
+  empty_list: 'flag_for_review',
+  stale_static_list: 'flag_for_review',
+  overlapping_lists: 'flag_for_review',
+  unsubscribed_list_member: 'remove_from_list',
+  bounced_list_member: 'remove_from_list',
+
+  // Marketing optimization - downgrade to non-marketing
+  bounced_marketing_contact: 'set_marketing_status',
+  unengaged_marketing_contact: 'set_marketing_status',
+  non_icp_marketing_contact: 'set_marketing_status',
+
+  // Company data quality - values that cannot be corrected automatically are reviewed
+  unnormalized_domain: 'update_property',
+  nonstandard_industry: 'update_property',
+  unnormalized_employee_count: 'update_property',
+  unnormalized_annual_revenue: 'update_property',
+  invalid_domain: 'flag_for_review',
+  implausible_employee_count: 'flag_for_review',
+  implausible_annual_revenue: 'flag_for_review',
+
+  // Deal hygiene - pipeline decisions belong to the deal owner
+  closed_won_missing_close_date: 'update_property',
+  closed_won_unknown_close_date: 'flag_for_review', // No won date to derive it from
+  past_close_date: 'flag_for_review',
+  closed_won_missing_amount: 'flag_for_review',
+  stuck_deal: 'flag_for_review',
+  deal_missing_association: 'flag_for_review',
+  outlier_deal_amount: 'flag_for_review',
+
+  // Association integrity
+  unassociated_contact: 'create_association',
+  association_domain_mismatch: 'flag_for_review',
+
+  // Lifecycle stage
+  lead_with_open_deal: 'update_property',
+  customer_without_won_deal: 'update_property',
+  lifecycle_regression: 'update_property',
+  lifecycle_behind_company: 'update_property',
+
+  // Owner assignment
+  missing_owner: 'update_property',
+  inactive_owner: 'update_property',
+  split_contact_ownership: 'flag_for_review',
+
+  // Email deliverability
+  email_domain_typo: 'update_property',
+  hard_bounced_email: 'flag_for_review',
+  disposable_email: 'flag_for_review',
+  role_based_email: 'flag_for_review',
+  free_mail_on_b2b: 'flag_for_review',
+
+  // Compliance (GDPR/consent)
+  retention_period_exceeded: 'delete_contact',
+  marketing_contact_without_legal_basis: 'set_marketing_status',
+  gdpr_marketing_contact_without_consent: 'set_marketing_status',
+  gdpr_contact_without_consent: 'flag_for_review',
+
+  // ICP fit
+  icp_fit_score: 'update_property',
+  icp_fit_tier: 'update_property',
+
+  // Job title standardization
+  nonstandard_job_title: 'update_property',
+  job_seniority_mismatch: 'update_property',
+  job_department_mismatch: 'update_property',
+
+  // Address normalization
+  nonstandard_country: 'update_property',
+  nonstandard_state: 'update_property',
+  postal_code_format: 'update_property',
+  invalid_state: 'flag_for_review',
+  invalid_postal_code: 'flag_for_review',
+  city_state_mismatch: 'flag_for_review',
+
+  // Junk records
+  junk_record: 'delete_contact',
+  possible_junk_record: 'flag_for_review',
+
+  // Enumeration drift
+  enum_value_variant: 'update_property',
+  invalid_enum_value: 'update_property',
+  unmapped_enum_value: 'flag_for_review',
+  similar_enum_options: 'flag_for_review',
+};
+
 /**
  * Configuration for action generation
  */
@@ -66,6 +186,7 @@ export class PlanBuilder {
 
     const planId = randomUUID();
     const actions: Action[] = [];
+    const actionsByIssue = new Map<string, Action>();
 
     // Convert each issue into an action
     for (const issue of auditResult.issues) {
@@ -77,9 +198,12 @@ export class PlanBuilder {
       const action = this.issueToAction(issue);
       if (action) {
         actions.push(action);
+        actionsByIssue.set(issue.id, action);
       }
     }
 
+    this.linkDependencies(auditResult.issues, actionsByIssue);
+
     // Build summary statistics
     const summary = this.buildSummary(actions, auditResult.summary.ai_cost_usd);
 
@@ -149,35 +273,40 @@ export class PlanBuilder {
   }
 
   /**
-   * Determine the action type from an issue
+   * Turn issue dependencies into action dependencies
+   * A dependency on an issue that produced no action (e.g. skipped for low
+   * confidence) is replaced by that issue's own dependencies
    */
-  private determineActionType(issue: AuditIssue): ActionType | null {
-    const { type } = issue;
-
-    // Map issue types to action types
-    if (
-      type === 'missing_required_field' ||
-      type === 'invalid_email_format' ||
-      type === 'invalid_phone_format' ||
-      type === 'invalid_url_format' ||
-      type === 'obvious_typo' ||
-      type === 'name_typo' ||
-      type === 'semantic_anomaly'
-    ) {
-      return 'update_property';
-    }
+  private linkDependencies(issues: AuditIssue[], actionsByIssue: Map<string, Action>): void {
+    const issuesById = new Map(issues.map((issue) => [issue.id, issue]));
 
-    if (type === 'stale_contact') {
-      // Could be delete or remove from marketing
-      return 'set_marketing_status'; // Default to downgrade marketing status
+    const resolve = (issueId: string): string[] => {
+      const action = actionsByIssue.get(issueId);
+      if (action) {
+        return [action.id];
+      }
+      return (issuesById.get(issueId)?.dependsOn ?? []).flatMap(resolve);
+    };
+
+    for (const [issueId, action] of actionsByIssue) {
+      const dependencies = (issuesById.get(issueId)?.dependsOn ?? []).flatMap(resolve);
+      if (dependencies.length > 0) {
+        action.dependencies = [...new Set(dependencies)];
+      }
     }
+  }
 
-    if (type === 'duplicate') {
-      return 'merge_contacts';
+  /**
+   * Determine the action type from an issue
+   */
+  private determineActionType(issue: AuditIssue): ActionType | null {
+    const actionType = ISSUE_ACTION_TYPES[issue.type];
+    if (actionType) {
+      return actionType;
     }
 
-    // Add more mappings as new audit types are implemented
-    logger.warn({ issueType: type }, 'Unknown issue type, cannot map to action');
+    // Add more mappings to ISSUE_ACTION_TYPES as new audit types are implemented
+    logger.warn({ issueType: issue.type }, 'Unknown issue type, cannot map to action');
     return null;
   }
 
@@ -185,6 +314,10 @@ export class PlanBuilder {
    * Generate a human-readable display name for the target object
    */
   private generateDisplayName(issue: AuditIssue): string {
+    if (issue.displayName) {
+      return issue.displayName;
+    }
+
     // For contacts, try to build a name from current values
     if (issue.objectType === 'contact') {
       // If the issue has current values that look like name fields
@@ -207,6 +340,12 @@ export class PlanBuilder {
   private extractPropertyName(issue: AuditIssue): string | undefined {
     const { type, description } = issue;
 
+    // Audits that know the affected property report it directly
+    if (issue.property) return issue.property;
+
+    // Merges change whole records, not one property
+    if (type.startsWith('duplicate_company')) return undefined;
+
     // Try to extract from issue type
     if (type === 'missing_required_field' && description.includes(':')) {
       const parts = description.split(':');
@@ -260,6 +399,7 @@ export class PlanBuilder {
       confidence_factors: this.extractConfidenceFactors(issue),
       thinking_excerpt: undefined, // Would be populated from Claude's thinking blocks
       explored_alternatives: undefined, // Would be populated from exploratory analysis
+      tool_trace: issue.tool_trace,
     };
 
     return aiReasoning;
@@ -306,9 +446,12 @@ export class PlanBuilder {
         return true; // Can toggle status back
       case 'create_association':
         return true; // Can remove association
+      case 'flag_for_review':
+        return true; // Nothing is changed in HubSpot
       case 'delete_contact':
         return false; // Depends on HubSpot's soft delete support
       case 'merge_contacts':
+      case 'merge_companies':
         return false; // NOT REVERSIBLE - secondary record permanently deleted
       default:
         return false;
@@ -380,6 +523,7 @@ export class PlanBuilder {
       by_detection_method,
       estimated_api_calls,
       estimated_ai_cost_usd: aiCostUsd,
+      estimated_marketing_contacts_freed: PlanBuilder.estimateMarketingContactsFreed(actions),
     };
   }
 
@@ -400,6 +544,16 @@ export class PlanBuilder {
     };
   }
 
+  /**
+   * Estimate billed marketing-contact slots freed by a set of actions
+   * Each downgrade to non-marketing frees one slot; other actions free none
+   */
+  static estimateMarketingContactsFreed(actions: Action[]): number {
+    return actions.filter(
+      (a) => a.type === 'set_marketing_status' && a.change.new_value === false
+    ).length;
+  }
+
   /**
    * Filter actions by confidence level
    */
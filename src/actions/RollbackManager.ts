@@ -7,9 +7,10 @@ import { readdir } from 'fs/promises';
 import { join } from 'path';
 import type { HubSpotService } from '../services/HubSpotService.js';
 import type { Config } from '../types/config.js';
-import type { ExecutionRecord, ExecutedAction } from '../types/actions.js';
+import type { ExecutionRecord, ExecutedAction, RollbackData } from '../types/actions.js';
 import { ActionPlan } from './ActionPlan.js';
 import { createLogger } from '../utils/logger.js';
+import { isLifecycleStageRegression } from '../utils/lifecycle.js';
 
 const logger = createLogger('RollbackManager');
 
@@ -129,7 +130,8 @@ export class RollbackManager {
       throw new RollbackError('No rollback data', action.action_id);
     }
 
-    const { object_type, object_id, property, original_value } = action.rollback_data;
+    const data = action.rollback_data;
+    const { object_type, object_id, property, original_value } = data;
 
     logger.info(
       { actionId: action.action_id, object_type, object_id, property },
@@ -140,7 +142,70 @@ export class RollbackManager {
     const stringValue = original_value === null || original_value === undefined
       ? ''
       : String(original_value);
-    const properties = { [property]: stringValue };
+
+    if (property === 'lifecyclestage' && stringValue !== '') {
+      await this.restoreLifecycleStage(action, data, stringValue);
+    } else {
+      await this.updateObject(action, data, { [property]: stringValue });
+    }
+  }
+
+  /**
+   * Restore a lifecycle stage
+   * HubSpot only moves lifecycle stage backwards once it has been cleared.
+   * If the original stage is then rejected, the current stage is written back.
+   */
+  private async restoreLifecycleStage(
+    action: ExecutedAction,
+    data: RollbackData,
+    stage: string
+  ): Promise<void> {
+    const { object_type, object_id } = data;
+    let current: string;
+    switch (object_type) {
+      case 'contact':
+        current = (await this.hubspot.getContact(object_id)).properties.lifecyclestage ?? '';
+        break;
+      case 'company':
+        current = (await this.hubspot.getCompany(object_id)).properties.lifecyclestage ?? '';
+        break;
+      default:
+        throw new RollbackError(
+          `Unsupported object type for lifecycle stage: ${object_type}`,
+          action.action_id
+        );
+    }
+
+    if (!isLifecycleStageRegression(current, stage)) {
+      await this.updateObject(action, data, { lifecyclestage: stage });
+      return;
+    }
+
+    await this.updateObject(action, data, { lifecyclestage: '' });
+    try {
+      await this.updateObject(action, data, { lifecyclestage: stage });
+    } catch (error) {
+      try {
+        await this.updateObject(action, data, { lifecyclestage: current });
+      } catch (restoreError) {
+        logger.error(
+          { actionId: action.action_id, object_id, current, error: restoreError },
+          'Failed to restore lifecycle stage after a rejected rollback'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write properties to the object in the action's rollback data
+   */
+  private async updateObject(
+    action: ExecutedAction,
+    data: RollbackData,
+    properties: Record<string, string>
+  ): Promise<void> {
+    const { object_type, object_id } = data;
 
     switch (object_type) {
       case 'contact':
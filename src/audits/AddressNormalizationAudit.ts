@@ -0,0 +1,372 @@
+/**
+ * Address Normalization Audit
+ *
+ * Rule-based audit of country, state, postal code and city values on
+ * contacts and companies, using the bundled ISO 3166 tables in utils/countries.
+ *
+ * Detects:
+ * - Country spellings that differ from the standard form ("USA", "U.S.")
+ * - State spellings that differ from the standard form ("Calif", "California")
+ * - States that do not exist in the record's country
+ * - Postal codes in the wrong format, or invalid for the country
+ * - Cities that belong to a different state than the one on the record
+ *
+ * Formatting fixes become property updates; values that can't be
+ * corrected automatically are flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Company, Contact, ObjectType } from '../types/hubspot.js';
+import type { AddressNormalizationConfig } from '../types/config.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  ISO_COUNTRIES,
+  MAJOR_CITIES,
+  POSTAL_CODE_FORMATS,
+  SUBDIVISIONS,
+  placeKey,
+  resolveCountryCode,
+  resolveSubdivisionCode,
+} from '../utils/countries.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('address-normalization-audit');
+
+const ADDRESS_PROPERTIES = ['country', 'state', 'city', 'zip'];
+
+/**
+ * A record with address properties
+ */
+interface AddressRecord {
+  objectType: ObjectType;
+  record: Contact | Company;
+  displayName?: string;
+}
+
+/**
+ * Issue details produced by a single check
+ */
+interface AddressIssueData {
+  type: string;
+  severity: Severity;
+  property: string;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class AddressNormalizationAudit implements AuditModule {
+  name = 'address-normalization';
+  description = 'Standardize countries and states and check postal codes and cities';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.address_normalization;
+    logger.info('Starting address normalization audit');
+
+    context.progress.start('Loading records...');
+    const records: AddressRecord[] = [];
+    for (const objectType of config.object_types) {
+      records.push(...(await this.loadRecords(objectType, context)));
+    }
+
+    if (records.length === 0) {
+      context.progress.succeed('No records to check');
+      return buildEmptyAuditResult(this.name, 'No records found for the configured object types');
+    }
+
+    context.progress.update('Checking addresses...');
+    const issues: AuditIssue[] = [];
+
+    for (const entry of records) {
+      const { country } = entry.record.properties;
+      const countryCode =
+        resolveCountryCode(country) ??
+        (country?.trim() ? undefined : resolveCountryCode(config.default_country));
+
+      const findings = [
+        this.checkCountry(entry, config),
+        countryCode ? this.checkState(entry, countryCode, config) : null,
+        countryCode && config.check_postal_codes ? this.checkPostalCode(entry, countryCode) : null,
+        countryCode && config.check_city_state ? this.checkCityState(entry, countryCode) : null,
+      ];
+
+      for (const finding of findings) {
+        if (finding) issues.push(this.createIssue(entry, finding));
+      }
+    }
+
+    const summary = buildAuditSummary(issues, records.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Address normalization audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} address issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadRecords(
+    objectType: AddressNormalizationConfig['object_types'][number],
+    context: AuditContext
+  ): Promise<AddressRecord[]> {
+    const records: AddressRecord[] = [];
+
+    switch (objectType) {
+      case 'contacts':
+        for await (const batch of context.hubspot.getContacts(['email', ...ADDRESS_PROPERTIES])) {
+          for (const contact of batch) {
+            records.push({
+              objectType: 'contact',
+              record: contact,
+              displayName: contact.properties.email ?? undefined,
+            });
+          }
+        }
+        break;
+
+      case 'companies':
+        for await (const batch of context.hubspot.getCompanies(['name', ...ADDRESS_PROPERTIES])) {
+          for (const company of batch) {
+            records.push({
+              objectType: 'company',
+              record: company,
+              displayName: company.properties.name ?? undefined,
+            });
+          }
+        }
+        break;
+    }
+
+    return records;
+  }
+
+  /**
+   * Country values should use one spelling per country
+   */
+  private checkCountry(
+    entry: AddressRecord,
+    config: AddressNormalizationConfig
+  ): AddressIssueData | null {
+    const { country } = entry.record.properties;
+    const code = resolveCountryCode(country);
+    if (!country || !code) return null;
+
+    const standard = config.country_format === 'alpha2' ? code : ISO_COUNTRIES[code][1];
+    if (country === standard) return null;
+
+    return {
+      type: 'nonstandard_country',
+      severity: 'low',
+      property: 'country',
+      description: `Country "${country}" should be "${standard}"`,
+      currentValue: country,
+      suggestedValue: standard,
+      confidence: 'high',
+      reasoning: `"${country}" matches ISO 3166 country ${code}`,
+    };
+  }
+
+  /**
+   * State values should use one spelling per state and exist in the country
+   */
+  private checkState(
+    entry: AddressRecord,
+    countryCode: string,
+    config: AddressNormalizationConfig
+  ): AddressIssueData | null {
+    const { state } = entry.record.properties;
+    const subdivisions = SUBDIVISIONS[countryCode];
+    if (!state?.trim() || !subdivisions) return null;
+
+    const code = resolveSubdivisionCode(state, countryCode);
+    const countryName = ISO_COUNTRIES[countryCode][1];
+
+    if (!code) {
+      return {
+        type: 'invalid_state',
+        severity: 'medium',
+        property: 'state',
+        description: `State "${state}" is not a subdivision of ${countryName}`,
+        currentValue: { state, country: entry.record.properties.country ?? null },
+        confidence: 'medium',
+        reasoning: `"${state}" does not match any ISO 3166-2 subdivision of ${countryName}; the state or country may be wrong`,
+      };
+    }
+
+    const standard = config.state_format === 'code' ? code : subdivisions[code];
+    if (state === standard) return null;
+
+    return {
+      type: 'nonstandard_state',
+      severity: 'low',
+      property: 'state',
+      description: `State "${state}" should be "${standard}"`,
+      currentValue: state,
+      suggestedValue: standard,
+      confidence: 'high',
+      reasoning: `"${state}" matches ISO 3166-2 subdivision ${countryCode}-${code}`,
+    };
+  }
+
+  /**
+   * Postal codes should match the country's format
+   */
+  private checkPostalCode(entry: AddressRecord, countryCode: string): AddressIssueData | null {
+    const { zip } = entry.record.properties;
+    const format = POSTAL_CODE_FORMATS[countryCode];
+    if (!zip?.trim() || !format) return null;
+
+    const standard = format(zip.toUpperCase().replace(/[\s-]/g, ''));
+    const countryName = ISO_COUNTRIES[countryCode][1];
+
+    if (!standard) {
+      return {
+        type: 'invalid_postal_code',
+        severity: 'medium',
+        property: 'zip',
+        description: `Postal code "${zip}" is not valid for ${countryName}`,
+        currentValue: { zip, country: entry.record.properties.country ?? null },
+        confidence: 'high',
+        reasoning: `"${zip}" does not match the ${countryName} postal code format; the postal code or country may be wrong`,
+      };
+    }
+
+    if (zip === standard) return null;
+
+    // Restoring a dropped leading zero is a guess; spacing and casing fixes are not
+    const padded = standard.replace(/[\s-]/g, '').length > zip.replace(/[\s-]/g, '').length;
+
+    return {
+      type: 'postal_code_format',
+      severity: 'low',
+      property: 'zip',
+      description: `Postal code "${zip}" should be "${standard}"`,
+      currentValue: zip,
+      suggestedValue: standard,
+      confidence: padded ? 'medium' : 'high',
+      reasoning: padded
+        ? `"${zip}" looks like a ${countryName} postal code that lost its leading zero`
+        : `Standard ${countryName} postal code format`,
+    };
+  }
+
+  /**
+   * A major city on the record should be in the record's state
+   */
+  private checkCityState(entry: AddressRecord, countryCode: string): AddressIssueData | null {
+    const { city, state } = entry.record.properties;
+    if (!city || !state) return null;
+
+    const stateCode = resolveSubdivisionCode(state, countryCode);
+    const cityState = MAJOR_CITIES[countryCode]?.[placeKey(city)];
+    if (!stateCode || !cityState || cityState === stateCode) return null;
+
+    const subdivisions = SUBDIVISIONS[countryCode];
+
+    return {
+      type: 'city_state_mismatch',
+      severity: 'medium',
+      property: 'state',
+      description: `${city} is in ${subdivisions[cityState]}, but state is "${state}"`,
+      currentValue: { city, state },
+      suggestedValue: { city, state: cityState },
+      confidence: 'medium',
+      reasoning: `${city} is in ${subdivisions[cityState]} (${cityState}); either the city or the state is wrong`,
+    };
+  }
+
+  /**
+   * Create an audit issue for a record
+   */
+  private createIssue(entry: AddressRecord, issueData: AddressIssueData): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: entry.objectType,
+      objectId: entry.record.id,
+      displayName: entry.displayName,
+      property: issueData.property,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const countries = count('nonstandard_country');
+    const states = count('nonstandard_state');
+    const invalidStates = count('invalid_state');
+    const postalFormat = count('postal_code_format');
+    const invalidPostal = count('invalid_postal_code');
+    const mismatches = count('city_state_mismatch');
+
+    if (countries > 0) {
+      const spellings = new Map<string, number>();
+      for (const issue of issues.filter((i) => i.type === 'nonstandard_country')) {
+        const key = `"${String(issue.currentValue)}" -> "${String(issue.suggestedValue)}"`;
+        spellings.set(key, (spellings.get(key) ?? 0) + 1);
+      }
+      const top = [...spellings.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+      patterns.push(
+        `${countries} nonstandard country values (most common: ${top.map(([k, n]) => `${k} x${n}`).join(', ')})`
+      );
+    }
+    if (states > 0) {
+      patterns.push(`${states} nonstandard state values`);
+    }
+    if (countries + states > 0) {
+      recommendations.push('Use dropdown properties for country and state on forms');
+    }
+    if (postalFormat > 0) {
+      patterns.push(`${postalFormat} postal codes in a nonstandard format`);
+      recommendations.push('Import postal codes as text so leading zeros are kept');
+    }
+    if (invalidPostal + invalidStates > 0) {
+      patterns.push(
+        `${invalidPostal + invalidStates} postal codes or states don't exist in the record's country`
+      );
+    }
+    if (mismatches > 0) {
+      patterns.push(`${mismatches} records have a city in a different state`);
+      recommendations.push('Enrich addresses from a verified source before territory routing');
+    }
+
+    return {
+      summary: `Found ${issues.length} address issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
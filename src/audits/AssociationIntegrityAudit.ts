@@ -0,0 +1,265 @@
+/**
+ * Association Integrity Audit
+ *
+ * Rule-based audit of contact-to-company associations, matched by the
+ * contact's corporate email domain against company domains.
+ *
+ * Detects:
+ * - Contacts with no company whose email domain matches exactly one company
+ * - Contacts associated with a company whose domain conflicts with their email
+ *
+ * Unambiguous matches become create_association actions; conflicts are
+ * flagged for review since the contact may have changed jobs.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Company, Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { extractEmailDomain, normalizeDomain } from '../utils/matching.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('association-integrity-audit');
+
+export class AssociationIntegrityAudit implements AuditModule {
+  name = 'association-integrity';
+  description = 'Detect contacts missing or mismatched company associations';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting association integrity audit');
+
+    context.progress.start('Loading companies...');
+    const companies = await this.loadCompanies(context);
+    const companiesByDomain = this.indexByDomain(companies);
+
+    context.progress.update('Loading contacts...');
+    const contacts = await this.loadCorporateContacts(context);
+
+    if (contacts.length === 0 || companiesByDomain.size === 0) {
+      context.progress.succeed('Nothing to match');
+      return buildEmptyAuditResult(
+        this.name,
+        'No contacts with corporate email domains or no companies with domains'
+      );
+    }
+
+    const { max_contacts_to_check } = context.config.association_integrity;
+    const toCheck = contacts.slice(0, max_contacts_to_check);
+    if (toCheck.length < contacts.length) {
+      logger.info(
+        { checking: toCheck.length, total: contacts.length },
+        'Limiting contact association checks'
+      );
+    }
+
+    const companiesById = new Map(companies.map((c) => [c.id, c]));
+    const issues: AuditIssue[] = [];
+
+    for (const [index, contact] of toCheck.entries()) {
+      if (index % 100 === 0) {
+        context.progress.update(
+          `Checking associations...`,
+          Math.round((index / toCheck.length) * 100)
+        );
+      }
+
+      try {
+        const issue = await this.checkContact(contact, companiesByDomain, companiesById, context);
+        if (issue) issues.push(issue);
+      } catch (error) {
+        logger.error({ contactId: contact.id, error }, 'Failed to check contact associations');
+      }
+    }
+
+    const summary = buildAuditSummary(issues, toCheck.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Association integrity audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} association issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadCompanies(context: AuditContext): Promise<Company[]> {
+    const companies: Company[] = [];
+
+    for await (const batch of context.hubspot.getCompanies(['name', 'domain'])) {
+      companies.push(...batch);
+    }
+
+    return companies;
+  }
+
+  /**
+   * Load contacts whose email domain can identify a company
+   */
+  private async loadCorporateContacts(context: AuditContext): Promise<Contact[]> {
+    const personalDomains = new Set(
+      context.config.association_integrity.personal_email_domains.map((d) => d.toLowerCase())
+    );
+    const contacts: Contact[] = [];
+
+    for await (const batch of context.hubspot.getContacts(['email', 'firstname', 'lastname'])) {
+      for (const contact of batch) {
+        const domain = extractEmailDomain(contact.properties.email);
+        if (domain && !personalDomains.has(domain)) contacts.push(contact);
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Index companies by normalized domain
+   */
+  private indexByDomain(companies: Company[]): Map<string, Company[]> {
+    const index = new Map<string, Company[]>();
+
+    for (const company of companies) {
+      const domain = normalizeDomain(company.properties.domain);
+      if (!domain) continue;
+
+      const matches = index.get(domain) ?? [];
+      matches.push(company);
+      index.set(domain, matches);
+    }
+
+    return index;
+  }
+
+  /**
+   * Compare a contact's company associations with its email domain
+   */
+  private async checkContact(
+    contact: Contact,
+    companiesByDomain: Map<string, Company[]>,
+    companiesById: Map<string, Company>,
+    context: AuditContext
+  ): Promise<AuditIssue | null> {
+    const emailDomain = extractEmailDomain(contact.properties.email);
+    const matches = companiesByDomain.get(emailDomain) ?? [];
+    const associations = await context.hubspot.getAssociations('contacts', contact.id, 'companies');
+
+    if (associations.length === 0) {
+      // Several companies share the domain - picking one would be a guess
+      if (matches.length !== 1) return null;
+
+      const company = matches[0];
+      return this.createIssue(contact, {
+        type: 'unassociated_contact',
+        severity: 'medium',
+        description: `Contact has no company; email domain matches "${company.properties.name ?? emailDomain}"`,
+        currentValue: null,
+        suggestedValue: { type: 'company', id: company.id },
+        confidence: 'high',
+        reasoning: `Email domain ${emailDomain} matches exactly one company's domain`,
+      });
+    }
+
+    const associatedDomains = associations
+      .map((a) => normalizeDomain(companiesById.get(a.id)?.properties.domain))
+      .filter((d) => d !== '');
+
+    // Only judge when every associated company has a known domain
+    if (associatedDomains.length < associations.length) return null;
+    if (associatedDomains.some((d) => this.domainsMatch(emailDomain, d))) return null;
+
+    const associated = associations.map((a) => companiesById.get(a.id)?.properties.name ?? a.id);
+    return this.createIssue(contact, {
+      type: 'association_domain_mismatch',
+      severity: 'medium',
+      description: `Email domain ${emailDomain} does not match associated company domain ${associatedDomains.join(', ')}`,
+      currentValue: { email_domain: emailDomain, companies: associated },
+      suggestedValue: matches.length === 1 ? { type: 'company', id: matches[0].id } : undefined,
+      confidence: 'medium',
+      reasoning:
+        matches.length === 1
+          ? `Email domain matches "${matches[0].properties.name ?? emailDomain}"; the contact may have changed companies`
+          : 'The contact may have changed companies or be associated with the wrong record',
+    });
+  }
+
+  /**
+   * Email domains on a subdomain of the company domain still belong to it
+   */
+  private domainsMatch(emailDomain: string, companyDomain: string): boolean {
+    return emailDomain === companyDomain || emailDomain.endsWith(`.${companyDomain}`);
+  }
+
+  /**
+   * Create an audit issue for a contact
+   */
+  private createIssue(
+    contact: Contact,
+    issueData: {
+      type: string;
+      severity: Severity;
+      description: string;
+      currentValue?: unknown;
+      suggestedValue?: unknown;
+      confidence: ConfidenceLevel;
+      reasoning: string;
+    }
+  ): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: contact.properties.email ?? undefined,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const missing = issues.filter((i) => i.type === 'unassociated_contact').length;
+    const mismatched = issues.filter((i) => i.type === 'association_domain_mismatch').length;
+
+    if (missing > 0) {
+      patterns.push(`${missing} contacts can be associated with a company by email domain`);
+      recommendations.push(
+        'Enable automatic company association in HubSpot settings to associate new contacts by domain'
+      );
+    }
+    if (mismatched > 0) {
+      patterns.push(`${mismatched} contacts are associated with a company on a different domain`);
+      recommendations.push('Check mismatched contacts for job changes before reassigning them');
+    }
+
+    return {
+      summary: `Found ${issues.length} association issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
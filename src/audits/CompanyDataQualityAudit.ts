@@ -0,0 +1,405 @@
+/**
+ * Company Data Quality Audit
+ *
+ * Rule-based checks for company records, the company-side counterpart of
+ * DataQualityAudit.
+ *
+ * Detects:
+ * - Missing required company fields (rules.required_company_fields)
+ * - Invalid or unnormalized domains (protocol, "www.", path)
+ * - Industry values that rules.industry_mappings maps to a standard value
+ * - Implausible or unnormalized employee counts and annual revenue
+ *
+ * Fixable findings become update_property actions on the company; values
+ * that cannot be corrected automatically are flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Company } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { normalizeDomain } from '../utils/matching.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('company-data-quality-audit');
+
+// Upper bounds for plausible values - the largest employers and companies stay well below these
+const MAX_PLAUSIBLE_EMPLOYEES = 3_000_000;
+const MAX_PLAUSIBLE_REVENUE = 1_000_000_000_000;
+const MAX_PLAUSIBLE_REVENUE_PER_EMPLOYEE = 20_000_000;
+
+const NUMBER_SUFFIXES: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+};
+
+/**
+ * Issue details produced by a single check
+ */
+interface CompanyIssueData {
+  type: string;
+  severity: Severity;
+  property: string;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class CompanyDataQualityAudit implements AuditModule {
+  name = 'company-data-quality';
+  description = 'Detect missing fields, bad domains and implausible values in companies';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting company data quality audit');
+
+    context.progress.start('Loading companies...');
+    const companies = await this.loadCompanies(context);
+
+    if (companies.length === 0) {
+      context.progress.succeed('No companies found');
+      return buildEmptyAuditResult(this.name, 'No companies found for data quality audit');
+    }
+
+    context.progress.update(`Checking ${companies.length} companies...`);
+    const industryMappings = this.buildIndustryMappings(context);
+
+    const issues: AuditIssue[] = [];
+    for (const company of companies) {
+      const found = [
+        ...this.checkRequiredFields(company, context),
+        this.checkDomain(company),
+        this.checkIndustry(company, industryMappings),
+        ...this.checkEmployeesAndRevenue(company),
+      ];
+
+      for (const issueData of found) {
+        if (issueData) issues.push(this.createIssue(company, issueData));
+      }
+    }
+
+    const summary = buildAuditSummary(issues, companies.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Company data quality audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} issues in ${companies.length} companies`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load all companies with the properties the checks need
+   */
+  private async loadCompanies(context: AuditContext): Promise<Company[]> {
+    const companies: Company[] = [];
+    const properties = [
+      ...new Set([
+        ...context.config.rules.required_company_fields,
+        'name',
+        'domain',
+        'website',
+        'industry',
+        'numberofemployees',
+        'annualrevenue',
+      ]),
+    ];
+
+    for await (const batch of context.hubspot.getCompanies(properties)) {
+      companies.push(...batch);
+    }
+
+    return companies;
+  }
+
+  /**
+   * Check required company fields
+   * A missing domain can be filled from the website
+   */
+  private checkRequiredFields(company: Company, context: AuditContext): CompanyIssueData[] {
+    const issues: CompanyIssueData[] = [];
+
+    for (const field of context.config.rules.required_company_fields) {
+      const value = company.properties[field];
+      if (value && value.trim() !== '') continue;
+
+      const domainFromWebsite =
+        field === 'domain' ? normalizeDomain(company.properties.website) : '';
+
+      issues.push({
+        type: 'missing_required_field',
+        severity: 'high',
+        property: field,
+        description: `Missing required field: ${field}`,
+        suggestedValue: domainFromWebsite || undefined,
+        confidence: domainFromWebsite ? 'high' : 'medium',
+        reasoning: domainFromWebsite
+          ? `Domain derived from website "${company.properties.website}"`
+          : `Required company field "${field}" is empty`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check that the domain is a bare, lowercase domain
+   */
+  private checkDomain(company: Company): CompanyIssueData | null {
+    const domain = company.properties.domain;
+    if (!domain || domain.trim() === '') return null;
+
+    const normalized = normalizeDomain(domain);
+
+    if (!normalized) {
+      return {
+        type: 'invalid_domain',
+        severity: 'medium',
+        property: 'domain',
+        description: `Invalid company domain: "${domain}"`,
+        currentValue: domain,
+        confidence: 'medium',
+        reasoning: 'Domain cannot be parsed; HubSpot uses it for company matching and enrichment',
+      };
+    }
+
+    if (normalized !== domain) {
+      return {
+        type: 'unnormalized_domain',
+        severity: 'low',
+        property: 'domain',
+        description: `Domain should be a bare domain: "${domain}" → "${normalized}"`,
+        currentValue: domain,
+        suggestedValue: normalized,
+        confidence: 'high',
+        reasoning:
+          'HubSpot expects domains without protocol, "www." or path; otherwise association by email domain fails',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Lowercased lookup table for rules.industry_mappings
+   */
+  private buildIndustryMappings(context: AuditContext): Map<string, string> {
+    const mappings = new Map<string, string>();
+    for (const [from, to] of Object.entries(context.config.rules.industry_mappings)) {
+      mappings.set(from.trim().toLowerCase(), to);
+    }
+    return mappings;
+  }
+
+  /**
+   * Check industry against rules.industry_mappings
+   */
+  private checkIndustry(company: Company, mappings: Map<string, string>): CompanyIssueData | null {
+    const industry = company.properties.industry;
+    if (!industry || mappings.size === 0) return null;
+
+    const mapped = mappings.get(industry.trim().toLowerCase());
+    if (!mapped || mapped === industry) return null;
+
+    return {
+      type: 'nonstandard_industry',
+      severity: 'low',
+      property: 'industry',
+      description: `Industry "${industry}" should be "${mapped}"`,
+      currentValue: industry,
+      suggestedValue: mapped,
+      confidence: 'high',
+      reasoning: 'Mapped by rules.industry_mappings to keep segmentation and reporting consistent',
+    };
+  }
+
+  /**
+   * Check employee count and annual revenue are numbers in a plausible range
+   */
+  private checkEmployeesAndRevenue(company: Company): CompanyIssueData[] {
+    const issues: CompanyIssueData[] = [];
+
+    const employees = this.checkNumericValue(company, 'numberofemployees', {
+      label: 'Employee count',
+      issueSuffix: 'employee_count',
+      integer: true,
+      max: MAX_PLAUSIBLE_EMPLOYEES,
+    });
+    const revenue = this.checkNumericValue(company, 'annualrevenue', {
+      label: 'Annual revenue',
+      issueSuffix: 'annual_revenue',
+      integer: false,
+      max: MAX_PLAUSIBLE_REVENUE,
+    });
+
+    if (employees.issue) issues.push(employees.issue);
+    if (revenue.issue) issues.push(revenue.issue);
+
+    // Cross-check only when both values are individually plausible
+    if (!employees.issue && !revenue.issue && employees.value && revenue.value) {
+      const revenuePerEmployee = revenue.value / employees.value;
+      if (revenuePerEmployee > MAX_PLAUSIBLE_REVENUE_PER_EMPLOYEE) {
+        issues.push({
+          type: 'implausible_annual_revenue',
+          severity: 'medium',
+          property: 'annualrevenue',
+          description: `Annual revenue of ${revenue.value.toLocaleString()} is implausible for ${employees.value.toLocaleString()} employees`,
+          currentValue: company.properties.annualrevenue,
+          confidence: 'medium',
+          reasoning:
+            'Revenue per employee is far above any real company; the value may be in the wrong unit or currency',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Parse and range-check a numeric company property
+   * Formatted values like "1,200" or "$2.5M" are normalized to plain numbers
+   */
+  private checkNumericValue(
+    company: Company,
+    property: string,
+    options: { label: string; issueSuffix: string; integer: boolean; max: number }
+  ): { value: number | null; issue: CompanyIssueData | null } {
+    const raw = company.properties[property];
+    if (!raw || raw.trim() === '') return { value: null, issue: null };
+
+    const value = this.parseNumber(raw);
+
+    if (value === null || value <= 0 || value > options.max) {
+      return {
+        value,
+        issue: {
+          type: `implausible_${options.issueSuffix}`,
+          severity: 'medium',
+          property,
+          description: `Implausible ${options.label.toLowerCase()}: "${raw}"`,
+          currentValue: raw,
+          confidence: 'medium',
+          reasoning: `${options.label} must be a positive number no greater than ${options.max.toLocaleString()}`,
+        },
+      };
+    }
+
+    const normalized = options.integer ? Math.round(value) : value;
+    if (String(normalized) !== raw.trim()) {
+      return {
+        value,
+        issue: {
+          type: `unnormalized_${options.issueSuffix}`,
+          severity: 'low',
+          property,
+          description: `${options.label} should be a plain number: "${raw}" → ${normalized}`,
+          currentValue: raw,
+          suggestedValue: normalized,
+          confidence: 'high',
+          reasoning: 'HubSpot number properties cannot be filtered or sorted when stored as text',
+        },
+      };
+    }
+
+    return { value, issue: null };
+  }
+
+  /**
+   * Parse a formatted number such as "1,200", "$2.5M" or "10k"
+   */
+  private parseNumber(raw: string): number | null {
+    const match = raw
+      .trim()
+      .toLowerCase()
+      .replace(/[$€£,\s]/g, '')
+      .match(/^(-?\d+(?:\.\d+)?)([kmb])?$/);
+    if (!match) return null;
+
+    const multiplier = match[2] ? NUMBER_SUFFIXES[match[2]] : 1;
+    return parseFloat(match[1]) * multiplier;
+  }
+
+  /**
+   * Create an audit issue for a company
+   */
+  private createIssue(company: Company, issueData: CompanyIssueData): AuditIssue {
+    const name = company.properties.name ?? company.properties.domain;
+
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'company',
+      objectId: company.id,
+      displayName: name ? `Company "${name}"` : undefined,
+      property: issueData.property,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const count = (...types: string[]): number =>
+      issues.filter((i) => types.includes(i.type)).length;
+    const missing = count('missing_required_field');
+    const domains = count('invalid_domain', 'unnormalized_domain');
+    const industries = count('nonstandard_industry');
+    const numbers = count(
+      'implausible_employee_count',
+      'unnormalized_employee_count',
+      'implausible_annual_revenue',
+      'unnormalized_annual_revenue'
+    );
+
+    if (missing > 0) {
+      patterns.push(`${missing} missing required company fields`);
+      recommendations.push('Make required company fields mandatory on forms and imports');
+    }
+    if (domains > 0) {
+      patterns.push(`${domains} companies with invalid or unnormalized domains`);
+      recommendations.push('Normalize domains on import so contacts associate by email domain');
+    }
+    if (industries > 0) {
+      patterns.push(`${industries} companies use non-standard industry values`);
+      recommendations.push('Use a dropdown industry property instead of free text');
+    }
+    if (numbers > 0) {
+      patterns.push(`${numbers} employee count or revenue values are malformed or implausible`);
+    }
+
+    return {
+      summary: `Found ${issues.length} company data quality issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
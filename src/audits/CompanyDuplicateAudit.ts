@@ -0,0 +1,539 @@
+/**
+ * Company Duplicate Audit
+ *
+ * Rule-based duplicate detection for companies, the company-side
+ * counterpart of DuplicateDetectionAudit. Duplicate companies split deals,
+ * contacts and revenue attribution across records.
+ *
+ * Two companies are duplicates when they have equivalent names (isSameCompany) and:
+ * - Share a normalized domain (domain, or website when the domain is empty), or
+ * - Share an E.164 phone number
+ * Social, hosting and personal email domains never count as a shared domain.
+ * Companies that share a domain but not a name are only flagged for review.
+ *
+ * Matches are clustered (A~B and B~C is one company) and become chained
+ * merge_companies actions, preceded by golden record updates on the primary.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { DuplicateDetectionConfig } from '../config/schema.js';
+import type { Company } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { forEachCandidatePair } from '../utils/blocking.js';
+import { clusterLinks } from '../utils/clustering.js';
+import { buildGoldenRecord, selectPrimary, type GoldenValue } from '../utils/survivorship.js';
+import { isSameCompany, normalizeDomain, normalizePhone } from '../utils/matching.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('company-duplicate-audit');
+
+const CONFIDENCE_SCORES: Record<ConfidenceLevel, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Two companies that look like the same organization
+ */
+interface CompanyPair {
+  company1: Company;
+  company2: Company;
+  match_type: 'domain' | 'name_and_phone';
+  confidence: ConfidenceLevel;
+  domain: string; // Shared domain, empty when the domains differ
+  domain_match: boolean;
+  name_match: boolean;
+  phone_match: boolean;
+}
+
+/**
+ * Companies that are all the same organization, linked directly or transitively
+ */
+interface CompanyCluster {
+  primary: Company;
+  secondaries: Company[]; // Merged into the primary one after another
+  pairs: CompanyPair[];
+  golden_record: Record<string, GoldenValue>;
+}
+
+export class CompanyDuplicateAudit implements AuditModule {
+  name = 'company-duplicates';
+  description = 'Detect duplicate companies by domain, name and shared phone number';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting company duplicate audit');
+
+    context.progress.start('Loading companies...');
+    const companies = await this.loadCompanies(context);
+
+    if (companies.length < 2) {
+      context.progress.succeed('Not enough companies to compare');
+      return buildEmptyAuditResult(this.name, 'Not enough companies for duplicate detection');
+    }
+
+    context.progress.update(`Comparing ${companies.length} companies...`);
+    const config = context.config.duplicate_detection;
+    const pairs = this.findPairs(companies, this.buildIgnoredDomains(context), config);
+
+    // Only equivalent names are merged; a shared domain alone can be a group of brands
+    const reviewPairs = pairs.filter((p) => !p.name_match);
+    const clusters = this.buildClusters(
+      pairs.filter((p) => p.name_match),
+      config
+    );
+    const issues = [
+      ...clusters.flatMap((cluster) => this.createClusterIssues(cluster)),
+      ...reviewPairs.map((pair) => this.createReviewIssue(pair)),
+    ];
+
+    const summary = buildAuditSummary(issues, companies.length, 0);
+    const ai_insights = this.generateInsights(clusters, reviewPairs);
+
+    logger.info(
+      {
+        elapsedMs: Date.now() - startTime,
+        pairs: pairs.length,
+        clusters: clusters.length,
+        issuesFound: issues.length,
+      },
+      'Company duplicate audit complete'
+    );
+    context.progress.succeed(
+      `Found ${clusters.length} duplicate groups in ${companies.length} companies`
+    );
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load all companies with the properties matching and survivorship need
+   */
+  private async loadCompanies(context: AuditContext): Promise<Company[]> {
+    const companies: Company[] = [];
+    const properties = [
+      ...new Set([
+        'name',
+        'domain',
+        'website',
+        'phone',
+        'createdate',
+        'hs_lastmodifieddate',
+        ...context.config.duplicate_detection.companies.survivorship_properties,
+      ]),
+    ];
+
+    for await (const batch of context.hubspot.getCompanies(properties)) {
+      companies.push(...batch);
+    }
+
+    return companies;
+  }
+
+  /**
+   * Domains that never identify one company: configured social and hosting
+   * domains plus personal email domains
+   */
+  private buildIgnoredDomains(context: AuditContext): string[] {
+    return [
+      ...context.config.duplicate_detection.companies.ignored_domains,
+      ...context.config.association_integrity.personal_email_domains,
+    ]
+      .map((domain) => normalizeDomain(domain))
+      .filter(Boolean);
+  }
+
+  /**
+   * Compare companies that share a domain, name token or phone suffix
+   */
+  private findPairs(
+    companies: Company[],
+    ignoredDomains: string[],
+    config: DuplicateDetectionConfig
+  ): CompanyPair[] {
+    const pairs: CompanyPair[] = [];
+    const byId = new Map(companies.map((c) => [c.id, c]));
+    const domains = new Map(companies.map((c) => [c.id, this.getDomain(c, ignoredDomains)]));
+
+    // Blocking reads contact-style properties, so expose the company fields under those names
+    const records = companies.map((c) => ({
+      id: c.id,
+      properties: {
+        domain: domains.get(c.id)!,
+        company: c.properties.name,
+        phone: c.properties.phone,
+      },
+    }));
+
+    const blocking = forEachCandidatePair(
+      records,
+      {
+        keys: ['domain', 'company_token', 'phone_suffix'],
+        maxBlockSize: config.max_block_size,
+        phoneSuffixLength: config.phone_suffix_length,
+        countryCode: config.default_country_code,
+      },
+      (record1, record2) => {
+        const pair = this.comparePair(
+          byId.get(record1.id)!,
+          byId.get(record2.id)!,
+          domains,
+          config
+        );
+        if (pair) pairs.push(pair);
+      }
+    );
+
+    logger.info(
+      {
+        candidatePairs: blocking.candidate_pairs,
+        reductionRatio: blocking.reduction_ratio,
+        oversizedBlocks: blocking.oversized_blocks,
+        duplicatePairs: pairs.length,
+      },
+      'Company candidate pairs compared'
+    );
+
+    return pairs;
+  }
+
+  /**
+   * Decide whether two companies are duplicates
+   * Names need a shared domain or phone, since similar names and shared
+   * switchboard numbers are common on their own. A shared domain with
+   * different names is returned without name_match, for review only.
+   */
+  private comparePair(
+    company1: Company,
+    company2: Company,
+    domains: Map<string, string>,
+    config: DuplicateDetectionConfig
+  ): CompanyPair | null {
+    const domain1 = domains.get(company1.id)!;
+    const domain2 = domains.get(company2.id)!;
+    const domain_match = domain1 !== '' && domain1 === domain2;
+    const name_match = isSameCompany(
+      company1.properties.name,
+      company2.properties.name,
+      config.field_algorithms.company
+    );
+    const phone_match = this.phonesMatch(company1, company2, config.default_country_code);
+
+    const factors = {
+      company1,
+      company2,
+      domain: domain_match ? domain1 : '',
+      domain_match,
+      name_match,
+      phone_match,
+    };
+
+    if (domain_match && config.companies.domain_match) {
+      return {
+        ...factors,
+        match_type: 'domain',
+        // Different names on one domain can be divisions or brands of a group
+        confidence: name_match ? 'high' : 'medium',
+      };
+    }
+
+    if (name_match && phone_match && config.companies.name_and_phone_match) {
+      return {
+        ...factors,
+        match_type: 'name_and_phone',
+        // Two different domains can be regional entities sharing a head office number
+        confidence: domain1 && domain2 ? 'medium' : 'high',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Normalized domain, falling back to the website; ignored domains and
+   * their subdomains (acme.wixsite.com) are skipped
+   */
+  private getDomain(company: Company, ignoredDomains: string[]): string {
+    const candidates = [company.properties.domain, company.properties.website].map((value) =>
+      normalizeDomain(value)
+    );
+
+    return (
+      candidates.find(
+        (domain) =>
+          domain !== '' &&
+          !ignoredDomains.some((ignored) => domain === ignored || domain.endsWith(`.${ignored}`))
+      ) ?? ''
+    );
+  }
+
+  /**
+   * Check if two companies share a phone number that normalizes to E.164
+   */
+  private phonesMatch(company1: Company, company2: Company, countryCode: string): boolean {
+    const phone1 = normalizePhone(company1.properties.phone, countryCode);
+    const phone2 = normalizePhone(company2.properties.phone, countryCode);
+    return phone1.startsWith('+') && phone1 === phone2;
+  }
+
+  /**
+   * Group pairs into clusters and choose each cluster's primary by the
+   * survivorship primary rule
+   */
+  private buildClusters(pairs: CompanyPair[], config: DuplicateDetectionConfig): CompanyCluster[] {
+    const companies = new Map<string, Company>();
+    for (const pair of pairs) {
+      companies.set(pair.company1.id, pair.company1);
+      companies.set(pair.company2.id, pair.company2);
+    }
+
+    const survivorship = {
+      ...config.survivorship,
+      properties: config.companies.survivorship_properties,
+    };
+
+    const clusterIds = clusterLinks(pairs.map((p) => [p.company1.id, p.company2.id]));
+    const clusterOf = new Map<string, number>();
+    clusterIds.forEach((ids, index) => ids.forEach((id) => clusterOf.set(id, index)));
+
+    const clusterPairs: CompanyPair[][] = clusterIds.map(() => []);
+    for (const pair of pairs) {
+      clusterPairs[clusterOf.get(pair.company1.id)!].push(pair);
+    }
+
+    return clusterIds.map((ids, index) => {
+      const members = ids.map((id) => companies.get(id)!);
+      const primary = selectPrimary(members, survivorship.primary);
+
+      return {
+        primary,
+        secondaries: members.filter((c) => c !== primary),
+        pairs: clusterPairs[index],
+        golden_record: buildGoldenRecord(primary, members, survivorship),
+      };
+    });
+  }
+
+  /**
+   * Create the issues for one cluster: golden record updates on the primary,
+   * then one merge per secondary company, chained through dependsOn
+   */
+  private createClusterIssues(cluster: CompanyCluster): AuditIssue[] {
+    const merges: AuditIssue[] = [];
+    const clusterIds = [cluster.primary, ...cluster.secondaries].map((c) => c.id);
+
+    for (const secondary of cluster.secondaries) {
+      const pair = this.findLinkingPair(cluster, secondary.id);
+      const issue = this.createMergeIssue(pair, cluster, secondary);
+
+      const previous = merges[merges.length - 1];
+      if (previous) {
+        issue.dependsOn = [previous.id];
+      }
+
+      issue.currentValue = {
+        ...(issue.currentValue as object),
+        ...(cluster.secondaries.length > 1 && { cluster: clusterIds }),
+        golden_record: cluster.golden_record,
+      };
+
+      merges.push(issue);
+    }
+
+    // Updates are planned with the merges, so they take the lowest merge confidence
+    const confidence = merges.reduce<ConfidenceLevel>(
+      (lowest, m) =>
+        CONFIDENCE_SCORES[m.confidence] < CONFIDENCE_SCORES[lowest] ? m.confidence : lowest,
+      'high'
+    );
+    const updates = Object.entries(cluster.golden_record)
+      .filter(([property, golden]) => cluster.primary.properties[property] !== golden.value)
+      .map(
+        ([property, golden]): AuditIssue => ({
+          id: randomUUID(),
+          type: 'golden_record_value',
+          severity: 'low',
+          objectType: 'company',
+          objectId: cluster.primary.id,
+          displayName: this.getDisplayName(cluster.primary),
+          property,
+          description: `Set ${property} to "${golden.value}" from company ${golden.source} before merging`,
+          currentValue: cluster.primary.properties[property] ?? undefined,
+          suggestedValue: golden.value,
+          confidence,
+          detection_method: 'rule',
+          reasoning: `Survivorship rule "${golden.rule.replace(/_/g, ' ')}" picks company ${golden.source}'s ${property} for the merged record`,
+        })
+      );
+
+    if (updates.length > 0) {
+      merges[0].dependsOn = updates.map((u) => u.id);
+    }
+
+    return [...updates, ...merges];
+  }
+
+  /**
+   * Strongest evidence for a secondary company: its pair with the primary
+   * if there is one, otherwise its most confident pair in the cluster
+   */
+  private findLinkingPair(cluster: CompanyCluster, companyId: string): CompanyPair {
+    const involving = cluster.pairs.filter(
+      (p) => p.company1.id === companyId || p.company2.id === companyId
+    );
+    const withPrimary = involving.find(
+      (p) => p.company1.id === cluster.primary.id || p.company2.id === cluster.primary.id
+    );
+
+    return (
+      withPrimary ??
+      involving.reduce((best, pair) =>
+        CONFIDENCE_SCORES[pair.confidence] > CONFIDENCE_SCORES[best.confidence] ? pair : best
+      )
+    );
+  }
+
+  /**
+   * Merge issue for one secondary company
+   */
+  private createMergeIssue(
+    pair: CompanyPair,
+    cluster: CompanyCluster,
+    secondary: Company
+  ): AuditIssue {
+    const primary = cluster.primary;
+    const severity: Severity = pair.confidence === 'high' ? 'high' : 'medium';
+
+    return {
+      id: randomUUID(),
+      type: 'duplicate_company',
+      severity,
+      objectType: 'company',
+      objectId: primary.id,
+      displayName: this.getDisplayName(primary),
+      description: `Duplicate company: ${this.getDisplayName(secondary)} is the same organization as ${this.getDisplayName(primary)}`,
+      currentValue: {
+        primaryId: primary.id,
+        secondaryId: secondary.id,
+        match_type: pair.match_type,
+        match_factors: {
+          domain_match: pair.domain_match,
+          name_match: pair.name_match,
+          phone_match: pair.phone_match,
+        },
+      },
+      suggestedValue: secondary.id, // Secondary company to merge
+      confidence: pair.confidence,
+      detection_method: 'rule',
+      reasoning: this.buildReasoning(pair),
+    };
+  }
+
+  /**
+   * Review issue for companies that share a domain under different names
+   */
+  private createReviewIssue(pair: CompanyPair): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: 'duplicate_company_needs_review',
+      severity: 'low',
+      objectType: 'company',
+      objectId: pair.company1.id,
+      displayName: this.getDisplayName(pair.company1),
+      description: `Possible duplicate company: ${this.getDisplayName(pair.company2)} shares the domain ${pair.domain} with ${this.getDisplayName(pair.company1)}`,
+      currentValue: {
+        primaryId: pair.company1.id,
+        secondaryId: pair.company2.id,
+        match_type: pair.match_type,
+        match_factors: {
+          domain_match: pair.domain_match,
+          name_match: pair.name_match,
+          phone_match: pair.phone_match,
+        },
+      },
+      suggestedValue: pair.company2.id,
+      confidence: pair.confidence,
+      detection_method: 'rule',
+      reasoning: this.buildReasoning(pair),
+    };
+  }
+
+  /**
+   * Explain why a pair was matched
+   */
+  private buildReasoning(pair: CompanyPair): string {
+    const name1 = pair.company1.properties.name ?? pair.company1.id;
+    const name2 = pair.company2.properties.name ?? pair.company2.id;
+
+    if (pair.match_type === 'domain') {
+      return pair.name_match
+        ? `Both companies use the domain ${pair.domain} and have equivalent names`
+        : `Both companies use the domain ${pair.domain} but are named "${name1}" and "${name2}"; check they are not separate divisions before merging`;
+    }
+
+    return pair.confidence === 'high'
+      ? `"${name1}" and "${name2}" are equivalent names with the same phone number`
+      : `"${name1}" and "${name2}" share a name and phone number but have different domains; HubSpot keeps the secondary domain as an additional domain`;
+  }
+
+  /**
+   * Company name for issue text, falling back to the domain or ID
+   */
+  private getDisplayName(company: Company): string {
+    const name = company.properties.name ?? company.properties.domain;
+    return name ? `Company "${name}"` : `Company ${company.id}`;
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(clusters: CompanyCluster[], reviewPairs: CompanyPair[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const duplicates = clusters.reduce((sum, c) => sum + c.secondaries.length, 0);
+    const byDomain = clusters.filter((c) => c.pairs.some((p) => p.match_type === 'domain')).length;
+    const byNameAndPhone = clusters.length - byDomain;
+
+    if (byDomain > 0) {
+      patterns.push(`${byDomain} groups of companies share a domain`);
+      recommendations.push(
+        'Enable HubSpot company deduplication by domain and require a domain on company imports'
+      );
+    }
+    if (byNameAndPhone > 0) {
+      patterns.push(`${byNameAndPhone} groups share a name and phone number but not a domain`);
+      recommendations.push('Fill in company domains so automatic deduplication can catch these');
+    }
+    if (reviewPairs.length > 0) {
+      patterns.push(`${reviewPairs.length} pairs of differently named companies share a domain`);
+    }
+    if (duplicates > 0) {
+      recommendations.push(
+        'Merge duplicate companies before reporting; deals and contacts on duplicates split revenue attribution'
+      );
+    }
+
+    return {
+      summary: `Found ${duplicates} duplicate companies in ${clusters.length} groups using rule-based matching`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Compliance Audit (GDPR/consent)
+ *
+ * Rule-based audit of legal-basis and consent properties on contacts.
+ *
+ * Detects (in priority order, one finding per contact):
+ * - Non-marketing contacts past the retention period with no recent activity
+ * - Marketing contacts with no legal basis for processing
+ * - Contacts in GDPR countries with no recorded consent date
+ *
+ * Expired records are planned for deletion (always confirmed); marketing
+ * contacts without a basis or consent are demoted to non-marketing.
+ * This audit surfaces gaps in the CRM; it is not legal advice.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { isGdprCountry } from '../utils/countries.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('compliance-audit');
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Legal bases (hs_legal_basis internal values) that do not rely on consent
+const NON_CONSENT_BASES = new Set([
+  'performance_of_contract',
+  'legitimate_interest_prospect',
+  'legitimate_interest_client',
+  'legitimate_interest_other',
+]);
+
+// Any of these within the retention period counts as an active relationship
+const ACTIVITY_PROPERTIES = [
+  'notes_last_contacted',
+  'notes_last_updated',
+  'hs_last_sales_activity_timestamp',
+  'hs_analytics_last_visit_timestamp',
+  'hs_email_last_open_date',
+  'hs_email_last_click_date',
+  'recent_conversion_date',
+];
+
+/**
+ * Issue details produced by a single check
+ */
+interface ComplianceIssueData {
+  type: string;
+  severity: Severity;
+  property?: string;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class ComplianceAudit implements AuditModule {
+  name = 'compliance';
+  description = 'Check legal basis, consent and retention for GDPR compliance';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting compliance audit');
+
+    context.progress.start('Loading contacts...');
+    const contacts = await this.loadContacts(context);
+
+    if (contacts.length === 0) {
+      context.progress.succeed('No contacts to check');
+      return buildEmptyAuditResult(this.name, 'No contacts found');
+    }
+
+    context.progress.update('Checking consent and retention...');
+    const now = Date.now();
+    const issues: AuditIssue[] = [];
+
+    for (const contact of contacts) {
+      const finding =
+        this.checkRetention(contact, now, context) ??
+        this.checkLegalBasis(contact, context) ??
+        this.checkConsent(contact, context);
+
+      if (finding) issues.push(this.createIssue(contact, finding));
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, 0);
+    const ai_insights = this.generateInsights(issues, context);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Compliance audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} compliance issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+    const properties = [
+      'email',
+      'firstname',
+      'lastname',
+      'country',
+      'createdate',
+      'lifecyclestage',
+      'hs_marketable_status',
+      'hs_legal_basis',
+      context.config.compliance.consent_date_property,
+      ...ACTIVITY_PROPERTIES,
+    ];
+
+    for await (const batch of context.hubspot.getContacts(properties)) {
+      contacts.push(...batch);
+    }
+
+    return contacts;
+  }
+
+  private isMarketingContact(contact: Contact): boolean {
+    return contact.properties.hs_marketable_status === 'true';
+  }
+
+  /**
+   * hs_legal_basis is a multi-select (semicolon-separated)
+   */
+  private legalBases(contact: Contact): string[] {
+    return (contact.properties.hs_legal_basis ?? '')
+      .split(';')
+      .map((basis) => basis.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Personal data should not be kept indefinitely without a reason
+   * Marketing contacts are never planned for deletion: the subscription is the reason
+   */
+  private checkRetention(
+    contact: Contact,
+    now: number,
+    context: AuditContext
+  ): ComplianceIssueData | null {
+    const { retention_days, retention_exempt_lifecycle_stages } = context.config.compliance;
+    if (retention_exempt_lifecycle_stages.includes(contact.properties.lifecyclestage ?? '')) {
+      return null;
+    }
+    if (this.isMarketingContact(contact)) return null;
+
+    const timestamps = ['createdate', ...ACTIVITY_PROPERTIES]
+      .map((property) => Date.parse(contact.properties[property] ?? ''))
+      .filter((time) => !Number.isNaN(time));
+    if (timestamps.length === 0) return null;
+
+    const lastSeen = Math.max(...timestamps);
+    const daysInactive = Math.floor((now - lastSeen) / DAY_MS);
+    if (daysInactive <= retention_days) return null;
+
+    return {
+      type: 'retention_period_exceeded',
+      severity: 'medium',
+      description: `No activity for ${daysInactive} days (retention period: ${retention_days})`,
+      currentValue: new Date(lastSeen).toISOString(),
+      confidence: 'medium',
+      reasoning: `Contact has not been created, contacted, engaged with email, converted or visited the website within the ${retention_days}-day retention period`,
+    };
+  }
+
+  /**
+   * Marketing to a contact requires a legal basis for processing
+   */
+  private checkLegalBasis(contact: Contact, context: AuditContext): ComplianceIssueData | null {
+    if (!context.config.compliance.require_legal_basis_for_marketing) return null;
+    if (!this.isMarketingContact(contact) || this.legalBases(contact).length > 0) return null;
+
+    return {
+      type: 'marketing_contact_without_legal_basis',
+      severity: 'high',
+      property: 'hs_marketable_status',
+      description: 'Marketing contact has no legal basis for processing',
+      currentValue: { hs_marketable_status: 'true', hs_legal_basis: null },
+      suggestedValue: false,
+      confidence: 'high',
+      reasoning: 'Marketing email needs a recorded legal basis; demote until a basis is captured',
+    };
+  }
+
+  /**
+   * Consent-based processing in GDPR countries needs proof of when consent was given
+   */
+  private checkConsent(contact: Contact, context: AuditContext): ComplianceIssueData | null {
+    const { additional_gdpr_countries, consent_date_property } = context.config.compliance;
+    const { country } = contact.properties;
+
+    if (!isGdprCountry(country, additional_gdpr_countries)) return null;
+    if (contact.properties[consent_date_property]) return null;
+
+    // Contract and legitimate interest do not depend on consent
+    const bases = this.legalBases(contact);
+    if (bases.length > 0 && bases.every((basis) => NON_CONSENT_BASES.has(basis))) return null;
+
+    if (this.isMarketingContact(contact)) {
+      return {
+        type: 'gdpr_marketing_contact_without_consent',
+        severity: 'high',
+        property: 'hs_marketable_status',
+        description: `Marketing contact in ${country} has no consent date`,
+        currentValue: { country, [consent_date_property]: null },
+        suggestedValue: false,
+        confidence: 'high',
+        reasoning: `Contacts in ${country} need recorded consent before marketing email; demote until consent is captured`,
+      };
+    }
+
+    return {
+      type: 'gdpr_contact_without_consent',
+      severity: 'medium',
+      property: consent_date_property,
+      description: `Contact in ${country} has no consent date`,
+      currentValue: { country, [consent_date_property]: null },
+      confidence: 'medium',
+      reasoning: `Record a consent date or a non-consent legal basis for contacts in ${country}`,
+    };
+  }
+
+  /**
+   * Create an audit issue for a contact
+   */
+  private createIssue(contact: Contact, issueData: ComplianceIssueData): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: contact.properties.email ?? undefined,
+      property: issueData.property,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[], context: AuditContext): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const expired = count('retention_period_exceeded');
+    const noBasis = count('marketing_contact_without_legal_basis');
+    const noConsent =
+      count('gdpr_marketing_contact_without_consent') + count('gdpr_contact_without_consent');
+
+    if (expired > 0) {
+      patterns.push(`${expired} contacts are past the retention period`);
+      recommendations.push('Schedule a recurring workflow to delete contacts past retention');
+    }
+    if (noBasis > 0) {
+      patterns.push(`${noBasis} marketing contacts have no legal basis`);
+      recommendations.push('Set "Legal basis for processing" on every form and import');
+    }
+    if (noConsent > 0) {
+      patterns.push(`${noConsent} contacts in GDPR countries have no consent date`);
+      recommendations.push(
+        `Populate ${context.config.compliance.consent_date_property} when consent is captured`
+      );
+    }
+
+    return {
+      summary: `Found ${issues.length} compliance issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
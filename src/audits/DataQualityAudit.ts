@@ -8,8 +8,10 @@
  * Detects:
  * - Missing required fields
  * - Invalid formats (email, phone, URL)
+ * - Phone numbers not in E.164 format
  * - Stale contacts
  * - Obvious typos (regex-based)
+ * - Name formatting: casing, honorifics, full names, emails and stray characters
  * - Ambiguous typos (AI - reasoning mode)
  * - Semantic anomalies (AI - reasoning mode)
  * - Context-dependent issues (AI - exploratory mode)
@@ -29,9 +31,38 @@ import type {
   ConfidenceLevel,
 } from '../types/audit.js';
 import type { Contact } from '../types/hubspot.js';
+import { formatPersonName, hasUniformCase, splitFullName, stripHonorific } from '../utils/names.js';
+import { DIALING_PLANS, formatPhone, parsePhone } from '../utils/phone.js';
+import { fieldSimilarity } from '../utils/matching.js';
+import { forEachCandidatePair } from '../utils/blocking.js';
 
 const logger = createLogger('data-quality-audit');
 
+/**
+ * Phone properties checked against the dialing plans
+ */
+const PHONE_PROPERTIES: Record<string, string> = {
+  phone: 'Phone',
+  mobilephone: 'Mobile phone',
+};
+
+/**
+ * Fields checked for misspellings of a common value, each compared with its
+ * duplicate_detection.field_algorithms entry. Values are only compared within
+ * a block: first and last names by Soundex code, companies by first word.
+ */
+const TYPO_FIELDS = ['firstname', 'lastname', 'company'] as const;
+
+type TypoField = (typeof TYPO_FIELDS)[number];
+
+/**
+ * Frequency rules for a likely typo: the value itself is rare, and its near
+ * neighbour occurs often and several times as often
+ */
+const MAX_TYPO_VALUE_COUNT = 2;
+const MIN_COMMON_VALUE_COUNT = 3;
+const MIN_COMMON_TO_TYPO_RATIO = 3;
+
 /**
  * Represents a case that needs AI analysis
  */
@@ -48,9 +79,11 @@ interface AmbiguousCase {
  */
 interface ValidationResult {
   valid: boolean;
+  confidence?: ConfidenceLevel; // Overrides the check's default confidence
   issue?: {
     type: string;
     severity: Severity;
+    property?: string;
     description: string;
     currentValue?: unknown;
     suggestedValue?: unknown;
@@ -169,7 +202,10 @@ export class DataQualityAudit implements AuditModule {
     const properties = [
       ...context.config.rules.required_contact_fields,
       'email',
+      'firstname',
+      'lastname',
       'phone',
+      'mobilephone',
       'website',
       'jobtitle',
       'company',
@@ -213,11 +249,14 @@ export class DataQualityAudit implements AuditModule {
         }
       }
 
-      // Check phone format
-      if (contact.properties.phone) {
-        const result = this.validatePhone(contact.properties.phone);
+      // Check phone numbers against the dialing plans
+      for (const [property, label] of Object.entries(PHONE_PROPERTIES)) {
+        const phone = contact.properties[property];
+        if (!phone?.trim()) continue;
+
+        const result = this.validatePhone(phone, property, label, context);
         if (!result.valid && result.issue) {
-          issues.push(this.createIssue(contact, result.issue, 'medium', 'rule'));
+          issues.push(this.createIssue(contact, result.issue, result.confidence ?? 'medium', 'rule'));
         }
       }
 
@@ -286,23 +325,82 @@ export class DataQualityAudit implements AuditModule {
   }
 
   /**
-   * Validate phone format
+   * Validate a phone number and check that it is stored in E.164 format
+   * National numbers are read as numbers of duplicate_detection.default_country_code
    */
-  private validatePhone(phone: string): ValidationResult {
-    // Basic phone validation - at least 10 digits
-    const digitsOnly = phone.replace(/\D/g, '');
-    if (digitsOnly.length < 10) {
+  private validatePhone(
+    phone: string,
+    property: string,
+    label: string,
+    context: AuditContext
+  ): ValidationResult {
+    const config = context.config.duplicate_detection;
+    const parsed = parsePhone(phone, config.default_country_code);
+
+    // No dialing plan for the default country: national numbers can't be checked
+    if (!parsed && /\d/.test(phone)) return { valid: true };
+
+    // A valid national number of another country ("020 7946 0958" under US) is left alone:
+    // without knowing which country, there is no E.164 value to suggest
+    if (parsed && !parsed.valid && !parsed.international && this.isValidInAnyCountry(phone)) {
+      return { valid: true };
+    }
+
+    if (!parsed?.valid) {
+      let description = `${label} appears to be incomplete`;
+      const lengths = parsed?.country ? DIALING_PLANS[parsed.country].lengths : undefined;
+      if (parsed && lengths) {
+        const digits = parsed.nationalNumber.length;
+        description = lengths.includes(digits)
+          ? `${label} is not a valid ${parsed.country} number`
+          : `${label} is not a valid ${parsed.country} number (${digits} digits, expected ${lengths.join(' or ')})`;
+      }
+
       return {
         valid: false,
         issue: {
           type: 'invalid_phone_format',
           severity: 'medium',
-          description: 'Phone number appears to be incomplete',
+          property,
+          description,
           currentValue: phone,
         },
       };
     }
-    return { valid: true };
+
+    const canonical = formatPhone(parsed);
+    if (!config.normalize_phone_numbers || canonical === phone.trim()) {
+      return { valid: true };
+    }
+
+    const details: string[] = [];
+    if (parsed.lineType !== 'unknown') {
+      details.push(parsed.lineType === 'mobile' ? 'mobile number' : 'landline');
+    }
+    if (!parsed.international) {
+      details.push(`read as a ${parsed.country} number`);
+    }
+
+    return {
+      valid: false,
+      // A national number is only as right as the default country
+      confidence: parsed.international ? 'high' : 'medium',
+      issue: {
+        type: 'nonstandard_phone_format',
+        severity: 'low',
+        property,
+        description: `${label} is not in E.164 format${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+        currentValue: phone,
+        suggestedValue: canonical,
+      },
+    };
+  }
+
+  /**
+   * Check whether a national number is valid under any bundled dialing plan
+   */
+  private isValidInAnyCountry(phone: string): boolean {
+    return Object.keys(DIALING_PLANS).some((country) => parsePhone(phone, country)?.valid);
   }
 
   /**
@@ -365,10 +463,13 @@ export class DataQualityAudit implements AuditModule {
    * Check for obvious typos using regex patterns
    */
   private checkObviousTypos(contact: Contact): ValidationResult[] {
-    const results: ValidationResult[] = [];
+    const results: ValidationResult[] = this.checkNameFormatting(contact);
+
+    // Name formatting suggestions already collapse whitespace
+    const formatted = new Set(results.map((r) => r.issue?.property));
 
     // Check firstname for obvious issues
-    if (contact.properties.firstname) {
+    if (contact.properties.firstname && !formatted.has('firstname')) {
       const name = contact.properties.firstname;
       // Multiple consecutive spaces
       if (/\s{2,}/.test(name)) {
@@ -377,6 +478,7 @@ export class DataQualityAudit implements AuditModule {
           issue: {
             type: 'obvious_typo',
             severity: 'low',
+            property: 'firstname',
             description: 'First name contains multiple consecutive spaces',
             currentValue: name,
             suggestedValue: name.replace(/\s+/g, ' ').trim(),
@@ -390,6 +492,7 @@ export class DataQualityAudit implements AuditModule {
           issue: {
             type: 'obvious_typo',
             severity: 'low',
+            property: 'firstname',
             description: 'First name has leading/trailing spaces',
             currentValue: name,
             suggestedValue: name.trim(),
@@ -399,7 +502,7 @@ export class DataQualityAudit implements AuditModule {
     }
 
     // Check lastname for obvious issues
-    if (contact.properties.lastname) {
+    if (contact.properties.lastname && !formatted.has('lastname')) {
       const name = contact.properties.lastname;
       if (/\s{2,}/.test(name) || name !== name.trim()) {
         results.push({
@@ -407,6 +510,7 @@ export class DataQualityAudit implements AuditModule {
           issue: {
             type: 'obvious_typo',
             severity: 'low',
+            property: 'lastname',
             description: 'Last name has formatting issues',
             currentValue: name,
             suggestedValue: name.replace(/\s+/g, ' ').trim(),
@@ -424,6 +528,7 @@ export class DataQualityAudit implements AuditModule {
           issue: {
             type: 'obvious_typo',
             severity: 'low',
+            property: 'company',
             description: 'Company name has formatting issues',
             currentValue: company,
             suggestedValue: company.replace(/\s+/g, ' ').trim(),
@@ -435,6 +540,109 @@ export class DataQualityAudit implements AuditModule {
     return results;
   }
 
+  /**
+   * Check name fields for casing, honorifics, full names, emails and stray characters
+   *
+   * Produces at most one issue per field; the suggested value applies every fix.
+   */
+  private checkNameFormatting(contact: Contact): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const lastname = contact.properties.lastname?.replace(/\s+/g, ' ').trim() ?? '';
+    const fields = [
+      { property: 'firstname', label: 'First name' },
+      { property: 'lastname', label: 'Last name' },
+    ];
+
+    for (const { property, label } of fields) {
+      const current = contact.properties[property];
+      let name = current?.replace(/\s+/g, ' ').trim() ?? '';
+      if (!name) continue;
+
+      // An email address can't be turned back into a name reliably
+      if (/[^\s@]+@[^\s@]+\.[^\s@]+/.test(name)) {
+        results.push({
+          valid: false,
+          issue: {
+            type: 'email_in_name',
+            severity: 'medium',
+            property,
+            description: `${label} contains an email address`,
+            currentValue: current,
+          },
+        });
+        continue;
+      }
+
+      let type: string | undefined;
+      const problems: string[] = [];
+
+      const cleaned = name
+        .replace(/\d|\p{Extended_Pictographic}|\u200d|\ufe0f/gu, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (cleaned !== name) {
+        type ??= 'invalid_name_characters';
+        problems.push('contains digits or emoji');
+        name = cleaned;
+      }
+
+      const withoutHonorific = property === 'firstname' ? stripHonorific(name) : null;
+      if (withoutHonorific) {
+        type ??= 'honorific_in_name';
+        problems.push('starts with an honorific');
+        name = withoutHonorific;
+      }
+
+      if (hasUniformCase(name)) {
+        const cased = formatPersonName(name, property === 'lastname');
+        if (cased !== name) {
+          type ??= 'name_casing';
+          problems.push(`is all ${name === name.toUpperCase() ? 'upper' : 'lower'} case`);
+          name = cased;
+        }
+      }
+
+      // A full name in firstname with no lastname is split across both fields
+      const split = property === 'firstname' && !lastname ? splitFullName(name) : null;
+      if (split) {
+        type ??= 'full_name_in_firstname';
+        problems.push('holds a full name while last name is empty');
+        name = split[0];
+      }
+
+      // Nothing left to suggest (e.g. a name made only of digits)
+      if (!type || !name) continue;
+
+      results.push({
+        valid: false,
+        issue: {
+          type,
+          severity: type === 'name_casing' ? 'low' : 'medium',
+          property,
+          description: `${label} ${problems.join(' and ')}`,
+          currentValue: current,
+          suggestedValue: name,
+        },
+      });
+
+      if (split) {
+        results.push({
+          valid: false,
+          issue: {
+            type,
+            severity: 'medium',
+            property: 'lastname',
+            description: 'Last name is empty but first name holds a full name',
+            currentValue: contact.properties.lastname,
+            suggestedValue: split[1],
+          },
+        });
+      }
+    }
+
+    return results;
+  }
+
   /**
    * PHASE 2: Identify ambiguous cases that need AI analysis
    */
@@ -447,14 +655,17 @@ export class DataQualityAudit implements AuditModule {
 
     // Get contacts that don't already have rule-based issues
     const contactsWithIssues = new Set(ruleBasedIssues.map((i) => i.objectId));
+    const likelyTypos = context.config.data_quality.analyze_name_typos
+      ? this.findLikelyTypos(contacts, context)
+      : null;
 
     for (const contact of contacts) {
       // Skip if already has high-confidence issues
       if (contactsWithIssues.has(contact.id)) continue;
 
       // Check for ambiguous name typos
-      if (context.config.data_quality.analyze_name_typos) {
-        const nameCase = this.checkAmbiguousNameTypos(contact);
+      if (likelyTypos) {
+        const nameCase = this.checkAmbiguousNameTypos(contact, likelyTypos);
         if (nameCase) cases.push(nameCase);
       }
 
@@ -468,10 +679,74 @@ export class DataQualityAudit implements AuditModule {
     return cases;
   }
 
+  /**
+   * Map rare values of each typo field to a much more common spelling they are
+   * close to, e.g. "Smiht" -> "Smith" when many contacts are "Smith".
+   * Distinct values are compared through blocking rather than all against all.
+   */
+  private findLikelyTypos(
+    contacts: Contact[],
+    context: AuditContext
+  ): Record<TypoField, Map<string, string>> {
+    const { field_algorithms, fuzzy_match_threshold, max_block_size, phone_suffix_length } =
+      context.config.duplicate_detection;
+    const likelyTypos = {} as Record<TypoField, Map<string, string>>;
+
+    for (const field of TYPO_FIELDS) {
+      const counts = new Map<string, number>();
+      for (const contact of contacts) {
+        const value = contact.properties[field]?.trim();
+        if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+
+      // Blocking reads contact-style properties, so first names are exposed as last names
+      const records = [...counts.keys()].map((value) => ({
+        id: value,
+        properties: field === 'company' ? { company: value } : { lastname: value },
+      }));
+
+      const typos = new Map<string, string>();
+      forEachCandidatePair(
+        records,
+        {
+          keys: [field === 'company' ? 'company_token' : 'last_name_phonetic'],
+          maxBlockSize: max_block_size,
+          phoneSuffixLength: phone_suffix_length,
+        },
+        ({ id: value1 }, { id: value2 }) => {
+          const [rare, common] =
+            counts.get(value1)! <= counts.get(value2)! ? [value1, value2] : [value2, value1];
+          const rareCount = counts.get(rare)!;
+          const commonCount = counts.get(common)!;
+          if (
+            rareCount > MAX_TYPO_VALUE_COUNT ||
+            commonCount < Math.max(MIN_COMMON_VALUE_COUNT, rareCount * MIN_COMMON_TO_TYPO_RATIO)
+          ) {
+            return;
+          }
+
+          // A score of 1.0 only differs in case or diacritics, which the formatting checks cover
+          const score = fieldSimilarity(rare, common, field_algorithms[field]);
+          if (score < fuzzy_match_threshold || score >= 1.0) return;
+
+          const previous = typos.get(rare);
+          if (!previous || counts.get(previous)! < commonCount) typos.set(rare, common);
+        }
+      );
+
+      likelyTypos[field] = typos;
+    }
+
+    return likelyTypos;
+  }
+
   /**
    * Check for ambiguous name typos that need AI reasoning
    */
-  private checkAmbiguousNameTypos(contact: Contact): AmbiguousCase | null {
+  private checkAmbiguousNameTypos(
+    contact: Contact,
+    likelyTypos: Record<TypoField, Map<string, string>>
+  ): AmbiguousCase | null {
     const firstname = contact.properties.firstname;
     const lastname = contact.properties.lastname;
 
@@ -500,6 +775,21 @@ export class DataQualityAudit implements AuditModule {
       }
     }
 
+    // Rare spelling close to a much more common one
+    for (const field of TYPO_FIELDS) {
+      const value = contact.properties[field]?.trim();
+      const common = value ? likelyTypos[field].get(value) : undefined;
+      if (common) {
+        return {
+          contact,
+          type: 'name_typo',
+          description: `${field} "${value}" may be a misspelling of the more common "${common}"`,
+          needsReasoning: true,
+          needsExploration: false,
+        };
+      }
+    }
+
     return null;
   }
 
@@ -771,6 +1061,7 @@ Return a JSON object with the same format as reasoning mode.`;
     issueData: {
       type: string;
       severity: Severity;
+      property?: string;
       description: string;
       currentValue?: unknown;
       suggestedValue?: unknown;
@@ -785,6 +1076,7 @@ Return a JSON object with the same format as reasoning mode.`;
       severity: issueData.severity,
       objectType: 'contact',
       objectId: contact.id,
+      property: issueData.property,
       description: issueData.description,
       currentValue: issueData.currentValue,
       suggestedValue: issueData.suggestedValue,
@@ -0,0 +1,461 @@
+/**
+ * Deal Hygiene Audit
+ *
+ * Rule-based audit of the deal pipeline so forecast numbers can be trusted.
+ *
+ * Detects:
+ * - Open deals whose close date has passed
+ * - Closed-won deals missing an amount or close date
+ * - Deals stuck in a stage much longer than the stage's median
+ * - Deals without an associated contact or company
+ * - Statistical outliers in deal amounts (per pipeline)
+ *
+ * Only a missing close date on a won deal can be filled automatically; the
+ * remaining findings need a sales rep's judgement and are flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Deal } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('deal-hygiene-audit');
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const DEAL_PROPERTIES = [
+  'dealname',
+  'amount',
+  'closedate',
+  'dealstage',
+  'pipeline',
+  'hs_is_closed',
+  'hs_is_closed_won',
+];
+
+// HubSpot keeps one of each per pipeline stage, suffixed with the stage ID
+const DATE_ENTERED_PREFIX = 'hs_date_entered_';
+const TIME_IN_PREFIX = 'hs_time_in_';
+
+/**
+ * Issue details produced by a single check
+ */
+interface DealIssueData {
+  type: string;
+  severity: Severity;
+  property?: string;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class DealHygieneAudit implements AuditModule {
+  name = 'deal-hygiene';
+  description = 'Detect stale, incomplete, stuck, orphaned and outlier deals';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting deal hygiene audit');
+
+    context.progress.start('Loading deals...');
+    const stageIds = await this.loadStageIds(context);
+    const deals = await this.loadDeals(stageIds, context);
+
+    if (deals.length === 0) {
+      context.progress.succeed('No deals found');
+      return buildEmptyAuditResult(this.name, 'No deals found for deal hygiene audit');
+    }
+
+    const issues: AuditIssue[] = [];
+    const now = Date.now();
+
+    context.progress.update(`Checking ${deals.length} deals...`);
+    for (const deal of deals) {
+      const found = [this.checkPastCloseDate(deal, now), ...this.checkClosedWonFields(deal)];
+      for (const issueData of found) {
+        if (issueData) issues.push(this.createIssue(deal, issueData));
+      }
+    }
+
+    issues.push(...this.findStuckDeals(deals, now, context));
+    issues.push(...this.findAmountOutliers(deals, context));
+
+    if (context.config.deal_hygiene.check_associations) {
+      context.progress.update('Checking deal associations...');
+      issues.push(...(await this.findMissingAssociations(deals, context)));
+    }
+
+    const summary = buildAuditSummary(issues, deals.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Deal hygiene audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} issues in ${deals.length} deals`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Find pipeline stage IDs from the per-stage time-in-stage properties
+   */
+  private async loadStageIds(context: AuditContext): Promise<string[]> {
+    const definitions = await context.hubspot.getDealProperties();
+
+    return definitions
+      .filter((p) => p.name.startsWith(TIME_IN_PREFIX))
+      .map((p) => p.name.slice(TIME_IN_PREFIX.length));
+  }
+
+  /**
+   * Load all deals with stage timing properties
+   */
+  private async loadDeals(stageIds: string[], context: AuditContext): Promise<Deal[]> {
+    const deals: Deal[] = [];
+    const properties = [
+      ...DEAL_PROPERTIES,
+      ...stageIds.flatMap((id) => [`${DATE_ENTERED_PREFIX}${id}`, `${TIME_IN_PREFIX}${id}`]),
+    ];
+
+    for await (const batch of context.hubspot.getDeals(properties)) {
+      deals.push(...batch);
+    }
+
+    return deals;
+  }
+
+  private isClosed(deal: Deal): boolean {
+    const { hs_is_closed, dealstage } = deal.properties;
+    return hs_is_closed === 'true' || dealstage === 'closedwon' || dealstage === 'closedlost';
+  }
+
+  private isClosedWon(deal: Deal): boolean {
+    const { hs_is_closed_won, dealstage } = deal.properties;
+    return hs_is_closed_won === 'true' || dealstage === 'closedwon';
+  }
+
+  /**
+   * Open deals with a close date in the past distort the forecast
+   */
+  private checkPastCloseDate(deal: Deal, now: number): DealIssueData | null {
+    const closeDate = deal.properties.closedate;
+    if (this.isClosed(deal) || !closeDate) return null;
+
+    const closeTime = new Date(closeDate).getTime();
+    if (isNaN(closeTime) || closeTime >= now) return null;
+
+    const daysOverdue = Math.floor((now - closeTime) / DAY_MS);
+    return {
+      type: 'past_close_date',
+      severity: daysOverdue > 90 ? 'high' : 'medium',
+      property: 'closedate',
+      description: `Open deal's close date passed ${daysOverdue} days ago`,
+      currentValue: closeDate,
+      confidence: 'high',
+      reasoning: 'Overdue close dates make the deal count toward a period that has already ended',
+    };
+  }
+
+  /**
+   * Closed-won deals need an amount and close date for revenue reporting
+   */
+  private checkClosedWonFields(deal: Deal): DealIssueData[] {
+    if (!this.isClosedWon(deal)) return [];
+
+    const issues: DealIssueData[] = [];
+    const { amount, closedate, dealstage } = deal.properties;
+
+    if (!amount || amount.trim() === '') {
+      issues.push({
+        type: 'closed_won_missing_amount',
+        severity: 'high',
+        property: 'amount',
+        description: 'Closed-won deal has no amount',
+        confidence: 'high',
+        reasoning: 'Won deals without an amount are missing from revenue reports',
+      });
+    }
+
+    if (!closedate) {
+      // The date the deal entered its (won) stage is when it was won
+      const wonDate = dealstage ? deal.properties[`${DATE_ENTERED_PREFIX}${dealstage}`] : null;
+      issues.push(
+        wonDate
+          ? {
+              type: 'closed_won_missing_close_date',
+              severity: 'high',
+              property: 'closedate',
+              description: 'Closed-won deal has no close date',
+              suggestedValue: wonDate,
+              confidence: 'medium',
+              reasoning: `Deal entered the won stage on ${wonDate.split('T')[0]}`,
+            }
+          : {
+              // Without a won date there is nothing to write; the owner has to supply it
+              type: 'closed_won_unknown_close_date',
+              severity: 'high',
+              property: 'closedate',
+              description: 'Closed-won deal has no close date and no won date to derive it from',
+              confidence: 'low',
+              reasoning: 'Won deals without a close date are missing from period revenue reports',
+            }
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find open deals that have been in their current stage far longer than usual
+   */
+  private findStuckDeals(deals: Deal[], now: number, context: AuditContext): AuditIssue[] {
+    const { stuck_stage_multiplier, min_stage_samples } = context.config.deal_hygiene;
+
+    // Historical durations from deals that have already left each stage
+    const durationsByStage = new Map<string, number[]>();
+    for (const deal of deals) {
+      for (const [name, value] of Object.entries(deal.properties)) {
+        if (!name.startsWith(TIME_IN_PREFIX) || !value) continue;
+
+        const stageId = name.slice(TIME_IN_PREFIX.length);
+        const duration = Number(value);
+        if (stageId === deal.properties.dealstage || !(duration > 0)) continue;
+
+        const durations = durationsByStage.get(stageId) ?? [];
+        durations.push(duration);
+        durationsByStage.set(stageId, durations);
+      }
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const deal of deals) {
+      const stageId = deal.properties.dealstage;
+      if (this.isClosed(deal) || !stageId) continue;
+
+      const entered = deal.properties[`${DATE_ENTERED_PREFIX}${stageId}`];
+      const durations = durationsByStage.get(stageId);
+      if (!entered || !durations || durations.length < min_stage_samples) continue;
+
+      const timeInStage = now - new Date(entered).getTime();
+      const median = this.median(durations);
+      if (isNaN(timeInStage) || timeInStage <= median * stuck_stage_multiplier) continue;
+
+      const days = Math.floor(timeInStage / DAY_MS);
+      const medianDays = Math.max(1, Math.round(median / DAY_MS));
+      issues.push(
+        this.createIssue(deal, {
+          type: 'stuck_deal',
+          severity: 'medium',
+          property: 'dealstage',
+          description: `Deal has been in stage "${stageId}" for ${days} days (median: ${medianDays} days)`,
+          currentValue: { dealstage: stageId, days_in_stage: days, median_days: medianDays },
+          confidence: 'medium',
+          reasoning: `More than ${stuck_stage_multiplier}x the median time in this stage across ${durations.length} deals`,
+        })
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find amounts outside Tukey fences within each pipeline
+   */
+  private findAmountOutliers(deals: Deal[], context: AuditContext): AuditIssue[] {
+    const { outlier_iqr_multiplier, min_deals_for_outliers } = context.config.deal_hygiene;
+
+    const byPipeline = new Map<string, Array<{ deal: Deal; amount: number }>>();
+    for (const deal of deals) {
+      const amount = Number(deal.properties.amount);
+      if (!deal.properties.amount || !(amount > 0)) continue;
+
+      const pipeline = deal.properties.pipeline ?? 'default';
+      const entries = byPipeline.get(pipeline) ?? [];
+      entries.push({ deal, amount });
+      byPipeline.set(pipeline, entries);
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const [pipeline, entries] of byPipeline) {
+      if (entries.length < min_deals_for_outliers) continue;
+
+      const sorted = entries.map((e) => e.amount).sort((a, b) => a - b);
+      const q1 = this.quantile(sorted, 0.25);
+      const q3 = this.quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      const lower = q1 - outlier_iqr_multiplier * iqr;
+      const upper = q3 + outlier_iqr_multiplier * iqr;
+      const median = this.quantile(sorted, 0.5);
+
+      for (const { deal, amount } of entries) {
+        if (amount >= lower && amount <= upper) continue;
+
+        issues.push(
+          this.createIssue(deal, {
+            type: 'outlier_deal_amount',
+            severity: 'medium',
+            property: 'amount',
+            description: `Amount ${amount.toLocaleString()} is far ${amount > upper ? 'above' : 'below'} the pipeline median of ${median.toLocaleString()}`,
+            currentValue: deal.properties.amount,
+            confidence: 'medium',
+            reasoning: `Outside ${outlier_iqr_multiplier}x the interquartile range of ${entries.length} deals in pipeline "${pipeline}"; check for typos or wrong currency`,
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find deals with no associated contact or company
+   * Open deals are checked first since they drive the forecast
+   */
+  private async findMissingAssociations(
+    deals: Deal[],
+    context: AuditContext
+  ): Promise<AuditIssue[]> {
+    const toCheck = [...deals]
+      .sort((a, b) => Number(this.isClosed(a)) - Number(this.isClosed(b)))
+      .slice(0, context.config.deal_hygiene.max_association_checks);
+
+    if (toCheck.length < deals.length) {
+      logger.info(
+        { checking: toCheck.length, total: deals.length },
+        'Limiting deal association checks'
+      );
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const deal of toCheck) {
+      try {
+        const contacts = await context.hubspot.getAssociations('deals', deal.id, 'contacts');
+        const companies = await context.hubspot.getAssociations('deals', deal.id, 'companies');
+
+        const missing = [
+          ...(contacts.length === 0 ? ['contact'] : []),
+          ...(companies.length === 0 ? ['company'] : []),
+        ];
+        if (missing.length === 0) continue;
+
+        issues.push(
+          this.createIssue(deal, {
+            type: 'deal_missing_association',
+            severity: missing.length === 2 ? 'high' : 'medium',
+            description: `Deal has no associated ${missing.join(' or ')}`,
+            currentValue: { missing },
+            confidence: 'high',
+            reasoning: 'Unassociated deals cannot be attributed to a buyer or account',
+          })
+        );
+      } catch (error) {
+        logger.error({ dealId: deal.id, error }, 'Failed to check deal associations');
+      }
+    }
+
+    return issues;
+  }
+
+  private median(values: number[]): number {
+    return this.quantile(
+      [...values].sort((a, b) => a - b),
+      0.5
+    );
+  }
+
+  /**
+   * Linear-interpolated quantile of an ascending array
+   */
+  private quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  /**
+   * Create an audit issue for a deal
+   */
+  private createIssue(deal: Deal, issueData: DealIssueData): AuditIssue {
+    const name = deal.properties.dealname;
+
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'deal',
+      objectId: deal.id,
+      displayName: name ? `Deal "${name}"` : undefined,
+      property: issueData.property,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const count = (...types: string[]): number =>
+      issues.filter((i) => types.includes(i.type)).length;
+    const pastClose = count('past_close_date');
+    const incompleteWon = count(
+      'closed_won_missing_amount',
+      'closed_won_missing_close_date',
+      'closed_won_unknown_close_date'
+    );
+    const stuck = count('stuck_deal');
+    const unassociated = count('deal_missing_association');
+    const outliers = count('outlier_deal_amount');
+
+    if (pastClose > 0) {
+      patterns.push(`${pastClose} open deals have a close date in the past`);
+      recommendations.push('Have owners update close dates or close out overdue deals weekly');
+    }
+    if (incompleteWon > 0) {
+      patterns.push(`${incompleteWon} missing amounts or close dates on won deals`);
+      recommendations.push('Require amount and close date when moving a deal to closed won');
+    }
+    if (stuck > 0) {
+      patterns.push(`${stuck} deals are stuck in their current stage`);
+      recommendations.push('Review stuck deals in pipeline meetings and close out dead ones');
+    }
+    if (unassociated > 0) {
+      patterns.push(`${unassociated} deals are missing a contact or company association`);
+    }
+    if (outliers > 0) {
+      patterns.push(`${outliers} deal amounts are statistical outliers`);
+    }
+
+    return {
+      summary: `Found ${issues.length} deal hygiene issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
@@ -7,6 +7,9 @@
  * - Tier 3: Deep merge investigation (exploratory mode, context-dependent)
  *
  * This audit showcases the full power of agentic capabilities.
+ *
+ * Tier 3 lets Claude fetch engagement, associations and company data for
+ * both contacts before recommending merge, keep-separate or human review.
  */
 
 import { randomUUID } from 'crypto';
@@ -21,20 +24,65 @@ import type {
   ConfidenceLevel,
   DetectionMethod,
 } from '../types/audit.js';
+import type { DuplicateDetectionConfig } from '../config/schema.js';
+import type { ToolCallRecord } from '../types/actions.js';
+import type { ToolHandler } from '../types/claude.js';
 import type { Contact } from '../types/hubspot.js';
 import { createLogger } from '../utils/logger.js';
 import {
+  canonicalizeEmail,
+  extractEmailDomain,
+  fieldSimilarity,
+  isLikelyNickname,
+  isSameCompany,
   normalizeName,
   normalizePhone,
-  similarityScore,
-  // For future use in Tier 2/3:
-  // extractEmailDomain,
-  // isLikelyNickname,
-  // levenshteinDistance,
 } from '../utils/matching.js';
+import { forEachCandidatePair, type BlockingStats } from '../utils/blocking.js';
+import { clusterLinks } from '../utils/clustering.js';
+import { buildGoldenRecord, selectPrimary, type GoldenValue } from '../utils/survivorship.js';
+import { getDuplicateAnalysisTools, getMergeInvestigationTools } from '../services/tools.js';
+import {
+  buildFuzzyDuplicatePrompt,
+  buildInvestigationPrompt,
+  buildSystemPrompt,
+} from '../services/prompts.js';
 
 const logger = createLogger('DuplicateDetectionAudit');
 
+// Candidate pairs sent to Claude per request
+const AI_BATCH_SIZE = 20;
+
+// Fuzzy pairs at least this similar are decided by rules when other signals agree
+const CLEAR_NAME_SIMILARITY = 0.95;
+
+// Confidence levels as numbers, compared with min_confidence_for_investigation
+const CONFIDENCE_SCORES: Record<ConfidenceLevel, number> = {
+  high: 0.9,
+  medium: 0.6,
+  low: 0.3,
+};
+
+const MERGE_INVESTIGATION_TASKS = [
+  'Fetch engagement, associations and company data for both contacts before deciding',
+  'Decide: merge (same person), keep_separate (different people) or needs_human_review (the evidence conflicts)',
+  'If merging, choose the primary contact and list data on the secondary worth preserving',
+  'Assess the risk of losing history; merges cannot be undone',
+];
+
+const INVESTIGATION_COMPANY_PROPERTIES = [
+  'name',
+  'domain',
+  'industry',
+  'numberofemployees',
+  'lifecyclestage',
+];
+
+/**
+ * Matching algorithm per name/company field
+ */
+type FieldAlgorithms = DuplicateDetectionConfig['field_algorithms'];
+
 /**
  * Internal structure representing a potential duplicate pair
  */
@@ -43,6 +91,7 @@ interface DuplicatePair {
   contact2: Contact;
   match_type:
     | 'exact_email'
+    | 'canonical_email'
     | 'exact_phone_company'
     | 'exact_name_company'
     | 'fuzzy_name'
@@ -73,20 +122,62 @@ interface DuplicatePair {
     data_to_preserve: string[];
     potential_issues: string[];
   };
+
+  // Data Claude fetched during the Tier 3 investigation
+  tool_trace?: ToolCallRecord[];
+}
+
+/**
+ * Contacts that are all the same person, linked directly or transitively
+ */
+interface DuplicateCluster {
+  primary: Contact;
+  secondaries: Contact[]; // Merged into the primary one after another
+  pairs: DuplicatePair[];
+  golden_record: Record<string, GoldenValue>; // Values the primary should end up with
 }
 
 /**
  * Fuzzy candidate for Tier 2 analysis
- * TODO: Will be used in Tier 2 implementation
  */
-// interface FuzzyCandidate {
-//   contact1: Contact;
-//   contact2: Contact;
-//   name_similarity: number;
-//   same_company: boolean;
-//   same_email_domain: boolean;
-//   description: string;
-// }
+interface FuzzyCandidate {
+  contact1: Contact;
+  contact2: Contact;
+  name_similarity: number;
+  nickname_match: boolean;
+  same_company: boolean;
+  same_email_domain: boolean;
+  email_match: boolean;
+  phone_match: boolean;
+  description: string;
+}
+
+/**
+ * Shape returned by the report_duplicates tool
+ */
+interface DuplicateAnalysisResponse {
+  duplicateSets: Array<{
+    contactIds: string[];
+    matchReason: string;
+    confidence: ConfidenceLevel;
+    primaryContactId?: string;
+    mergeStrategy?: string;
+  }>;
+  summary: string;
+}
+
+/**
+ * Shape returned by the report_merge_investigation tool
+ */
+interface MergeInvestigationResponse {
+  decision: 'merge' | 'keep_separate' | 'needs_human_review';
+  primary_contact_id: string;
+  confidence: ConfidenceLevel;
+  rationale: string;
+  risk_assessment: 'low' | 'medium' | 'high';
+  data_to_preserve?: string[];
+  potential_issues?: string[];
+}
 
 /**
  * Duplicate Detection Audit Module
@@ -114,18 +205,50 @@ export class DuplicateDetectionAudit implements AuditModule {
     }
 
     const allPairs: DuplicatePair[] = [];
+    const seenPairs = new Set<string>(); // Pairs already reported by an earlier tier
     let totalAiCost = 0;
 
     // TIER 1: Rule-based exact matching (fast, free, HIGH confidence)
     context.progress.update('Tier 1: Finding exact matches');
     logger.info('Phase 1: Running rule-based exact matching');
 
-    const tier1Pairs = await this.findExactMatches(contacts, context);
+    const tier1Pairs = this.findExactMatches(contacts, seenPairs, context);
     allPairs.push(...tier1Pairs);
     logger.info({ count: tier1Pairs.length }, 'Tier 1 complete: exact matches found');
 
-    // TODO: TIER 2: Fuzzy matching with AI reasoning (will implement next)
-    // TODO: TIER 3: Deep merge investigation (will implement next)
+    // TIER 2: Fuzzy matching with AI reasoning (MEDIUM confidence)
+    let tier2Pairs: DuplicatePair[] = [];
+    let blocking: BlockingStats | undefined;
+    if (context.config.duplicate_detection.enable_fuzzy_matching) {
+      context.progress.update('Tier 2: Finding fuzzy matches');
+      logger.info('Phase 2: Running fuzzy matching');
+
+      const fuzzy = await this.findFuzzyMatches(contacts, seenPairs, context);
+      tier2Pairs = fuzzy.pairs;
+      blocking = fuzzy.blocking;
+      totalAiCost += fuzzy.cost;
+      allPairs.push(...tier2Pairs);
+      logger.info(
+        { count: tier2Pairs.length, ai_cost: fuzzy.cost },
+        'Tier 2 complete: fuzzy matches found'
+      );
+    }
+
+    // TIER 3: Deep merge investigation with agentic exploration
+    let investigated = 0;
+    if (context.config.duplicate_detection.enable_merge_investigation) {
+      context.progress.update('Tier 3: Investigating uncertain matches');
+      logger.info('Phase 3: Running merge investigation');
+
+      const investigation = await this.investigateMerges(allPairs, totalAiCost, context);
+      allPairs.splice(0, allPairs.length, ...investigation.pairs);
+      investigated = investigation.investigated;
+      totalAiCost += investigation.cost;
+      logger.info(
+        { investigated, ai_cost: investigation.cost },
+        'Tier 3 complete: merge investigations finished'
+      );
+    }
 
     // Build final result
     context.progress.update('Generating insights');
@@ -135,15 +258,20 @@ export class DuplicateDetectionAudit implements AuditModule {
       {
         total_pairs: allPairs.length,
         tier1: tier1Pairs.length,
+        tier2: tier2Pairs.length,
+        tier3_investigated: investigated,
         ai_cost: totalAiCost,
         duration_ms: duration,
       },
       'Duplicate detection complete'
     );
 
-    const issues = this.convertPairsToIssues(allPairs);
-    const summary = this.buildSummary(allPairs, contacts.length, totalAiCost);
-    const insights = this.generateInsights(allPairs, totalAiCost > 0);
+    const issues = this.convertPairsToIssues(
+      allPairs,
+      context.config.duplicate_detection.survivorship
+    );
+    const summary = this.buildSummary(issues, contacts.length, totalAiCost);
+    const insights = this.generateInsights(allPairs, totalAiCost > 0, blocking);
 
     context.progress.succeed(`Found ${allPairs.length} duplicate pairs`);
 
@@ -162,7 +290,7 @@ export class DuplicateDetectionAudit implements AuditModule {
   private async loadContacts(context: AuditContext): Promise<Contact[]> {
     const contacts: Contact[] = [];
 
-    const properties = [
+    const properties = new Set([
       'email',
       'firstname',
       'lastname',
@@ -175,10 +303,11 @@ export class DuplicateDetectionAudit implements AuditModule {
       'lastmodifieddate',
       'createdate',
       'hs_object_id',
-    ];
+      ...context.config.duplicate_detection.survivorship.properties,
+    ]);
 
     // Use async generator to load all contacts
-    for await (const batch of context.hubspot.getContacts(properties)) {
+    for await (const batch of context.hubspot.getContacts([...properties])) {
       contacts.push(...batch);
     }
 
@@ -189,28 +318,33 @@ export class DuplicateDetectionAudit implements AuditModule {
    * TIER 1: Find exact matches using rule-based logic
    * Returns high-confidence duplicate pairs
    */
-  private async findExactMatches(
+  private findExactMatches(
     contacts: Contact[],
+    seenPairs: Set<string>,
     context: AuditContext
-  ): Promise<DuplicatePair[]> {
+  ): DuplicatePair[] {
     const pairs: DuplicatePair[] = [];
-    const seenPairs = new Set<string>(); // Track seen pairs to avoid duplicates
 
     const config = context.config.duplicate_detection;
 
     // Exact email match
     if (config.exact_email_match) {
-      pairs.push(...this.findExactEmailMatches(contacts, seenPairs));
+      pairs.push(...this.findExactEmailMatches(contacts, seenPairs, config));
+    }
+
+    // Same mailbox once dots, sub-address tags and domain aliases are removed
+    if (config.canonical_email_match) {
+      pairs.push(...this.findCanonicalEmailMatches(contacts, seenPairs, config));
     }
 
     // Exact phone + company match
     if (config.exact_phone_and_company_match) {
-      pairs.push(...this.findExactPhoneAndCompanyMatches(contacts, seenPairs));
+      pairs.push(...this.findExactPhoneAndCompanyMatches(contacts, seenPairs, config));
     }
 
     // Exact name + company match
     if (config.exact_name_and_company_match) {
-      pairs.push(...this.findExactNameAndCompanyMatches(contacts, seenPairs));
+      pairs.push(...this.findExactNameAndCompanyMatches(contacts, seenPairs, config));
     }
 
     return pairs;
@@ -221,7 +355,8 @@ export class DuplicateDetectionAudit implements AuditModule {
    */
   private findExactEmailMatches(
     contacts: Contact[],
-    seenPairs: Set<string>
+    seenPairs: Set<string>,
+    config: DuplicateDetectionConfig
   ): DuplicatePair[] {
     const pairs: DuplicatePair[] = [];
     const emailMap = new Map<string, Contact[]>();
@@ -259,8 +394,12 @@ export class DuplicateDetectionAudit implements AuditModule {
             confidence: 'high',
             detection_method: 'rule',
             email_match: true,
-            phone_match: this.phonesMatch(contact1, contact2),
-            name_similarity_score: this.calculateNameSimilarity(contact1, contact2),
+            phone_match: this.phonesMatch(contact1, contact2, config.default_country_code),
+            name_similarity_score: this.calculateNameSimilarity(
+              contact1,
+              contact2,
+              config.field_algorithms
+            ),
             company_match: this.companiesMatch(contact1, contact2),
           });
         }
@@ -271,12 +410,74 @@ export class DuplicateDetectionAudit implements AuditModule {
     return pairs;
   }
 
+  /**
+   * Find contacts whose emails reach the same mailbox (85% confidence)
+   * e.g. "j.doe+news@gmail.com" and "jdoe@googlemail.com"
+   */
+  private findCanonicalEmailMatches(
+    contacts: Contact[],
+    seenPairs: Set<string>,
+    config: DuplicateDetectionConfig
+  ): DuplicatePair[] {
+    const pairs: DuplicatePair[] = [];
+    const mailboxMap = new Map<string, Contact[]>();
+
+    // Build canonical email -> contacts map
+    for (const contact of contacts) {
+      const canonical = canonicalizeEmail(contact.properties.email, config.email_domain_aliases);
+      if (!canonical) continue;
+
+      if (!mailboxMap.has(canonical)) {
+        mailboxMap.set(canonical, []);
+      }
+      mailboxMap.get(canonical)!.push(contact);
+    }
+
+    for (const [, mailboxContacts] of mailboxMap.entries()) {
+      if (mailboxContacts.length < 2) continue;
+
+      for (let i = 0; i < mailboxContacts.length; i++) {
+        for (let j = i + 1; j < mailboxContacts.length; j++) {
+          const contact1 = mailboxContacts[i];
+          const contact2 = mailboxContacts[j];
+          const pairKey = this.getPairKey(contact1.id, contact2.id);
+
+          // Identical addresses belong to the exact email tier
+          const email1 = contact1.properties.email!.toLowerCase().trim();
+          const email2 = contact2.properties.email!.toLowerCase().trim();
+          if (email1 === email2 || seenPairs.has(pairKey)) continue;
+          seenPairs.add(pairKey);
+
+          pairs.push({
+            contact1,
+            contact2,
+            match_type: 'canonical_email',
+            confidence: 'medium', // Shared or forwarded mailboxes are possible
+            detection_method: 'rule',
+            email_match: true,
+            phone_match: this.phonesMatch(contact1, contact2, config.default_country_code),
+            name_similarity_score: this.calculateNameSimilarity(
+              contact1,
+              contact2,
+              config.field_algorithms
+            ),
+            company_match: this.companiesMatch(contact1, contact2),
+          });
+        }
+      }
+    }
+
+    logger.info({ count: pairs.length }, 'Canonical email matches found');
+    return pairs;
+  }
+
   /**
    * Find contacts with same phone + company (95% confidence)
    */
   private findExactPhoneAndCompanyMatches(
     contacts: Contact[],
-    seenPairs: Set<string>
+    seenPairs: Set<string>,
+    config: DuplicateDetectionConfig
   ): DuplicatePair[] {
     const pairs: DuplicatePair[] = [];
     const phoneCompanyMap = new Map<string, Contact[]>();
@@ -289,7 +490,7 @@ export class DuplicateDetectionAudit implements AuditModule {
 
       if (!phone || !company) continue;
 
-      const normalizedPhone = normalizePhone(phone);
+      const normalizedPhone = normalizePhone(phone, config.default_country_code);
       const normalizedCompany = normalizeName(company);
 
       if (!normalizedPhone || !normalizedCompany) continue;
@@ -320,9 +521,13 @@ export class DuplicateDetectionAudit implements AuditModule {
             match_type: 'exact_phone_company',
             confidence: 'high',
             detection_method: 'rule',
-            email_match: this.emailsMatch(contact1, contact2),
+            email_match: this.emailsMatch(contact1, contact2, config.email_domain_aliases),
             phone_match: true,
-            name_similarity_score: this.calculateNameSimilarity(contact1, contact2),
+            name_similarity_score: this.calculateNameSimilarity(
+              contact1,
+              contact2,
+              config.field_algorithms
+            ),
             company_match: true,
           });
         }
@@ -338,7 +543,8 @@ export class DuplicateDetectionAudit implements AuditModule {
    */
   private findExactNameAndCompanyMatches(
     contacts: Contact[],
-    seenPairs: Set<string>
+    seenPairs: Set<string>,
+    config: DuplicateDetectionConfig
   ): DuplicatePair[] {
     const pairs: DuplicatePair[] = [];
     const nameCompanyMap = new Map<string, Contact[]>();
@@ -382,8 +588,8 @@ export class DuplicateDetectionAudit implements AuditModule {
             match_type: 'exact_name_company',
             confidence: 'high',
             detection_method: 'rule',
-            email_match: this.emailsMatch(contact1, contact2),
-            phone_match: this.phonesMatch(contact1, contact2),
+            email_match: this.emailsMatch(contact1, contact2, config.email_domain_aliases),
+            phone_match: this.phonesMatch(contact1, contact2, config.default_country_code),
             name_similarity_score: 1.0, // Exact name match
             company_match: true,
           });
@@ -395,6 +601,422 @@ export class DuplicateDetectionAudit implements AuditModule {
     return pairs;
   }
 
+  /**
+   * TIER 2: Find fuzzy matches
+   * Clear candidates are decided by rules; ambiguous ones go to Claude
+   */
+  private async findFuzzyMatches(
+    contacts: Contact[],
+    seenPairs: Set<string>,
+    context: AuditContext
+  ): Promise<{ pairs: DuplicatePair[]; cost: number; blocking: BlockingStats }> {
+    const config = context.config.duplicate_detection;
+    const { candidates, blocking } = this.findFuzzyCandidates(contacts, seenPairs, context);
+
+    const pairs: DuplicatePair[] = [];
+    const ambiguous: FuzzyCandidate[] = [];
+
+    for (const candidate of candidates) {
+      if (this.isClearFuzzyMatch(candidate)) {
+        pairs.push(this.createFuzzyPair(candidate, 'medium', 'rule'));
+      } else {
+        ambiguous.push(candidate);
+      }
+    }
+
+    const toReview = ambiguous.slice(0, config.max_fuzzy_pairs_for_ai);
+    if (ambiguous.length > toReview.length) {
+      logger.info(
+        { ambiguous: ambiguous.length, reviewed: toReview.length },
+        'Ambiguous fuzzy pairs above max_fuzzy_pairs_for_ai were skipped'
+      );
+    }
+
+    let cost = 0;
+    for (let i = 0; i < toReview.length; i += AI_BATCH_SIZE) {
+      if (cost >= config.max_ai_cost_per_audit) {
+        logger.info({ cost }, 'Fuzzy duplicate review budget reached');
+        break;
+      }
+
+      context.progress.update(
+        'Tier 2: Reviewing fuzzy matches with AI',
+        Math.round((i / toReview.length) * 100)
+      );
+      const result = await this.analyzeFuzzyCandidates(
+        toReview.slice(i, i + AI_BATCH_SIZE),
+        context
+      );
+      pairs.push(...result.pairs);
+      cost += result.cost;
+    }
+
+    for (const pair of pairs) {
+      seenPairs.add(this.getPairKey(pair.contact1.id, pair.contact2.id));
+    }
+
+    return { pairs, cost, blocking };
+  }
+
+  /**
+   * Find contact pairs with similar or nickname-equivalent names
+   * Only contacts sharing a blocking key are compared (see utils/blocking.ts)
+   * Pairs at two different companies are skipped; those are usually different people
+   */
+  private findFuzzyCandidates(
+    contacts: Contact[],
+    seenPairs: Set<string>,
+    context: AuditContext
+  ): { candidates: FuzzyCandidate[]; blocking: BlockingStats } {
+    const threshold = context.config.duplicate_detection.fuzzy_match_threshold;
+    const algorithms = context.config.duplicate_detection.field_algorithms;
+    const personalDomains = new Set(
+      context.config.association_integrity.personal_email_domains.map((d) => d.toLowerCase())
+    );
+    const named = contacts.filter(
+      (c) => c.properties.firstname?.trim() && c.properties.lastname?.trim()
+    );
+    const candidates: FuzzyCandidate[] = [];
+
+    const blocking = forEachCandidatePair(
+      named,
+      {
+        keys: context.config.duplicate_detection.blocking_keys,
+        maxBlockSize: context.config.duplicate_detection.max_block_size,
+        phoneSuffixLength: context.config.duplicate_detection.phone_suffix_length,
+        countryCode: context.config.duplicate_detection.default_country_code,
+      },
+      (contact1, contact2) => {
+        if (seenPairs.has(this.getPairKey(contact1.id, contact2.id))) return;
+
+        const nameSimilarity = this.calculateNameSimilarity(contact1, contact2, algorithms);
+        const nicknameMatch =
+          isLikelyNickname(contact1.properties.firstname, contact2.properties.firstname) &&
+          normalizeName(contact1.properties.lastname) ===
+            normalizeName(contact2.properties.lastname);
+        if (nameSimilarity < threshold && !nicknameMatch) return;
+
+        const company1 = contact1.properties.company?.trim();
+        const company2 = contact2.properties.company?.trim();
+        const sameCompany = isSameCompany(company1, company2, algorithms.company);
+        if (company1 && company2 && !sameCompany) return;
+
+        const domain1 = extractEmailDomain(contact1.properties.email);
+        const domain2 = extractEmailDomain(contact2.properties.email);
+        const sameEmailDomain =
+          !!domain1 && domain1 === domain2 && !personalDomains.has(domain1);
+        const phoneMatch = this.phonesMatch(
+          contact1,
+          contact2,
+          context.config.duplicate_detection.default_country_code
+        );
+
+        const signals = [
+          nicknameMatch
+            ? 'nickname of the same first name'
+            : `names ${Math.round(nameSimilarity * 100)}% similar`,
+        ];
+        if (sameCompany) signals.push('same company');
+        if (sameEmailDomain) signals.push(`same email domain (${domain1})`);
+        if (phoneMatch) signals.push('same phone');
+
+        candidates.push({
+          contact1,
+          contact2,
+          name_similarity: nameSimilarity,
+          nickname_match: nicknameMatch,
+          same_company: sameCompany,
+          same_email_domain: sameEmailDomain,
+          email_match: this.emailsMatch(
+            contact1,
+            contact2,
+            context.config.duplicate_detection.email_domain_aliases
+          ),
+          phone_match: phoneMatch,
+          description: signals.join(', '),
+        });
+      }
+    );
+
+    logger.info({ count: candidates.length, blocking }, 'Fuzzy candidates found');
+    return {
+      candidates: candidates.sort((a, b) => b.name_similarity - a.name_similarity),
+      blocking,
+    };
+  }
+
+  /**
+   * Near-identical or nickname names at the same company, backed by a
+   * shared phone or mailbox, need no AI review
+   * A shared email domain is not enough: coworkers share it with the company
+   */
+  private isClearFuzzyMatch(candidate: FuzzyCandidate): boolean {
+    return (
+      (candidate.name_similarity >= CLEAR_NAME_SIMILARITY || candidate.nickname_match) &&
+      candidate.same_company &&
+      (candidate.phone_match || candidate.email_match)
+    );
+  }
+
+  /**
+   * Ask Claude which ambiguous candidates are the same person
+   * Pairs Claude does not report are treated as different people
+   */
+  private async analyzeFuzzyCandidates(
+    candidates: FuzzyCandidate[],
+    context: AuditContext
+  ): Promise<{ pairs: DuplicatePair[]; cost: number }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const requested = new Map(
+      candidates.map((c) => [this.getPairKey(c.contact1.id, c.contact2.id), c])
+    );
+
+    try {
+      const response = await context.claude.analyzeWithReasoning<DuplicateAnalysisResponse>(
+        buildFuzzyDuplicatePrompt(candidates, context.config),
+        {
+          mode: 'reasoning',
+          maxThinkingTokens: 2000,
+          tools: getDuplicateAnalysisTools(),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'duplicate-reasoning'
+      );
+
+      const pairs: DuplicatePair[] = [];
+      for (const set of response.duplicateSets) {
+        // Ignore pairs we did not send (and repeats of one we already took)
+        if (set.contactIds.length !== 2) continue;
+        const key = this.getPairKey(set.contactIds[0], set.contactIds[1]);
+        const candidate = requested.get(key);
+        if (!candidate) continue;
+        requested.delete(key);
+
+        const pair = this.createFuzzyPair(
+          candidate,
+          set.confidence,
+          'ai_reasoning',
+          set.primaryContactId
+        );
+        pair.ai_reasoning = {
+          is_duplicate: true,
+          confidence_explanation: set.matchReason,
+        };
+        pairs.push(pair);
+      }
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { pairs, cost };
+    } catch (error) {
+      logger.error({ error }, 'Fuzzy duplicate review failed');
+      return { pairs: [], cost: 0 };
+    }
+  }
+
+  /**
+   * Build a duplicate pair from a fuzzy candidate
+   * The recommended primary contact (if any) becomes contact1
+   */
+  private createFuzzyPair(
+    candidate: FuzzyCandidate,
+    confidence: ConfidenceLevel,
+    detectionMethod: DetectionMethod,
+    primaryContactId?: string
+  ): DuplicatePair {
+    const swap = primaryContactId === candidate.contact2.id;
+
+    return {
+      contact1: swap ? candidate.contact2 : candidate.contact1,
+      contact2: swap ? candidate.contact1 : candidate.contact2,
+      match_type: 'fuzzy_name',
+      confidence,
+      detection_method: detectionMethod,
+      email_match: candidate.email_match,
+      phone_match: candidate.phone_match,
+      name_similarity_score: candidate.name_similarity,
+      company_match: candidate.same_company,
+    };
+  }
+
+  /**
+   * TIER 3: Investigate uncertain pairs with agentic exploration
+   * Pairs Claude decides to keep separate are dropped
+   */
+  private async investigateMerges(
+    pairs: DuplicatePair[],
+    spent: number,
+    context: AuditContext
+  ): Promise<{ pairs: DuplicatePair[]; investigated: number; cost: number }> {
+    const config = context.config.duplicate_detection;
+    const candidates = pairs
+      .filter(
+        (p) =>
+          p.confidence !== 'high' &&
+          CONFIDENCE_SCORES[p.confidence] >= config.min_confidence_for_investigation
+      )
+      .slice(0, config.max_investigations_per_run);
+
+    const keepSeparate = new Set<DuplicatePair>();
+    let investigated = 0;
+    let cost = 0;
+
+    for (const [index, pair] of candidates.entries()) {
+      if (spent + cost >= config.max_ai_cost_per_audit) {
+        logger.info({ cost: spent + cost }, 'Merge investigation budget reached');
+        break;
+      }
+
+      context.progress.update(
+        'Tier 3: Investigating uncertain matches',
+        Math.round((index / candidates.length) * 100)
+      );
+      const result = await this.investigatePair(pair, context);
+      cost += result.cost;
+      if (!result.investigation) continue;
+
+      investigated++;
+      const { investigation } = result;
+      if (investigation.decision === 'keep_separate') {
+        keepSeparate.add(pair);
+        continue;
+      }
+
+      const primaryId = [pair.contact1.id, pair.contact2.id].includes(
+        investigation.primary_contact_id
+      )
+        ? investigation.primary_contact_id
+        : pair.contact1.id;
+
+      pair.confidence = investigation.confidence;
+      pair.detection_method = 'ai_exploratory';
+      pair.tool_trace = result.trace;
+      pair.merge_recommendation = {
+        should_merge: investigation.decision === 'merge',
+        primary_contact_id: primaryId,
+        rationale: investigation.rationale,
+        risk_assessment: investigation.risk_assessment,
+        data_to_preserve: investigation.data_to_preserve ?? [],
+        potential_issues: investigation.potential_issues ?? [],
+      };
+    }
+
+    return { pairs: pairs.filter((p) => !keepSeparate.has(p)), investigated, cost };
+  }
+
+  /**
+   * Let Claude fetch data about both contacts and recommend what to do
+   */
+  private async investigatePair(
+    pair: DuplicatePair,
+    context: AuditContext
+  ): Promise<{
+    investigation: MergeInvestigationResponse | null;
+    trace: ToolCallRecord[];
+    cost: number;
+  }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const trace: ToolCallRecord[] = [];
+
+    const records = [
+      { id: pair.contact1.id, properties: pair.contact1.properties },
+      { id: pair.contact2.id, properties: pair.contact2.properties },
+      {
+        match_type: pair.match_type,
+        name_similarity: pair.name_similarity_score,
+        email_match: pair.email_match,
+        phone_match: pair.phone_match,
+        company_match: pair.company_match,
+        earlier_assessment: pair.ai_reasoning?.confidence_explanation,
+      },
+    ];
+
+    try {
+      const investigation = await context.claude.analyzeWithExploration<MergeInvestigationResponse>(
+        buildInvestigationPrompt(
+          'Possible duplicate contacts',
+          records,
+          context.config,
+          MERGE_INVESTIGATION_TASKS
+        ),
+        {
+          mode: 'exploratory',
+          maxThinkingTokens: 4000,
+          tools: getMergeInvestigationTools(),
+          toolHandlers: this.buildInvestigationHandlers(pair, context, trace),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'duplicate-investigation'
+      );
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { investigation, trace, cost };
+    } catch (error) {
+      logger.error(
+        { error, contacts: [pair.contact1.id, pair.contact2.id] },
+        'Merge investigation failed'
+      );
+      return { investigation: null, trace, cost: 0 };
+    }
+  }
+
+  /**
+   * Data tools Claude may call during an investigation, scoped to the pair
+   * under investigation and the companies associated with it. Every
+   * successful call is recorded in the trace.
+   */
+  private buildInvestigationHandlers(
+    pair: DuplicatePair,
+    context: AuditContext,
+    trace: ToolCallRecord[]
+  ): Record<string, ToolHandler> {
+    const contactIds = new Set([pair.contact1.id, pair.contact2.id]);
+    const companyIds = new Set<string>(); // Filled by get_contact_associations
+
+    const contactId = (input: Record<string, unknown>): string => {
+      const id = typeof input.contact_id === 'string' ? input.contact_id : '';
+      if (!contactIds.has(id)) {
+        throw new Error(`Contact "${id}" is not under investigation`);
+      }
+      return id;
+    };
+
+    const traced =
+      (tool: string, fetch: ToolHandler): ToolHandler =>
+      async (input) => {
+        const result = await fetch(input);
+        trace.push({ tool, input, result_summary: JSON.stringify(result).slice(0, 200) });
+        return result;
+      };
+
+    return {
+      get_contact_engagement: traced('get_contact_engagement', async (input) => {
+        return await context.hubspot.getContactEngagement(contactId(input));
+      }),
+
+      get_contact_associations: traced('get_contact_associations', async (input) => {
+        const objectType = input.object_type === 'deals' ? 'deals' : 'companies';
+        const associations = await context.hubspot.getAssociations(
+          'contacts',
+          contactId(input),
+          objectType
+        );
+        if (objectType === 'companies') {
+          associations.forEach((a) => companyIds.add(a.id));
+        }
+        return associations.map((a) => a.id);
+      }),
+
+      get_company: traced('get_company', async (input) => {
+        const id = typeof input.company_id === 'string' ? input.company_id : '';
+        if (!companyIds.has(id)) {
+          throw new Error(`Company "${id}" is not associated with either contact`);
+        }
+        const company = await context.hubspot.getCompany(id, INVESTIGATION_COMPANY_PROPERTIES);
+        return company.properties;
+      }),
+    };
+  }
+
   // ====================
   // Helper Methods
   // ====================
@@ -408,18 +1030,22 @@ export class DuplicateDetectionAudit implements AuditModule {
   }
 
   /**
-   * Check if two contacts have matching emails
+   * Check if two contacts have matching emails (compared in canonical form)
    */
-  private emailsMatch(contact1: Contact, contact2: Contact): boolean {
-    const email1 = contact1.properties.email?.toLowerCase().trim();
-    const email2 = contact2.properties.email?.toLowerCase().trim();
-    return !!email1 && !!email2 && email1 === email2;
+  private emailsMatch(
+    contact1: Contact,
+    contact2: Contact,
+    domainAliases: Record<string, string>
+  ): boolean {
+    const email1 = canonicalizeEmail(contact1.properties.email, domainAliases);
+    const email2 = canonicalizeEmail(contact2.properties.email, domainAliases);
+    return !!email1 && email1 === email2;
   }
 
   /**
-   * Check if two contacts have matching phones
+   * Check if two contacts have matching phones (compared in E.164 form)
    */
-  private phonesMatch(contact1: Contact, contact2: Contact): boolean {
+  private phonesMatch(contact1: Contact, contact2: Contact, countryCode: string): boolean {
     const phone1 =
       contact1.properties.phone || contact1.properties.mobilephone;
     const phone2 =
@@ -427,10 +1053,11 @@ export class DuplicateDetectionAudit implements AuditModule {
 
     if (!phone1 || !phone2) return false;
 
-    const normalized1 = normalizePhone(phone1);
-    const normalized2 = normalizePhone(phone2);
+    const normalized1 = normalizePhone(phone1, countryCode);
+    const normalized2 = normalizePhone(phone2, countryCode);
 
-    return normalized1 === normalized2;
+    // Placeholders like "n/a" normalize to ''
+    return !!normalized1 && normalized1 === normalized2;
   }
 
   /**
@@ -444,43 +1071,225 @@ export class DuplicateDetectionAudit implements AuditModule {
 
   /**
    * Calculate name similarity between two contacts
+   * First and last names are compared separately with their configured
+   * algorithms; the lower score wins so both parts have to match
    */
-  private calculateNameSimilarity(contact1: Contact, contact2: Contact): number {
-    const name1 = `${contact1.properties.firstname || ''} ${contact1.properties.lastname || ''}`.trim();
-    const name2 = `${contact2.properties.firstname || ''} ${contact2.properties.lastname || ''}`.trim();
+  private calculateNameSimilarity(
+    contact1: Contact,
+    contact2: Contact,
+    algorithms: FieldAlgorithms
+  ): number {
+    const scores = (['firstname', 'lastname'] as const)
+      .filter((field) => contact1.properties[field]?.trim() && contact2.properties[field]?.trim())
+      .map((field) =>
+        fieldSimilarity(contact1.properties[field], contact2.properties[field], algorithms[field])
+      );
+
+    return scores.length > 0 ? Math.min(...scores) : 0;
+  }
 
-    if (!name1 || !name2) return 0;
+  /**
+   * Convert duplicate pairs to audit issues
+   * Pairs to merge are grouped into clusters so each person is merged once;
+   * pairs that need human review are reported as they are
+   */
+  private convertPairsToIssues(
+    pairs: DuplicatePair[],
+    survivorship: DuplicateDetectionConfig['survivorship']
+  ): AuditIssue[] {
+    const toReview = pairs.filter((p) => p.merge_recommendation?.should_merge === false);
+    const toMerge = pairs.filter((p) => p.merge_recommendation?.should_merge !== false);
 
-    const normalized1 = normalizeName(name1);
-    const normalized2 = normalizeName(name2);
+    const clusters = this.buildClusters(toMerge, survivorship);
+    logger.info(
+      {
+        clusters: clusters.length,
+        largest: Math.max(0, ...clusters.map((c) => c.secondaries.length + 1)),
+      },
+      'Duplicate clusters built'
+    );
 
-    return similarityScore(normalized1, normalized2);
+    return [
+      ...clusters.flatMap((cluster) => this.createClusterIssues(cluster)),
+      ...toReview.map((pair) => this.createIssueFromPair(pair)),
+    ];
   }
 
   /**
-   * Convert duplicate pairs to audit issues
+   * Group pairs into clusters with union-find: A~B and B~C is one person
+   * The primary is chosen by the survivorship primary rule; ties go to the
+   * contact most often recommended as primary in the cluster's pairs
    */
-  private convertPairsToIssues(pairs: DuplicatePair[]): AuditIssue[] {
-    return pairs.map((pair) => this.createIssueFromPair(pair));
+  private buildClusters(
+    pairs: DuplicatePair[],
+    survivorship: DuplicateDetectionConfig['survivorship']
+  ): DuplicateCluster[] {
+    const contacts = new Map<string, Contact>();
+    for (const pair of pairs) {
+      contacts.set(pair.contact1.id, pair.contact1);
+      contacts.set(pair.contact2.id, pair.contact2);
+    }
+
+    const clusterIds = clusterLinks(pairs.map((p) => [p.contact1.id, p.contact2.id]));
+    const clusterOf = new Map<string, number>();
+    clusterIds.forEach((ids, index) => ids.forEach((id) => clusterOf.set(id, index)));
+
+    const clusterPairs: DuplicatePair[][] = clusterIds.map(() => []);
+    for (const pair of pairs) {
+      clusterPairs[clusterOf.get(pair.contact1.id)!].push(pair);
+    }
+
+    return clusterIds.map((ids, index) => {
+      const votes = new Map<string, number>();
+      for (const pair of clusterPairs[index]) {
+        const primaryId = this.getPrimaryId(pair);
+        votes.set(primaryId, (votes.get(primaryId) ?? 0) + 1);
+      }
+
+      // Stable sort: most recommended first, then in the order found
+      const members = [...ids]
+        .sort((a, b) => (votes.get(b) ?? 0) - (votes.get(a) ?? 0))
+        .map((id) => contacts.get(id)!);
+      const primary = selectPrimary(members, survivorship.primary);
+
+      return {
+        primary,
+        secondaries: ids.filter((id) => id !== primary.id).map((id) => contacts.get(id)!),
+        pairs: clusterPairs[index],
+        golden_record: buildGoldenRecord(primary, members, survivorship),
+      };
+    });
+  }
+
+  /**
+   * Create the issues for one cluster: golden record updates on the primary,
+   * then one merge per secondary contact
+   * The first merge depends on the updates and each later merge on the one
+   * before it, so the executor runs the chain in order instead of merging
+   * into a record that changed under it
+   */
+  private createClusterIssues(cluster: DuplicateCluster): AuditIssue[] {
+    const merges: AuditIssue[] = [];
+    const clusterIds = [cluster.primary, ...cluster.secondaries].map((c) => c.id);
+
+    for (const secondary of cluster.secondaries) {
+      const issue = this.createIssueFromPair(
+        this.findLinkingPair(cluster, secondary.id),
+        cluster.primary,
+        secondary
+      );
+
+      issue.currentValue = {
+        ...(issue.currentValue as object),
+        ...(cluster.secondaries.length > 1 && { cluster: clusterIds }),
+        golden_record: cluster.golden_record,
+      };
+
+      const previous = merges[merges.length - 1];
+      if (previous) {
+        issue.dependsOn = [previous.id];
+      }
+
+      merges.push(issue);
+    }
+
+    // Golden record values the primary does not have yet are copied before merging
+    const confidence = merges.reduce<ConfidenceLevel>(
+      (lowest, m) =>
+        CONFIDENCE_SCORES[m.confidence] < CONFIDENCE_SCORES[lowest] ? m.confidence : lowest,
+      'high'
+    );
+    const updates = Object.entries(cluster.golden_record)
+      .filter(([property, golden]) => cluster.primary.properties[property] !== golden.value)
+      .map(([property, golden]) => this.createGoldenValueIssue(cluster, property, golden, confidence));
+
+    if (updates.length > 0) {
+      merges[0].dependsOn = updates.map((u) => u.id);
+    }
+
+    return [...updates, ...merges];
+  }
+
+  /**
+   * Issue copying a winning value onto the primary before the merge
+   * Takes the cluster's lowest merge confidence so it is planned with the merges
+   */
+  private createGoldenValueIssue(
+    cluster: DuplicateCluster,
+    property: string,
+    golden: GoldenValue,
+    confidence: ConfidenceLevel
+  ): AuditIssue {
+    const name =
+      `${cluster.primary.properties.firstname ?? ''} ${cluster.primary.properties.lastname ?? ''}`.trim() ||
+      (cluster.primary.properties.email ?? `Contact ${cluster.primary.id}`);
+
+    return {
+      id: randomUUID(),
+      type: 'golden_record_value',
+      severity: 'low',
+      objectType: 'contact',
+      objectId: cluster.primary.id,
+      displayName: name,
+      property,
+      description: `Set ${property} to "${golden.value}" from contact ${golden.source} before merging`,
+      currentValue: cluster.primary.properties[property] ?? undefined,
+      suggestedValue: golden.value,
+      confidence,
+      detection_method: 'rule',
+      reasoning: `Survivorship rule "${golden.rule.replace(/_/g, ' ')}" picks contact ${golden.source}'s ${property} for the merged record`,
+    };
+  }
+
+  /**
+   * Strongest evidence for a secondary contact: its pair with the primary
+   * if there is one, otherwise its most confident pair in the cluster
+   */
+  private findLinkingPair(cluster: DuplicateCluster, contactId: string): DuplicatePair {
+    const involving = cluster.pairs.filter(
+      (p) => p.contact1.id === contactId || p.contact2.id === contactId
+    );
+    const withPrimary = involving.find(
+      (p) => p.contact1.id === cluster.primary.id || p.contact2.id === cluster.primary.id
+    );
+
+    return (
+      withPrimary ??
+      involving.reduce((best, pair) =>
+        CONFIDENCE_SCORES[pair.confidence] > CONFIDENCE_SCORES[best.confidence] ? pair : best
+      )
+    );
+  }
+
+  /**
+   * The contact a pair recommends keeping
+   */
+  private getPrimaryId(pair: DuplicatePair): string {
+    return pair.merge_recommendation?.primary_contact_id || pair.contact1.id;
   }
 
   /**
    * Create audit issue from duplicate pair
+   * In a cluster the primary may not be part of the pair (A~B, B~C: C merges into A)
    */
-  private createIssueFromPair(pair: DuplicatePair): AuditIssue {
-    // Determine primary contact (for objectId)
-    const primaryId =
-      pair.merge_recommendation?.primary_contact_id || pair.contact1.id;
-    const secondaryId =
-      primaryId === pair.contact1.id ? pair.contact2.id : pair.contact1.id;
-    const primaryContact =
-      primaryId === pair.contact1.id ? pair.contact1 : pair.contact2;
-    const secondaryContact =
-      primaryId === pair.contact1.id ? pair.contact2 : pair.contact1;
+  private createIssueFromPair(
+    pair: DuplicatePair,
+    primaryContact: Contact = this.getPrimaryId(pair) === pair.contact1.id
+      ? pair.contact1
+      : pair.contact2,
+    secondaryContact: Contact = primaryContact === pair.contact1
+      ? pair.contact2
+      : pair.contact1
+  ): AuditIssue {
+    const primaryId = primaryContact.id;
+    const secondaryId = secondaryContact.id;
+
+    // Investigated pairs Claude could not decide are flagged instead of merged
+    const needsReview = pair.merge_recommendation?.should_merge === false;
 
     return {
       id: randomUUID(),
-      type: 'duplicate',
+      type: needsReview ? 'duplicate_needs_review' : 'duplicate',
       severity: this.determineSeverity(pair),
       objectType: 'contact',
       objectId: primaryId,
@@ -500,6 +1309,7 @@ export class DuplicateDetectionAudit implements AuditModule {
       confidence: pair.confidence,
       detection_method: pair.detection_method,
       reasoning: this.buildReasoning(pair),
+      tool_trace: pair.tool_trace,
     };
   }
 
@@ -532,7 +1342,8 @@ export class DuplicateDetectionAudit implements AuditModule {
   ): string {
     const matchReasons = [];
 
-    if (pair.email_match) matchReasons.push('same email');
+    if (pair.match_type === 'canonical_email') matchReasons.push('email aliases of the same mailbox');
+    else if (pair.email_match) matchReasons.push('same email');
     if (pair.phone_match) matchReasons.push('same phone');
     if (pair.company_match) matchReasons.push('same company');
     if (pair.name_similarity_score >= 0.9)
@@ -540,16 +1351,26 @@ export class DuplicateDetectionAudit implements AuditModule {
     else if (pair.name_similarity_score >= 0.7)
       matchReasons.push('similar names');
 
-    const primaryName = `${primary.properties.firstname || ''} ${primary.properties.lastname || ''}`.trim() || 'Unknown';
-    const secondaryName = `${secondary.properties.firstname || ''} ${secondary.properties.lastname || ''}`.trim() || 'Unknown';
+    const fullName = (contact: Contact): string =>
+      `${contact.properties.firstname || ''} ${contact.properties.lastname || ''}`.trim() || 'Unknown';
+
+    // Linked through another contact in the cluster
+    const linked = pair.contact1.id === secondary.id ? pair.contact2 : pair.contact1;
+    if (linked.id !== primary.id) {
+      return `Potential duplicate: "${fullName(secondary)}" and "${fullName(linked)}" have ${matchReasons.join(', ')}; both merge into "${fullName(primary)}"`;
+    }
 
-    return `Potential duplicate: "${primaryName}" and "${secondaryName}" have ${matchReasons.join(', ')}`;
+    return `Potential duplicate: "${fullName(primary)}" and "${fullName(secondary)}" have ${matchReasons.join(', ')}`;
   }
 
   /**
    * Build reasoning explanation for the issue
    */
   private buildReasoning(pair: DuplicatePair): string {
+    if (pair.merge_recommendation) {
+      return `${pair.merge_recommendation.rationale} (merge risk: ${pair.merge_recommendation.risk_assessment})`;
+    }
+
     if (pair.ai_reasoning) {
       return pair.ai_reasoning.confidence_explanation;
     }
@@ -558,10 +1379,14 @@ export class DuplicateDetectionAudit implements AuditModule {
     switch (pair.match_type) {
       case 'exact_email':
         return 'Contacts share the same email address (99% confidence duplicate)';
+      case 'canonical_email':
+        return 'Contacts\' email addresses reach the same mailbox once dots, sub-address tags and domain aliases are removed (85% confidence duplicate)';
       case 'exact_phone_company':
         return 'Contacts have the same phone number and company (95% confidence duplicate)';
       case 'exact_name_company':
         return 'Contacts have the same name and company (95% confidence duplicate)';
+      case 'fuzzy_name':
+        return 'Contacts have near-identical or nickname names at the same company, with a shared email domain or phone';
       default:
         return 'Duplicate detected based on matching criteria';
     }
@@ -571,11 +1396,10 @@ export class DuplicateDetectionAudit implements AuditModule {
    * Build audit summary
    */
   private buildSummary(
-    pairs: DuplicatePair[],
+    issues: AuditIssue[],
     totalContacts: number,
     aiCost: number
   ): AuditSummary {
-    const issues = this.convertPairsToIssues(pairs);
 
     const bySeverity: Record<Severity, number> = {
       critical: 0,
@@ -617,7 +1441,11 @@ export class DuplicateDetectionAudit implements AuditModule {
   /**
    * Generate insights and recommendations
    */
-  private generateInsights(pairs: DuplicatePair[], usedAi: boolean): AIInsights {
+  private generateInsights(
+    pairs: DuplicatePair[],
+    usedAi: boolean,
+    blocking?: BlockingStats
+  ): AIInsights {
     const patterns: string[] = [];
     const recommendations: string[] = [];
 
@@ -645,7 +1473,29 @@ export class DuplicateDetectionAudit implements AuditModule {
       patterns.push(`${emailMatches} pairs share the same email address`);
     }
 
+    // Count investigated pairs that still need a human decision
+    const needsReview = pairs.filter(
+      (p) => p.merge_recommendation?.should_merge === false
+    ).length;
+    if (needsReview > 0) {
+      patterns.push(
+        `${needsReview} investigated pairs had conflicting evidence and need human review`
+      );
+    }
+
+    // Report how much work blocking saved
+    if (blocking) {
+      patterns.push(
+        `Blocking compared ${blocking.candidate_pairs} of ${blocking.naive_pairs} possible contact pairs (${blocking.blocks} blocks)`
+      );
+    }
+
     // Generate recommendations
+    if (blocking && blocking.oversized_blocks > 0) {
+      recommendations.push(
+        `${blocking.oversized_blocks} blocks were larger than max_block_size and skipped; add blocking keys or raise the limit to compare those contacts`
+      );
+    }
     if (pairs.length > 10) {
       recommendations.push(
         'Consider reviewing data entry processes to prevent future duplicates'
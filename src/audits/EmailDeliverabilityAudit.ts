@@ -0,0 +1,302 @@
+/**
+ * Email Deliverability Audit
+ *
+ * Rule-based audit of whether contact email addresses can reach a person.
+ * Format validation stays in DataQualityAudit; this module assumes a
+ * well-formed address and looks at where it points.
+ *
+ * Detects (in priority order, one finding per contact):
+ * - Mistyped provider domains (gmial.com, acme.con) - corrected automatically
+ * - Addresses HubSpot has marked as hard-bounced
+ * - Disposable (throwaway) email domains
+ * - Role accounts (info@, sales@)
+ * - Free-mail addresses when the business model is B2B
+ *
+ * Everything except typo corrections needs a new address from a person and
+ * is flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { extractEmailDomain } from '../utils/matching.js';
+import {
+  DISPOSABLE_EMAIL_DOMAINS,
+  ROLE_ACCOUNT_PREFIXES,
+  parseDomainList,
+  suggestDomainCorrection,
+} from '../utils/emailDomains.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('email-deliverability-audit');
+
+const CONTACT_PROPERTIES = [
+  'email',
+  'firstname',
+  'lastname',
+  'hs_email_hard_bounce_reason_enum',
+  'hs_email_bad_address',
+];
+
+/**
+ * Issue details produced by a single check
+ */
+interface EmailIssueData {
+  type: string;
+  severity: Severity;
+  description: string;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+/**
+ * Domain sets resolved once per run
+ */
+interface DomainLists {
+  disposable: Set<string>;
+  freeMail: Set<string>;
+  rolePrefixes: Set<string>;
+}
+
+export class EmailDeliverabilityAudit implements AuditModule {
+  name = 'email-deliverability';
+  description = 'Detect role, disposable, mistyped and bounced email addresses';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting email deliverability audit');
+
+    context.progress.start('Loading contacts...');
+    const contacts = await this.loadContacts(context);
+
+    if (contacts.length === 0) {
+      context.progress.succeed('No contacts with email addresses');
+      return buildEmptyAuditResult(this.name, 'No contacts with email addresses to check');
+    }
+
+    const lists = await this.loadDomainLists(context);
+
+    context.progress.update('Checking email addresses...');
+    const issues: AuditIssue[] = [];
+    for (const contact of contacts) {
+      const finding = this.checkEmail(contact, lists, context);
+      if (finding) issues.push(this.createIssue(contact, finding));
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Email deliverability audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} email deliverability issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load contacts with a well-formed email address
+   */
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+
+    for await (const batch of context.hubspot.getContacts(CONTACT_PROPERTIES)) {
+      for (const contact of batch) {
+        if (extractEmailDomain(contact.properties.email)) contacts.push(contact);
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Merge the bundled disposable list with the optional local file
+   */
+  private async loadDomainLists(context: AuditContext): Promise<DomainLists> {
+    const { disposable_domains_file } = context.config.email_deliverability;
+    const disposable = new Set(DISPOSABLE_EMAIL_DOMAINS);
+
+    if (disposable_domains_file) {
+      try {
+        const contents = await readFile(disposable_domains_file, 'utf-8');
+        const extra = parseDomainList(contents);
+        extra.forEach((domain) => disposable.add(domain));
+        logger.info(
+          { file: disposable_domains_file, count: extra.length },
+          'Loaded local disposable domains'
+        );
+      } catch (error) {
+        logger.warn(
+          { file: disposable_domains_file, error },
+          'Could not read disposable domains file, using bundled list only'
+        );
+      }
+    }
+
+    return {
+      disposable,
+      freeMail: new Set(
+        context.config.association_integrity.personal_email_domains.map((d) => d.toLowerCase())
+      ),
+      rolePrefixes: new Set(ROLE_ACCOUNT_PREFIXES),
+    };
+  }
+
+  /**
+   * Run the checks in priority order and return the first finding
+   */
+  private checkEmail(
+    contact: Contact,
+    lists: DomainLists,
+    context: AuditContext
+  ): EmailIssueData | null {
+    const email = (contact.properties.email ?? '').trim().toLowerCase();
+    const [localPart] = email.split('@');
+    const domain = extractEmailDomain(email);
+    const config = context.config.email_deliverability;
+
+    const corrected = suggestDomainCorrection(domain);
+    if (corrected) {
+      return {
+        type: 'email_domain_typo',
+        severity: 'high',
+        description: `Email domain "${domain}" looks like a typo of "${corrected}"`,
+        suggestedValue: `${localPart}@${corrected}`,
+        confidence: 'high',
+        reasoning: `"${domain}" is a common misspelling of "${corrected}"; correct the address so email can be delivered`,
+      };
+    }
+
+    const bounceReason = contact.properties.hs_email_hard_bounce_reason_enum;
+    if (bounceReason || contact.properties.hs_email_bad_address === 'true') {
+      return {
+        type: 'hard_bounced_email',
+        severity: 'high',
+        description: `Email has hard-bounced (${bounceReason ?? 'bad address'})`,
+        confidence: 'high',
+        reasoning:
+          'HubSpot will not send to this address again; find a current address or stop marketing to the contact',
+      };
+    }
+
+    if (lists.disposable.has(domain)) {
+      return {
+        type: 'disposable_email',
+        severity: 'high',
+        description: `Email uses disposable domain "${domain}"`,
+        confidence: 'high',
+        reasoning:
+          'Disposable inboxes expire within hours or days; treat the contact as unreachable or delete it',
+      };
+    }
+
+    // "info+tag@" is still a role account
+    const baseLocalPart = localPart.split('+')[0];
+    if (config.check_role_accounts && lists.rolePrefixes.has(baseLocalPart)) {
+      return {
+        type: 'role_based_email',
+        severity: 'medium',
+        description: `Email "${email}" is a role account`,
+        confidence: 'high',
+        reasoning:
+          'Role accounts reach a shared inbox and draw more spam complaints; find a named contact at the company',
+      };
+    }
+
+    if (
+      config.check_free_mail &&
+      context.config.company.business_model === 'B2B' &&
+      lists.freeMail.has(domain)
+    ) {
+      return {
+        type: 'free_mail_on_b2b',
+        severity: 'low',
+        description: `B2B contact uses free-mail address at "${domain}"`,
+        confidence: 'medium',
+        reasoning:
+          'Free-mail addresses cannot be matched to a company; ask for a work address when the contact next converts',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Create an audit issue for a contact's email
+   */
+  private createIssue(contact: Contact, issueData: EmailIssueData): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: contact.properties.email ?? undefined,
+      property: 'email',
+      description: issueData.description,
+      currentValue: contact.properties.email,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const typos = count('email_domain_typo');
+    const bounced = count('hard_bounced_email');
+    const disposable = count('disposable_email');
+    const role = count('role_based_email');
+    const freeMail = count('free_mail_on_b2b');
+
+    if (typos > 0) {
+      patterns.push(`${typos} email addresses have a mistyped domain`);
+      recommendations.push('Add email confirmation or domain suggestions to your forms');
+    }
+    if (bounced > 0) {
+      patterns.push(`${bounced} email addresses have hard-bounced`);
+    }
+    if (disposable > 0) {
+      patterns.push(`${disposable} contacts signed up with a disposable email`);
+      recommendations.push('Block disposable email domains on gated-content forms');
+    }
+    if (role > 0) {
+      patterns.push(`${role} contacts are role accounts`);
+    }
+    if (freeMail > 0) {
+      patterns.push(`${freeMail} B2B contacts use a free-mail address`);
+      recommendations.push('Enable "block free email providers" on B2B lead forms');
+    }
+
+    return {
+      summary: `Found ${issues.length} email deliverability issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
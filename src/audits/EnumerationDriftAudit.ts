@@ -0,0 +1,460 @@
+/**
+ * Enumeration Drift Audit
+ *
+ * Rule-based audit that checks record values of dropdown, radio and
+ * checkbox properties against the options in their property definitions.
+ * Values usually drift in through imports and API integrations, which
+ * HubSpot does not validate against the option list.
+ *
+ * Detects:
+ * - Values that differ from an option only in case or punctuation ("Tier-1" vs "tier_1")
+ * - Values stored as the option label instead of its internal value
+ * - Values that are not options at all, mapped to the closest option by similarity
+ * - Options on one property that differ only in case or spelling
+ *
+ * Record values become property updates; values with no close option and
+ * near-duplicate options are flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type {
+  Company,
+  Contact,
+  Deal,
+  ObjectType,
+  PropertyDefinition,
+  PropertyOption,
+} from '../types/hubspot.js';
+import type { EnumerationDriftConfig } from '../types/config.js';
+import { createLogger } from '../utils/logger.js';
+import { similarityScore } from '../utils/matching.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('enumeration-drift-audit');
+
+type DriftObjectType = EnumerationDriftConfig['object_types'][number];
+
+const OBJECT_TYPES: Record<DriftObjectType, ObjectType> = {
+  contacts: 'contact',
+  companies: 'company',
+  deals: 'deal',
+};
+
+const OBJECT_LABELS: Record<DriftObjectType, string> = {
+  contacts: 'Contact',
+  companies: 'Company',
+  deals: 'Deal',
+};
+
+// Property shown as the display name of each object type
+const DISPLAY_PROPERTIES: Record<DriftObjectType, string> = {
+  contacts: 'email',
+  companies: 'name',
+  deals: 'dealname',
+};
+
+/**
+ * How a single stored value relates to the property's options
+ */
+interface ValueMatch {
+  value: string;
+  option?: PropertyOption;
+  kind: 'valid' | 'variant' | 'similar' | 'unmatched';
+  score: number;
+}
+
+/**
+ * Issue details produced by a single check
+ */
+interface DriftIssueData {
+  type: string;
+  severity: Severity;
+  property: string;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class EnumerationDriftAudit implements AuditModule {
+  name = 'enumeration-drift';
+  description = 'Find enumeration property values that are not valid options';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.enumeration_drift;
+    logger.info({ objectTypes: config.object_types }, 'Starting enumeration drift audit');
+
+    context.progress.start('Loading property definitions...');
+
+    const issues: AuditIssue[] = [];
+    let recordsScanned = 0;
+
+    for (const objectType of config.object_types) {
+      const definitions = (await this.loadDefinitions(objectType, context)).filter(
+        (d) =>
+          d.type === 'enumeration' &&
+          !d.calculated &&
+          (d.options?.length ?? 0) > 0 &&
+          (config.properties.length === 0 || config.properties.includes(d.name))
+      );
+
+      if (definitions.length === 0) {
+        logger.info({ objectType }, 'No enumeration properties to check');
+        continue;
+      }
+
+      issues.push(...this.findSimilarOptions(objectType, definitions, config));
+
+      context.progress.update(
+        `Checking ${objectType} against ${definitions.length} enumeration properties...`
+      );
+      const { scanned, issues: valueIssues } = await this.checkRecords(
+        objectType,
+        definitions,
+        context
+      );
+      recordsScanned += scanned;
+      issues.push(...valueIssues);
+    }
+
+    if (recordsScanned === 0 && issues.length === 0) {
+      context.progress.succeed('No records to check');
+      return buildEmptyAuditResult(this.name, 'No records with enumeration properties found');
+    }
+
+    const summary = buildAuditSummary(issues, recordsScanned, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Enumeration drift audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} enumeration value issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load property definitions for an object type (cached by HubSpotService)
+   */
+  private async loadDefinitions(
+    objectType: DriftObjectType,
+    context: AuditContext
+  ): Promise<PropertyDefinition[]> {
+    switch (objectType) {
+      case 'contacts':
+        return await context.hubspot.getContactProperties();
+      case 'companies':
+        return await context.hubspot.getCompanyProperties();
+      case 'deals':
+        return await context.hubspot.getDealProperties();
+    }
+  }
+
+  /**
+   * Scan records and check every enumeration value against its options
+   */
+  private async checkRecords(
+    objectType: DriftObjectType,
+    definitions: PropertyDefinition[],
+    context: AuditContext
+  ): Promise<{ scanned: number; issues: AuditIssue[] }> {
+    const config = context.config.enumeration_drift;
+    const displayProperty = DISPLAY_PROPERTIES[objectType];
+    const names = [displayProperty, ...definitions.map((d) => d.name)];
+
+    const pages =
+      objectType === 'contacts'
+        ? context.hubspot.getContacts(names)
+        : objectType === 'companies'
+          ? context.hubspot.getCompanies(names)
+          : context.hubspot.getDeals(names);
+
+    // The same stored value is matched once per property
+    const matchCache = new Map<string, ValueMatch>();
+    const issues: AuditIssue[] = [];
+    let scanned = 0;
+
+    for await (const batch of pages) {
+      for (const record of batch as Array<Contact | Company | Deal>) {
+        if (scanned >= config.max_records_to_scan) break;
+        scanned++;
+
+        for (const definition of definitions) {
+          const value = record.properties[definition.name];
+          if (value === null || value === undefined || value.trim() === '') continue;
+
+          // Multi-select values are stored semicolon-separated
+          const parts = value.split(';').filter((part) => part.trim() !== '');
+          const matches = parts.map((part) => {
+            const key = `${definition.name}|${part}`;
+            const cached = matchCache.get(key);
+            if (cached) return cached;
+
+            const match = this.matchValue(part, definition, config.min_similarity);
+            matchCache.set(key, match);
+            return match;
+          });
+
+          const finding = this.checkValue(definition, value, matches);
+          if (finding) {
+            issues.push(
+              this.createIssue(
+                OBJECT_TYPES[objectType],
+                record,
+                record.properties[displayProperty] ?? undefined,
+                finding
+              )
+            );
+          }
+        }
+      }
+
+      if (scanned >= config.max_records_to_scan) break;
+    }
+
+    return { scanned, issues };
+  }
+
+  /**
+   * Match one stored value to the property's options
+   *
+   * Hidden options are still valid values but are never suggested.
+   */
+  private matchValue(
+    value: string,
+    definition: PropertyDefinition,
+    minSimilarity: number
+  ): ValueMatch {
+    const options = definition.options ?? [];
+    if (options.some((o) => o.value === value)) {
+      return { value, kind: 'valid', score: 1 };
+    }
+
+    const visible = options.filter((o) => !o.hidden);
+    const key = this.normalizeOptionKey(value);
+
+    const variant = visible.find(
+      (o) => this.normalizeOptionKey(o.value) === key || this.normalizeOptionKey(o.label) === key
+    );
+    if (variant) {
+      return { value, option: variant, kind: 'variant', score: 1 };
+    }
+
+    let best: PropertyOption | undefined;
+    let bestScore = 0;
+    for (const option of visible) {
+      const score = Math.max(
+        similarityScore(key, this.normalizeOptionKey(option.value)),
+        similarityScore(key, this.normalizeOptionKey(option.label))
+      );
+      if (score > bestScore) {
+        best = option;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= minSimilarity) {
+      return { value, option: best, kind: 'similar', score: bestScore };
+    }
+    return { value, kind: 'unmatched', score: bestScore };
+  }
+
+  /**
+   * Turn the matches for one record value into a single finding
+   */
+  private checkValue(
+    definition: PropertyDefinition,
+    value: string,
+    matches: ValueMatch[]
+  ): DriftIssueData | null {
+    const invalid = matches.filter((m) => m.kind !== 'valid');
+    if (invalid.length === 0) return null;
+
+    const unmatched = invalid.filter((m) => m.kind === 'unmatched');
+    if (unmatched.length > 0) {
+      return {
+        type: 'unmapped_enum_value',
+        severity: 'medium',
+        property: definition.name,
+        description: `"${definition.label}" has ${unmatched.map((m) => `"${m.value}"`).join(', ')}, which is not an option`,
+        currentValue: value,
+        confidence: 'high',
+        reasoning: `No option on "${definition.label}" is close enough to map to; add the value as an option or correct the record by hand`,
+      };
+    }
+
+    const suggested = matches.map((m) => m.option?.value ?? m.value).join(';');
+    const mappings = invalid.map((m) => `"${m.value}" -> "${m.option?.value}"`).join(', ');
+    const similar = invalid.filter((m) => m.kind === 'similar');
+
+    if (similar.length === 0) {
+      return {
+        type: 'enum_value_variant',
+        severity: 'low',
+        property: definition.name,
+        description: `"${definition.label}" value ${mappings} differs from the option only in case, punctuation or label`,
+        currentValue: value,
+        suggestedValue: suggested,
+        confidence: 'high',
+        reasoning: 'Reports and lists only match the exact option value',
+      };
+    }
+
+    const lowest = Math.min(...similar.map((m) => m.score));
+
+    return {
+      type: 'invalid_enum_value',
+      severity: 'medium',
+      property: definition.name,
+      description: `"${definition.label}" value is not a valid option; closest: ${mappings}`,
+      currentValue: value,
+      suggestedValue: suggested,
+      confidence: lowest >= 0.85 ? 'medium' : 'low',
+      reasoning: `Closest option is ${Math.round(lowest * 100)}% similar; reports and lists only match the exact option value`,
+    };
+  }
+
+  /**
+   * Find options on one property that differ only in case or spelling
+   */
+  private findSimilarOptions(
+    objectType: DriftObjectType,
+    definitions: PropertyDefinition[],
+    config: EnumerationDriftConfig
+  ): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+
+    for (const definition of definitions) {
+      const options = (definition.options ?? []).filter((o) => !o.hidden);
+
+      for (let i = 0; i < options.length; i++) {
+        for (let j = i + 1; j < options.length; j++) {
+          const score = similarityScore(
+            this.normalizeOptionKey(options[i].label),
+            this.normalizeOptionKey(options[j].label)
+          );
+          if (score < config.option_similarity_threshold) continue;
+
+          issues.push({
+            id: randomUUID(),
+            type: 'similar_enum_options',
+            severity: 'low',
+            objectType: 'property',
+            objectId: `${objectType}:${definition.name}`,
+            displayName: `${OBJECT_LABELS[objectType]} property "${definition.label}"`,
+            property: definition.name,
+            description: `Options "${options[i].label}" and "${options[j].label}" on "${definition.label}" look like the same value`,
+            currentValue: [options[i].value, options[j].value],
+            confidence: score === 1 ? 'high' : 'medium',
+            detection_method: 'rule',
+            reasoning: `Labels are ${Math.round(score * 100)}% similar; merge the options and hide the duplicate`,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Lowercase and strip everything except letters and digits
+   */
+  private normalizeOptionKey(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+
+  /**
+   * Create an audit issue for a record
+   */
+  private createIssue(
+    objectType: ObjectType,
+    record: Contact | Company | Deal,
+    displayName: string | undefined,
+    issueData: DriftIssueData
+  ): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType,
+      objectId: record.id,
+      displayName,
+      property: issueData.property,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const variants = count('enum_value_variant');
+    const invalid = count('invalid_enum_value');
+    const unmapped = count('unmapped_enum_value');
+    const similarOptions = count('similar_enum_options');
+
+    const recordIssues = issues.filter((i) => i.type !== 'similar_enum_options');
+    if (recordIssues.length > 0) {
+      const byProperty = new Map<string, number>();
+      for (const issue of recordIssues) {
+        const key = issue.property ?? 'unknown';
+        byProperty.set(key, (byProperty.get(key) ?? 0) + 1);
+      }
+      const top = [...byProperty.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+      patterns.push(
+        `${recordIssues.length} records hold values outside their property's options (most affected: ${top.map(([p, n]) => `${p} x${n}`).join(', ')})`
+      );
+      recommendations.push(
+        'Map values to option values in imports and integrations; HubSpot does not validate them'
+      );
+    }
+    if (variants > 0) {
+      patterns.push(`${variants} values differ from an option only in case, punctuation or label`);
+    }
+    if (invalid > 0) {
+      patterns.push(`${invalid} values were mapped to the closest option by similarity`);
+    }
+    if (unmapped > 0) {
+      patterns.push(`${unmapped} values have no close option`);
+      recommendations.push('Decide whether frequent unmapped values should become new options');
+    }
+    if (similarOptions > 0) {
+      patterns.push(`${similarOptions} pairs of options look like the same value`);
+      recommendations.push('Merge near-duplicate options so each value has one spelling');
+    }
+
+    return {
+      summary: `Found ${issues.length} enumeration value issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * ICP Fit Audit
+ *
+ * Scores contacts and companies against config.icp and writes the score
+ * (0-100) and tier (A-D) to configurable custom properties.
+ *
+ * Phase 1: Deterministic scoring
+ * - Industry (with rules.industry_mappings applied)
+ * - Company size (employee counts compared as ranges)
+ * - Job title (contacts only, after expanding abbreviations like "VP")
+ *
+ * Phase 2: AI reasoning for job titles that share words with an ICP title
+ * but do not contain it ("Head of Growth" vs "VP Marketing").
+ *
+ * Each configured dimension counts equally; a dimension with no data on the
+ * record scores half so missing data neither helps nor sinks a record.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  ConfidenceLevel,
+  DetectionMethod,
+} from '../types/audit.js';
+import type { Company, Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { buildIcpTitleFitPrompt, buildSystemPrompt } from '../services/prompts.js';
+import { getIcpTitleFitTools } from '../services/tools.js';
+import { tokenizeTitle } from '../utils/jobTitles.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('icp-fit-audit');
+
+type Tier = 'A' | 'B' | 'C' | 'D';
+type TitleMatch = 'match' | 'ambiguous' | 'none';
+
+const UNKNOWN_FIT = 0.5;
+const AI_BATCH_SIZE = 50;
+const AI_FIT_SCORES = { strong: 1, partial: 0.5, none: 0 };
+
+/**
+ * Fit of a single ICP dimension (0 = mismatch, 1 = match)
+ */
+interface DimensionFit {
+  dimension: 'industry' | 'company_size' | 'job_title';
+  fit: number;
+  detail: string;
+}
+
+/**
+ * A record scored by the rules, possibly waiting on an AI title review
+ */
+interface ScoredRecord {
+  objectType: 'contact' | 'company';
+  record: Contact | Company;
+  displayName?: string;
+  dimensions: DimensionFit[];
+  ambiguousTitle?: string;
+}
+
+/**
+ * AI verdict for one job title
+ */
+interface TitleReview {
+  fit: number;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+/**
+ * Shape returned by the report_icp_title_fit tool
+ */
+interface IcpTitleFitResponse {
+  titles: Array<{
+    title: string;
+    fit: keyof typeof AI_FIT_SCORES;
+    confidence: ConfidenceLevel;
+    reasoning: string;
+  }>;
+  summary: string;
+}
+
+export class IcpFitAudit implements AuditModule {
+  name = 'icp-fit';
+  description = 'Score contacts and companies against the ideal customer profile';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const { icp } = context.config;
+    const config = context.config.icp_fit;
+    logger.info('Starting ICP fit audit');
+
+    if (icp.industries.length + icp.company_sizes.length + icp.job_titles.length === 0) {
+      return buildEmptyAuditResult(this.name, 'No ideal customer profile configured in icp');
+    }
+
+    context.progress.start('Loading companies...');
+    const companies = await this.loadCompanies(context);
+    const companiesById = new Map(companies.map((c) => [c.id, c]));
+
+    // PHASE 1: Deterministic scoring
+    const scored: ScoredRecord[] = [];
+
+    if (config.object_types.includes('companies')) {
+      for (const company of companies) {
+        scored.push(this.scoreCompany(company, context));
+      }
+    }
+
+    if (config.object_types.includes('contacts')) {
+      context.progress.update('Loading contacts...');
+      for (const contact of await this.loadContacts(context)) {
+        const company = companiesById.get(contact.properties.associatedcompanyid ?? '');
+        scored.push(this.scoreContact(contact, company, context));
+      }
+    }
+
+    if (scored.length === 0) {
+      context.progress.succeed('No records to score');
+      return buildEmptyAuditResult(this.name, 'No records found for the configured object types');
+    }
+
+    // PHASE 2: AI reasoning for ambiguous job titles
+    const ambiguousTitles = [
+      ...new Set(scored.map((s) => s.ambiguousTitle).filter((t): t is string => !!t)),
+    ];
+    let aiCost = 0;
+    const reviews = new Map<string, TitleReview>();
+
+    if (ambiguousTitles.length > 0 && config.enable_ai_title_review) {
+      const toReview = ambiguousTitles.slice(0, config.max_ai_titles_per_run);
+
+      for (let i = 0; i < toReview.length; i += AI_BATCH_SIZE) {
+        if (aiCost >= config.max_ai_cost_per_audit) {
+          logger.info({ aiCost }, 'ICP title review budget reached');
+          break;
+        }
+
+        context.progress.update(
+          'Reviewing ambiguous job titles with AI...',
+          Math.round((i / toReview.length) * 100)
+        );
+        const result = await this.analyzeWithReasoning(
+          toReview.slice(i, i + AI_BATCH_SIZE),
+          context
+        );
+        result.reviews.forEach((review, title) => reviews.set(title, review));
+        aiCost += result.cost;
+      }
+    }
+
+    const issues: AuditIssue[] = [];
+    const distribution: Record<Tier, number> = { A: 0, B: 0, C: 0, D: 0 };
+
+    for (const entry of scored) {
+      const review = entry.ambiguousTitle ? reviews.get(entry.ambiguousTitle) : undefined;
+      const dimensions = this.applyTitleReview(entry, review);
+      const score = Math.round(
+        (dimensions.reduce((sum, d) => sum + d.fit, 0) / dimensions.length) * 100
+      );
+      const tier = this.tierFor(score, context);
+      distribution[tier]++;
+
+      issues.push(...this.createIssues(entry, dimensions, score, tier, review, context));
+    }
+
+    const summary = buildAuditSummary(issues, scored.length, aiCost);
+    const ai_insights = this.generateInsights(distribution, scored.length, ambiguousTitles.length);
+
+    logger.info(
+      {
+        elapsedMs: Date.now() - startTime,
+        issuesFound: issues.length,
+        distribution,
+        aiCost,
+      },
+      'ICP fit audit complete'
+    );
+    context.progress.succeed(`Scored ${scored.length} records against the ICP`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadCompanies(context: AuditContext): Promise<Company[]> {
+    const { score_property, tier_property } = context.config.icp_fit;
+    const companies: Company[] = [];
+    const properties = ['name', 'industry', 'numberofemployees', score_property, tier_property];
+
+    for await (const batch of context.hubspot.getCompanies(properties.filter(Boolean))) {
+      companies.push(...batch);
+    }
+
+    return companies;
+  }
+
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const { score_property, tier_property } = context.config.icp_fit;
+    const contacts: Contact[] = [];
+    const properties = [
+      'email',
+      'jobtitle',
+      'industry',
+      'numemployees',
+      'associatedcompanyid',
+      score_property,
+      tier_property,
+    ];
+
+    for await (const batch of context.hubspot.getContacts(properties.filter(Boolean))) {
+      contacts.push(...batch);
+    }
+
+    return contacts;
+  }
+
+  private scoreCompany(company: Company, context: AuditContext): ScoredRecord {
+    const dimensions = this.scoreFirmographics(
+      company.properties.industry,
+      company.properties.numberofemployees,
+      context
+    );
+
+    // Title is a contact dimension; companies are judged on firmographics only
+    return {
+      objectType: 'company',
+      record: company,
+      displayName: company.properties.name ?? undefined,
+      dimensions: dimensions.length > 0 ? dimensions : [this.unknown('job_title')],
+    };
+  }
+
+  /**
+   * Contacts inherit firmographics from their company when it has them
+   */
+  private scoreContact(
+    contact: Contact,
+    company: Company | undefined,
+    context: AuditContext
+  ): ScoredRecord {
+    const dimensions = this.scoreFirmographics(
+      company?.properties.industry ?? contact.properties.industry,
+      company?.properties.numberofemployees ?? contact.properties.numemployees,
+      context
+    );
+
+    let ambiguousTitle: string | undefined;
+    const icpTitles = context.config.icp.job_titles;
+    const jobTitle = contact.properties.jobtitle?.trim();
+
+    if (icpTitles.length > 0) {
+      if (!jobTitle) {
+        dimensions.push(this.unknown('job_title'));
+      } else {
+        const match = this.matchTitle(jobTitle, icpTitles);
+        if (match === 'ambiguous') ambiguousTitle = jobTitle.toLowerCase();
+        dimensions.push({
+          dimension: 'job_title',
+          fit: match === 'match' ? 1 : match === 'none' ? 0 : UNKNOWN_FIT,
+          detail:
+            match === 'match'
+              ? `job title "${jobTitle}" matches ICP`
+              : match === 'none'
+                ? `job title "${jobTitle}" outside ICP`
+                : `job title "${jobTitle}" partly matches ICP`,
+        });
+      }
+    }
+
+    return {
+      objectType: 'contact',
+      record: contact,
+      displayName: contact.properties.email ?? undefined,
+      dimensions,
+      ambiguousTitle,
+    };
+  }
+
+  private scoreFirmographics(
+    industry: string | null | undefined,
+    size: string | null | undefined,
+    context: AuditContext
+  ): DimensionFit[] {
+    const { icp } = context.config;
+    const dimensions: DimensionFit[] = [];
+
+    if (icp.industries.length > 0) {
+      if (!industry) {
+        dimensions.push(this.unknown('industry'));
+      } else {
+        const normalized = this.normalizeIndustry(industry, context);
+        const matches = icp.industries.some(
+          (i) => this.normalizeIndustry(i, context) === normalized
+        );
+        dimensions.push({
+          dimension: 'industry',
+          fit: matches ? 1 : 0,
+          detail: `industry "${industry}" ${matches ? 'matches' : 'outside'} ICP`,
+        });
+      }
+    }
+
+    if (icp.company_sizes.length > 0) {
+      if (!size) {
+        dimensions.push(this.unknown('company_size'));
+      } else {
+        const matches = icp.company_sizes.some((s) => this.sizesOverlap(size, s));
+        dimensions.push({
+          dimension: 'company_size',
+          fit: matches ? 1 : 0,
+          detail: `company size ${size} ${matches ? 'matches' : 'outside'} ICP`,
+        });
+      }
+    }
+
+    return dimensions;
+  }
+
+  private unknown(dimension: DimensionFit['dimension']): DimensionFit {
+    return { dimension, fit: UNKNOWN_FIT, detail: `${dimension.replace('_', ' ')} unknown` };
+  }
+
+  /**
+   * Apply industry_mappings, then compare case- and separator-insensitively
+   * ("COMPUTER_SOFTWARE" equals "Computer Software")
+   */
+  private normalizeIndustry(industry: string, context: AuditContext): string {
+    const key = industry.trim().toLowerCase();
+    const mapping = Object.entries(context.config.rules.industry_mappings).find(
+      ([from]) => from.toLowerCase() === key
+    );
+
+    return (mapping ? mapping[1] : industry)
+      .toLowerCase()
+      .replace(/[\s_-]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Parse "51-200", "1000+", "10,000+" or "120" into an inclusive range
+   */
+  private parseSizeRange(value: string): [number, number] | null {
+    const cleaned = value.replace(/[,\s]/g, '');
+
+    const range = cleaned.match(/^(\d+)-(\d+)$/);
+    if (range) return [Number(range[1]), Number(range[2])];
+
+    const openEnded = cleaned.match(/^(\d+)\+$/);
+    if (openEnded) return [Number(openEnded[1]), Infinity];
+
+    const exact = cleaned.match(/^\d+$/);
+    if (exact) return [Number(cleaned), Number(cleaned)];
+
+    return null;
+  }
+
+  private sizesOverlap(recordSize: string, icpSize: string): boolean {
+    const record = this.parseSizeRange(recordSize);
+    const icp = this.parseSizeRange(icpSize);
+
+    if (!record || !icp) return recordSize.trim().toLowerCase() === icpSize.trim().toLowerCase();
+    return record[0] <= icp[1] && icp[0] <= record[1];
+  }
+
+  /**
+   * A title matches when it contains every word of an ICP title; sharing
+   * only some words is ambiguous and left to AI reasoning
+   */
+  private matchTitle(jobTitle: string, icpTitles: string[]): TitleMatch {
+    const tokens = new Set(tokenizeTitle(jobTitle));
+    let shared = false;
+
+    for (const icpTitle of icpTitles) {
+      const icpTokens = tokenizeTitle(icpTitle);
+      if (icpTokens.length > 0 && icpTokens.every((t) => tokens.has(t))) return 'match';
+      if (icpTokens.some((t) => tokens.has(t))) shared = true;
+    }
+
+    return shared ? 'ambiguous' : 'none';
+  }
+
+  private applyTitleReview(entry: ScoredRecord, review: TitleReview | undefined): DimensionFit[] {
+    if (!review) return entry.dimensions;
+
+    return entry.dimensions.map((d) =>
+      d.dimension === 'job_title'
+        ? {
+            ...d,
+            fit: review.fit,
+            detail: `${d.detail.replace(' partly matches ICP', '')}: ${review.reasoning}`,
+          }
+        : d
+    );
+  }
+
+  private tierFor(score: number, context: AuditContext): Tier {
+    const thresholds = context.config.icp_fit.tier_thresholds;
+    if (score >= thresholds.A) return 'A';
+    if (score >= thresholds.B) return 'B';
+    if (score >= thresholds.C) return 'C';
+    return 'D';
+  }
+
+  /**
+   * PHASE 2: Ask Claude to place job titles the rules could not
+   */
+  private async analyzeWithReasoning(
+    titles: string[],
+    context: AuditContext
+  ): Promise<{ reviews: Map<string, TitleReview>; cost: number }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const requested = new Set(titles);
+
+    try {
+      const response = await context.claude.analyzeWithReasoning<IcpTitleFitResponse>(
+        buildIcpTitleFitPrompt(titles, context.config),
+        {
+          mode: 'reasoning',
+          maxThinkingTokens: 2000,
+          tools: getIcpTitleFitTools(),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'icp-fit-reasoning'
+      );
+
+      const reviews = new Map<string, TitleReview>();
+      for (const entry of response.titles) {
+        // Ignore titles we did not send
+        const title = entry.title.trim().toLowerCase();
+        if (!requested.has(title) || !(entry.fit in AI_FIT_SCORES)) continue;
+
+        reviews.set(title, {
+          fit: AI_FIT_SCORES[entry.fit],
+          confidence: entry.confidence,
+          reasoning: entry.reasoning,
+        });
+      }
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { reviews, cost };
+    } catch (error) {
+      logger.error({ error }, 'ICP title review failed');
+      return { reviews: new Map(), cost: 0 };
+    }
+  }
+
+  /**
+   * Create update issues for the score and tier properties that changed
+   */
+  private createIssues(
+    entry: ScoredRecord,
+    dimensions: DimensionFit[],
+    score: number,
+    tier: Tier,
+    review: TitleReview | undefined,
+    context: AuditContext
+  ): AuditIssue[] {
+    const { score_property, tier_property } = context.config.icp_fit;
+    const reasoning = dimensions.map((d) => d.detail).join('; ');
+    const confidence: ConfidenceLevel = review?.confidence ?? 'high';
+    const detectionMethod: DetectionMethod = review ? 'ai_reasoning' : 'rule';
+
+    const updates: Array<{ type: string; property: string; value: string }> = [
+      { type: 'icp_fit_score', property: score_property, value: String(score) },
+    ];
+    if (tier_property) {
+      updates.push({ type: 'icp_fit_tier', property: tier_property, value: tier });
+    }
+
+    return updates
+      .filter((u) => (entry.record.properties[u.property] ?? '') !== u.value)
+      .map((u) => ({
+        id: randomUUID(),
+        type: u.type,
+        severity: 'low',
+        objectType: entry.objectType,
+        objectId: entry.record.id,
+        displayName: entry.displayName,
+        property: u.property,
+        description: `ICP fit ${u.type === 'icp_fit_score' ? 'score' : 'tier'} is ${u.value} (score ${score}, tier ${tier})`,
+        currentValue: entry.record.properties[u.property] ?? null,
+        suggestedValue: u.value,
+        confidence,
+        detection_method: detectionMethod,
+        reasoning,
+      }));
+  }
+
+  /**
+   * Report the distribution of fit tiers
+   */
+  private generateInsights(
+    distribution: Record<Tier, number>,
+    total: number,
+    ambiguousTitles: number
+  ): AIInsights {
+    const tiers = (Object.keys(distribution) as Tier[]).map(
+      (tier) =>
+        `Tier ${tier}: ${distribution[tier]} (${Math.round((distribution[tier] / total) * 100)}%)`
+    );
+    const patterns = [...tiers];
+    const recommendations: string[] = [];
+
+    if (ambiguousTitles > 0) {
+      patterns.push(`${ambiguousTitles} distinct job titles only partly matched the ICP`);
+    }
+    if (distribution.D / total > 0.5) {
+      recommendations.push(
+        'Most records fall in tier D; check that icp matches the values used in HubSpot'
+      );
+    }
+    recommendations.push('Use the fit tier in lead scoring and list segmentation');
+
+    return {
+      summary: `ICP fit tiers across ${total} records - ${tiers.join(', ')}`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
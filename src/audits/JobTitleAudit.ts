@@ -0,0 +1,392 @@
+/**
+ * Job Title Standardization Audit
+ *
+ * Clusters free-text job title variants ("VP Sales", "Vice-President, Sales",
+ * "vp of sales") and maps each cluster to one standardized title plus a
+ * seniority level and department.
+ *
+ * Phase 1: Rule table
+ * - Variants with the same words (abbreviations expanded) form a cluster
+ * - title_standardization.title_mappings, then the most common variant,
+ *   picks the standardized title
+ * - Seniority and department come from the rules in utils/jobTitles
+ *
+ * Phase 2: AI reasoning for clusters whose department the rules can't place
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  DEPARTMENTS,
+  SENIORITY_LEVELS,
+  classifyDepartment,
+  classifySeniority,
+  formatTitle,
+  tokenizeTitle,
+  type Department,
+  type Seniority,
+} from '../utils/jobTitles.js';
+import { buildSystemPrompt, buildTitleStandardizationPrompt } from '../services/prompts.js';
+import { getTitleStandardizationTools } from '../services/tools.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('job-title-audit');
+
+const AI_BATCH_SIZE = 50;
+
+/**
+ * Title variants sharing the same words
+ */
+interface TitleCluster {
+  key: string;
+  variants: Map<string, number>;
+  contacts: Contact[];
+}
+
+/**
+ * Standardized values for a cluster
+ */
+interface TitleMapping {
+  title: string;
+  seniority?: Seniority;
+  department?: Department;
+  confidence: ConfidenceLevel;
+  detection_method: 'rule' | 'ai_reasoning';
+  reasoning: string;
+}
+
+/**
+ * Shape returned by the report_title_standardization tool
+ */
+interface TitleStandardizationResponse {
+  titles: Array<{
+    title: string;
+    standardized_title: string;
+    seniority: Seniority;
+    department: Department;
+    confidence: ConfidenceLevel;
+    reasoning: string;
+  }>;
+  summary: string;
+}
+
+export class JobTitleAudit implements AuditModule {
+  name = 'job-titles';
+  description = 'Standardize job titles and derive seniority and department';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.title_standardization;
+    logger.info('Starting job title audit');
+
+    context.progress.start('Loading contacts...');
+    const contacts = await this.loadContacts(context);
+
+    // PHASE 1: Cluster variants and map them with the rule table
+    context.progress.update('Clustering job titles...');
+    const clusters = this.clusterTitles(contacts, context);
+
+    if (clusters.length === 0) {
+      context.progress.succeed('No job titles to standardize');
+      return buildEmptyAuditResult(this.name, 'No contacts with job titles found');
+    }
+
+    const mappings = new Map<string, TitleMapping>();
+    const unmapped: TitleCluster[] = [];
+
+    for (const cluster of clusters) {
+      const mapping = this.mapWithRules(cluster, context);
+      mappings.set(cluster.key, mapping);
+      if (!mapping.department) unmapped.push(cluster);
+    }
+
+    // PHASE 2: AI reasoning for titles the rules can't place
+    let aiCost = 0;
+
+    if (unmapped.length > 0 && config.enable_ai_review) {
+      const toReview = unmapped.slice(0, config.max_ai_titles_per_run);
+
+      for (let i = 0; i < toReview.length; i += AI_BATCH_SIZE) {
+        if (aiCost >= config.max_ai_cost_per_audit) {
+          logger.info({ aiCost }, 'Job title review budget reached');
+          break;
+        }
+
+        context.progress.update(
+          'Standardizing unmapped job titles with AI...',
+          Math.round((i / toReview.length) * 100)
+        );
+        const batch = toReview.slice(i, i + AI_BATCH_SIZE);
+        const result = await this.analyzeWithReasoning(batch, mappings, context);
+        result.mappings.forEach((mapping, key) => mappings.set(key, mapping));
+        aiCost += result.cost;
+      }
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const cluster of clusters) {
+      const mapping = mappings.get(cluster.key);
+      if (!mapping) continue;
+
+      for (const contact of cluster.contacts) {
+        issues.push(...this.createIssues(contact, mapping, context));
+      }
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, aiCost);
+    const ai_insights = this.generateInsights(issues, clusters, mappings);
+
+    logger.info(
+      {
+        elapsedMs: Date.now() - startTime,
+        issuesFound: issues.length,
+        clusters: clusters.length,
+        aiCost,
+      },
+      'Job title audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} job title issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const { title_property, seniority_property, department_property } =
+      context.config.title_standardization;
+    const contacts: Contact[] = [];
+    const properties = ['email', title_property, seniority_property, department_property];
+
+    for await (const batch of context.hubspot.getContacts(properties.filter(Boolean))) {
+      contacts.push(...batch);
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Group contacts whose titles contain the same words in any order
+   */
+  private clusterTitles(contacts: Contact[], context: AuditContext): TitleCluster[] {
+    const { title_property } = context.config.title_standardization;
+    const clusters = new Map<string, TitleCluster>();
+
+    for (const contact of contacts) {
+      const title = contact.properties[title_property]?.trim();
+      if (!title) continue;
+
+      const key = [...new Set(tokenizeTitle(title))].sort().join(' ');
+      if (!key) continue;
+
+      let cluster = clusters.get(key);
+      if (!cluster) {
+        cluster = { key, variants: new Map(), contacts: [] };
+        clusters.set(key, cluster);
+      }
+
+      const variant = formatTitle(title);
+      cluster.variants.set(variant, (cluster.variants.get(variant) ?? 0) + 1);
+      cluster.contacts.push(contact);
+    }
+
+    return [...clusters.values()];
+  }
+
+  /**
+   * Explicit mappings win; otherwise the most common variant is the standard
+   */
+  private mapWithRules(cluster: TitleCluster, context: AuditContext): TitleMapping {
+    const mappings = Object.entries(context.config.title_standardization.title_mappings);
+    const explicit = mappings.find(([variant]) =>
+      [...cluster.variants.keys()].some((v) => v.toLowerCase() === variant.trim().toLowerCase())
+    );
+
+    // Map preserves insertion order, so ties go to the first variant seen
+    let title = [...cluster.variants.keys()][0];
+    for (const [variant, count] of cluster.variants) {
+      if (count > (cluster.variants.get(title) ?? 0)) title = variant;
+    }
+    if (explicit) title = explicit[1];
+
+    const tokens = tokenizeTitle(title);
+    const department = classifyDepartment(tokens);
+
+    return {
+      title,
+      seniority: department ? classifySeniority(tokens) : undefined,
+      department,
+      confidence: 'high',
+      detection_method: 'rule',
+      reasoning: explicit
+        ? `Mapped by title_standardization.title_mappings ("${explicit[0]}")`
+        : cluster.variants.size > 1
+          ? `Most common of ${cluster.variants.size} variants of this title`
+          : 'Standard casing and spacing for this title',
+    };
+  }
+
+  /**
+   * PHASE 2: Ask Claude to standardize clusters the rule table can't place
+   */
+  private async analyzeWithReasoning(
+    clusters: TitleCluster[],
+    mappings: Map<string, TitleMapping>,
+    context: AuditContext
+  ): Promise<{ mappings: Map<string, TitleMapping>; cost: number }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const keysByTitle = new Map(
+      clusters.map((c) => [mappings.get(c.key)?.title.toLowerCase() ?? '', c.key])
+    );
+
+    try {
+      const response = await context.claude.analyzeWithReasoning<TitleStandardizationResponse>(
+        buildTitleStandardizationPrompt([...keysByTitle.keys()], context.config),
+        {
+          mode: 'reasoning',
+          maxThinkingTokens: 2000,
+          tools: getTitleStandardizationTools(),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'job-title-reasoning'
+      );
+
+      const reviewed = new Map<string, TitleMapping>();
+      for (const entry of response.titles) {
+        // Ignore titles we did not send and values outside the rule table
+        const key = keysByTitle.get(entry.title.trim().toLowerCase());
+        if (!key || !entry.standardized_title.trim()) continue;
+        if (!SENIORITY_LEVELS.includes(entry.seniority)) continue;
+        if (!DEPARTMENTS.includes(entry.department)) continue;
+
+        reviewed.set(key, {
+          title: entry.standardized_title.trim(),
+          seniority: entry.seniority,
+          department: entry.department,
+          confidence: entry.confidence,
+          detection_method: 'ai_reasoning',
+          reasoning: entry.reasoning,
+        });
+      }
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { mappings: reviewed, cost };
+    } catch (error) {
+      logger.error({ error }, 'Job title review failed');
+      return { mappings: new Map(), cost: 0 };
+    }
+  }
+
+  /**
+   * Create update issues for standardized fields that differ from the contact
+   */
+  private createIssues(
+    contact: Contact,
+    mapping: TitleMapping,
+    context: AuditContext
+  ): AuditIssue[] {
+    const { title_property, seniority_property, department_property } =
+      context.config.title_standardization;
+
+    const updates: Array<{ type: string; property: string; value?: string; label: string }> = [
+      {
+        type: 'nonstandard_job_title',
+        property: title_property,
+        value: mapping.title,
+        label: 'Job title',
+      },
+      {
+        type: 'job_seniority_mismatch',
+        property: seniority_property,
+        value: mapping.seniority,
+        label: 'Seniority',
+      },
+      {
+        type: 'job_department_mismatch',
+        property: department_property,
+        value: mapping.department,
+        label: 'Department',
+      },
+    ];
+
+    return updates
+      .filter((u) => u.property && u.value && contact.properties[u.property] !== u.value)
+      .map((u) => {
+        const current = contact.properties[u.property] ?? null;
+        return {
+          id: randomUUID(),
+          type: u.type,
+          severity: 'low',
+          objectType: 'contact',
+          objectId: contact.id,
+          displayName: contact.properties.email ?? undefined,
+          property: u.property,
+          description: current
+            ? `${u.label} "${current}" should be "${u.value}"`
+            : `${u.label} is empty; title "${mapping.title}" implies "${u.value}"`,
+          currentValue: current,
+          suggestedValue: u.value,
+          confidence: mapping.confidence,
+          detection_method: mapping.detection_method,
+          reasoning: mapping.reasoning,
+        };
+      });
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(
+    issues: AuditIssue[],
+    clusters: TitleCluster[],
+    mappings: Map<string, TitleMapping>
+  ): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const variants = clusters.reduce((sum, c) => sum + c.variants.size, 0);
+    const unplaced = clusters.filter((c) => !mappings.get(c.key)?.department).length;
+    const titles = count('nonstandard_job_title');
+    const classified = count('job_seniority_mismatch') + count('job_department_mismatch');
+
+    patterns.push(`${variants} title variants across ${clusters.length} distinct titles`);
+
+    const widest = [...clusters].sort((a, b) => b.variants.size - a.variants.size)[0];
+    if (widest && widest.variants.size > 1) {
+      patterns.push(
+        `"${mappings.get(widest.key)?.title}" is written ${widest.variants.size} different ways`
+      );
+    }
+    if (titles > 0) {
+      recommendations.push('Use a dropdown or form validation for job title on key forms');
+    }
+    if (classified > 0) {
+      patterns.push(`${classified} seniority or department values can be derived from titles`);
+      recommendations.push('Segment lists and lead scoring on seniority and department');
+    }
+    if (unplaced > 0) {
+      patterns.push(`${unplaced} titles could not be mapped to a department`);
+      recommendations.push('Add recurring titles to title_standardization.title_mappings');
+    }
+
+    return {
+      summary: `Found ${issues.length} job title issues across ${clusters.length} distinct titles`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Junk Record Audit
+ *
+ * Rule-based audit that scores how likely each contact is to be test data,
+ * form spam or a bulk sign-up.
+ *
+ * Signals (weights add up to a 0-100 junk score):
+ * - Known test patterns in names and emails ("test test", "asdf@asdf.com")
+ * - Keyboard mash: keyboard runs, low-entropy or vowel-less names
+ * - First name repeated as last name
+ * - Disposable email domains
+ * - Sign-ups identical apart from sequential numbers
+ * - Many sign-ups in the same second from the same source
+ * - Many sign-ups from the same IP address
+ *
+ * High scores are planned for deletion (always confirmed); borderline
+ * scores are flagged for review. Every finding lists the signals behind it.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { DISPOSABLE_EMAIL_DOMAINS } from '../utils/emailDomains.js';
+import { extractEmailDomain } from '../utils/matching.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('junk-record-audit');
+
+const SIGNAL_WEIGHTS = {
+  test_pattern: 50,
+  keyboard_mash: 40,
+  sequential_signup: 40,
+  burst_signup: 25,
+  repeated_name: 20,
+  disposable_email: 20,
+  shared_ip: 20,
+};
+
+type JunkSignal = keyof typeof SIGNAL_WEIGHTS;
+
+// Words people type when testing a form
+const TEST_WORDS = new Set([
+  'asdf',
+  'dummy',
+  'fake',
+  'foo',
+  'foobar',
+  'noname',
+  'qwerty',
+  'sample',
+  'spam',
+  'test',
+  'tester',
+  'testing',
+  'xxx',
+]);
+
+const TEST_DOMAINS = new Set([
+  'asdf.com',
+  'example.com',
+  'example.net',
+  'example.org',
+  'fake.com',
+  'noemail.com',
+  'test.com',
+]);
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Imports and integrations legitimately create many records per second
+const BULK_SOURCES = new Set(['OFFLINE']);
+
+/**
+ * Signals found on one contact
+ */
+interface ScoredContact {
+  contact: Contact;
+  signals: Map<JunkSignal, string>;
+}
+
+export class JunkRecordAudit implements AuditModule {
+  name = 'junk-records';
+  description = 'Detect test, spam and bulk sign-up contacts';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.junk_detection;
+    logger.info('Starting junk record audit');
+
+    context.progress.start('Loading contacts...');
+    const contacts = await this.loadContacts(context);
+
+    if (contacts.length === 0) {
+      context.progress.succeed('No contacts to check');
+      return buildEmptyAuditResult(this.name, 'No contacts found');
+    }
+
+    context.progress.update('Scoring contacts...');
+    const candidates = contacts.filter(
+      (c) => !config.exempt_lifecycle_stages.includes(c.properties.lifecyclestage ?? '')
+    );
+    const scored: ScoredContact[] = candidates.map((contact) => ({
+      contact,
+      signals: this.recordSignals(contact),
+    }));
+
+    this.addSequentialSignals(scored, context);
+    this.addBurstSignals(scored, context);
+    this.addSharedIpSignals(scored, context);
+
+    const issues: AuditIssue[] = [];
+    for (const entry of scored) {
+      const score = Math.min(
+        100,
+        [...entry.signals.keys()].reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0)
+      );
+      if (score >= config.review_threshold) {
+        issues.push(this.createIssue(entry, score, context));
+      }
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, 0);
+    const ai_insights = this.generateInsights(issues, scored);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Junk record audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} likely junk contacts`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+    const properties = [
+      'email',
+      'firstname',
+      'lastname',
+      'createdate',
+      'lifecyclestage',
+      'hs_analytics_source',
+      'hs_analytics_source_data_1',
+      context.config.junk_detection.ip_property,
+    ];
+
+    for await (const batch of context.hubspot.getContacts(properties.filter(Boolean))) {
+      contacts.push(...batch);
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Signals visible on the record itself
+   */
+  private recordSignals(contact: Contact): Map<JunkSignal, string> {
+    const signals = new Map<JunkSignal, string>();
+    const email = contact.properties.email?.trim().toLowerCase() ?? '';
+    const localPart = email.split('@')[0] ?? '';
+    const domain = extractEmailDomain(email);
+    const firstname = contact.properties.firstname?.trim() ?? '';
+    const lastname = contact.properties.lastname?.trim() ?? '';
+
+    const words = [firstname, lastname, localPart]
+      .flatMap((value) => value.toLowerCase().split(/[^a-z]+/))
+      .filter(Boolean);
+    const testWord = words.find((word) => TEST_WORDS.has(word));
+    if (testWord) {
+      signals.set('test_pattern', `contains test word "${testWord}"`);
+    } else if (TEST_DOMAINS.has(domain)) {
+      signals.set('test_pattern', `uses test domain ${domain}`);
+    }
+
+    const mashed = [firstname, lastname, localPart].find((value) => this.isKeyboardMash(value));
+    if (mashed) {
+      signals.set('keyboard_mash', `"${mashed}" looks like keyboard mash`);
+    }
+
+    if (firstname && firstname.toLowerCase() === lastname.toLowerCase()) {
+      signals.set('repeated_name', `first and last name are both "${firstname}"`);
+    }
+
+    if (DISPOSABLE_EMAIL_DOMAINS.includes(domain)) {
+      signals.set('disposable_email', `uses disposable email domain ${domain}`);
+    }
+
+    return signals;
+  }
+
+  /**
+   * Keyboard runs ("sdfgh"), repetitive letters ("aaaaa") or long consonant runs
+   *
+   * Runs are five keys long; four-key runs appear in real names ("Doherty").
+   */
+  private isKeyboardMash(value: string): boolean {
+    const letters = value.toLowerCase().replace(/[^a-z]/g, '');
+    if (letters.length < 5) return false;
+
+    for (let i = 0; i + 5 <= letters.length; i++) {
+      const run = letters.slice(i, i + 5);
+      const reversed = [...run].reverse().join('');
+      if (KEYBOARD_ROWS.some((row) => row.includes(run) || row.includes(reversed))) return true;
+    }
+
+    if (this.entropy(letters) <= 1) return true;
+
+    return /[bcdfghjklmnpqrstvwxz]{6,}/.test(letters);
+  }
+
+  /**
+   * Shannon entropy in bits per character
+   */
+  private entropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / value.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+
+  /**
+   * Sign-ups identical apart from numbers ("user1@x.com", "user2@x.com")
+   */
+  private addSequentialSignals(scored: ScoredContact[], context: AuditContext): void {
+    const groups = this.groupBy(scored, ({ contact }) => {
+      const email = contact.properties.email?.trim().toLowerCase() ?? '';
+      if (!/\d/.test(email)) return null;
+
+      return [email, contact.properties.firstname ?? '', contact.properties.lastname ?? '']
+        .map((value) => value.toLowerCase().replace(/\d+/g, '#'))
+        .join('|');
+    });
+
+    for (const [pattern, group] of groups) {
+      if (group.length < context.config.junk_detection.sequential_min_records) continue;
+
+      for (const entry of group) {
+        entry.signals.set(
+          'sequential_signup',
+          `one of ${group.length} sign-ups matching ${pattern.split('|')[0]}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Many sign-ups created in the same second from the same source
+   */
+  private addBurstSignals(scored: ScoredContact[], context: AuditContext): void {
+    const groups = this.groupBy(scored, ({ contact }) => {
+      const created = Date.parse(contact.properties.createdate ?? '');
+      const source = contact.properties.hs_analytics_source ?? '';
+      if (Number.isNaN(created) || BULK_SOURCES.has(source)) return null;
+
+      return `${Math.floor(created / 1000)}|${source}|${contact.properties.hs_analytics_source_data_1 ?? ''}`;
+    });
+
+    for (const [key, group] of groups) {
+      if (group.length < context.config.junk_detection.burst_min_records) continue;
+
+      const second = new Date(Number(key.split('|')[0]) * 1000).toISOString();
+      const source = key.split('|').slice(1).filter(Boolean).join(' / ') || 'unknown source';
+      for (const entry of group) {
+        entry.signals.set(
+          'burst_signup',
+          `one of ${group.length} contacts created at ${second} from ${source}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Many sign-ups from one IP address
+   */
+  private addSharedIpSignals(scored: ScoredContact[], context: AuditContext): void {
+    const { ip_property, max_records_per_ip } = context.config.junk_detection;
+    if (!ip_property) return;
+
+    const groups = this.groupBy(scored, ({ contact }) => contact.properties[ip_property] ?? null);
+
+    for (const [ip, group] of groups) {
+      if (group.length <= max_records_per_ip) continue;
+
+      for (const entry of group) {
+        entry.signals.set('shared_ip', `one of ${group.length} contacts from IP ${ip}`);
+      }
+    }
+  }
+
+  private groupBy(
+    scored: ScoredContact[],
+    keyOf: (entry: ScoredContact) => string | null
+  ): Map<string, ScoredContact[]> {
+    const groups = new Map<string, ScoredContact[]>();
+
+    for (const entry of scored) {
+      const key = keyOf(entry);
+      if (!key) continue;
+      const group = groups.get(key);
+      if (group) group.push(entry);
+      else groups.set(key, [entry]);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Create a deletion (or review) issue listing every signal
+   */
+  private createIssue(entry: ScoredContact, score: number, context: AuditContext): AuditIssue {
+    const { contact, signals } = entry;
+    const deletable = score >= context.config.junk_detection.delete_threshold;
+    const confidence: ConfidenceLevel = !deletable ? 'low' : score >= 90 ? 'high' : 'medium';
+
+    return {
+      id: randomUUID(),
+      type: deletable ? 'junk_record' : 'possible_junk_record',
+      severity: deletable ? 'high' : 'medium',
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: contact.properties.email ?? undefined,
+      description: `${deletable ? 'Likely' : 'Possible'} junk contact (junk score ${score}/100)`,
+      currentValue: {
+        email: contact.properties.email ?? null,
+        firstname: contact.properties.firstname ?? null,
+        lastname: contact.properties.lastname ?? null,
+        createdate: contact.properties.createdate ?? null,
+      },
+      confidence,
+      detection_method: 'rule',
+      reasoning: `Junk score ${score}/100: ${[...signals.values()].join('; ')}`,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[], scored: ScoredContact[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+    const flagged = new Set(issues.map((i) => i.objectId));
+    const withSignal = (...signals: JunkSignal[]): number =>
+      scored.filter((s) => flagged.has(s.contact.id) && signals.some((x) => s.signals.has(x)))
+        .length;
+
+    const junk = count('junk_record');
+    const possible = count('possible_junk_record');
+
+    if (junk > 0) patterns.push(`${junk} contacts are very likely junk`);
+    if (possible > 0) patterns.push(`${possible} contacts may be junk and need review`);
+
+    const testData = withSignal('test_pattern');
+    const bulk = withSignal('burst_signup', 'sequential_signup');
+    const mash = withSignal('keyboard_mash');
+
+    if (testData > 0) {
+      patterns.push(`${testData} flagged contacts look like test data`);
+      recommendations.push('Test forms and imports in a sandbox portal instead of production');
+    }
+    if (bulk > 0) {
+      patterns.push(`${bulk} flagged contacts came from bulk or sequential sign-ups`);
+      recommendations.push('Enable CAPTCHA and rate limiting on public forms');
+    }
+    if (mash > 0) {
+      patterns.push(`${mash} flagged contacts have keyboard-mash names or emails`);
+    }
+    if (junk > 0) {
+      recommendations.push(
+        'Review each deletion before executing; deleted contacts cannot be restored'
+      );
+    }
+
+    return {
+      summary: `Found ${issues.length} likely junk contacts using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
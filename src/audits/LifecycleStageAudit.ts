@@ -0,0 +1,553 @@
+/**
+ * Lifecycle Stage Audit
+ *
+ * Two-phase audit of contact lifecycle stages against the rest of the record.
+ *
+ * Phase 1: Rule-based checks
+ * - Leads (subscriber through SQL) that have an open or won deal
+ * - Customers whose deals are all still open
+ * - Contacts behind their associated company's stage
+ *
+ * Phase 2: AI reasoning for borderline cases
+ * - Customers with no open or won deal (may be billed outside HubSpot)
+ * - Stages that moved backwards (may be a deliberate recycle after churn)
+ *
+ * Every finding becomes an update_property action on lifecyclestage.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+  DetectionMethod,
+} from '../types/audit.js';
+import type { Contact, Deal } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { LIFECYCLE_STAGE_ORDER, lifecycleStageIndex } from '../utils/lifecycle.js';
+import { buildLifecycleReviewPrompt, buildSystemPrompt } from '../services/prompts.js';
+import { getLifecycleReviewTools } from '../services/tools.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('lifecycle-stage-audit');
+
+const PRE_DEAL_STAGES = new Set(LIFECYCLE_STAGE_ORDER.slice(0, 4));
+const CUSTOMER_INDEX = LIFECYCLE_STAGE_ORDER.indexOf('customer');
+
+const AI_BATCH_SIZE = 25;
+
+// HubSpot records when a contact first entered each stage
+const stageDateProperty = (stage: string): string => `hs_lifecyclestage_${stage}_date`;
+
+const CONTACT_PROPERTIES = [
+  'email',
+  'firstname',
+  'lastname',
+  'lifecyclestage',
+  'associatedcompanyid',
+  ...LIFECYCLE_STAGE_ORDER.map(stageDateProperty),
+];
+
+/**
+ * Deal counts for a contact, by outcome
+ */
+interface DealCounts {
+  open: number;
+  won: number;
+  lost: number;
+}
+
+/**
+ * Deal counts per contact, and whether every won deal was checked
+ */
+interface DealAssociations {
+  counts: Map<string, DealCounts>;
+  all_won_checked: boolean; // False when the scan was cut short or a lookup failed
+}
+
+// Won deals are checked first: a missed one would make a real customer look like a downgrade
+const DEAL_CHECK_ORDER: Record<keyof DealCounts, number> = { won: 0, open: 1, lost: 2 };
+
+/**
+ * Issue details produced by a single check
+ */
+interface LifecycleIssueData {
+  type: string;
+  severity: Severity;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: string;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+/**
+ * A finding the rules cannot settle on their own
+ */
+interface BorderlineCase {
+  contact: Contact;
+  issue: LifecycleIssueData;
+  evidence: Record<string, unknown>;
+}
+
+/**
+ * Shape returned by the report_lifecycle_review tool
+ */
+interface LifecycleReviewResponse {
+  decisions: Array<{
+    contactId: string;
+    recommendedStage: string;
+    confidence: ConfidenceLevel;
+    reasoning: string;
+  }>;
+  summary: string;
+}
+
+export class LifecycleStageAudit implements AuditModule {
+  name = 'lifecycle-stage';
+  description = 'Check lifecycle stages against deals, stage history and companies';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.lifecycle_stage;
+    logger.info('Starting lifecycle stage audit');
+
+    context.progress.start('Loading contacts...');
+    const contacts = await this.loadContacts(context);
+
+    if (contacts.length === 0) {
+      context.progress.succeed('No contacts with a lifecycle stage');
+      return buildEmptyAuditResult(this.name, 'No contacts with a lifecycle stage to check');
+    }
+
+    context.progress.update('Loading deal associations...');
+    const { counts: dealsByContact, all_won_checked } = await this.loadDealsByContact(context);
+
+    const companyStages = config.check_company_stage
+      ? await this.loadCompanyStages(context)
+      : new Map<string, string>();
+
+    // PHASE 1: Rule-based checks - at most one stage change per contact
+    context.progress.update('Checking lifecycle stages...');
+    const issues: AuditIssue[] = [];
+    const borderline: BorderlineCase[] = [];
+
+    for (const contact of contacts) {
+      const deals = dealsByContact.get(contact.id) ?? { open: 0, won: 0, lost: 0 };
+      const companyStage = companyStages.get(contact.properties.associatedcompanyid ?? '');
+
+      const finding =
+        this.checkDeals(contact, deals, companyStage, all_won_checked) ??
+        this.checkCompanyStage(contact, companyStage) ??
+        this.checkRegression(contact, deals);
+
+      if (!finding) continue;
+      if ('evidence' in finding) {
+        borderline.push(finding);
+      } else {
+        issues.push(this.createIssue(contact, finding));
+      }
+    }
+
+    // PHASE 2: AI reasoning for borderline cases
+    let aiCost = 0;
+    const reviewed = new Set<string>();
+
+    if (borderline.length > 0 && config.enable_ai_review) {
+      const toReview = borderline.slice(0, config.max_ai_cases_per_run);
+
+      for (let i = 0; i < toReview.length; i += AI_BATCH_SIZE) {
+        if (aiCost >= config.max_ai_cost_per_audit) {
+          logger.info({ aiCost }, 'Lifecycle review budget reached');
+          break;
+        }
+
+        context.progress.update(
+          `Reviewing borderline stages with AI...`,
+          Math.round((i / toReview.length) * 100)
+        );
+        const batch = toReview.slice(i, i + AI_BATCH_SIZE);
+        const result = await this.analyzeWithReasoning(batch, context);
+        issues.push(...result.issues);
+        result.reviewed.forEach((id) => reviewed.add(id));
+        aiCost += result.cost;
+      }
+    }
+
+    // Unreviewed cases keep their rule-based suggestion at low confidence
+    let unresolved = 0;
+    for (const entry of borderline) {
+      if (reviewed.has(entry.contact.id)) continue;
+      if (entry.issue.suggestedValue) {
+        issues.push(this.createIssue(entry.contact, { ...entry.issue, confidence: 'low' }));
+      } else {
+        unresolved++;
+      }
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, aiCost);
+    const ai_insights = this.generateInsights(issues, unresolved);
+
+    logger.info(
+      {
+        elapsedMs: Date.now() - startTime,
+        issuesFound: issues.length,
+        borderline: borderline.length,
+        aiCost,
+      },
+      'Lifecycle stage audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} lifecycle stage issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load contacts whose lifecycle stage has a position in the funnel
+   */
+  private async loadContacts(context: AuditContext): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+
+    for await (const batch of context.hubspot.getContacts(CONTACT_PROPERTIES)) {
+      for (const contact of batch) {
+        if (lifecycleStageIndex(contact.properties.lifecyclestage) >= 0) contacts.push(contact);
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Count each contact's deals by outcome
+   */
+  private async loadDealsByContact(context: AuditContext): Promise<DealAssociations> {
+    const deals: Deal[] = [];
+    for await (const batch of context.hubspot.getDeals([
+      'dealstage',
+      'hs_is_closed',
+      'hs_is_closed_won',
+    ])) {
+      deals.push(...batch);
+    }
+
+    // Won deals first, then open ones; lost deals matter least
+    const { max_deal_association_checks } = context.config.lifecycle_stage;
+    const toCheck = deals
+      .sort((a, b) => DEAL_CHECK_ORDER[this.dealOutcome(a)] - DEAL_CHECK_ORDER[this.dealOutcome(b)])
+      .slice(0, max_deal_association_checks);
+
+    const wonDeals = deals.filter((deal) => this.dealOutcome(deal) === 'won').length;
+    let wonChecked = 0;
+
+    if (toCheck.length < deals.length) {
+      logger.info(
+        { checking: toCheck.length, total: deals.length },
+        'Limiting deal association checks'
+      );
+    }
+
+    const counts = new Map<string, DealCounts>();
+    for (const deal of toCheck) {
+      try {
+        const associations = await context.hubspot.getAssociations('deals', deal.id, 'contacts');
+        const outcome = this.dealOutcome(deal);
+
+        for (const association of associations) {
+          const entry = counts.get(association.id) ?? { open: 0, won: 0, lost: 0 };
+          entry[outcome]++;
+          counts.set(association.id, entry);
+        }
+        if (outcome === 'won') wonChecked++;
+      } catch (error) {
+        logger.error({ dealId: deal.id, error }, 'Failed to load deal contacts');
+      }
+    }
+
+    const all_won_checked = wonChecked === wonDeals;
+    if (!all_won_checked) {
+      logger.warn(
+        { wonChecked, wonDeals },
+        'Not every won deal was checked; skipping customer downgrades'
+      );
+    }
+
+    return { counts, all_won_checked };
+  }
+
+  /**
+   * Map company ID to its lifecycle stage
+   */
+  private async loadCompanyStages(context: AuditContext): Promise<Map<string, string>> {
+    const stages = new Map<string, string>();
+
+    for await (const batch of context.hubspot.getCompanies(['name', 'lifecyclestage'])) {
+      for (const company of batch) {
+        const stage = company.properties.lifecyclestage;
+        if (stage && lifecycleStageIndex(stage) >= 0) stages.set(company.id, stage);
+      }
+    }
+
+    return stages;
+  }
+
+  private dealOutcome(deal: Deal): keyof DealCounts {
+    const { hs_is_closed, hs_is_closed_won, dealstage } = deal.properties;
+    if (hs_is_closed_won === 'true' || dealstage === 'closedwon') return 'won';
+    if (hs_is_closed === 'true' || dealstage === 'closedlost') return 'lost';
+    return 'open';
+  }
+
+  /**
+   * Compare the stage with the contact's deals
+   * Customers are only questioned when every won deal was checked, since an
+   * unchecked one may be theirs
+   */
+  private checkDeals(
+    contact: Contact,
+    deals: DealCounts,
+    companyStage: string | undefined,
+    allWonChecked: boolean
+  ): LifecycleIssueData | BorderlineCase | null {
+    const stage = contact.properties.lifecyclestage ?? '';
+
+    if (PRE_DEAL_STAGES.has(stage) && (deals.open > 0 || deals.won > 0)) {
+      const suggested = deals.won > 0 ? 'customer' : 'opportunity';
+      return {
+        type: 'lead_with_open_deal',
+        severity: 'medium',
+        description: `Contact is "${stage}" but has ${deals.won > 0 ? 'a closed-won' : 'an open'} deal`,
+        currentValue: stage,
+        suggestedValue: suggested,
+        confidence: 'high',
+        reasoning:
+          deals.won > 0
+            ? `Contact is associated with ${deals.won} closed-won deal(s)`
+            : `Contact is associated with ${deals.open} open deal(s), which makes them an opportunity`,
+      };
+    }
+
+    if (stage !== 'customer' || deals.won > 0 || !allWonChecked) return null;
+
+    // The won deal may sit with a colleague when the whole company is a customer
+    if (lifecycleStageIndex(companyStage) >= CUSTOMER_INDEX) return null;
+
+    const issue: LifecycleIssueData = {
+      type: 'customer_without_won_deal',
+      severity: 'medium',
+      description: 'Contact is a customer but has no closed-won deal',
+      currentValue: stage,
+      suggestedValue: deals.open > 0 || deals.lost > 0 ? 'opportunity' : undefined,
+      confidence: 'medium',
+      reasoning:
+        deals.open > 0
+          ? `Contact's ${deals.open} deal(s) are still open, so they are not a customer yet`
+          : 'Customer stage without a won deal inflates customer counts and revenue attribution',
+    };
+
+    if (deals.open > 0) return issue;
+    return { contact, issue, evidence: { deals, company_stage: companyStage ?? null } };
+  }
+
+  /**
+   * Contacts should be at least as far along as their company
+   */
+  private checkCompanyStage(
+    contact: Contact,
+    companyStage: string | undefined
+  ): LifecycleIssueData | null {
+    const stage = contact.properties.lifecyclestage ?? '';
+    if (!companyStage || lifecycleStageIndex(stage) >= lifecycleStageIndex(companyStage))
+      return null;
+
+    return {
+      type: 'lifecycle_behind_company',
+      severity: 'low',
+      description: `Contact is "${stage}" but their company is "${companyStage}"`,
+      currentValue: stage,
+      suggestedValue: companyStage,
+      confidence: 'medium',
+      reasoning: `Associated company is already "${companyStage}"; contact stages normally follow their company`,
+    };
+  }
+
+  /**
+   * A later stage's entry date means the stage was moved backwards
+   */
+  private checkRegression(contact: Contact, deals: DealCounts): BorderlineCase | null {
+    const stage = contact.properties.lifecyclestage ?? '';
+    const current = lifecycleStageIndex(stage);
+
+    let highest = current;
+    for (let i = current + 1; i < LIFECYCLE_STAGE_ORDER.length; i++) {
+      if (contact.properties[stageDateProperty(LIFECYCLE_STAGE_ORDER[i])]) highest = i;
+    }
+    if (highest === current) return null;
+
+    const reached = LIFECYCLE_STAGE_ORDER[highest];
+    const reachedAt = contact.properties[stageDateProperty(reached)];
+
+    return {
+      contact,
+      issue: {
+        type: 'lifecycle_regression',
+        severity: 'medium',
+        description: `Lifecycle stage moved backwards from "${reached}" to "${stage}"`,
+        currentValue: stage,
+        suggestedValue: reached,
+        confidence: 'medium',
+        reasoning: `Contact entered "${reached}" on ${reachedAt?.slice(0, 10)} but is now "${stage}"`,
+      },
+      evidence: { reached_stage: reached, reached_at: reachedAt, deals },
+    };
+  }
+
+  /**
+   * PHASE 2: Ask Claude to settle borderline stages
+   */
+  private async analyzeWithReasoning(
+    cases: BorderlineCase[],
+    context: AuditContext
+  ): Promise<{ issues: AuditIssue[]; reviewed: Set<string>; cost: number }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const casesById = new Map(cases.map((c) => [c.contact.id, c]));
+
+    const prompt = buildLifecycleReviewPrompt(
+      cases.map((c) => ({
+        contactId: c.contact.id,
+        currentStage: c.contact.properties.lifecyclestage ?? '',
+        finding: c.issue.description,
+        evidence: c.evidence,
+      })),
+      LIFECYCLE_STAGE_ORDER,
+      context.config
+    );
+
+    try {
+      const response = await context.claude.analyzeWithReasoning<LifecycleReviewResponse>(
+        prompt,
+        {
+          mode: 'reasoning',
+          maxThinkingTokens: 2000,
+          tools: getLifecycleReviewTools(),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'lifecycle-stage-reasoning'
+      );
+
+      const issues: AuditIssue[] = [];
+      const reviewed = new Set<string>();
+
+      for (const decision of response.decisions) {
+        // Ignore decisions for contacts we did not send
+        const entry = casesById.get(decision.contactId);
+        if (!entry) continue;
+        reviewed.add(entry.contact.id);
+
+        const current = entry.contact.properties.lifecyclestage;
+        if (lifecycleStageIndex(decision.recommendedStage) < 0) continue; // "keep" or unknown
+        if (decision.recommendedStage === current) continue;
+
+        issues.push(
+          this.createIssue(
+            entry.contact,
+            {
+              ...entry.issue,
+              suggestedValue: decision.recommendedStage,
+              confidence: decision.confidence,
+              reasoning: decision.reasoning,
+            },
+            'ai_reasoning'
+          )
+        );
+      }
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { issues, reviewed, cost };
+    } catch (error) {
+      logger.error({ error }, 'Lifecycle stage review failed');
+      return { issues: [], reviewed: new Set(), cost: 0 };
+    }
+  }
+
+  /**
+   * Create an audit issue for a contact's lifecycle stage
+   */
+  private createIssue(
+    contact: Contact,
+    issueData: LifecycleIssueData,
+    detectionMethod: DetectionMethod = 'rule'
+  ): AuditIssue {
+    const { email, firstname, lastname } = contact.properties;
+    const name = [firstname, lastname].filter(Boolean).join(' ');
+
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: email ?? (name || undefined),
+      property: 'lifecyclestage',
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: detectionMethod,
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[], unresolved: number): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const leads = count('lead_with_open_deal');
+    const customers = count('customer_without_won_deal');
+    const regressions = count('lifecycle_regression');
+    const behind = count('lifecycle_behind_company');
+
+    if (leads > 0) {
+      patterns.push(`${leads} leads already have deals`);
+      recommendations.push(
+        'Enable the "sync lifecycle stage with deals" automation so deal creation advances contacts'
+      );
+    }
+    if (customers > 0) {
+      patterns.push(`${customers} customers have no closed-won deal`);
+      recommendations.push('Record customer deals in HubSpot so customer counts stay accurate');
+    }
+    if (regressions > 0) {
+      patterns.push(`${regressions} contacts moved backwards through the funnel`);
+      recommendations.push('Review imports and workflows that clear or overwrite lifecycle stage');
+    }
+    if (behind > 0) {
+      patterns.push(`${behind} contacts are behind their company's lifecycle stage`);
+    }
+    if (unresolved > 0) {
+      patterns.push(`${unresolved} borderline contacts were not reviewed`);
+      recommendations.push(
+        'Review the remaining borderline contacts manually or raise the lifecycle_stage AI limits'
+      );
+    }
+
+    return {
+      summary: `Found ${issues.length} lifecycle stage issues`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
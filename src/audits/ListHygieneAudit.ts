@@ -0,0 +1,354 @@
+/**
+ * List Hygiene Audit (Epic 11)
+ *
+ * Rule-based audit of HubSpot lists and their memberships.
+ *
+ * Detects:
+ * - Empty lists
+ * - Static lists nobody has updated in N days
+ * - Lists that almost fully overlap another list
+ * - Unsubscribed or hard-bounced members of marketing lists
+ *
+ * Membership problems become remove_from_list actions; list-level findings
+ * are flagged for review because lists are archived by hand in HubSpot.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact, List } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('list-hygiene-audit');
+
+/**
+ * Contact properties that describe email deliverability
+ */
+const EMAIL_STATUS_PROPERTIES = [
+  'email',
+  'hs_email_optout',
+  'hs_email_hard_bounce_reason_enum',
+  'hs_email_bad_address',
+];
+
+export class ListHygieneAudit implements AuditModule {
+  name = 'list-hygiene';
+  description = 'Detect empty, stale and overlapping lists and unreachable list members';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting list hygiene audit');
+
+    context.progress.start('Loading lists...');
+    const lists = await context.hubspot.getLists();
+
+    if (lists.length === 0) {
+      context.progress.succeed('No lists found');
+      return buildEmptyAuditResult(this.name, 'No lists found for list hygiene audit');
+    }
+
+    const issues: AuditIssue[] = [];
+
+    // List-level checks
+    for (const list of lists) {
+      if (list.size === 0) {
+        issues.push(
+          this.createIssue(list, {
+            type: 'empty_list',
+            severity: 'low',
+            description: `List "${list.name}" has no members`,
+            currentValue: { size: 0, dynamic: list.dynamic },
+            confidence: 'high',
+            reasoning: 'Empty lists add clutter; archive it unless it is waiting for a campaign',
+          })
+        );
+        continue;
+      }
+
+      const staleIssue = this.checkStaleStaticList(list, context);
+      if (staleIssue) issues.push(staleIssue);
+    }
+
+    // Membership checks
+    context.progress.update('Loading list memberships...');
+    const members = await this.loadMembers(lists, context);
+
+    context.progress.update('Comparing list overlap...');
+    issues.push(...this.findOverlappingLists(lists, members, context));
+
+    context.progress.update('Checking marketing list members...');
+    issues.push(...(await this.findUnreachableMembers(lists, members, context)));
+
+    const summary = buildAuditSummary(issues, lists.length, 0);
+    const ai_insights = this.generateInsights(issues);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'List hygiene audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} issues across ${lists.length} lists`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Flag static lists that have not been updated in stale_static_list_days
+   */
+  private checkStaleStaticList(list: List, context: AuditContext): AuditIssue | null {
+    if (list.dynamic || !list.updatedAt) return null;
+
+    const threshold = context.config.list_hygiene.stale_static_list_days;
+    const daysSinceUpdate =
+      (Date.now() - new Date(list.updatedAt).getTime()) / (1000 * 60 * 60 * 24);
+
+    if (daysSinceUpdate <= threshold) return null;
+
+    return this.createIssue(list, {
+      type: 'stale_static_list',
+      severity: 'low',
+      description: `Static list "${list.name}" has not been updated in ${Math.floor(daysSinceUpdate)} days (threshold: ${threshold})`,
+      currentValue: { updatedAt: list.updatedAt, size: list.size },
+      confidence: 'medium',
+      reasoning:
+        'Old static lists are usually one-off imports or sends; archive or convert to an active list',
+    });
+  }
+
+  /**
+   * Load member contact IDs for every non-empty list
+   */
+  private async loadMembers(
+    lists: List[],
+    context: AuditContext
+  ): Promise<Map<string, Set<string>>> {
+    const members = new Map<string, Set<string>>();
+
+    for (const list of lists) {
+      if (list.size === 0) continue;
+
+      try {
+        const memberships = await context.hubspot.getListMembers(list.listId);
+        members.set(list.listId, new Set(memberships.map((m) => String(m.recordId))));
+      } catch (error) {
+        logger.error({ listId: list.listId, error }, 'Failed to load list members');
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Find list pairs where most of the smaller list is contained in the larger one
+   */
+  private findOverlappingLists(
+    lists: List[],
+    members: Map<string, Set<string>>,
+    context: AuditContext
+  ): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const threshold = context.config.list_hygiene.overlap_threshold;
+    const loaded = lists.filter((l) => (members.get(l.listId)?.size ?? 0) > 0);
+
+    for (let i = 0; i < loaded.length; i++) {
+      for (let j = i + 1; j < loaded.length; j++) {
+        const membersA = members.get(loaded[i].listId)!;
+        const membersB = members.get(loaded[j].listId)!;
+        const [smaller, larger] =
+          membersA.size <= membersB.size ? [loaded[i], loaded[j]] : [loaded[j], loaded[i]];
+        const smallerMembers = members.get(smaller.listId)!;
+        const largerMembers = members.get(larger.listId)!;
+
+        let shared = 0;
+        for (const id of smallerMembers) {
+          if (largerMembers.has(id)) shared++;
+        }
+
+        const overlap = shared / smallerMembers.size;
+        if (overlap < threshold) continue;
+
+        issues.push(
+          this.createIssue(smaller, {
+            type: 'overlapping_lists',
+            severity: 'low',
+            description: `${Math.round(overlap * 100)}% of list "${smaller.name}" is also in "${larger.name}"`,
+            currentValue: {
+              overlap: Number(overlap.toFixed(2)),
+              shared_members: shared,
+              overlapping_list_id: larger.listId,
+            },
+            suggestedValue: larger.listId,
+            confidence: overlap === 1 ? 'high' : 'medium',
+            reasoning: `Near-identical lists are hard to keep in sync; consider consolidating into "${larger.name}"`,
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find unsubscribed or hard-bounced contacts in static marketing lists
+   */
+  private async findUnreachableMembers(
+    lists: List[],
+    members: Map<string, Set<string>>,
+    context: AuditContext
+  ): Promise<AuditIssue[]> {
+    // Dynamic list membership is filter-driven, so only static lists can be cleaned up
+    const marketingLists = lists.filter(
+      (l) => !l.dynamic && members.has(l.listId) && this.isMarketingList(l, context)
+    );
+    if (marketingLists.length === 0) return [];
+
+    const contactIds = new Set<string>();
+    for (const list of marketingLists) {
+      for (const id of members.get(list.listId)!) contactIds.add(id);
+    }
+
+    const contacts = await context.hubspot.batchReadContacts(
+      Array.from(contactIds),
+      EMAIL_STATUS_PROPERTIES
+    );
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+
+    const issues: AuditIssue[] = [];
+    for (const list of marketingLists) {
+      for (const contactId of members.get(list.listId)!) {
+        const contact = contactsById.get(contactId);
+        if (!contact) continue;
+
+        const issue = this.checkMemberStatus(list, contact);
+        if (issue) issues.push(issue);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check whether a list member can still receive marketing email
+   */
+  private checkMemberStatus(list: List, contact: Contact): AuditIssue | null {
+    const label = contact.properties.email ?? `Contact ${contact.id}`;
+
+    if (contact.properties.hs_email_optout === 'true') {
+      return this.createIssue(list, {
+        type: 'unsubscribed_list_member',
+        severity: 'medium',
+        description: `${label} is unsubscribed but still in marketing list "${list.name}"`,
+        currentValue: { contactId: contact.id, hs_email_optout: 'true' },
+        suggestedValue: contact.id,
+        confidence: 'high',
+        reasoning:
+          'Unsubscribed contacts cannot be emailed; keeping them inflates list size and reporting',
+      });
+    }
+
+    const bounceReason = contact.properties.hs_email_hard_bounce_reason_enum;
+    if (bounceReason || contact.properties.hs_email_bad_address === 'true') {
+      return this.createIssue(list, {
+        type: 'bounced_list_member',
+        severity: 'medium',
+        description: `${label} has hard-bounced but is still in marketing list "${list.name}"`,
+        currentValue: { contactId: contact.id, bounce_reason: bounceReason ?? 'bad_address' },
+        suggestedValue: contact.id,
+        confidence: 'high',
+        reasoning: 'Sending to hard-bounced addresses hurts sender reputation',
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Decide whether a list is used for marketing email based on its name
+   */
+  private isMarketingList(list: List, context: AuditContext): boolean {
+    const keywords = context.config.list_hygiene.marketing_list_keywords;
+    if (keywords.length === 0) return true;
+
+    const name = list.name.toLowerCase();
+    return keywords.some((k) => name.includes(k.toLowerCase()));
+  }
+
+  /**
+   * Create an audit issue for a list
+   */
+  private createIssue(
+    list: List,
+    issueData: {
+      type: string;
+      severity: Severity;
+      description: string;
+      currentValue?: unknown;
+      suggestedValue?: unknown;
+      confidence: ConfidenceLevel;
+      reasoning: string;
+    }
+  ): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'list',
+      objectId: list.listId,
+      displayName: `List "${list.name}"`,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[]): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+    const empty = count('empty_list');
+    const stale = count('stale_static_list');
+    const overlapping = count('overlapping_lists');
+    const unreachable = count('unsubscribed_list_member') + count('bounced_list_member');
+
+    if (empty + stale > 0) {
+      patterns.push(`${empty} empty and ${stale} stale static lists`);
+      recommendations.push('Archive lists that are empty or no longer maintained');
+    }
+    if (overlapping > 0) {
+      patterns.push(`${overlapping} list pairs overlap almost completely`);
+      recommendations.push('Consolidate overlapping lists into a single segment');
+    }
+    if (unreachable > 0) {
+      patterns.push(`${unreachable} unsubscribed or bounced memberships in marketing lists`);
+      recommendations.push(
+        'Build marketing lists as active lists that exclude unsubscribed and bounced contacts'
+      );
+    }
+
+    return {
+      summary: `Found ${issues.length} list hygiene issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
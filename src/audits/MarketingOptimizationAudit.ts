@@ -0,0 +1,297 @@
+/**
+ * Marketing Optimization Audit
+ *
+ * Rule-based audit of marketing contacts - the contacts HubSpot bills for.
+ *
+ * Detects marketing contacts that:
+ * - Hard-bounced (cannot receive email at all)
+ * - Have not engaged in rules.min_engagement_months
+ * - Fall outside the ideal customer profile in config.icp
+ *
+ * Each finding becomes a set_marketing_status action that downgrades the
+ * contact to non-marketing, freeing one billed marketing-contact slot.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Contact } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('marketing-optimization-audit');
+
+/**
+ * Contact properties that record engagement, most recent wins
+ */
+const ENGAGEMENT_PROPERTIES = [
+  'hs_email_last_open_date',
+  'hs_email_last_click_date',
+  'hs_analytics_last_visit_timestamp',
+  'recent_conversion_date',
+  'notes_last_contacted',
+  'hs_last_sales_activity_timestamp',
+];
+
+const CONTACT_PROPERTIES = [
+  'email',
+  'firstname',
+  'lastname',
+  'jobtitle',
+  'industry',
+  'numemployees',
+  'hs_marketable_status',
+  'hs_email_hard_bounce_reason_enum',
+  'hs_email_bad_address',
+  ...ENGAGEMENT_PROPERTIES,
+];
+
+export class MarketingOptimizationAudit implements AuditModule {
+  name = 'marketing-optimization';
+  description = 'Find marketing contacts that can be downgraded to reduce billed contacts';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    logger.info('Starting marketing optimization audit');
+
+    context.progress.start('Loading marketing contacts...');
+    const contacts = await this.loadMarketingContacts(context);
+
+    if (contacts.length === 0) {
+      context.progress.succeed('No marketing contacts found');
+      return buildEmptyAuditResult(this.name, 'No marketing contacts found to optimize');
+    }
+
+    context.progress.update(`Checking ${contacts.length} marketing contacts...`);
+    const engagementCutoff = this.getEngagementCutoff(context);
+
+    const issues: AuditIssue[] = [];
+    for (const contact of contacts) {
+      // One downgrade per contact - report the strongest reason
+      const issue =
+        this.checkHardBounce(contact) ??
+        this.checkEngagement(contact, engagementCutoff, context) ??
+        this.checkIcpFit(contact, context);
+
+      if (issue) issues.push(issue);
+    }
+
+    const summary = buildAuditSummary(issues, contacts.length, 0);
+    const ai_insights = this.generateInsights(issues, contacts.length);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length },
+      'Marketing optimization audit complete'
+    );
+    context.progress.succeed(
+      `Found ${issues.length} of ${contacts.length} marketing contacts to downgrade`
+    );
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load contacts currently billed as marketing contacts
+   */
+  private async loadMarketingContacts(context: AuditContext): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+
+    for await (const batch of context.hubspot.getContacts(CONTACT_PROPERTIES)) {
+      contacts.push(...batch.filter((c) => c.properties.hs_marketable_status === 'true'));
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Contacts without engagement since this date are considered unengaged
+   */
+  private getEngagementCutoff(context: AuditContext): Date {
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - context.config.rules.min_engagement_months);
+    return cutoff;
+  }
+
+  /**
+   * Hard-bounced contacts can never be emailed, so billing them is pure waste
+   */
+  private checkHardBounce(contact: Contact): AuditIssue | null {
+    const bounceReason = contact.properties.hs_email_hard_bounce_reason_enum;
+    if (!bounceReason && contact.properties.hs_email_bad_address !== 'true') return null;
+
+    return this.createIssue(contact, {
+      type: 'bounced_marketing_contact',
+      severity: 'medium',
+      description: `Marketing contact has hard-bounced (${bounceReason ?? 'bad address'})`,
+      currentValue: { hs_marketable_status: 'true', bounce_reason: bounceReason ?? 'bad_address' },
+      confidence: 'high',
+      reasoning:
+        'Hard-bounced contacts cannot receive marketing email but still count toward billing',
+    });
+  }
+
+  /**
+   * Flag contacts with no engagement since the cutoff
+   */
+  private checkEngagement(
+    contact: Contact,
+    cutoff: Date,
+    context: AuditContext
+  ): AuditIssue | null {
+    const lastEngagement = this.getLastEngagement(contact);
+
+    // Without any engagement data, only judge contacts old enough to have engaged
+    const reference = lastEngagement ?? new Date(contact.createdAt);
+    if (isNaN(reference.getTime()) || reference >= cutoff) return null;
+
+    const months = context.config.rules.min_engagement_months;
+    return this.createIssue(contact, {
+      type: 'unengaged_marketing_contact',
+      severity: 'low',
+      description: lastEngagement
+        ? `No engagement since ${lastEngagement.toISOString().split('T')[0]} (threshold: ${months} months)`
+        : `No recorded engagement since creation (threshold: ${months} months)`,
+      currentValue: {
+        hs_marketable_status: 'true',
+        last_engagement: lastEngagement?.toISOString() ?? null,
+      },
+      confidence: 'medium',
+      reasoning: `Contact has not opened, clicked, visited or converted in ${months} months`,
+    });
+  }
+
+  /**
+   * Most recent engagement date across all engagement properties
+   */
+  private getLastEngagement(contact: Contact): Date | null {
+    const dates = ENGAGEMENT_PROPERTIES.map((p) => contact.properties[p])
+      .filter((v): v is string => !!v)
+      .map((v) => new Date(v))
+      .filter((d) => !isNaN(d.getTime()));
+
+    if (dates.length === 0) return null;
+    return new Date(Math.max(...dates.map((d) => d.getTime())));
+  }
+
+  /**
+   * Flag contacts whose known attributes contradict the ICP
+   * Dimensions that are not configured, or not populated on the contact, are not judged
+   */
+  private checkIcpFit(contact: Contact, context: AuditContext): AuditIssue | null {
+    const { icp } = context.config;
+    const mismatches: string[] = [];
+
+    const jobTitle = contact.properties.jobtitle?.toLowerCase();
+    if (icp.job_titles.length > 0 && jobTitle) {
+      const matches = icp.job_titles.some((t) => jobTitle.includes(t.toLowerCase()));
+      if (!matches) mismatches.push(`job title "${contact.properties.jobtitle}"`);
+    }
+
+    const industry = contact.properties.industry?.toLowerCase();
+    if (icp.industries.length > 0 && industry) {
+      const matches = icp.industries.some((i) => i.toLowerCase() === industry);
+      if (!matches) mismatches.push(`industry "${contact.properties.industry}"`);
+    }
+
+    const companySize = contact.properties.numemployees?.toLowerCase();
+    if (icp.company_sizes.length > 0 && companySize) {
+      const matches = icp.company_sizes.some((s) => s.toLowerCase() === companySize);
+      if (!matches) mismatches.push(`company size "${contact.properties.numemployees}"`);
+    }
+
+    if (mismatches.length === 0) return null;
+
+    return this.createIssue(contact, {
+      type: 'non_icp_marketing_contact',
+      severity: 'low',
+      description: `Marketing contact outside ICP: ${mismatches.join(', ')}`,
+      currentValue: { hs_marketable_status: 'true', mismatches },
+      confidence: 'low',
+      reasoning:
+        'Contacts outside the ideal customer profile rarely convert; review before downgrading',
+    });
+  }
+
+  /**
+   * Create a downgrade issue for a marketing contact
+   */
+  private createIssue(
+    contact: Contact,
+    issueData: {
+      type: string;
+      severity: Severity;
+      description: string;
+      currentValue?: unknown;
+      confidence: ConfidenceLevel;
+      reasoning: string;
+    }
+  ): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'contact',
+      objectId: contact.id,
+      displayName: contact.properties.email ?? undefined,
+      property: 'hs_marketable_status',
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: false, // Downgrade to non-marketing
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(issues: AuditIssue[], totalContacts: number): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+    const bounced = count('bounced_marketing_contact');
+    const unengaged = count('unengaged_marketing_contact');
+    const nonIcp = count('non_icp_marketing_contact');
+
+    if (bounced > 0) {
+      patterns.push(`${bounced} hard-bounced contacts are still billed as marketing contacts`);
+    }
+    if (unengaged > 0) {
+      patterns.push(`${unengaged} marketing contacts have not engaged recently`);
+      recommendations.push('Run a re-engagement campaign before downgrading unengaged contacts');
+    }
+    if (nonIcp > 0) {
+      patterns.push(`${nonIcp} marketing contacts fall outside the ideal customer profile`);
+    }
+    if (issues.length > 0) {
+      const percent = Math.round((issues.length / totalContacts) * 100);
+      recommendations.push(
+        `Downgrading ${issues.length} contacts (${percent}% of marketing contacts) frees the same number of billed slots at the next billing update`
+      );
+      recommendations.push(
+        'Set new contacts to non-marketing by default and promote them when they engage'
+      );
+    }
+
+    return {
+      summary: `Found ${issues.length} marketing contacts that can be downgraded using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
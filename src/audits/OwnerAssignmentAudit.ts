@@ -0,0 +1,453 @@
+/**
+ * Owner Assignment Audit
+ *
+ * Rule-based audit of record ownership (hubspot_owner_id).
+ *
+ * Detects:
+ * - Contacts, companies and deals with no owner
+ * - Records owned by a deactivated or deleted user
+ * - Companies whose contacts are split across many owners
+ *
+ * Reassignments follow the configured rules in order ("same owner as the
+ * company", then round-robin within a team). Split ownership needs an
+ * account decision and is flagged for review.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+} from '../types/audit.js';
+import type { Company, Contact, Deal, ObjectType, Owner } from '../types/hubspot.js';
+import type { OwnerAssignmentConfig } from '../types/config.js';
+import { createLogger } from '../utils/logger.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('owner-assignment-audit');
+
+const OWNER_PROPERTY = 'hubspot_owner_id';
+
+/**
+ * A record that can carry an owner
+ */
+interface OwnedRecord {
+  objectType: ObjectType;
+  record: Contact | Company | Deal;
+  displayName?: string;
+}
+
+/**
+ * A proposed owner and the rule that produced it
+ */
+interface OwnerProposal {
+  owner: Owner;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+/**
+ * Issue details produced by a single check
+ */
+interface OwnerIssueData {
+  type: string;
+  severity: Severity;
+  description: string;
+  currentValue?: unknown;
+  suggestedValue?: unknown;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+export class OwnerAssignmentAudit implements AuditModule {
+  name = 'owner-assignment';
+  description = 'Find unowned records and records owned by deactivated users';
+
+  // Position in the round-robin pool, shared across object types
+  private roundRobinIndex = 0;
+  private associationChecks = 0;
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.owner_assignment;
+    logger.info('Starting owner assignment audit');
+
+    this.roundRobinIndex = 0;
+    this.associationChecks = 0;
+
+    context.progress.start('Loading owners...');
+    const owners = await context.hubspot.getOwners();
+    const ownersById = new Map(owners.map((o) => [o.id, o]));
+    const pool = this.buildRoundRobinPool(owners, config);
+
+    context.progress.update('Loading companies...');
+    const companies = await this.loadCompanies(context);
+    const companiesById = new Map(companies.map((c) => [c.id, c]));
+
+    const issues: AuditIssue[] = [];
+    let totalRecords = 0;
+    let unassignable = 0;
+
+    for (const objectType of config.object_types) {
+      context.progress.update(`Checking ${objectType} owners...`);
+      const records = await this.loadRecords(objectType, companies, context);
+      totalRecords += records.length;
+
+      for (const entry of records) {
+        const finding = this.checkOwner(entry, ownersById);
+        if (!finding) continue;
+
+        try {
+          const proposal = await this.proposeOwner(entry, companiesById, ownersById, pool, context);
+          if (!proposal) {
+            unassignable++;
+            continue;
+          }
+
+          issues.push(
+            this.createIssue(entry, {
+              ...finding,
+              suggestedValue: proposal.owner.id,
+              confidence: proposal.confidence,
+              reasoning: `${finding.reasoning}. ${proposal.reasoning}`,
+            })
+          );
+        } catch (error) {
+          logger.error(
+            { objectType: entry.objectType, objectId: entry.record.id, error },
+            'Failed to propose owner'
+          );
+        }
+      }
+
+      if (objectType === 'contacts') {
+        issues.push(...this.checkSplitOwnership(records, companiesById, ownersById, config));
+      }
+    }
+
+    if (totalRecords === 0) {
+      context.progress.succeed('No records to check');
+      return buildEmptyAuditResult(this.name, 'No records found for the configured object types');
+    }
+
+    const summary = buildAuditSummary(issues, totalRecords, 0);
+    const ai_insights = this.generateInsights(issues, unassignable, pool.length);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length, unassignable },
+      'Owner assignment audit complete'
+    );
+    context.progress.succeed(`Found ${issues.length} owner assignment issues`);
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Active people eligible for round-robin, in a stable order
+   */
+  private buildRoundRobinPool(owners: Owner[], config: OwnerAssignmentConfig): Owner[] {
+    const team = config.round_robin_team.trim().toLowerCase();
+
+    return owners
+      .filter((o) => !o.archived && o.type === 'PERSON')
+      .filter((o) => !team || o.teams.some((t) => t.id === team || t.name.toLowerCase() === team))
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  }
+
+  private async loadCompanies(context: AuditContext): Promise<Company[]> {
+    const companies: Company[] = [];
+
+    for await (const batch of context.hubspot.getCompanies(['name', OWNER_PROPERTY])) {
+      companies.push(...batch);
+    }
+
+    return companies;
+  }
+
+  private async loadRecords(
+    objectType: OwnerAssignmentConfig['object_types'][number],
+    companies: Company[],
+    context: AuditContext
+  ): Promise<OwnedRecord[]> {
+    const records: OwnedRecord[] = [];
+
+    switch (objectType) {
+      case 'contacts':
+        for await (const batch of context.hubspot.getContacts([
+          'email',
+          'firstname',
+          'lastname',
+          'associatedcompanyid',
+          OWNER_PROPERTY,
+        ])) {
+          for (const contact of batch) {
+            records.push({
+              objectType: 'contact',
+              record: contact,
+              displayName: contact.properties.email ?? undefined,
+            });
+          }
+        }
+        break;
+
+      case 'companies':
+        for (const company of companies) {
+          records.push({
+            objectType: 'company',
+            record: company,
+            displayName: company.properties.name ?? undefined,
+          });
+        }
+        break;
+
+      case 'deals':
+        for await (const batch of context.hubspot.getDeals(['dealname', OWNER_PROPERTY])) {
+          for (const deal of batch) {
+            records.push({
+              objectType: 'deal',
+              record: deal,
+              displayName: deal.properties.dealname ?? undefined,
+            });
+          }
+        }
+        break;
+    }
+
+    return records;
+  }
+
+  /**
+   * Records need an owner who can still act on them
+   */
+  private checkOwner(entry: OwnedRecord, ownersById: Map<string, Owner>): OwnerIssueData | null {
+    const ownerId = entry.record.properties[OWNER_PROPERTY];
+
+    if (!ownerId) {
+      return {
+        type: 'missing_owner',
+        severity: 'medium',
+        description: `${this.label(entry.objectType)} has no owner`,
+        currentValue: null,
+        confidence: 'high',
+        reasoning: 'Unowned records are missed by owner-based views, routing and follow-up tasks',
+      };
+    }
+
+    const owner = ownersById.get(ownerId);
+    if (owner && !owner.archived) return null;
+
+    return {
+      type: 'inactive_owner',
+      severity: 'medium',
+      description: owner
+        ? `${this.label(entry.objectType)} is owned by deactivated user ${this.ownerName(owner)}`
+        : `${this.label(entry.objectType)} is owned by unknown owner ${ownerId}`,
+      currentValue: ownerId,
+      confidence: 'high',
+      reasoning: owner
+        ? `Owner ${this.ownerName(owner)} has been deactivated`
+        : `Owner ${ownerId} no longer exists in the portal`,
+    };
+  }
+
+  /**
+   * Apply the configured assignment rules in order
+   */
+  private async proposeOwner(
+    entry: OwnedRecord,
+    companiesById: Map<string, Company>,
+    ownersById: Map<string, Owner>,
+    pool: Owner[],
+    context: AuditContext
+  ): Promise<OwnerProposal | null> {
+    const config = context.config.owner_assignment;
+
+    for (const rule of config.assignment_rules) {
+      if (rule === 'company_owner') {
+        const companyId = await this.findCompanyId(entry, context);
+        const company = companyId ? companiesById.get(companyId) : undefined;
+        const owner = ownersById.get(company?.properties[OWNER_PROPERTY] ?? '');
+
+        if (company && owner && !owner.archived) {
+          return {
+            owner,
+            confidence: 'high',
+            reasoning: `Same owner as company "${company.properties.name ?? company.id}" (${this.ownerName(owner)})`,
+          };
+        }
+      }
+
+      if (rule === 'round_robin' && pool.length > 0) {
+        const owner = pool[this.roundRobinIndex % pool.length];
+        this.roundRobinIndex++;
+
+        return {
+          owner,
+          confidence: 'medium',
+          reasoning: config.round_robin_team
+            ? `Round-robin assignment within team "${config.round_robin_team}" (${this.ownerName(owner)})`
+            : `Round-robin assignment across active owners (${this.ownerName(owner)})`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Company that a contact or deal belongs to
+   */
+  private async findCompanyId(entry: OwnedRecord, context: AuditContext): Promise<string | null> {
+    if (entry.objectType === 'contact') {
+      return entry.record.properties.associatedcompanyid ?? null;
+    }
+    if (entry.objectType !== 'deal') return null;
+
+    if (this.associationChecks >= context.config.owner_assignment.max_association_checks) {
+      return null;
+    }
+    this.associationChecks++;
+
+    const associations = await context.hubspot.getAssociations(
+      'deals',
+      entry.record.id,
+      'companies'
+    );
+    return associations[0]?.id ?? null;
+  }
+
+  /**
+   * Companies whose contacts are worked by too many different reps
+   */
+  private checkSplitOwnership(
+    contacts: OwnedRecord[],
+    companiesById: Map<string, Company>,
+    ownersById: Map<string, Owner>,
+    config: OwnerAssignmentConfig
+  ): AuditIssue[] {
+    const ownersByCompany = new Map<string, Set<string>>();
+
+    for (const { record } of contacts) {
+      const companyId = record.properties.associatedcompanyid;
+      const ownerId = record.properties[OWNER_PROPERTY];
+      if (!companyId || !ownerId || ownersById.get(ownerId)?.archived !== false) continue;
+
+      const ownerIds = ownersByCompany.get(companyId) ?? new Set<string>();
+      ownerIds.add(ownerId);
+      ownersByCompany.set(companyId, ownerIds);
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const [companyId, ownerIds] of ownersByCompany) {
+      const company = companiesById.get(companyId);
+      if (!company || ownerIds.size <= config.max_contact_owners_per_company) continue;
+
+      const names = [...ownerIds].map((id) => this.ownerName(ownersById.get(id)));
+      const companyOwnerId = company.properties[OWNER_PROPERTY];
+
+      issues.push(
+        this.createIssue(
+          {
+            objectType: 'company',
+            record: company,
+            displayName: company.properties.name ?? undefined,
+          },
+          {
+            type: 'split_contact_ownership',
+            severity: 'low',
+            description: `Contacts are split across ${ownerIds.size} owners`,
+            currentValue: names,
+            suggestedValue: companyOwnerId ?? undefined,
+            confidence: 'medium',
+            reasoning: `Contacts are owned by ${names.join(', ')}; one account owner avoids duplicated outreach`,
+          }
+        )
+      );
+    }
+
+    return issues;
+  }
+
+  private label(objectType: ObjectType): string {
+    return objectType.charAt(0).toUpperCase() + objectType.slice(1);
+  }
+
+  private ownerName(owner: Owner | undefined): string {
+    if (!owner) return 'unknown';
+    const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ');
+    if (name) return name;
+    return owner.email ?? owner.id;
+  }
+
+  /**
+   * Create an audit issue for a record's owner
+   */
+  private createIssue(entry: OwnedRecord, issueData: OwnerIssueData): AuditIssue {
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: entry.objectType,
+      objectId: entry.record.id,
+      displayName: entry.displayName,
+      property: OWNER_PROPERTY,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method: 'rule',
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(
+    issues: AuditIssue[],
+    unassignable: number,
+    poolSize: number
+  ): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+
+    const missing = count('missing_owner');
+    const inactive = count('inactive_owner');
+    const split = count('split_contact_ownership');
+
+    if (missing > 0) {
+      patterns.push(`${missing} records have no owner`);
+      recommendations.push('Add owner assignment to lead routing workflows');
+    }
+    if (inactive > 0) {
+      patterns.push(`${inactive} records are owned by deactivated users`);
+      recommendations.push('Reassign records before deactivating users when someone leaves');
+    }
+    if (split > 0) {
+      patterns.push(`${split} companies have contacts split across many owners`);
+    }
+    if (unassignable > 0) {
+      patterns.push(`${unassignable} records had no eligible owner to assign`);
+      if (poolSize === 0) {
+        recommendations.push('Check owner_assignment.round_robin_team matches an active team');
+      }
+    }
+
+    return {
+      summary: `Found ${issues.length} owner assignment issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
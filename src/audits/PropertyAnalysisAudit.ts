@@ -0,0 +1,561 @@
+/**
+ * Property Analysis Audit (Epic 10)
+ *
+ * Two-phase analysis of custom property usage:
+ * Phase 1: Rule-based checks over property definitions and a record scan
+ * Phase 2: AI recommendations (reasoning mode) for contact properties
+ *
+ * Detects:
+ * - Custom properties that are never populated
+ * - Custom properties with a low fill rate
+ * - Near-duplicate properties ("Industry" vs "industry_2")
+ * - Enumeration options that no record uses
+ *
+ * Property definitions can only be changed by hand in HubSpot, so every
+ * finding becomes a review-only action in the plan.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AuditModule,
+  AuditContext,
+  AuditResult,
+  AuditIssue,
+  AIInsights,
+  Severity,
+  ConfidenceLevel,
+  DetectionMethod,
+} from '../types/audit.js';
+import type { Contact, PropertyDefinition } from '../types/hubspot.js';
+import { createLogger } from '../utils/logger.js';
+import { similarityScore } from '../utils/matching.js';
+import { getPropertyAnalysisTools } from '../services/tools.js';
+import { buildPropertyAnalysisPrompt, buildSystemPrompt } from '../services/prompts.js';
+import { buildAuditSummary, buildEmptyAuditResult } from './helpers.js';
+
+const logger = createLogger('property-analysis-audit');
+
+type PropertyObjectType = 'contacts' | 'companies' | 'deals';
+
+const OBJECT_LABELS: Record<PropertyObjectType, string> = {
+  contacts: 'Contact',
+  companies: 'Company',
+  deals: 'Deal',
+};
+
+/**
+ * Custom properties per AI recommendation request
+ */
+const AI_BATCH_SIZE = 100;
+
+/**
+ * Usage statistics for a single custom property
+ */
+interface PropertyUsage {
+  objectType: PropertyObjectType;
+  definition: PropertyDefinition;
+  populated: number;
+  valueCounts: Map<string, number>; // Only tracked for enumeration properties
+}
+
+/**
+ * Result of scanning records of one object type
+ */
+interface ScanResult {
+  scanned: number;
+  sampled: boolean; // true when the scan stopped at max_records_to_scan
+  usage: PropertyUsage[];
+  sampleRecords: Contact[];
+}
+
+/**
+ * Shape returned by the report_property_analysis tool
+ */
+interface PropertyAnalysisResponse {
+  properties: Array<{
+    propertyName: string;
+    usageRate: number;
+    dataQuality?: 'good' | 'fair' | 'poor';
+    recommendation: 'keep' | 'consolidate' | 'deprecate' | 'rename';
+    reasoning: string;
+  }>;
+  summary: string;
+  recommendations: string[];
+}
+
+export class PropertyAnalysisAudit implements AuditModule {
+  name = 'property-analysis';
+  description = 'Analyze custom property usage, near-duplicates and unused options';
+
+  async run(context: AuditContext): Promise<AuditResult> {
+    const startTime = Date.now();
+    const config = context.config.property_analysis;
+    logger.info({ objectTypes: config.object_types }, 'Starting property analysis audit');
+
+    context.progress.start('Loading property definitions...');
+
+    const issues: AuditIssue[] = [];
+    let propertiesAnalyzed = 0;
+    let contactScan: ScanResult | null = null;
+
+    // PHASE 1: Rule-based checks per object type
+    for (const objectType of config.object_types) {
+      const definitions = await this.loadDefinitions(objectType, context);
+      const customProperties = definitions.filter((d) => !d.hubspotDefined && !d.calculated);
+
+      if (customProperties.length === 0) {
+        logger.info({ objectType }, 'No custom properties found');
+        continue;
+      }
+
+      context.progress.update(
+        `Scanning ${objectType} for ${customProperties.length} custom properties...`
+      );
+      const scan = await this.scanRecords(objectType, customProperties, context);
+      propertiesAnalyzed += customProperties.length;
+
+      if (objectType === 'contacts') {
+        contactScan = scan;
+      }
+
+      if (scan.scanned === 0) {
+        logger.info({ objectType }, 'No records to scan');
+        continue;
+      }
+
+      issues.push(...this.checkFillRates(scan, context));
+      issues.push(...this.findNearDuplicates(definitions, scan, context));
+      issues.push(...this.findUnusedEnumOptions(scan));
+
+      logger.info(
+        { objectType, scanned: scan.scanned, properties: customProperties.length },
+        'Object type analyzed'
+      );
+    }
+
+    if (propertiesAnalyzed === 0) {
+      context.progress.succeed('No custom properties to analyze');
+      return buildEmptyAuditResult(this.name, 'No custom properties found to analyze');
+    }
+
+    // PHASE 2: AI recommendations for contact properties
+    let aiCost = 0;
+    const aiResponses: PropertyAnalysisResponse[] = [];
+    if (config.enable_ai_recommendations && contactScan && contactScan.scanned > 0) {
+      const usage = contactScan.usage;
+
+      for (let i = 0; i < usage.length; i += AI_BATCH_SIZE) {
+        if (aiCost >= config.max_ai_cost_per_audit) {
+          logger.info({ aiCost }, 'Property recommendation budget reached');
+          break;
+        }
+
+        context.progress.update(
+          'Requesting AI property recommendations...',
+          Math.round((i / usage.length) * 100)
+        );
+        const {
+          issues: aiIssues,
+          response,
+          cost,
+        } = await this.analyzeWithReasoning(
+          contactScan,
+          usage.slice(i, i + AI_BATCH_SIZE),
+          context
+        );
+        issues.push(...aiIssues);
+        if (response) aiResponses.push(response);
+        aiCost += cost;
+      }
+    }
+
+    const summary = buildAuditSummary(issues, propertiesAnalyzed, aiCost);
+    const ai_insights = this.generateInsights(issues, aiResponses);
+
+    logger.info(
+      { elapsedMs: Date.now() - startTime, issuesFound: issues.length, aiCost },
+      'Property analysis complete'
+    );
+    context.progress.succeed(
+      `Found ${issues.length} issues across ${propertiesAnalyzed} custom properties`
+    );
+
+    return {
+      module: this.name,
+      timestamp: new Date(),
+      summary,
+      issues,
+      ai_insights,
+    };
+  }
+
+  /**
+   * Load property definitions for an object type (cached by HubSpotService)
+   */
+  private async loadDefinitions(
+    objectType: PropertyObjectType,
+    context: AuditContext
+  ): Promise<PropertyDefinition[]> {
+    switch (objectType) {
+      case 'contacts':
+        return await context.hubspot.getContactProperties();
+      case 'companies':
+        return await context.hubspot.getCompanyProperties();
+      case 'deals':
+        return await context.hubspot.getDealProperties();
+    }
+  }
+
+  /**
+   * Scan records and count how often each custom property is populated
+   */
+  private async scanRecords(
+    objectType: PropertyObjectType,
+    properties: PropertyDefinition[],
+    context: AuditContext
+  ): Promise<ScanResult> {
+    const maxRecords = context.config.property_analysis.max_records_to_scan;
+    const names = properties.map((p) => p.name);
+
+    const usage: PropertyUsage[] = properties.map((definition) => ({
+      objectType,
+      definition,
+      populated: 0,
+      valueCounts: new Map<string, number>(),
+    }));
+
+    const pages =
+      objectType === 'contacts'
+        ? context.hubspot.getContacts(names)
+        : objectType === 'companies'
+          ? context.hubspot.getCompanies(names)
+          : context.hubspot.getDeals(names);
+
+    let scanned = 0;
+    let sampled = false;
+    const sampleRecords: Contact[] = [];
+
+    for await (const batch of pages) {
+      for (const record of batch) {
+        if (scanned >= maxRecords) {
+          sampled = true;
+          break;
+        }
+        scanned++;
+
+        if (objectType === 'contacts' && sampleRecords.length < 10) {
+          sampleRecords.push(record);
+        }
+
+        for (const entry of usage) {
+          const value = record.properties[entry.definition.name];
+          if (value === null || value === undefined || value.trim() === '') continue;
+
+          entry.populated++;
+
+          if (entry.definition.type === 'enumeration') {
+            // Multi-select values are stored semicolon-separated
+            for (const option of value.split(';')) {
+              const key = option.trim();
+              entry.valueCounts.set(key, (entry.valueCounts.get(key) ?? 0) + 1);
+            }
+          }
+        }
+      }
+
+      if (sampled) break;
+    }
+
+    return { scanned, sampled, usage, sampleRecords };
+  }
+
+  /**
+   * Flag never-populated and rarely populated custom properties
+   */
+  private checkFillRates(scan: ScanResult, context: AuditContext): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const threshold = context.config.property_analysis.low_fill_rate_percent;
+
+    for (const entry of scan.usage) {
+      const fillRate = (entry.populated / scan.scanned) * 100;
+      const recordLabel = `${scan.scanned} scanned ${entry.objectType}`;
+
+      if (entry.populated === 0) {
+        issues.push(
+          this.createIssue(entry, {
+            type: 'unused_property',
+            severity: 'medium',
+            description: `Custom property "${entry.definition.label}" is never populated across ${recordLabel}`,
+            currentValue: { fill_rate: 0, populated: 0, scanned: scan.scanned },
+            // A capped scan may have missed the records that do use it
+            confidence: scan.sampled ? 'medium' : 'high',
+            reasoning:
+              'Properties nobody fills in clutter forms and reports; consider archiving it',
+          })
+        );
+      } else if (fillRate < threshold) {
+        issues.push(
+          this.createIssue(entry, {
+            type: 'low_fill_rate_property',
+            severity: 'low',
+            description: `Custom property "${entry.definition.label}" is only ${fillRate.toFixed(1)}% populated (threshold: ${threshold}%)`,
+            currentValue: {
+              fill_rate: Number(fillRate.toFixed(2)),
+              populated: entry.populated,
+              scanned: scan.scanned,
+            },
+            confidence: 'medium',
+            reasoning: 'Rarely used properties are candidates for deprecation or better capture',
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find custom properties whose name or label nearly matches another property
+   */
+  private findNearDuplicates(
+    definitions: PropertyDefinition[],
+    scan: ScanResult,
+    context: AuditContext
+  ): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const threshold = context.config.property_analysis.near_duplicate_threshold;
+    const usageByName = new Map(scan.usage.map((u) => [u.definition.name, u]));
+    const seenPairs = new Set<string>();
+
+    for (const entry of scan.usage) {
+      const custom = entry.definition;
+
+      for (const other of definitions) {
+        if (other.name === custom.name) continue;
+
+        const pairKey = [custom.name, other.name].sort().join('|');
+        if (seenPairs.has(pairKey)) continue;
+
+        const score = Math.max(
+          similarityScore(
+            this.normalizePropertyKey(custom.name),
+            this.normalizePropertyKey(other.name)
+          ),
+          similarityScore(
+            this.normalizePropertyKey(custom.label),
+            this.normalizePropertyKey(other.label)
+          )
+        );
+        if (score < threshold) continue;
+        seenPairs.add(pairKey);
+
+        // Suggest folding the less-used custom property into the other one
+        const otherUsage = usageByName.get(other.name);
+        const redundant = otherUsage && otherUsage.populated < entry.populated ? otherUsage : entry;
+        const keepDefinition = redundant === entry ? other : custom;
+
+        issues.push(
+          this.createIssue(redundant, {
+            type: 'near_duplicate_property',
+            severity: 'medium',
+            description: `Property "${redundant.definition.label}" (${redundant.definition.name}) looks like a duplicate of "${keepDefinition.label}" (${keepDefinition.name})`,
+            currentValue: {
+              similarity: Number(score.toFixed(2)),
+              fill_rate: Number(((redundant.populated / scan.scanned) * 100).toFixed(2)),
+              duplicate_of: keepDefinition.name,
+            },
+            suggestedValue: keepDefinition.name,
+            confidence: score === 1 ? 'high' : 'medium',
+            reasoning: `Names/labels are ${Math.round(score * 100)}% similar; consolidate values into "${keepDefinition.name}" and archive the duplicate`,
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find enumeration options that no scanned record uses
+   */
+  private findUnusedEnumOptions(scan: ScanResult): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+
+    for (const entry of scan.usage) {
+      const { definition } = entry;
+      if (definition.type !== 'enumeration' || !definition.options) continue;
+      if (entry.populated === 0) continue; // Already reported as unused_property
+
+      const unused = definition.options.filter(
+        (option) => !option.hidden && !entry.valueCounts.has(option.value)
+      );
+      if (unused.length === 0) continue;
+
+      issues.push(
+        this.createIssue(entry, {
+          type: 'unused_enum_option',
+          severity: 'low',
+          description: `${unused.length} of ${definition.options.length} options on "${definition.label}" are never used: ${unused.map((o) => o.label).join(', ')}`,
+          currentValue: unused.map((o) => o.value),
+          confidence: scan.sampled ? 'medium' : 'high',
+          reasoning:
+            'Unused dropdown options make data entry harder; consider hiding or removing them',
+        })
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * PHASE 2: Ask Claude for consolidation/deprecation recommendations on a batch of properties
+   */
+  private async analyzeWithReasoning(
+    scan: ScanResult,
+    batch: PropertyUsage[],
+    context: AuditContext
+  ): Promise<{ issues: AuditIssue[]; response: PropertyAnalysisResponse | null; cost: number }> {
+    const costBefore = context.claude.getUsageStats().estimatedCostUsd;
+    const usageByName = new Map(batch.map((u) => [u.definition.name, u]));
+
+    const propertyList = batch.map(
+      (u) => `${u.definition.name} (${((u.populated / scan.scanned) * 100).toFixed(1)}% filled)`
+    );
+    const prompt = buildPropertyAnalysisPrompt(scan.sampleRecords, propertyList, context.config);
+
+    try {
+      const response = await context.claude.analyzeWithReasoning<PropertyAnalysisResponse>(
+        prompt,
+        {
+          mode: 'reasoning',
+          maxThinkingTokens: 2000,
+          tools: getPropertyAnalysisTools(),
+          systemPrompt: buildSystemPrompt(context.config),
+        },
+        'property-analysis-reasoning'
+      );
+
+      const issues: AuditIssue[] = [];
+      for (const recommendation of response.properties) {
+        if (recommendation.recommendation === 'keep') continue;
+
+        // Ignore recommendations for properties we did not send
+        const entry = usageByName.get(recommendation.propertyName);
+        if (!entry) continue;
+
+        issues.push(
+          this.createIssue(
+            entry,
+            {
+              type: 'property_recommendation',
+              severity: 'low',
+              description: `AI recommends to ${recommendation.recommendation} "${entry.definition.label}"`,
+              currentValue: { usage_rate: recommendation.usageRate },
+              suggestedValue: recommendation.recommendation,
+              confidence: 'medium',
+              reasoning: recommendation.reasoning,
+            },
+            'ai_reasoning'
+          )
+        );
+      }
+
+      const cost = context.claude.getUsageStats().estimatedCostUsd - costBefore;
+      return { issues, response, cost };
+    } catch (error) {
+      logger.error({ error }, 'Property recommendation analysis failed');
+      return { issues: [], response: null, cost: 0 };
+    }
+  }
+
+  /**
+   * Normalize a property name or label for near-duplicate comparison
+   * "Industry" and "industry_2" both become "industry"
+   */
+  private normalizePropertyKey(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .replace(/(\s\d+)+\s*$/, '') // Trailing copy counters ("_2", " 3")
+      .trim();
+  }
+
+  /**
+   * Create an audit issue for a property
+   */
+  private createIssue(
+    entry: PropertyUsage,
+    issueData: {
+      type: string;
+      severity: Severity;
+      description: string;
+      currentValue?: unknown;
+      suggestedValue?: unknown;
+      confidence: ConfidenceLevel;
+      reasoning: string;
+    },
+    detection_method: DetectionMethod = 'rule'
+  ): AuditIssue {
+    const { definition, objectType } = entry;
+
+    return {
+      id: randomUUID(),
+      type: issueData.type,
+      severity: issueData.severity,
+      objectType: 'property',
+      objectId: `${objectType}:${definition.name}`,
+      displayName: `${OBJECT_LABELS[objectType]} property "${definition.label}"`,
+      property: definition.name,
+      description: issueData.description,
+      currentValue: issueData.currentValue,
+      suggestedValue: issueData.suggestedValue,
+      confidence: issueData.confidence,
+      detection_method,
+      reasoning: issueData.reasoning,
+    };
+  }
+
+  /**
+   * Generate insights and recommendations
+   */
+  private generateInsights(
+    issues: AuditIssue[],
+    aiResponses: PropertyAnalysisResponse[]
+  ): AIInsights {
+    const patterns: string[] = [];
+    const recommendations: string[] = [];
+
+    const count = (type: string): number => issues.filter((i) => i.type === type).length;
+    const unused = count('unused_property');
+    const lowFill = count('low_fill_rate_property');
+    const nearDuplicates = count('near_duplicate_property');
+    const unusedOptions = count('unused_enum_option');
+
+    if (unused > 0) {
+      patterns.push(`${unused} custom properties are never populated`);
+      recommendations.push('Archive custom properties that no record uses');
+    }
+    if (lowFill > 0) {
+      patterns.push(`${lowFill} custom properties have a low fill rate`);
+    }
+    if (nearDuplicates > 0) {
+      patterns.push(`${nearDuplicates} properties look like near-duplicates of another property`);
+      recommendations.push('Consolidate duplicate properties before building new reports on them');
+    }
+    if (unusedOptions > 0) {
+      recommendations.push('Hide dropdown options that are never selected to simplify data entry');
+    }
+    for (const response of aiResponses) {
+      recommendations.push(...response.recommendations);
+    }
+
+    return {
+      summary:
+        aiResponses.length > 0
+          ? aiResponses.map((r) => r.summary).join(' ')
+          : `Found ${issues.length} property issues using rule-based analysis`,
+      patterns_detected: patterns,
+      recommendations,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Shared helpers for audit modules
+ *
+ * Summary and result builders that every audit module produces the same way.
+ */
+
+import type { AuditIssue, AuditResult, AuditSummary, Severity } from '../types/audit.js';
+
+/**
+ * Build audit summary statistics from a list of issues
+ */
+export function buildAuditSummary(
+  issues: AuditIssue[],
+  totalRecords: number,
+  aiCostUsd: number
+): AuditSummary {
+  const by_severity: Record<Severity, number> = {
+    low: 0,
+    medium: 0,
+    high: 0,
+    critical: 0,
+  };
+
+  const by_type: Record<string, number> = {};
+
+  const by_detection_method = {
+    rule_based: 0,
+    ai_reasoning: 0,
+    ai_exploratory: 0,
+  };
+
+  for (const issue of issues) {
+    by_severity[issue.severity]++;
+    by_type[issue.type] = (by_type[issue.type] ?? 0) + 1;
+
+    if (issue.detection_method === 'rule') {
+      by_detection_method.rule_based++;
+    } else if (issue.detection_method === 'ai_reasoning') {
+      by_detection_method.ai_reasoning++;
+    } else if (issue.detection_method === 'ai_exploratory') {
+      by_detection_method.ai_exploratory++;
+    }
+  }
+
+  return {
+    total_records: totalRecords,
+    issues_found: issues.length,
+    by_severity,
+    by_type,
+    by_detection_method,
+    ai_cost_usd: aiCostUsd,
+  };
+}
+
+/**
+ * Build an empty result for an audit that found nothing to analyze
+ */
+export function buildEmptyAuditResult(module: string, message: string): AuditResult {
+  return {
+    module,
+    timestamp: new Date(),
+    summary: buildAuditSummary([], 0, 0),
+    issues: [],
+    ai_insights: {
+      summary: message,
+      patterns_detected: [],
+      recommendations: [],
+    },
+  };
+}
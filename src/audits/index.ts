@@ -4,3 +4,19 @@
 
 export { DataQualityAudit } from './DataQualityAudit.js';
 export { DuplicateDetectionAudit } from './DuplicateDetectionAudit.js';
+export { PropertyAnalysisAudit } from './PropertyAnalysisAudit.js';
+export { ListHygieneAudit } from './ListHygieneAudit.js';
+export { MarketingOptimizationAudit } from './MarketingOptimizationAudit.js';
+export { CompanyDataQualityAudit } from './CompanyDataQualityAudit.js';
+export { CompanyDuplicateAudit } from './CompanyDuplicateAudit.js';
+export { DealHygieneAudit } from './DealHygieneAudit.js';
+export { AssociationIntegrityAudit } from './AssociationIntegrityAudit.js';
+export { LifecycleStageAudit } from './LifecycleStageAudit.js';
+export { OwnerAssignmentAudit } from './OwnerAssignmentAudit.js';
+export { EmailDeliverabilityAudit } from './EmailDeliverabilityAudit.js';
+export { ComplianceAudit } from './ComplianceAudit.js';
+export { IcpFitAudit } from './IcpFitAudit.js';
+export { JobTitleAudit } from './JobTitleAudit.js';
+export { AddressNormalizationAudit } from './AddressNormalizationAudit.js';
+export { JunkRecordAudit } from './JunkRecordAudit.js';
+export { EnumerationDriftAudit } from './EnumerationDriftAudit.js';
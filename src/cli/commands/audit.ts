@@ -6,13 +6,37 @@
 
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
-import { join } from 'path';
-import { formatHeader, formatSection, displayError } from '../output/index.js';
+import { extname, join } from 'path';
+import {
+  formatHeader,
+  formatSection,
+  formatMarketingSavings,
+  displayError,
+} from '../output/index.js';
 import { createLogger } from '../../utils/logger.js';
 import { ConfigManager } from '../../config/ConfigManager.js';
 import { HubSpotService } from '../../services/HubSpotService.js';
 import { ClaudeService } from '../../services/ClaudeService.js';
-import { DataQualityAudit, DuplicateDetectionAudit } from '../../audits/index.js';
+import {
+  DataQualityAudit,
+  CompanyDataQualityAudit,
+  CompanyDuplicateAudit,
+  DealHygieneAudit,
+  DuplicateDetectionAudit,
+  PropertyAnalysisAudit,
+  ListHygieneAudit,
+  MarketingOptimizationAudit,
+  AssociationIntegrityAudit,
+  LifecycleStageAudit,
+  OwnerAssignmentAudit,
+  EmailDeliverabilityAudit,
+  ComplianceAudit,
+  IcpFitAudit,
+  JobTitleAudit,
+  AddressNormalizationAudit,
+  JunkRecordAudit,
+  EnumerationDriftAudit,
+} from '../../audits/index.js';
 import { PlanBuilder, ActionPlan } from '../../actions/index.js';
 import type { ProgressReporter, AuditContext, AuditResult } from '../../types/audit.js';
 import type { Config } from '../../types/config.js';
@@ -105,10 +129,15 @@ export async function runAudit(
 
     // Run audits based on checks
     for (const check of checks) {
-      const result = await runCheck(check, objectType, context, options);
-
-      if (result) {
-        await displayResult(result, config, options);
+      const results = await runCheck(check, objectType, context, options);
+      const multipleResults = checks.length > 1 || results.length > 1;
+
+      for (const result of results) {
+        const outputPath =
+          options.output && multipleResults
+            ? getModuleOutputPath(options.output, result.module)
+            : options.output;
+        await displayResult(result, config, options, outputPath);
       }
     }
 
@@ -122,48 +151,173 @@ export async function runAudit(
 
 /**
  * Run a specific check
+ * Returns one result per audit module run (e.g. contacts and companies for 'all')
  */
 async function runCheck(
   check: string,
   objectType: string,
   context: AuditContext,
   _options: AuditOptions
-): Promise<AuditResult | null> {
+): Promise<AuditResult[]> {
+  const includesContacts = objectType === 'contacts' || objectType === 'all';
+  const includesCompanies = objectType === 'companies' || objectType === 'all';
+  const includesDeals = objectType === 'deals' || objectType === 'all';
+
   switch (check) {
-    case 'data-quality':
-      if (objectType === 'contacts' || objectType === 'all') {
-        const audit = new DataQualityAudit();
-        return await audit.run(context);
+    case 'data-quality': {
+      const results: AuditResult[] = [];
+      if (includesContacts) {
+        results.push(await new DataQualityAudit().run(context));
+      }
+      if (includesCompanies) {
+        results.push(await new CompanyDataQualityAudit().run(context));
+      }
+      if (includesDeals) {
+        results.push(await new DealHygieneAudit().run(context));
+      }
+      if (results.length === 0) {
+        console.log(chalk.yellow(`\nUnknown object type for data quality audit: ${objectType}\n`));
+      }
+      return results;
+    }
+
+    case 'duplicates': {
+      const results: AuditResult[] = [];
+      if (includesContacts) {
+        results.push(await new DuplicateDetectionAudit().run(context));
+      }
+      if (includesCompanies) {
+        results.push(await new CompanyDuplicateAudit().run(context));
+      }
+      if (results.length === 0) {
+        console.log(chalk.yellow(`\nUnknown object type for duplicate detection: ${objectType}\n`));
+      }
+      return results;
+    }
+
+    case 'associations':
+      if (includesContacts) {
+        const audit = new AssociationIntegrityAudit();
+        return [await audit.run(context)];
+      } else {
+        console.log(chalk.yellow(`\nAssociation audit is only available for contacts\n`));
+        return [];
+      }
+
+    case 'lifecycle':
+      if (includesContacts) {
+        const audit = new LifecycleStageAudit();
+        return [await audit.run(context)];
+      } else {
+        console.log(chalk.yellow(`\nLifecycle stage audit is only available for contacts\n`));
+        return [];
+      }
+
+    case 'email':
+      if (includesContacts) {
+        const audit = new EmailDeliverabilityAudit();
+        return [await audit.run(context)];
+      } else {
+        console.log(chalk.yellow(`\nEmail deliverability is only available for contacts\n`));
+        return [];
+      }
+
+    case 'compliance':
+      if (includesContacts) {
+        const audit = new ComplianceAudit();
+        return [await audit.run(context)];
       } else {
-        console.log(chalk.yellow(`\nData quality audit is only available for contacts\n`));
-        return null;
+        console.log(chalk.yellow(`\nCompliance audit is only available for contacts\n`));
+        return [];
       }
 
-    case 'duplicates':
-      if (objectType === 'contacts' || objectType === 'all') {
-        const audit = new DuplicateDetectionAudit();
-        return await audit.run(context);
+    case 'owners': {
+      // Checks the object types configured in owner_assignment.object_types
+      const audit = new OwnerAssignmentAudit();
+      return [await audit.run(context)];
+    }
+
+    case 'titles':
+      if (includesContacts) {
+        const audit = new JobTitleAudit();
+        return [await audit.run(context)];
+      } else {
+        console.log(chalk.yellow(`\nJob title audit is only available for contacts\n`));
+        return [];
+      }
+
+    case 'junk':
+      if (includesContacts) {
+        const audit = new JunkRecordAudit();
+        return [await audit.run(context)];
       } else {
-        console.log(chalk.yellow(`\nDuplicate detection is only available for contacts\n`));
-        return null;
+        console.log(chalk.yellow(`\nJunk record detection is only available for contacts\n`));
+        return [];
       }
 
-    case 'properties':
-    case 'lists':
+    case 'address': {
+      // Checks the object types configured in address_normalization.object_types
+      const audit = new AddressNormalizationAudit();
+      return [await audit.run(context)];
+    }
+
+    case 'icp': {
+      // Scores the object types configured in icp_fit.object_types
+      const audit = new IcpFitAudit();
+      return [await audit.run(context)];
+    }
+
+    case 'enums': {
+      // Checks the object types configured in enumeration_drift.object_types
+      const audit = new EnumerationDriftAudit();
+      return [await audit.run(context)];
+    }
+
+    case 'properties': {
+      // Analyzes the object types configured in property_analysis.object_types
+      const audit = new PropertyAnalysisAudit();
+      return [await audit.run(context)];
+    }
+
+    case 'lists': {
+      // Lists are contact lists regardless of the object type argument
+      const audit = new ListHygieneAudit();
+      return [await audit.run(context)];
+    }
+
     case 'marketing':
-      console.log(chalk.yellow(`\n${check} audit coming in future epics\n`));
-      return null;
+      if (includesContacts) {
+        const audit = new MarketingOptimizationAudit();
+        return [await audit.run(context)];
+      } else {
+        console.log(chalk.yellow(`\nMarketing optimization is only available for contacts\n`));
+        return [];
+      }
 
     default:
       console.log(chalk.red(`\nUnknown check: ${check}\n`));
-      return null;
+      return [];
   }
 }
 
+/**
+ * Build a per-module output path so several results don't overwrite each other
+ * (e.g. results.json -> results-company-duplicates.json)
+ */
+function getModuleOutputPath(output: string, module: string): string {
+  const ext = extname(output);
+  return `${output.slice(0, output.length - ext.length)}-${module}${ext}`;
+}
+
 /**
  * Display audit result and generate action plan
  */
-async function displayResult(result: AuditResult, config: Config, options: AuditOptions): Promise<void> {
+async function displayResult(
+  result: AuditResult,
+  config: Config,
+  options: AuditOptions,
+  outputPath?: string
+): Promise<void> {
   console.log(chalk.bold(`\n📋 ${result.module.toUpperCase()} Results\n`));
 
   // Summary
@@ -252,6 +406,7 @@ async function displayResult(result: AuditResult, config: Config, options: Audit
       '',
       `  Estimated API Calls: ${planData.summary.estimated_api_calls}`,
       `  AI Analysis Cost: $${planData.summary.estimated_ai_cost_usd.toFixed(4)}`,
+      ...formatMarketingSavings(planData.summary.estimated_marketing_contacts_freed),
       '',
       chalk.green(`  ✓ Plan saved to: ${filePath}`),
     ].join('\n')));
@@ -273,10 +428,10 @@ async function displayResult(result: AuditResult, config: Config, options: Audit
   }
 
   // Output to file
-  if (options.output) {
+  if (outputPath) {
     const fs = await import('fs/promises');
-    await fs.writeFile(options.output, JSON.stringify(result, null, 2));
-    console.log(chalk.green(`\n✓ Results saved to ${options.output}\n`));
+    await fs.writeFile(outputPath, JSON.stringify(result, null, 2));
+    console.log(chalk.green(`\n✓ Results saved to ${outputPath}\n`));
   }
 
   console.log();
@@ -314,8 +469,18 @@ export function getAuditInfo(): void {
   ].join('\n')));
 
   console.log(formatSection('Available Checks:', [
-    '  data-quality - Missing fields, invalid formats, stale data',
+    '  data-quality - Missing fields, invalid formats, stale data, deal pipeline hygiene',
     '  duplicates   - Potential duplicate records',
+    '  associations - Contacts missing or mismatched company associations',
+    '  lifecycle    - Lifecycle stages inconsistent with deals or companies',
+    '  owners       - Unowned records and records owned by deactivated users',
+    '  email        - Role, disposable, mistyped and bounced email addresses',
+    '  compliance   - GDPR legal basis, consent and retention',
+    '  icp          - Ideal customer profile fit score and tier',
+    '  titles       - Standardized job titles, seniority and department',
+    '  address      - Country, state and postal code normalization',
+    '  junk         - Test, spam and bulk sign-up contacts',
+    '  enums        - Dropdown values that are not valid options',
     '  properties   - Property usage and custom field analysis',
     '  lists        - List hygiene and membership issues',
     '  marketing    - Marketing contact optimization',
@@ -324,6 +489,7 @@ export function getAuditInfo(): void {
   console.log(formatSection('Examples:', [
     '  hubspot-audit audit contacts --check=data-quality',
     '  hubspot-audit audit companies --check=duplicates',
+    '  hubspot-audit audit deals --check=data-quality',
     '  hubspot-audit audit all --comprehensive',
     '  hubspot-audit audit contacts --check=data-quality,duplicates',
   ].join('\n')));
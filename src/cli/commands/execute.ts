@@ -222,6 +222,14 @@ export async function executePlan(file: string, options: ExecuteOptions): Promis
           ['These changes cannot be automatically undone']
         );
       }
+
+      const blocked = result.actions.filter(a => a.status === 'skipped' && a.error);
+      if (blocked.length > 0) {
+        displayWarning(
+          `${blocked.length} actions skipped because an action they depend on did not run`,
+          blocked.map(a => `${a.action_id}: ${a.error}`)
+        );
+      }
     }
 
     console.log();
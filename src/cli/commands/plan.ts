@@ -6,9 +6,16 @@
  */
 
 import chalk from 'chalk';
-import { displayInfo, formatHeader, formatSection, displayError } from '../output/index.js';
+import {
+  displayInfo,
+  formatHeader,
+  formatSection,
+  formatMarketingSavings,
+  displayError,
+} from '../output/index.js';
 import { createLogger } from '../../utils/logger.js';
-import { ActionPlan, type ActionFilter, type ConfidenceLevel, type DetectionMethod } from '../../actions/index.js';
+import { ActionPlan, type Action, type ActionFilter, type ConfidenceLevel, type DetectionMethod } from '../../actions/index.js';
+import type { GoldenValue } from '../../utils/survivorship.js';
 
 const logger = createLogger('plan');
 
@@ -58,6 +65,7 @@ export async function showPlan(file: string, options: PlanOptions): Promise<void
       '',
       `  Estimated API Calls: ${planData.summary.estimated_api_calls}`,
       `  AI Analysis Cost: $${planData.summary.estimated_ai_cost_usd.toFixed(4)}`,
+      ...formatMarketingSavings(planData.summary.estimated_marketing_contacts_freed),
     ].join('\n')));
 
     // Action types
@@ -126,7 +134,13 @@ export async function showPlan(file: string, options: PlanOptions): Promise<void
             console.log(`    Property: ${action.change.property}`);
           }
 
-          if (action.change.current_value !== undefined) {
+          const goldenRecord = getGoldenRecord(action);
+          if (goldenRecord) {
+            console.log(`    Golden record:`);
+            for (const [property, golden] of Object.entries(goldenRecord)) {
+              console.log(`      ${property}: ${golden.value} ${chalk.dim(`(${action.target.object_type} ${golden.source}, ${golden.rule})`)}`);
+            }
+          } else if (action.change.current_value !== undefined) {
             console.log(chalk.red(`    Current: ${JSON.stringify(action.change.current_value)}`));
           }
 
@@ -148,6 +162,13 @@ export async function showPlan(file: string, options: PlanOptions): Promise<void
             if (action.ai_reasoning.confidence_factors.length > 0) {
               console.log(chalk.dim(`      Factors: ${action.ai_reasoning.confidence_factors.join(', ')}`));
             }
+
+            if (action.ai_reasoning.tool_trace && action.ai_reasoning.tool_trace.length > 0) {
+              console.log(chalk.dim(`      Data checked:`));
+              for (const call of action.ai_reasoning.tool_trace) {
+                console.log(chalk.dim(`        ${call.tool}(${JSON.stringify(call.input)}) → ${call.result_summary}`));
+              }
+            }
           } else {
             console.log(chalk.dim(`    Reasoning: ${action.reasoning}`));
           }
@@ -235,6 +256,18 @@ export async function exportPlan(file: string, options: PlanOptions): Promise<vo
   );
 }
 
+/**
+ * Golden record a merge produces, when the duplicate audit computed one
+ */
+function getGoldenRecord(action: Action): Record<string, GoldenValue> | undefined {
+  const current = action.change.current_value;
+  const isMerge = action.type === 'merge_contacts' || action.type === 'merge_companies';
+  if (!isMerge || typeof current !== 'object' || current === null) {
+    return undefined;
+  }
+  return (current as { golden_record?: Record<string, GoldenValue> }).golden_record;
+}
+
 /**
  * Get plan command help
  */
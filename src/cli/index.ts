@@ -126,7 +126,7 @@ const auditCmd = program
   .argument('[type]', 'Object type to audit: contacts, companies, deals, all')
   .option('-c, --check <checks>', 'Specific checks to run (comma-separated)')
   .option('--comprehensive', 'Run comprehensive audit with cross-cutting analysis')
-  .option('--output <path>', 'Write output to file instead of stdout')
+  .option('--output <path>', 'Write output to file instead of stdout (one file per module when several run)')
   .action(async (type: string | undefined, options: any) => {
     try {
       const globalOpts = program.opts();
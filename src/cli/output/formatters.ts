@@ -220,6 +220,21 @@ export function formatStatus(
   }
 }
 
+/**
+ * Format the marketing-contact savings lines of a plan summary
+ * Returns no lines when the plan frees no marketing contacts
+ */
+export function formatMarketingSavings(contactsFreed: number | undefined): string[] {
+  if (!contactsFreed) {
+    return [];
+  }
+
+  return [
+    '',
+    chalk.green(`  Marketing Contacts Freed: ${formatNumber(contactsFreed)} billed slots`),
+  ];
+}
+
 /**
  * Format box with border
  */
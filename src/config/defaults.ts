@@ -45,17 +45,175 @@ export const defaultConfig: Omit<Config, 'company'> = {
   duplicate_detection: {
     enable_exact_matching: true,
     exact_email_match: true,
+    canonical_email_match: true,
+    email_domain_aliases: {},
     exact_phone_and_company_match: true,
     exact_name_and_company_match: true,
     enable_fuzzy_matching: true,
     fuzzy_match_threshold: 0.85,
     max_fuzzy_pairs_for_ai: 100,
+    field_algorithms: {
+      firstname: 'jaro_winkler',
+      lastname: 'jaro_winkler',
+      company: 'levenshtein',
+    },
+    blocking_keys: ['email_local_part', 'phone_suffix', 'last_name_phonetic', 'company_token'],
+    max_block_size: 500,
+    phone_suffix_length: 7,
     enable_merge_investigation: true,
     max_investigations_per_run: 20,
     min_confidence_for_investigation: 0.5,
     max_ai_cost_per_audit: 5.0,
+    survivorship: {
+      primary: 'oldest',
+      default_rule: 'most_recent',
+      property_rules: {},
+      properties: ['firstname', 'lastname', 'phone', 'mobilephone', 'company', 'jobtitle'],
+    },
     normalize_phone_numbers: true,
     default_country_code: 'US',
+    companies: {
+      domain_match: true,
+      name_and_phone_match: true,
+      survivorship_properties: [
+        'phone',
+        'website',
+        'industry',
+        'city',
+        'country',
+        'numberofemployees',
+        'annualrevenue',
+      ],
+      ignored_domains: [
+        'facebook.com',
+        'linkedin.com',
+        'instagram.com',
+        'twitter.com',
+        'x.com',
+        'youtube.com',
+        'tiktok.com',
+        'yelp.com',
+        'wixsite.com',
+        'blogspot.com',
+        'wordpress.com',
+        'squarespace.com',
+        'weebly.com',
+        'godaddysites.com',
+        'business.site',
+        'sites.google.com',
+        'github.io',
+        'myshopify.com',
+        'linktr.ee',
+      ],
+    },
+  },
+  property_analysis: {
+    object_types: ['contacts', 'companies', 'deals'],
+    low_fill_rate_percent: 5,
+    near_duplicate_threshold: 0.85,
+    max_records_to_scan: 10000,
+    enable_ai_recommendations: true,
+    max_ai_cost_per_audit: 1.0,
+  },
+  list_hygiene: {
+    stale_static_list_days: 180,
+    overlap_threshold: 0.9,
+    marketing_list_keywords: ['newsletter', 'marketing', 'campaign', 'nurture', 'email'],
+  },
+  deal_hygiene: {
+    stuck_stage_multiplier: 2,
+    min_stage_samples: 5,
+    outlier_iqr_multiplier: 3,
+    min_deals_for_outliers: 10,
+    check_associations: true,
+    max_association_checks: 500,
+  },
+  association_integrity: {
+    max_contacts_to_check: 5000,
+    personal_email_domains: [
+      'gmail.com',
+      'googlemail.com',
+      'yahoo.com',
+      'hotmail.com',
+      'outlook.com',
+      'live.com',
+      'msn.com',
+      'aol.com',
+      'icloud.com',
+      'me.com',
+      'proton.me',
+      'protonmail.com',
+      'gmx.com',
+      'mail.com',
+      'yandex.com',
+    ],
+  },
+  lifecycle_stage: {
+    max_deal_association_checks: 2000,
+    check_company_stage: true,
+    enable_ai_review: true,
+    max_ai_cases_per_run: 50,
+    max_ai_cost_per_audit: 1.0,
+  },
+  owner_assignment: {
+    object_types: ['contacts', 'companies', 'deals'],
+    assignment_rules: ['company_owner', 'round_robin'],
+    round_robin_team: '',
+    max_contact_owners_per_company: 2,
+    max_association_checks: 500,
+  },
+  email_deliverability: {
+    check_role_accounts: true,
+    check_free_mail: true,
+  },
+  compliance: {
+    require_legal_basis_for_marketing: true,
+    additional_gdpr_countries: [],
+    consent_date_property: 'consent_date',
+    retention_days: 1095,
+    retention_exempt_lifecycle_stages: ['customer', 'evangelist'],
+  },
+  icp_fit: {
+    object_types: ['contacts', 'companies'],
+    score_property: 'icp_fit_score',
+    tier_property: 'icp_fit_tier',
+    tier_thresholds: { A: 75, B: 50, C: 25 },
+    enable_ai_title_review: true,
+    max_ai_titles_per_run: 100,
+    max_ai_cost_per_audit: 1.0,
+  },
+  title_standardization: {
+    title_property: 'jobtitle',
+    seniority_property: 'job_seniority',
+    department_property: 'job_department',
+    title_mappings: {},
+    enable_ai_review: true,
+    max_ai_titles_per_run: 100,
+    max_ai_cost_per_audit: 1.0,
+  },
+  address_normalization: {
+    object_types: ['contacts', 'companies'],
+    country_format: 'name',
+    state_format: 'code',
+    default_country: '',
+    check_postal_codes: true,
+    check_city_state: true,
+  },
+  junk_detection: {
+    delete_threshold: 70,
+    review_threshold: 40,
+    burst_min_records: 5,
+    sequential_min_records: 3,
+    ip_property: '',
+    max_records_per_ip: 10,
+    exempt_lifecycle_stages: ['opportunity', 'customer', 'evangelist'],
+  },
+  enumeration_drift: {
+    object_types: ['contacts', 'companies', 'deals'],
+    properties: [],
+    min_similarity: 0.7,
+    option_similarity_threshold: 0.9,
+    max_records_to_scan: 10000,
   },
   settings: {
     batch_size: 100,
@@ -80,11 +80,24 @@ export const dataQualityAiConfigSchema = z.object({
   analyze_cross_record_patterns: z.boolean().default(false), // Expensive
 });
 
+// Survivorship rule deciding which value wins when duplicates are merged
+export const survivorshipRuleSchema = z.enum(['most_recent', 'most_complete', 'oldest', 'primary']);
+
+// Algorithm used to compare a field when fuzzy matching duplicates
+export const matchAlgorithmSchema = z.enum([
+  'exact',
+  'levenshtein',
+  'jaro_winkler',
+  'double_metaphone',
+]);
+
 // Duplicate detection config schema (Epic 9)
 export const duplicateDetectionConfigSchema = z.object({
   // Tier 1: Rule-based exact matching (always enabled, free)
   enable_exact_matching: z.boolean().default(true),
   exact_email_match: z.boolean().default(true),
+  canonical_email_match: z.boolean().default(true), // Gmail dots, plus aliases, domain aliases
+  email_domain_aliases: z.record(z.string()).default({}), // Alias -> canonical, e.g. acquired companies
   exact_phone_and_company_match: z.boolean().default(true),
   exact_name_and_company_match: z.boolean().default(true),
 
@@ -92,6 +105,20 @@ export const duplicateDetectionConfigSchema = z.object({
   enable_fuzzy_matching: z.boolean().default(true),
   fuzzy_match_threshold: z.number().min(0).max(1).default(0.85), // 85% similar
   max_fuzzy_pairs_for_ai: z.number().int().positive().default(100),
+  field_algorithms: z
+    .object({
+      firstname: matchAlgorithmSchema.default('jaro_winkler'),
+      lastname: matchAlgorithmSchema.default('jaro_winkler'),
+      company: matchAlgorithmSchema.default('levenshtein'),
+    })
+    .default({}),
+
+  // Blocking: fuzzy matching only compares contacts that share a key
+  blocking_keys: z
+    .array(z.enum(['email_local_part', 'phone_suffix', 'last_name_phonetic', 'company_token']))
+    .default(['email_local_part', 'phone_suffix', 'last_name_phonetic', 'company_token']),
+  max_block_size: z.number().int().positive().default(500), // Larger blocks are skipped
+  phone_suffix_length: z.number().int().min(4).default(7),
 
   // Tier 3: Deep investigation with AI exploration
   enable_merge_investigation: z.boolean().default(true),
@@ -101,9 +128,277 @@ export const duplicateDetectionConfigSchema = z.object({
   // Overall cost control
   max_ai_cost_per_audit: z.number().positive().default(5.0), // Higher than data quality
 
+  // Survivorship: which contact is kept and which values win when merging
+  survivorship: z
+    .object({
+      primary: z.enum(['oldest', 'most_complete', 'recommended']).default('oldest'),
+      default_rule: survivorshipRuleSchema.default('most_recent'),
+      property_rules: z.record(survivorshipRuleSchema).default({}), // Per-property overrides
+      properties: z
+        .array(z.string())
+        .default(['firstname', 'lastname', 'phone', 'mobilephone', 'company', 'jobtitle']),
+    })
+    .default({}),
+
   // Phone normalization
   normalize_phone_numbers: z.boolean().default(true),
   default_country_code: z.string().default('US'),
+
+  // Company duplicates: same domain, or equivalent name with a shared phone number
+  companies: z
+    .object({
+      domain_match: z.boolean().default(true),
+      name_and_phone_match: z.boolean().default(true),
+      survivorship_properties: z
+        .array(z.string())
+        .default([
+          'phone',
+          'website',
+          'industry',
+          'city',
+          'country',
+          'numberofemployees',
+          'annualrevenue',
+        ]),
+      // Social, site-builder and hosting domains many companies share; never a match key.
+      // Personal email domains (association_integrity.personal_email_domains) are ignored too.
+      ignored_domains: z
+        .array(z.string())
+        .default([
+          'facebook.com',
+          'linkedin.com',
+          'instagram.com',
+          'twitter.com',
+          'x.com',
+          'youtube.com',
+          'tiktok.com',
+          'yelp.com',
+          'wixsite.com',
+          'blogspot.com',
+          'wordpress.com',
+          'squarespace.com',
+          'weebly.com',
+          'godaddysites.com',
+          'business.site',
+          'sites.google.com',
+          'github.io',
+          'myshopify.com',
+          'linktr.ee',
+        ]),
+    })
+    .default({}),
+});
+
+// Property analysis config schema (Epic 10)
+export const propertyAnalysisConfigSchema = z.object({
+  // Which object types to analyze
+  object_types: z
+    .array(z.enum(['contacts', 'companies', 'deals']))
+    .default(['contacts', 'companies', 'deals']),
+
+  // Rule-based thresholds
+  low_fill_rate_percent: z.number().min(0).max(100).default(5), // Flag custom properties below this
+  near_duplicate_threshold: z.number().min(0).max(1).default(0.85), // Name/label similarity
+  max_records_to_scan: z.number().int().positive().default(10000), // Per object type
+
+  // AI recommendations (reasoning mode)
+  enable_ai_recommendations: z.boolean().default(true),
+  max_ai_cost_per_audit: z.number().positive().default(1.0),
+});
+
+// List hygiene config schema (Epic 11)
+export const listHygieneConfigSchema = z.object({
+  stale_static_list_days: z.number().int().positive().default(180),
+  overlap_threshold: z.number().min(0).max(1).default(0.9), // Share of the smaller list
+  // Lists whose names contain one of these are treated as marketing lists (empty = all static lists)
+  marketing_list_keywords: z
+    .array(z.string())
+    .default(['newsletter', 'marketing', 'campaign', 'nurture', 'email']),
+});
+
+// Deal hygiene config schema
+export const dealHygieneConfigSchema = z.object({
+  // Stuck deals: time in current stage vs. the stage's historical median
+  stuck_stage_multiplier: z.number().positive().default(2),
+  min_stage_samples: z.number().int().positive().default(5), // Deals that left the stage
+
+  // Amount outliers (Tukey fences per pipeline)
+  outlier_iqr_multiplier: z.number().positive().default(3),
+  min_deals_for_outliers: z.number().int().positive().default(10),
+
+  // Association checks cost two API calls per deal
+  check_associations: z.boolean().default(true),
+  max_association_checks: z.number().int().positive().default(500),
+});
+
+// Association integrity config schema
+export const associationIntegrityConfigSchema = z.object({
+  // Association lookups cost one API call per contact
+  max_contacts_to_check: z.number().int().positive().default(5000),
+  // Personal email providers never identify a company
+  personal_email_domains: z
+    .array(z.string())
+    .default([
+      'gmail.com',
+      'googlemail.com',
+      'yahoo.com',
+      'hotmail.com',
+      'outlook.com',
+      'live.com',
+      'msn.com',
+      'aol.com',
+      'icloud.com',
+      'me.com',
+      'proton.me',
+      'protonmail.com',
+      'gmx.com',
+      'mail.com',
+      'yandex.com',
+    ]),
+});
+
+// Lifecycle stage config schema
+export const lifecycleStageConfigSchema = z.object({
+  // Deal associations cost one API call per deal
+  max_deal_association_checks: z.number().int().positive().default(2000),
+  check_company_stage: z.boolean().default(true),
+
+  // Borderline cases (possible churn, deliberate recycling) go to AI reasoning
+  enable_ai_review: z.boolean().default(true),
+  max_ai_cases_per_run: z.number().int().positive().default(50),
+  max_ai_cost_per_audit: z.number().positive().default(1.0),
+});
+
+// Owner assignment config schema
+export const ownerAssignmentConfigSchema = z.object({
+  object_types: z
+    .array(z.enum(['contacts', 'companies', 'deals']))
+    .default(['contacts', 'companies', 'deals']),
+
+  // Reassignment rules, tried in order until one yields an active owner
+  assignment_rules: z
+    .array(z.enum(['company_owner', 'round_robin']))
+    .default(['company_owner', 'round_robin']),
+  round_robin_team: z.string().default(''), // Team name or ID (empty = all active owners)
+
+  // Flag companies whose contacts are spread across more owners than this
+  max_contact_owners_per_company: z.number().int().positive().default(2),
+
+  // Deal-to-company lookups cost one API call per deal
+  max_association_checks: z.number().int().positive().default(500),
+});
+
+// Email deliverability config schema
+export const emailDeliverabilityConfigSchema = z.object({
+  // Extra disposable domains merged with the bundled list (one per line, # comments)
+  disposable_domains_file: z.string().optional(),
+  check_role_accounts: z.boolean().default(true),
+  // Free-mail addresses are only flagged when company.business_model is B2B
+  check_free_mail: z.boolean().default(true),
+});
+
+// Compliance (GDPR/consent) config schema
+export const complianceConfigSchema = z.object({
+  // Marketing contacts must have hs_legal_basis set
+  require_legal_basis_for_marketing: z.boolean().default(true),
+
+  // Contacts in EEA/UK countries (plus these) need a recorded consent date
+  additional_gdpr_countries: z.array(z.string()).default([]),
+  consent_date_property: z.string().default('consent_date'), // HubSpot has no default property
+
+  // Contacts with no activity for this long are planned for deletion
+  retention_days: z.number().int().positive().default(1095), // 3 years
+  retention_exempt_lifecycle_stages: z.array(z.string()).default(['customer', 'evangelist']),
+});
+
+// ICP fit scoring config schema
+export const icpFitConfigSchema = z.object({
+  object_types: z.array(z.enum(['contacts', 'companies'])).default(['contacts', 'companies']),
+
+  // Custom properties the score (0-100) and tier are written to ('' skips the tier)
+  score_property: z.string().default('icp_fit_score'),
+  tier_property: z.string().default('icp_fit_tier'),
+
+  // Minimum score for each tier; anything lower is tier D
+  tier_thresholds: z
+    .object({
+      A: z.number().min(0).max(100).default(75),
+      B: z.number().min(0).max(100).default(50),
+      C: z.number().min(0).max(100).default(25),
+    })
+    .default({}),
+
+  // Job titles the rules cannot place go to AI reasoning
+  enable_ai_title_review: z.boolean().default(true),
+  max_ai_titles_per_run: z.number().int().positive().default(100),
+  max_ai_cost_per_audit: z.number().positive().default(1.0),
+});
+
+// Job title standardization schema
+export const titleStandardizationConfigSchema = z.object({
+  // Contact properties the standardized values are written to ('' skips the field)
+  title_property: z.string().default('jobtitle'),
+  seniority_property: z.string().default('job_seniority'),
+  department_property: z.string().default('job_department'),
+
+  // Explicit title mappings (variant -> standardized title), checked before the rule table
+  title_mappings: z.record(z.string()).default({}),
+
+  // Titles the rule table cannot map go to AI reasoning
+  enable_ai_review: z.boolean().default(true),
+  max_ai_titles_per_run: z.number().int().positive().default(100),
+  max_ai_cost_per_audit: z.number().positive().default(1.0),
+});
+
+// Address normalization schema
+export const addressNormalizationConfigSchema = z.object({
+  object_types: z.array(z.enum(['contacts', 'companies'])).default(['contacts', 'companies']),
+
+  // How standardized values are written
+  country_format: z.enum(['name', 'alpha2']).default('name'),
+  state_format: z.enum(['name', 'code']).default('code'),
+
+  // Country assumed for state and postal code checks when a record has none ('' skips them)
+  default_country: z.string().default(''),
+
+  check_postal_codes: z.boolean().default(true),
+  check_city_state: z.boolean().default(true),
+});
+
+// Junk record detection schema
+export const junkDetectionConfigSchema = z.object({
+  // Junk score (0-100) at which a contact is planned for deletion or flagged for review
+  delete_threshold: z.number().min(0).max(100).default(70),
+  review_threshold: z.number().min(0).max(100).default(40),
+
+  // Records created in the same second from the same source that count as a bulk sign-up
+  burst_min_records: z.number().int().min(2).default(5),
+  // Records identical apart from numbers ("user1@", "user2@") that count as a sequence
+  sequential_min_records: z.number().int().min(2).default(3),
+
+  // Property holding the sign-up IP address, if the portal records one ('' skips the check)
+  ip_property: z.string().default(''),
+  max_records_per_ip: z.number().int().min(2).default(10),
+
+  // Contacts in these stages are real relationships and never scored
+  exempt_lifecycle_stages: z.array(z.string()).default(['opportunity', 'customer', 'evangelist']),
+});
+
+// Enumeration value drift schema
+export const enumerationDriftConfigSchema = z.object({
+  object_types: z
+    .array(z.enum(['contacts', 'companies', 'deals']))
+    .default(['contacts', 'companies', 'deals']),
+
+  // Enumeration properties to check (empty = every enumeration property with options)
+  properties: z.array(z.string()).default([]),
+
+  // Invalid values at least this similar to an option are mapped to it
+  min_similarity: z.number().min(0).max(1).default(0.7),
+  // Options on one property at least this similar are reported as near-duplicates
+  option_similarity_threshold: z.number().min(0).max(1).default(0.9),
+
+  max_records_to_scan: z.number().int().positive().default(10000), // Per object type
 });
 
 // Rate limit settings schema
@@ -136,6 +431,19 @@ export const configSchema = z.object({
   rules: dataQualityRulesSchema.default({}),
   data_quality: dataQualityAiConfigSchema.default({}),
   duplicate_detection: duplicateDetectionConfigSchema.default({}),
+  property_analysis: propertyAnalysisConfigSchema.default({}),
+  list_hygiene: listHygieneConfigSchema.default({}),
+  deal_hygiene: dealHygieneConfigSchema.default({}),
+  association_integrity: associationIntegrityConfigSchema.default({}),
+  lifecycle_stage: lifecycleStageConfigSchema.default({}),
+  owner_assignment: ownerAssignmentConfigSchema.default({}),
+  email_deliverability: emailDeliverabilityConfigSchema.default({}),
+  compliance: complianceConfigSchema.default({}),
+  icp_fit: icpFitConfigSchema.default({}),
+  title_standardization: titleStandardizationConfigSchema.default({}),
+  address_normalization: addressNormalizationConfigSchema.default({}),
+  junk_detection: junkDetectionConfigSchema.default({}),
+  enumeration_drift: enumerationDriftConfigSchema.default({}),
   settings: auditSettingsSchema.default({}),
   security: securitySettingsSchema.default({}),
 });
@@ -153,6 +461,19 @@ export type IdealCustomerProfile = z.infer<typeof icpSchema>;
 export type DataQualityRules = z.infer<typeof dataQualityRulesSchema>;
 export type DataQualityAiConfig = z.infer<typeof dataQualityAiConfigSchema>;
 export type DuplicateDetectionConfig = z.infer<typeof duplicateDetectionConfigSchema>;
+export type PropertyAnalysisConfig = z.infer<typeof propertyAnalysisConfigSchema>;
+export type ListHygieneConfig = z.infer<typeof listHygieneConfigSchema>;
+export type DealHygieneConfig = z.infer<typeof dealHygieneConfigSchema>;
+export type AssociationIntegrityConfig = z.infer<typeof associationIntegrityConfigSchema>;
+export type LifecycleStageConfig = z.infer<typeof lifecycleStageConfigSchema>;
+export type OwnerAssignmentConfig = z.infer<typeof ownerAssignmentConfigSchema>;
+export type EmailDeliverabilityConfig = z.infer<typeof emailDeliverabilityConfigSchema>;
+export type ComplianceConfig = z.infer<typeof complianceConfigSchema>;
+export type IcpFitConfig = z.infer<typeof icpFitConfigSchema>;
+export type TitleStandardizationConfig = z.infer<typeof titleStandardizationConfigSchema>;
+export type AddressNormalizationConfig = z.infer<typeof addressNormalizationConfigSchema>;
+export type JunkDetectionConfig = z.infer<typeof junkDetectionConfigSchema>;
+export type EnumerationDriftConfig = z.infer<typeof enumerationDriftConfigSchema>;
 export type RateLimitSettings = z.infer<typeof rateLimitSettingsSchema>;
 export type AuditSettings = z.infer<typeof auditSettingsSchema>;
 export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
@@ -12,6 +12,10 @@
 import Anthropic from '@anthropic-ai/sdk';
 import type {
   Tool,
+  ToolUseBlock,
+  ToolResultBlockParam,
+  TextBlockParam,
+  MessageParam,
   MessageCreateParamsNonStreaming,
 } from '@anthropic-ai/sdk/resources/messages.js';
 import type { Config } from '../config/schema.js';
@@ -25,6 +29,7 @@ import type {
   CostEstimate,
   AnalysisContext,
   ClaudeModel,
+  ToolHandler,
 } from '../types/claude.js';
 import { PRICING as PricingTable } from '../types/claude.js';
 
@@ -153,25 +158,15 @@ export class ClaudeService {
   ): Promise<T> {
     const startTime = Date.now();
 
-    // Check budget
-    if (this.config.monthlyBudgetUsd && this.usageStats.estimatedCostUsd >= this.config.monthlyBudgetUsd) {
-      const error = new Error('Monthly budget exceeded');
-      logger.error({ budget: this.config.monthlyBudgetUsd, spent: this.usageStats.estimatedCostUsd }, 'Budget exceeded');
-
-      if (this.config.fallbackToRulesOnly) {
-        logger.warn('Falling back to rules-only mode due to budget');
-        throw error; // Caller should catch and handle fallback
-      }
-
-      throw error;
-    }
+    this.checkBudget();
 
     try {
       // Build request parameters
+      const messages: MessageParam[] = [{ role: 'user', content: prompt }];
       const params: MessageCreateParamsNonStreaming = {
         model: this.config.model,
         max_tokens: this.config.maxTokensPerRequest,
-        messages: [{ role: 'user', content: prompt }],
+        messages,
       };
 
       // Add system prompt if provided
@@ -195,32 +190,76 @@ export class ClaudeService {
         };
       }
 
-      // Execute request
-      const response = await this.client.messages.create(params);
-
-      // Track usage
-      this.trackUsage(response, config.mode, operation);
-
-      // Extract result from tool use
-      const toolUseBlock = response.content.find((block) => block.type === 'tool_use');
-
-      if (!toolUseBlock || toolUseBlock.type !== 'tool_use') {
-        throw new Error('No tool_use block found in response');
+      const handlers = config.toolHandlers ?? {};
+      const maxToolCalls = this.config.maxToolCalls ?? 5;
+      let dataToolCalls = 0;
+
+      // Execute requests until Claude calls a reporting tool (one without a handler)
+      for (;;) {
+        // Earlier turns of this conversation count towards the budget too
+        if (dataToolCalls > 0) {
+          this.checkBudget();
+        }
+
+        const response = await this.client.messages.create(params);
+
+        // Track usage
+        this.trackUsage(response, config.mode, operation);
+
+        const toolUseBlocks = response.content.filter(
+          (block): block is ToolUseBlock => block.type === 'tool_use'
+        );
+
+        // Extract result from tool use
+        const toolUseBlock = toolUseBlocks.find((block) => !handlers[block.name]);
+
+        if (toolUseBlock) {
+          const duration = Date.now() - startTime;
+          logger.info(
+            {
+              operation,
+              mode: config.mode,
+              duration,
+              dataToolCalls,
+              inputTokens: response.usage.input_tokens,
+              outputTokens: response.usage.output_tokens,
+            },
+            'Analysis completed'
+          );
+
+          return toolUseBlock.input as T;
+        }
+
+        if (toolUseBlocks.length === 0) {
+          throw new Error('No tool_use block found in response');
+        }
+
+        // Claude was already told to report; don't keep exploring
+        if (dataToolCalls >= maxToolCalls) {
+          throw new Error(`Tool call limit (${maxToolCalls}) reached without a report`);
+        }
+
+        // Run the data tools Claude asked for and continue the conversation
+        const content: Array<ToolResultBlockParam | TextBlockParam> = [];
+        for (const block of toolUseBlocks) {
+          dataToolCalls++;
+          content.push(await this.runToolHandler(handlers[block.name], block));
+        }
+
+        // Out of tool calls: keep the tool definitions (earlier turns use them),
+        // but ask Claude to report with what it has
+        if (dataToolCalls >= maxToolCalls) {
+          content.push({
+            type: 'text',
+            text: 'You have used all available data tool calls. Report your findings now using the reporting tool.',
+          });
+        }
+
+        messages.push(
+          { role: 'assistant', content: response.content },
+          { role: 'user', content }
+        );
       }
-
-      const duration = Date.now() - startTime;
-      logger.info(
-        {
-          operation,
-          mode: config.mode,
-          duration,
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
-        },
-        'Analysis completed'
-      );
-
-      return toolUseBlock.input as T;
     } catch (error) {
       logger.error({ error, operation, mode: config.mode }, 'Analysis failed');
 
@@ -232,6 +271,45 @@ export class ClaudeService {
     }
   }
 
+  /**
+   * Throw once the monthly budget is spent
+   * Callers should catch this and fall back to rules-only analysis.
+   */
+  private checkBudget(): void {
+    if (this.config.monthlyBudgetUsd && this.usageStats.estimatedCostUsd >= this.config.monthlyBudgetUsd) {
+      const error = new Error('Monthly budget exceeded');
+      logger.error({ budget: this.config.monthlyBudgetUsd, spent: this.usageStats.estimatedCostUsd }, 'Budget exceeded');
+
+      if (this.config.fallbackToRulesOnly) {
+        logger.warn('Falling back to rules-only mode due to budget');
+        throw error; // Caller should catch and handle fallback
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Run a data tool handler; failures are reported back to Claude as tool errors
+   */
+  private async runToolHandler(
+    handler: ToolHandler,
+    block: ToolUseBlock
+  ): Promise<ToolResultBlockParam> {
+    try {
+      const result = await handler(block.input as Record<string, unknown>);
+      return { type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(result) };
+    } catch (error) {
+      logger.warn({ error, tool: block.name }, 'Data tool failed');
+      return {
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: error instanceof Error ? error.message : String(error),
+        is_error: true,
+      };
+    }
+  }
+
   /**
    * Select appropriate analysis mode based on context
    */
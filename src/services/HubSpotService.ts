@@ -22,10 +22,12 @@ import type {
   PropertyDefinition,
   Association,
   List,
+  ListMembership,
   TimelineEvent,
   EngagementSummary,
   EmailEvent,
   MarketingStatus,
+  Owner,
   Workflow,
   WorkflowDefinition,
   AccountInfo,
@@ -234,6 +236,26 @@ export class HubSpotService {
     });
   }
 
+  /**
+   * Merge companies (NOT REVERSIBLE!)
+   */
+  async mergeCompanies(primaryId: string, secondaryId: string): Promise<void> {
+    logger.warn({ primaryId, secondaryId }, 'Merging companies (irreversible)');
+
+    await this.executeWithRetry(async () => {
+      // Use the merge API - secondary company will be permanently deleted
+      await this.client.crm.companies.mergeApi.merge({
+        primaryObjectId: primaryId,
+        objectIdToMerge: secondaryId,
+      });
+
+      logger.warn(
+        { primaryId, secondaryId },
+        'Successfully merged companies - secondary company deleted'
+      );
+    });
+  }
+
   // ===================================================================
   // DEALS
   // ===================================================================
@@ -348,6 +370,59 @@ export class HubSpotService {
     );
   }
 
+  // ===================================================================
+  // OWNERS
+  // ===================================================================
+
+  /**
+   * Get all owners, including deactivated (archived) ones (cached)
+   */
+  async getOwners(): Promise<Owner[]> {
+    return await this.cache.getOrCompute(
+      'owners',
+      async () => {
+        logger.debug('Fetching owners');
+
+        const owners: Owner[] = [];
+        for (const archived of [false, true]) {
+          let after: string | undefined;
+
+          do {
+            const response = await this.executeWithRetry(async () => {
+              return await this.client.crm.owners.ownersApi.getPage(
+                undefined,
+                after,
+                100,
+                archived
+              );
+            });
+
+            for (const owner of response.results) {
+              owners.push({
+                id: owner.id,
+                email: owner.email,
+                firstName: owner.firstName,
+                lastName: owner.lastName,
+                type: owner.type as Owner['type'],
+                archived: owner.archived,
+                teams: (owner.teams ?? []).map((team) => ({
+                  id: team.id,
+                  name: team.name,
+                  primary: team.primary,
+                })),
+              });
+            }
+
+            after = response.paging?.next?.after;
+          } while (after);
+        }
+
+        return owners;
+      },
+      60 // Cache for 1 hour (owners rarely change)
+    );
+  }
+
   // ===================================================================
   // SEARCH API
   // ===================================================================
@@ -593,19 +668,24 @@ export class HubSpotService {
   }
 
   /**
-   * Get list members (contacts)
+   * Get all list memberships (record IDs, not contacts) with pagination
    */
-  async getListMembers(listId: string): Promise<Contact[]> {
+  async getListMembers(listId: string, limit: number = 250): Promise<ListMembership[]> {
     logger.debug({ listId }, 'Fetching list members');
 
-    return await this.executeWithRetry(async () => {
-      const response: any = await this.client.crm.lists.membershipsApi.getPage(
-        listId,
-        undefined,
-        undefined
-      );
-      return response.results as Contact[];
-    });
+    const memberships: ListMembership[] = [];
+    let after: string | undefined;
+
+    do {
+      const response = await this.executeWithRetry(async () => {
+        return await this.client.crm.lists.membershipsApi.getPage(listId, after, undefined, limit);
+      });
+
+      memberships.push(...response.results);
+      after = response.paging?.next?.after;
+    } while (after);
+
+    return memberships;
   }
 
   /**
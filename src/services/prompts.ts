@@ -6,6 +6,7 @@
 
 import type { Config } from '../config/schema.js';
 import type { Contact, Company, Deal } from '../types/hubspot.js';
+import { DEPARTMENTS, SENIORITY_LEVELS } from '../utils/jobTitles.js';
 
 /**
  * Build system prompt with company context and ICP
@@ -108,6 +109,47 @@ ${JSON.stringify(contacts, null, 2)}
 Use the **report_duplicates** tool to report your findings.`;
 }
 
+/**
+ * Build fuzzy duplicate review prompt for candidate pairs that rules could not decide
+ */
+export function buildFuzzyDuplicatePrompt(
+  candidates: Array<{ contact1: Contact; contact2: Contact; description: string }>,
+  config: Config
+): string {
+  const describe = (contact: Contact): string => {
+    const p = contact.properties;
+    const name = `${p.firstname ?? ''} ${p.lastname ?? ''}`.trim() || '(no name)';
+    const details = [p.email, p.phone ?? p.mobilephone, p.company, p.jobtitle, p.lifecyclestage]
+      .filter((value) => value?.trim())
+      .join(' | ');
+    return `${contact.id}: ${name}${details ? ` | ${details}` : ''}`;
+  };
+
+  const pairs = candidates.map(
+    (candidate, index) => `### Pair ${index + 1}
+- ${describe(candidate.contact1)}
+- ${describe(candidate.contact2)}
+- Signals: ${candidate.description}`
+  );
+
+  return `Decide which of these ${candidates.length} contact pairs are the same person.
+
+## Candidate Pairs
+${pairs.join('\n\n')}
+
+## Guidelines
+- Typos, nicknames ("Bob" / "Robert") and company suffixes ("Acme" / "Acme Inc.") do not make people different
+- A shared corporate email domain or phone number supports a match; common names alone do not
+- Different job titles at the same company can be one person after a promotion, or two colleagues
+- Report only pairs you believe are duplicates, with both contact IDs exactly as given
+- Recommend the more complete or more recently updated contact as primary
+- Consider our business model (${config.company.business_model}) and industry (${config.company.industry})
+
+⚠️ **IMPORTANT**: Merges are **irreversible** in HubSpot. Use high confidence only when the evidence is conclusive.
+
+Use the **report_duplicates** tool to report your findings.`;
+}
+
 /**
  * Build property usage analysis prompt
  */
@@ -148,6 +190,83 @@ Consider our business model (${config.company.business_model}) and ICP when reco
 Use the **report_property_analysis** tool to report your findings.`;
 }
 
+/**
+ * Build lifecycle stage review prompt for borderline contacts
+ */
+export function buildLifecycleReviewPrompt(
+  cases: Array<{
+    contactId: string;
+    currentStage: string;
+    finding: string;
+    evidence: Record<string, unknown>;
+  }>,
+  stageOrder: readonly string[],
+  config: Config
+): string {
+  return `Review the lifecycle stage of ${cases.length} contacts where the rules could not decide.
+
+## Lifecycle Stages (earliest to latest)
+${stageOrder.join(' → ')}
+
+## Task
+For each contact, decide which lifecycle stage best reflects the record today:
+- A customer with no won deal may have been billed outside HubSpot, or may have been set by mistake
+- A stage that moved backwards may be deliberate (churned customer recycled to lead) or an import error
+- Recommend "keep" when the current stage is defensible
+
+## Contacts
+${JSON.stringify(cases, null, 2)}
+
+## Guidelines
+- Use **high** confidence only when the evidence clearly contradicts the current stage
+- Consider our business model (${config.company.business_model}) - e.g. self-serve customers often have no deal record
+- Explain the evidence behind each recommendation in one or two sentences
+
+Use the **report_lifecycle_review** tool to report your findings.`;
+}
+
+/**
+ * Build ICP job title fit prompt for titles the rules could not match
+ */
+export function buildIcpTitleFitPrompt(titles: string[], config: Config): string {
+  return `Judge how well ${titles.length} job titles match our ideal customer profile.
+
+## ICP Job Titles
+${config.icp.job_titles.map((title) => `- ${title}`).join('\n')}
+
+## Job Titles to Review
+${titles.map((title) => `- ${title}`).join('\n')}
+
+## Guidelines
+- **strong**: Same role under a different name (e.g. "CMO" for "VP Marketing", "Head of Revenue" for "VP Sales")
+- **partial**: Adjacent role or lower seniority that still influences the purchase
+- **none**: Unrelated function, or a title too vague to place
+- Consider our business model (${config.company.business_model}) and industry (${config.company.industry})
+- Return every title exactly as written
+
+Use the **report_icp_title_fit** tool to report your findings.`;
+}
+
+/**
+ * Build job title standardization prompt for titles the rule table could not map
+ */
+export function buildTitleStandardizationPrompt(titles: string[], config: Config): string {
+  return `Standardize ${titles.length} job titles from our CRM.
+
+## Job Titles to Review
+${titles.map((title) => `- ${title}`).join('\n')}
+
+## Guidelines
+- **standardized_title**: Conventional form of the title ("Vice-President, Sales" -> "VP of Sales"); keep the role, fix spelling, casing and abbreviations
+- **seniority**: ${SENIORITY_LEVELS.join(', ')}
+- **department**: ${DEPARTMENTS.join(', ')}
+- Use low confidence for titles too vague to place (e.g. "Consultant", "Team Member")
+- Consider our industry (${config.company.industry})
+- Return every title exactly as written
+
+Use the **report_title_standardization** tool to report your findings.`;
+}
+
 /**
  * Build general analysis prompt (exploratory mode)
  */
@@ -202,7 +321,13 @@ Please provide additional insights or refinements using the appropriate tool.`;
 export function buildInvestigationPrompt(
   issueType: string,
   affectedRecords: any[],
-  config: Config
+  config: Config,
+  tasks: string[] = [
+    'Determine root cause of the issue',
+    'Assess impact on business operations',
+    'Recommend specific fix approach',
+    'Identify any similar issues to watch for',
+  ]
 ): string {
   return `Investigate this specific data quality issue in depth.
 
@@ -213,10 +338,7 @@ ${issueType}
 ${JSON.stringify(affectedRecords, null, 2)}
 
 ## Investigation Tasks
-1. Determine root cause of the issue
-2. Assess impact on business operations
-3. Recommend specific fix approach
-4. Identify any similar issues to watch for
+${tasks.map((task, index) => `${index + 1}. ${task}`).join('\n')}
 
 Consider our business context:
 - Industry: ${config.company.industry}
@@ -5,6 +5,7 @@
  */
 
 import type { Tool } from '@anthropic-ai/sdk/resources/messages.js';
+import { DEPARTMENTS, SENIORITY_LEVELS } from '../utils/jobTitles.js';
 
 /**
  * Tool for reporting data quality issues (structured output)
@@ -141,6 +142,212 @@ export const reportPropertyAnalysisTool: Tool = {
   },
 };
 
+/**
+ * Tool for reporting lifecycle stage review decisions
+ */
+export const reportLifecycleReviewTool: Tool = {
+  name: 'report_lifecycle_review',
+  description: 'Report the correct lifecycle stage for each borderline contact',
+  input_schema: {
+    type: 'object',
+    properties: {
+      decisions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            contactId: { type: 'string' },
+            recommendedStage: {
+              type: 'string',
+              description: 'Lifecycle stage internal value, or "keep" to leave the current stage',
+            },
+            confidence: {
+              type: 'string',
+              enum: ['high', 'medium', 'low'],
+            },
+            reasoning: { type: 'string' },
+          },
+          required: ['contactId', 'recommendedStage', 'confidence', 'reasoning'],
+        },
+      },
+      summary: { type: 'string' },
+    },
+    required: ['decisions', 'summary'],
+  },
+};
+
+/**
+ * Tool for reporting how well job titles fit the ICP
+ */
+export const reportIcpTitleFitTool: Tool = {
+  name: 'report_icp_title_fit',
+  description: 'Report how closely each job title matches the ideal customer profile',
+  input_schema: {
+    type: 'object',
+    properties: {
+      titles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Job title exactly as provided' },
+            fit: {
+              type: 'string',
+              enum: ['strong', 'partial', 'none'],
+            },
+            confidence: {
+              type: 'string',
+              enum: ['high', 'medium', 'low'],
+            },
+            reasoning: { type: 'string' },
+          },
+          required: ['title', 'fit', 'confidence', 'reasoning'],
+        },
+      },
+      summary: { type: 'string' },
+    },
+    required: ['titles', 'summary'],
+  },
+};
+
+/**
+ * Tool for reporting standardized job titles
+ */
+export const reportTitleStandardizationTool: Tool = {
+  name: 'report_title_standardization',
+  description: 'Report the standardized title, seniority and department for each job title',
+  input_schema: {
+    type: 'object',
+    properties: {
+      titles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Job title exactly as provided' },
+            standardized_title: { type: 'string' },
+            seniority: {
+              type: 'string',
+              enum: [...SENIORITY_LEVELS],
+            },
+            department: {
+              type: 'string',
+              enum: [...DEPARTMENTS],
+            },
+            confidence: {
+              type: 'string',
+              enum: ['high', 'medium', 'low'],
+            },
+            reasoning: { type: 'string' },
+          },
+          required: [
+            'title',
+            'standardized_title',
+            'seniority',
+            'department',
+            'confidence',
+            'reasoning',
+          ],
+        },
+      },
+      summary: { type: 'string' },
+    },
+    required: ['titles', 'summary'],
+  },
+};
+
+/**
+ * Data tool: engagement summary for a contact (merge investigation)
+ */
+export const getContactEngagementTool: Tool = {
+  name: 'get_contact_engagement',
+  description:
+    'Fetch email, form and page view engagement and the last activity date for one of the contacts under investigation',
+  input_schema: {
+    type: 'object',
+    properties: {
+      contact_id: { type: 'string', description: 'ID of a contact under investigation' },
+    },
+    required: ['contact_id'],
+  },
+};
+
+/**
+ * Data tool: companies or deals associated with a contact (merge investigation)
+ */
+export const getContactAssociationsTool: Tool = {
+  name: 'get_contact_associations',
+  description:
+    'List the company or deal IDs associated with one of the contacts under investigation',
+  input_schema: {
+    type: 'object',
+    properties: {
+      contact_id: { type: 'string', description: 'ID of a contact under investigation' },
+      object_type: { type: 'string', enum: ['companies', 'deals'] },
+    },
+    required: ['contact_id', 'object_type'],
+  },
+};
+
+/**
+ * Data tool: company record (merge investigation)
+ */
+export const getCompanyTool: Tool = {
+  name: 'get_company',
+  description: 'Fetch name, domain, industry and size of a company associated with either contact',
+  input_schema: {
+    type: 'object',
+    properties: {
+      company_id: { type: 'string' },
+    },
+    required: ['company_id'],
+  },
+};
+
+/**
+ * Tool for reporting the outcome of a merge investigation
+ */
+export const reportMergeInvestigationTool: Tool = {
+  name: 'report_merge_investigation',
+  description: 'Report whether two contacts should be merged, after investigating both records',
+  input_schema: {
+    type: 'object',
+    properties: {
+      decision: {
+        type: 'string',
+        enum: ['merge', 'keep_separate', 'needs_human_review'],
+      },
+      primary_contact_id: {
+        type: 'string',
+        description: 'Contact to keep if merged',
+      },
+      confidence: {
+        type: 'string',
+        enum: ['low', 'medium', 'high'],
+      },
+      rationale: {
+        type: 'string',
+        description: 'Evidence behind the decision, citing the data you fetched',
+      },
+      risk_assessment: {
+        type: 'string',
+        enum: ['low', 'medium', 'high'],
+        description: 'Risk of losing data or history if merged',
+      },
+      data_to_preserve: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Properties or associations on the secondary contact to carry over',
+      },
+      potential_issues: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+    },
+    required: ['decision', 'primary_contact_id', 'confidence', 'rationale', 'risk_assessment'],
+  },
+};
+
 /**
  * Tool for general analysis summary
  */
@@ -199,9 +406,42 @@ export function getDuplicateAnalysisTools(): Tool[] {
   return [reportDuplicatesTool, reportAnalysisSummaryTool];
 }
 
+/**
+ * Get tools for merge investigation (data tools + reporting tool)
+ */
+export function getMergeInvestigationTools(): Tool[] {
+  return [
+    getContactEngagementTool,
+    getContactAssociationsTool,
+    getCompanyTool,
+    reportMergeInvestigationTool,
+  ];
+}
+
 /**
  * Get tools for property analysis
  */
 export function getPropertyAnalysisTools(): Tool[] {
   return [reportPropertyAnalysisTool, reportAnalysisSummaryTool];
 }
+
+/**
+ * Get tools for lifecycle stage review
+ */
+export function getLifecycleReviewTools(): Tool[] {
+  return [reportLifecycleReviewTool, reportAnalysisSummaryTool];
+}
+
+/**
+ * Get tools for ICP job title review
+ */
+export function getIcpTitleFitTools(): Tool[] {
+  return [reportIcpTitleFitTool, reportAnalysisSummaryTool];
+}
+
+/**
+ * Get tools for job title standardization
+ */
+export function getTitleStandardizationTools(): Tool[] {
+  return [reportTitleStandardizationTool, reportAnalysisSummaryTool];
+}
@@ -7,15 +7,17 @@ export type ActionType =
   | 'update_property'
   | 'delete_contact'
   | 'merge_contacts'
+  | 'merge_companies'
   | 'remove_from_list'
   | 'set_marketing_status'
-  | 'create_association';
+  | 'create_association'
+  | 'flag_for_review'; // Informational - surfaced for human review, never executed
 
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
 export type DetectionMethod = 'rule' | 'ai_reasoning' | 'ai_exploratory';
 
 export interface ActionTarget {
-  object_type: 'contact' | 'company' | 'deal' | 'list';
+  object_type: 'contact' | 'company' | 'deal' | 'list' | 'property';
   object_id: string;
   display_name: string;
 }
@@ -35,6 +37,16 @@ export interface AIReasoning {
   confidence_factors: string[]; // What increases/decreases confidence
   thinking_excerpt?: string; // Key insight from extended thinking
   explored_alternatives?: string[]; // Other options considered
+  tool_trace?: ToolCallRecord[]; // Data Claude fetched during exploratory analysis
+}
+
+/**
+ * A data tool call made by Claude during exploratory analysis
+ */
+export interface ToolCallRecord {
+  tool: string;
+  input: Record<string, unknown>;
+  result_summary: string;
 }
 
 /**
@@ -75,6 +87,7 @@ export interface ActionPlanSummary {
   };
   estimated_api_calls: number;
   estimated_ai_cost_usd: number; // Cost of AI analysis that generated plan
+  estimated_marketing_contacts_freed?: number; // Billed marketing-contact slots released
 }
 
 /**
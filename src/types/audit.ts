@@ -6,7 +6,7 @@
 import type { Config } from './config.js';
 import type { HubSpotService } from '../services/HubSpotService.js';
 import type { ClaudeService } from '../services/ClaudeService.js';
-import type { ConfidenceLevel as ConfidenceLevelType } from './actions.js';
+import type { ConfidenceLevel as ConfidenceLevelType, ToolCallRecord } from './actions.js';
 
 export type Severity = 'low' | 'medium' | 'high' | 'critical';
 export type ConfidenceLevel = ConfidenceLevelType;
@@ -16,14 +16,18 @@ export interface AuditIssue {
   id: string;
   type: string;
   severity: Severity;
-  objectType: 'contact' | 'company' | 'deal' | 'list';
+  objectType: 'contact' | 'company' | 'deal' | 'list' | 'property';
   objectId: string;
+  displayName?: string; // Human-readable label for the target (record name, property label)
+  property?: string; // Property the issue applies to, when it maps to a single property
   description: string;
   currentValue?: unknown;
   suggestedValue?: unknown;
   confidence: ConfidenceLevel;
   detection_method: DetectionMethod;
   reasoning?: string; // AI's reasoning if detected by AI
+  tool_trace?: ToolCallRecord[]; // Data Claude fetched if detected by exploration
+  dependsOn?: string[]; // Issue IDs whose actions must run before this one's
 }
 
 export interface AuditSummary {
@@ -28,10 +28,17 @@ export interface ClaudeConfig {
   timeoutMs: number; // Default: 60000
 }
 
+/**
+ * Executes a data tool Claude calls during exploratory analysis
+ * The returned value is sent back to Claude as the tool result
+ */
+export type ToolHandler = (input: Record<string, unknown>) => Promise<unknown>;
+
 export interface AnalysisConfig {
   mode: AnalysisMode;
   maxThinkingTokens?: number;
   tools?: Tool[];
+  toolHandlers?: Record<string, ToolHandler>; // Data tools by name; a tool without a handler ends the analysis
   maxTurns?: number;
   systemPrompt?: string;
 }
@@ -12,6 +12,19 @@ export type {
   IdealCustomerProfile,
   DataQualityRules,
   DataQualityAiConfig,
+  PropertyAnalysisConfig,
+  ListHygieneConfig,
+  DealHygieneConfig,
+  AssociationIntegrityConfig,
+  LifecycleStageConfig,
+  OwnerAssignmentConfig,
+  EmailDeliverabilityConfig,
+  ComplianceConfig,
+  IcpFitConfig,
+  TitleStandardizationConfig,
+  AddressNormalizationConfig,
+  JunkDetectionConfig,
+  EnumerationDriftConfig,
   AuditSettings,
   SecuritySettings,
   RateLimitSettings,
@@ -34,6 +34,8 @@ export interface PropertyDefinition {
   groupName: string;
   description: string;
   options?: PropertyOption[];
+  hubspotDefined?: boolean; // true for HubSpot's built-in properties
+  calculated?: boolean; // true for calculated/rollup properties (read-only)
 }
 
 export interface PropertyOption {
@@ -58,8 +60,36 @@ export interface List {
   updatedAt: string;
 }
 
+/**
+ * A list membership as returned by the memberships API (not a full contact)
+ */
+export interface ListMembership {
+  recordId: string;
+  membershipTimestamp: Date;
+}
+
 export type ObjectType = 'contact' | 'company' | 'deal';
 
+// ===================================================================
+// OWNERS
+// ===================================================================
+
+export interface Owner {
+  id: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  type: 'PERSON' | 'QUEUE';
+  archived: boolean; // Deactivated users stay on as archived owners
+  teams: OwnerTeam[];
+}
+
+export interface OwnerTeam {
+  id: string;
+  name: string;
+  primary: boolean;
+}
+
 // ===================================================================
 // TIMELINE & ENGAGEMENT
 // ===================================================================
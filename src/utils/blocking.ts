@@ -0,0 +1,202 @@
+/**
+ * Blocking for duplicate detection
+ *
+ * Comparing every record with every other record is O(n²) and never
+ * finishes on large portals (400k contacts is ~80 billion pairs). Blocking
+ * groups records by cheap keys and only compares records that share at
+ * least one block:
+ * - email_local_part: email before the @, without +tags and punctuation
+ * - phone_suffix: last digits of the normalized phone number
+ * - last_name_phonetic: Soundex code of the last name
+ * - company_token: first significant word of the company name
+ * - domain: normalized company domain
+ */
+
+import { normalizeDomain, normalizePhone, soundex } from './matching.js';
+
+export type BlockingKeyType =
+  | 'email_local_part'
+  | 'phone_suffix'
+  | 'last_name_phonetic'
+  | 'company_token'
+  | 'domain';
+
+export interface BlockingOptions {
+  keys: BlockingKeyType[];
+  maxBlockSize: number; // Larger blocks are skipped (e.g. a very common last name)
+  phoneSuffixLength: number;
+  countryCode?: string;
+}
+
+export interface BlockingRecord {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+}
+
+export interface BlockKeyStats {
+  blocks: number; // Blocks with at least two records
+  largest_block: number;
+  oversized_blocks: number;
+}
+
+export interface BlockingStats {
+  records: number;
+  blocks: number;
+  oversized_blocks: number;
+  by_key: Partial<Record<BlockingKeyType, BlockKeyStats>>;
+  candidate_pairs: number;
+  naive_pairs: number;
+  reduction_ratio: number; // Share of naive comparisons avoided (0.0 - 1.0)
+}
+
+// Words that say nothing about which company it is
+const COMPANY_STOP_WORDS = new Set([
+  'the',
+  'and',
+  'of',
+  'inc',
+  'llc',
+  'ltd',
+  'corp',
+  'corporation',
+  'company',
+  'co',
+  'incorporated',
+  'limited',
+  'gmbh',
+  'sa',
+  'ag',
+  'plc',
+  'group',
+]);
+
+/**
+ * Blocking keys for one record, as "<type>:<value>"
+ *
+ * @example
+ * getBlockingKeys({ id: '1', properties: { email: 'J.Smith+news@acme.com' } }, options)
+ * // ['email_local_part:jsmith']
+ */
+export function getBlockingKeys(record: BlockingRecord, options: BlockingOptions): string[] {
+  const keys = new Set<string>();
+  const props = record.properties;
+
+  for (const type of options.keys) {
+    switch (type) {
+      case 'email_local_part': {
+        const local = (props.email ?? '').toLowerCase().split('@')[0];
+        const normalized = local.replace(/\+.*$/, '').replace(/[^a-z0-9]/g, '');
+        if (normalized && props.email?.includes('@')) keys.add(`${type}:${normalized}`);
+        break;
+      }
+
+      case 'phone_suffix': {
+        for (const phone of [props.phone, props.mobilephone]) {
+          const digits = normalizePhone(phone, options.countryCode).replace(/\D/g, '');
+          if (digits.length >= options.phoneSuffixLength) {
+            keys.add(`${type}:${digits.slice(-options.phoneSuffixLength)}`);
+          }
+        }
+        break;
+      }
+
+      case 'last_name_phonetic': {
+        const code = soundex(props.lastname);
+        if (code) keys.add(`${type}:${code}`);
+        break;
+      }
+
+      case 'company_token': {
+        const token = (props.company ?? '')
+          .toLowerCase()
+          .split(/[^a-z0-9]+/)
+          .find((word) => word.length > 1 && !COMPANY_STOP_WORDS.has(word));
+        if (token) keys.add(`${type}:${token}`);
+        break;
+      }
+
+      case 'domain': {
+        const domain = normalizeDomain(props.domain);
+        if (domain) keys.add(`${type}:${domain}`);
+        break;
+      }
+    }
+  }
+
+  return [...keys].sort();
+}
+
+/**
+ * Visit every pair of records that share a block, each pair exactly once
+ *
+ * A pair sharing several blocks is visited only from the first block key
+ * the two records have in common, so no set of seen pairs is kept in memory.
+ * Pairs are visited in input order (the first record came first in `records`).
+ *
+ * @returns Block statistics for logging and reporting
+ */
+export function forEachCandidatePair<T extends BlockingRecord>(
+  records: T[],
+  options: BlockingOptions,
+  visit: (record1: T, record2: T) => void
+): BlockingStats {
+  const blocks = new Map<string, number[]>();
+  const recordKeys: string[][] = [];
+
+  records.forEach((record, index) => {
+    const keys = getBlockingKeys(record, options);
+    recordKeys.push(keys);
+    for (const key of keys) {
+      const block = blocks.get(key);
+      if (block) {
+        block.push(index);
+      } else {
+        blocks.set(key, [index]);
+      }
+    }
+  });
+
+  const stats: BlockingStats = {
+    records: records.length,
+    blocks: 0,
+    oversized_blocks: 0,
+    by_key: {},
+    candidate_pairs: 0,
+    naive_pairs: (records.length * (records.length - 1)) / 2,
+    reduction_ratio: 0,
+  };
+
+  // Oversized blocks are skipped, so they cannot be the first shared block
+  const isUsable = (key: string): boolean => (blocks.get(key)?.length ?? 0) <= options.maxBlockSize;
+
+  for (const [key, members] of blocks) {
+    if (members.length < 2) continue;
+
+    const type = key.slice(0, key.indexOf(':')) as BlockingKeyType;
+    const keyStats = (stats.by_key[type] ??= { blocks: 0, largest_block: 0, oversized_blocks: 0 });
+    keyStats.blocks++;
+    keyStats.largest_block = Math.max(keyStats.largest_block, members.length);
+    stats.blocks++;
+
+    if (!isUsable(key)) {
+      keyStats.oversized_blocks++;
+      stats.oversized_blocks++;
+      continue;
+    }
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const shared = recordKeys[members[i]].find(
+          (k) => isUsable(k) && recordKeys[members[j]].includes(k)
+        );
+        if (shared !== key) continue;
+
+        stats.candidate_pairs++;
+        visit(records[members[i]], records[members[j]]);
+      }
+    }
+  }
+
+  stats.reduction_ratio = stats.naive_pairs > 0 ? 1 - stats.candidate_pairs / stats.naive_pairs : 0;
+  return stats;
+}
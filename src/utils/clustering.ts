@@ -0,0 +1,70 @@
+/**
+ * Transitive clustering of matched record pairs
+ *
+ * When A matches B and B matches C, all three are one entity. Union-find
+ * (with path compression and union by size) groups linked IDs in
+ * near-linear time, so clustering stays cheap on large portals.
+ */
+
+/**
+ * Group IDs that are linked directly or through other IDs
+ *
+ * @param links Pairs of IDs that refer to the same entity
+ * @returns Clusters of two or more IDs, in order of first appearance
+ *
+ * @example
+ * clusterLinks([['a', 'b'], ['b', 'c'], ['x', 'y']]) // [['a', 'b', 'c'], ['x', 'y']]
+ */
+export function clusterLinks(links: Array<[string, string]>): string[][] {
+  const parent = new Map<string, string>();
+  const size = new Map<string, number>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+
+    // Path compression: point every visited ID straight at the root
+    let current = id;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+
+    return root;
+  };
+
+  for (const [id1, id2] of links) {
+    for (const id of [id1, id2]) {
+      if (!parent.has(id)) {
+        parent.set(id, id);
+        size.set(id, 1);
+      }
+    }
+
+    const root1 = find(id1);
+    const root2 = find(id2);
+    if (root1 === root2) continue;
+
+    // Union by size keeps the trees shallow
+    const [larger, smaller] =
+      size.get(root1)! >= size.get(root2)! ? [root1, root2] : [root2, root1];
+    parent.set(smaller, larger);
+    size.set(larger, size.get(larger)! + size.get(smaller)!);
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(id);
+    } else {
+      clusters.set(root, [id]);
+    }
+  }
+
+  return [...clusters.values()];
+}
@@ -0,0 +1,724 @@
+/**
+ * Country reference data
+ *
+ * Provides:
+ * - ISO 3166-1 countries and ISO 3166-2 subdivisions (US, CA, AU)
+ * - Matching of free-text country and state values against codes, names and aliases
+ * - Postal code formats per country
+ * - Major cities per subdivision, for spotting contradicting city/state pairs
+ * - Countries where GDPR (or the UK GDPR) applies
+ */
+
+/**
+ * ISO 3166-1 countries: alpha-2 code -> [alpha-3 code, short name]
+ */
+export const ISO_COUNTRIES: Readonly<Record<string, readonly [string, string]>> = {
+  AD: ['AND', 'Andorra'],
+  AE: ['ARE', 'United Arab Emirates'],
+  AF: ['AFG', 'Afghanistan'],
+  AG: ['ATG', 'Antigua and Barbuda'],
+  AI: ['AIA', 'Anguilla'],
+  AL: ['ALB', 'Albania'],
+  AM: ['ARM', 'Armenia'],
+  AO: ['AGO', 'Angola'],
+  AQ: ['ATA', 'Antarctica'],
+  AR: ['ARG', 'Argentina'],
+  AS: ['ASM', 'American Samoa'],
+  AT: ['AUT', 'Austria'],
+  AU: ['AUS', 'Australia'],
+  AW: ['ABW', 'Aruba'],
+  AX: ['ALA', 'Åland Islands'],
+  AZ: ['AZE', 'Azerbaijan'],
+  BA: ['BIH', 'Bosnia and Herzegovina'],
+  BB: ['BRB', 'Barbados'],
+  BD: ['BGD', 'Bangladesh'],
+  BE: ['BEL', 'Belgium'],
+  BF: ['BFA', 'Burkina Faso'],
+  BG: ['BGR', 'Bulgaria'],
+  BH: ['BHR', 'Bahrain'],
+  BI: ['BDI', 'Burundi'],
+  BJ: ['BEN', 'Benin'],
+  BL: ['BLM', 'Saint Barthélemy'],
+  BM: ['BMU', 'Bermuda'],
+  BN: ['BRN', 'Brunei'],
+  BO: ['BOL', 'Bolivia'],
+  BQ: ['BES', 'Caribbean Netherlands'],
+  BR: ['BRA', 'Brazil'],
+  BS: ['BHS', 'Bahamas'],
+  BT: ['BTN', 'Bhutan'],
+  BV: ['BVT', 'Bouvet Island'],
+  BW: ['BWA', 'Botswana'],
+  BY: ['BLR', 'Belarus'],
+  BZ: ['BLZ', 'Belize'],
+  CA: ['CAN', 'Canada'],
+  CC: ['CCK', 'Cocos (Keeling) Islands'],
+  CD: ['COD', 'Democratic Republic of the Congo'],
+  CF: ['CAF', 'Central African Republic'],
+  CG: ['COG', 'Republic of the Congo'],
+  CH: ['CHE', 'Switzerland'],
+  CI: ['CIV', "Côte d'Ivoire"],
+  CK: ['COK', 'Cook Islands'],
+  CL: ['CHL', 'Chile'],
+  CM: ['CMR', 'Cameroon'],
+  CN: ['CHN', 'China'],
+  CO: ['COL', 'Colombia'],
+  CR: ['CRI', 'Costa Rica'],
+  CU: ['CUB', 'Cuba'],
+  CV: ['CPV', 'Cabo Verde'],
+  CW: ['CUW', 'Curaçao'],
+  CX: ['CXR', 'Christmas Island'],
+  CY: ['CYP', 'Cyprus'],
+  CZ: ['CZE', 'Czechia'],
+  DE: ['DEU', 'Germany'],
+  DJ: ['DJI', 'Djibouti'],
+  DK: ['DNK', 'Denmark'],
+  DM: ['DMA', 'Dominica'],
+  DO: ['DOM', 'Dominican Republic'],
+  DZ: ['DZA', 'Algeria'],
+  EC: ['ECU', 'Ecuador'],
+  EE: ['EST', 'Estonia'],
+  EG: ['EGY', 'Egypt'],
+  EH: ['ESH', 'Western Sahara'],
+  ER: ['ERI', 'Eritrea'],
+  ES: ['ESP', 'Spain'],
+  ET: ['ETH', 'Ethiopia'],
+  FI: ['FIN', 'Finland'],
+  FJ: ['FJI', 'Fiji'],
+  FK: ['FLK', 'Falkland Islands'],
+  FM: ['FSM', 'Micronesia'],
+  FO: ['FRO', 'Faroe Islands'],
+  FR: ['FRA', 'France'],
+  GA: ['GAB', 'Gabon'],
+  GB: ['GBR', 'United Kingdom'],
+  GD: ['GRD', 'Grenada'],
+  GE: ['GEO', 'Georgia'],
+  GF: ['GUF', 'French Guiana'],
+  GG: ['GGY', 'Guernsey'],
+  GH: ['GHA', 'Ghana'],
+  GI: ['GIB', 'Gibraltar'],
+  GL: ['GRL', 'Greenland'],
+  GM: ['GMB', 'Gambia'],
+  GN: ['GIN', 'Guinea'],
+  GP: ['GLP', 'Guadeloupe'],
+  GQ: ['GNQ', 'Equatorial Guinea'],
+  GR: ['GRC', 'Greece'],
+  GS: ['SGS', 'South Georgia and the South Sandwich Islands'],
+  GT: ['GTM', 'Guatemala'],
+  GU: ['GUM', 'Guam'],
+  GW: ['GNB', 'Guinea-Bissau'],
+  GY: ['GUY', 'Guyana'],
+  HK: ['HKG', 'Hong Kong'],
+  HM: ['HMD', 'Heard Island and McDonald Islands'],
+  HN: ['HND', 'Honduras'],
+  HR: ['HRV', 'Croatia'],
+  HT: ['HTI', 'Haiti'],
+  HU: ['HUN', 'Hungary'],
+  ID: ['IDN', 'Indonesia'],
+  IE: ['IRL', 'Ireland'],
+  IL: ['ISR', 'Israel'],
+  IM: ['IMN', 'Isle of Man'],
+  IN: ['IND', 'India'],
+  IO: ['IOT', 'British Indian Ocean Territory'],
+  IQ: ['IRQ', 'Iraq'],
+  IR: ['IRN', 'Iran'],
+  IS: ['ISL', 'Iceland'],
+  IT: ['ITA', 'Italy'],
+  JE: ['JEY', 'Jersey'],
+  JM: ['JAM', 'Jamaica'],
+  JO: ['JOR', 'Jordan'],
+  JP: ['JPN', 'Japan'],
+  KE: ['KEN', 'Kenya'],
+  KG: ['KGZ', 'Kyrgyzstan'],
+  KH: ['KHM', 'Cambodia'],
+  KI: ['KIR', 'Kiribati'],
+  KM: ['COM', 'Comoros'],
+  KN: ['KNA', 'Saint Kitts and Nevis'],
+  KP: ['PRK', 'North Korea'],
+  KR: ['KOR', 'South Korea'],
+  KW: ['KWT', 'Kuwait'],
+  KY: ['CYM', 'Cayman Islands'],
+  KZ: ['KAZ', 'Kazakhstan'],
+  LA: ['LAO', 'Laos'],
+  LB: ['LBN', 'Lebanon'],
+  LC: ['LCA', 'Saint Lucia'],
+  LI: ['LIE', 'Liechtenstein'],
+  LK: ['LKA', 'Sri Lanka'],
+  LR: ['LBR', 'Liberia'],
+  LS: ['LSO', 'Lesotho'],
+  LT: ['LTU', 'Lithuania'],
+  LU: ['LUX', 'Luxembourg'],
+  LV: ['LVA', 'Latvia'],
+  LY: ['LBY', 'Libya'],
+  MA: ['MAR', 'Morocco'],
+  MC: ['MCO', 'Monaco'],
+  MD: ['MDA', 'Moldova'],
+  ME: ['MNE', 'Montenegro'],
+  MF: ['MAF', 'Saint Martin'],
+  MG: ['MDG', 'Madagascar'],
+  MH: ['MHL', 'Marshall Islands'],
+  MK: ['MKD', 'North Macedonia'],
+  ML: ['MLI', 'Mali'],
+  MM: ['MMR', 'Myanmar'],
+  MN: ['MNG', 'Mongolia'],
+  MO: ['MAC', 'Macao'],
+  MP: ['MNP', 'Northern Mariana Islands'],
+  MQ: ['MTQ', 'Martinique'],
+  MR: ['MRT', 'Mauritania'],
+  MS: ['MSR', 'Montserrat'],
+  MT: ['MLT', 'Malta'],
+  MU: ['MUS', 'Mauritius'],
+  MV: ['MDV', 'Maldives'],
+  MW: ['MWI', 'Malawi'],
+  MX: ['MEX', 'Mexico'],
+  MY: ['MYS', 'Malaysia'],
+  MZ: ['MOZ', 'Mozambique'],
+  NA: ['NAM', 'Namibia'],
+  NC: ['NCL', 'New Caledonia'],
+  NE: ['NER', 'Niger'],
+  NF: ['NFK', 'Norfolk Island'],
+  NG: ['NGA', 'Nigeria'],
+  NI: ['NIC', 'Nicaragua'],
+  NL: ['NLD', 'Netherlands'],
+  NO: ['NOR', 'Norway'],
+  NP: ['NPL', 'Nepal'],
+  NR: ['NRU', 'Nauru'],
+  NU: ['NIU', 'Niue'],
+  NZ: ['NZL', 'New Zealand'],
+  OM: ['OMN', 'Oman'],
+  PA: ['PAN', 'Panama'],
+  PE: ['PER', 'Peru'],
+  PF: ['PYF', 'French Polynesia'],
+  PG: ['PNG', 'Papua New Guinea'],
+  PH: ['PHL', 'Philippines'],
+  PK: ['PAK', 'Pakistan'],
+  PL: ['POL', 'Poland'],
+  PM: ['SPM', 'Saint Pierre and Miquelon'],
+  PN: ['PCN', 'Pitcairn Islands'],
+  PR: ['PRI', 'Puerto Rico'],
+  PS: ['PSE', 'Palestine'],
+  PT: ['PRT', 'Portugal'],
+  PW: ['PLW', 'Palau'],
+  PY: ['PRY', 'Paraguay'],
+  QA: ['QAT', 'Qatar'],
+  RE: ['REU', 'Réunion'],
+  RO: ['ROU', 'Romania'],
+  RS: ['SRB', 'Serbia'],
+  RU: ['RUS', 'Russia'],
+  RW: ['RWA', 'Rwanda'],
+  SA: ['SAU', 'Saudi Arabia'],
+  SB: ['SLB', 'Solomon Islands'],
+  SC: ['SYC', 'Seychelles'],
+  SD: ['SDN', 'Sudan'],
+  SE: ['SWE', 'Sweden'],
+  SG: ['SGP', 'Singapore'],
+  SH: ['SHN', 'Saint Helena'],
+  SI: ['SVN', 'Slovenia'],
+  SJ: ['SJM', 'Svalbard and Jan Mayen'],
+  SK: ['SVK', 'Slovakia'],
+  SL: ['SLE', 'Sierra Leone'],
+  SM: ['SMR', 'San Marino'],
+  SN: ['SEN', 'Senegal'],
+  SO: ['SOM', 'Somalia'],
+  SR: ['SUR', 'Suriname'],
+  SS: ['SSD', 'South Sudan'],
+  ST: ['STP', 'Sao Tome and Principe'],
+  SV: ['SLV', 'El Salvador'],
+  SX: ['SXM', 'Sint Maarten'],
+  SY: ['SYR', 'Syria'],
+  SZ: ['SWZ', 'Eswatini'],
+  TC: ['TCA', 'Turks and Caicos Islands'],
+  TD: ['TCD', 'Chad'],
+  TF: ['ATF', 'French Southern Territories'],
+  TG: ['TGO', 'Togo'],
+  TH: ['THA', 'Thailand'],
+  TJ: ['TJK', 'Tajikistan'],
+  TK: ['TKL', 'Tokelau'],
+  TL: ['TLS', 'Timor-Leste'],
+  TM: ['TKM', 'Turkmenistan'],
+  TN: ['TUN', 'Tunisia'],
+  TO: ['TON', 'Tonga'],
+  TR: ['TUR', 'Turkey'],
+  TT: ['TTO', 'Trinidad and Tobago'],
+  TV: ['TUV', 'Tuvalu'],
+  TW: ['TWN', 'Taiwan'],
+  TZ: ['TZA', 'Tanzania'],
+  UA: ['UKR', 'Ukraine'],
+  UG: ['UGA', 'Uganda'],
+  UM: ['UMI', 'United States Minor Outlying Islands'],
+  US: ['USA', 'United States'],
+  UY: ['URY', 'Uruguay'],
+  UZ: ['UZB', 'Uzbekistan'],
+  VA: ['VAT', 'Vatican City'],
+  VC: ['VCT', 'Saint Vincent and the Grenadines'],
+  VE: ['VEN', 'Venezuela'],
+  VG: ['VGB', 'British Virgin Islands'],
+  VI: ['VIR', 'U.S. Virgin Islands'],
+  VN: ['VNM', 'Vietnam'],
+  VU: ['VUT', 'Vanuatu'],
+  WF: ['WLF', 'Wallis and Futuna'],
+  WS: ['WSM', 'Samoa'],
+  YE: ['YEM', 'Yemen'],
+  YT: ['MYT', 'Mayotte'],
+  ZA: ['ZAF', 'South Africa'],
+  ZM: ['ZMB', 'Zambia'],
+  ZW: ['ZWE', 'Zimbabwe'],
+};
+
+// Common alternative spellings seen in CRM country fields (normalized key -> alpha-2)
+const COUNTRY_ALIASES: Readonly<Record<string, string>> = {
+  america: 'US',
+  'united states of america': 'US',
+  'united kingdom of great britain and northern ireland': 'GB',
+  uk: 'GB',
+  britain: 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  nederland: 'NL',
+  deutschland: 'DE',
+  espana: 'ES',
+  italia: 'IT',
+  brasil: 'BR',
+  schweiz: 'CH',
+  suisse: 'CH',
+  osterreich: 'AT',
+  belgique: 'BE',
+  danmark: 'DK',
+  sverige: 'SE',
+  norge: 'NO',
+  polska: 'PL',
+  'czech republic': 'CZ',
+  korea: 'KR',
+  'republic of korea': 'KR',
+  'russian federation': 'RU',
+  'ivory coast': 'CI',
+  uae: 'AE',
+  turkiye: 'TR',
+  'viet nam': 'VN',
+  macau: 'MO',
+  burma: 'MM',
+  swaziland: 'SZ',
+  'cape verde': 'CV',
+  macedonia: 'MK',
+  'the bahamas': 'BS',
+  'the gambia': 'GM',
+  'holy see': 'VA',
+  prc: 'CN',
+  'people s republic of china': 'CN',
+  drc: 'CD',
+  'dr congo': 'CD',
+  congo: 'CG',
+  'east timor': 'TL',
+  'hong kong sar': 'HK',
+};
+
+/**
+ * ISO 3166-2 subdivisions by country: subdivision code (without the
+ * country prefix) -> name
+ */
+export const SUBDIVISIONS: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  US: {
+    AL: 'Alabama',
+    AK: 'Alaska',
+    AZ: 'Arizona',
+    AR: 'Arkansas',
+    CA: 'California',
+    CO: 'Colorado',
+    CT: 'Connecticut',
+    DE: 'Delaware',
+    DC: 'District of Columbia',
+    FL: 'Florida',
+    GA: 'Georgia',
+    HI: 'Hawaii',
+    ID: 'Idaho',
+    IL: 'Illinois',
+    IN: 'Indiana',
+    IA: 'Iowa',
+    KS: 'Kansas',
+    KY: 'Kentucky',
+    LA: 'Louisiana',
+    ME: 'Maine',
+    MD: 'Maryland',
+    MA: 'Massachusetts',
+    MI: 'Michigan',
+    MN: 'Minnesota',
+    MS: 'Mississippi',
+    MO: 'Missouri',
+    MT: 'Montana',
+    NE: 'Nebraska',
+    NV: 'Nevada',
+    NH: 'New Hampshire',
+    NJ: 'New Jersey',
+    NM: 'New Mexico',
+    NY: 'New York',
+    NC: 'North Carolina',
+    ND: 'North Dakota',
+    OH: 'Ohio',
+    OK: 'Oklahoma',
+    OR: 'Oregon',
+    PA: 'Pennsylvania',
+    PR: 'Puerto Rico',
+    RI: 'Rhode Island',
+    SC: 'South Carolina',
+    SD: 'South Dakota',
+    TN: 'Tennessee',
+    TX: 'Texas',
+    UT: 'Utah',
+    VT: 'Vermont',
+    VA: 'Virginia',
+    WA: 'Washington',
+    WV: 'West Virginia',
+    WI: 'Wisconsin',
+    WY: 'Wyoming',
+  },
+  CA: {
+    AB: 'Alberta',
+    BC: 'British Columbia',
+    MB: 'Manitoba',
+    NB: 'New Brunswick',
+    NL: 'Newfoundland and Labrador',
+    NS: 'Nova Scotia',
+    NT: 'Northwest Territories',
+    NU: 'Nunavut',
+    ON: 'Ontario',
+    PE: 'Prince Edward Island',
+    QC: 'Quebec',
+    SK: 'Saskatchewan',
+    YT: 'Yukon',
+  },
+  AU: {
+    ACT: 'Australian Capital Territory',
+    NSW: 'New South Wales',
+    NT: 'Northern Territory',
+    QLD: 'Queensland',
+    SA: 'South Australia',
+    TAS: 'Tasmania',
+    VIC: 'Victoria',
+    WA: 'Western Australia',
+  },
+};
+
+// Traditional abbreviations and alternative names (normalized key -> subdivision code)
+const SUBDIVISION_ALIASES: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  US: {
+    ala: 'AL',
+    ariz: 'AZ',
+    ark: 'AR',
+    cal: 'CA',
+    calif: 'CA',
+    colo: 'CO',
+    conn: 'CT',
+    del: 'DE',
+    'washington dc': 'DC',
+    'washington d c': 'DC',
+    fla: 'FL',
+    ill: 'IL',
+    ind: 'IN',
+    kan: 'KS',
+    kans: 'KS',
+    mass: 'MA',
+    mich: 'MI',
+    minn: 'MN',
+    miss: 'MS',
+    mont: 'MT',
+    neb: 'NE',
+    nebr: 'NE',
+    nev: 'NV',
+    okla: 'OK',
+    ore: 'OR',
+    penn: 'PA',
+    penna: 'PA',
+    tenn: 'TN',
+    tex: 'TX',
+    wash: 'WA',
+    wva: 'WV',
+    'w va': 'WV',
+    wis: 'WI',
+    wisc: 'WI',
+    wyo: 'WY',
+  },
+  CA: {
+    newfoundland: 'NL',
+    nfld: 'NL',
+    pei: 'PE',
+    que: 'QC',
+    pq: 'QC',
+    'yukon territory': 'YT',
+  },
+  AU: {
+    tas: 'TAS',
+  },
+};
+
+/**
+ * Postal code normalizer: takes the value upper-cased with spaces and dashes
+ * removed; returns the canonical form, or null if the value is invalid
+ */
+type PostalCodeFormat = (compact: string) => string | null;
+
+const postalPattern =
+  (pattern: RegExp, replacement = '$&'): PostalCodeFormat =>
+  (compact) =>
+    pattern.test(compact) ? compact.replace(pattern, replacement) : null;
+
+/**
+ * Postal code formats for countries with a fixed format
+ */
+export const POSTAL_CODE_FORMATS: Readonly<Record<string, PostalCodeFormat>> = {
+  // Spreadsheets drop the leading zero of New England and New Jersey ZIP codes
+  US: (compact) => {
+    if (/^\d{4}$/.test(compact)) return `0${compact}`;
+    const zip = /^(\d{5})(\d{4})?$/.exec(compact);
+    if (!zip) return null;
+    return zip[2] ? `${zip[1]}-${zip[2]}` : zip[1];
+  },
+  CA: postalPattern(/^([A-Z]\d[A-Z])(\d[A-Z]\d)$/, '$1 $2'),
+  GB: postalPattern(/^([A-Z]{1,2}\d[A-Z\d]?)(\d[A-Z]{2})$/, '$1 $2'),
+  IE: postalPattern(/^([A-Z]\d[\dW])([A-Z\d]{4})$/, '$1 $2'),
+  NL: postalPattern(/^(\d{4})([A-Z]{2})$/, '$1 $2'),
+  SE: postalPattern(/^(\d{3})(\d{2})$/, '$1 $2'),
+  PL: postalPattern(/^(\d{2})(\d{3})$/, '$1-$2'),
+  PT: postalPattern(/^(\d{4})(\d{3})$/, '$1-$2'),
+  JP: postalPattern(/^(\d{3})(\d{4})$/, '$1-$2'),
+  BR: postalPattern(/^(\d{5})(\d{3})$/, '$1-$2'),
+  DE: postalPattern(/^\d{5}$/),
+  ES: postalPattern(/^\d{5}$/),
+  FI: postalPattern(/^\d{5}$/),
+  FR: postalPattern(/^\d{5}$/),
+  IT: postalPattern(/^\d{5}$/),
+  MX: postalPattern(/^\d{5}$/),
+  AT: postalPattern(/^\d{4}$/),
+  AU: postalPattern(/^\d{4}$/),
+  BE: postalPattern(/^\d{4}$/),
+  CH: postalPattern(/^\d{4}$/),
+  DK: postalPattern(/^\d{4}$/),
+  NO: postalPattern(/^\d{4}$/),
+  NZ: postalPattern(/^\d{4}$/),
+  CN: postalPattern(/^\d{6}$/),
+  IN: postalPattern(/^\d{6}$/),
+  SG: postalPattern(/^\d{6}$/),
+};
+
+/**
+ * Major cities by country (normalized key -> subdivision code)
+ *
+ * Only names that are unambiguous within their country are listed, so a
+ * different state on the record is a real contradiction.
+ */
+export const MAJOR_CITIES: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  US: {
+    albuquerque: 'NM',
+    anchorage: 'AK',
+    atlanta: 'GA',
+    austin: 'TX',
+    baltimore: 'MD',
+    boise: 'ID',
+    boston: 'MA',
+    brooklyn: 'NY',
+    charlotte: 'NC',
+    chicago: 'IL',
+    cincinnati: 'OH',
+    dallas: 'TX',
+    denver: 'CO',
+    'des moines': 'IA',
+    detroit: 'MI',
+    'fort worth': 'TX',
+    fresno: 'CA',
+    honolulu: 'HI',
+    houston: 'TX',
+    indianapolis: 'IN',
+    jacksonville: 'FL',
+    'las vegas': 'NV',
+    'los angeles': 'CA',
+    louisville: 'KY',
+    memphis: 'TN',
+    miami: 'FL',
+    milwaukee: 'WI',
+    minneapolis: 'MN',
+    'mountain view': 'CA',
+    nashville: 'TN',
+    'new orleans': 'LA',
+    'new york': 'NY',
+    'new york city': 'NY',
+    'oklahoma city': 'OK',
+    omaha: 'NE',
+    'palo alto': 'CA',
+    philadelphia: 'PA',
+    phoenix: 'AZ',
+    pittsburgh: 'PA',
+    raleigh: 'NC',
+    redmond: 'WA',
+    sacramento: 'CA',
+    'salt lake city': 'UT',
+    'san antonio': 'TX',
+    'san diego': 'CA',
+    'san francisco': 'CA',
+    'san jose': 'CA',
+    seattle: 'WA',
+    'st louis': 'MO',
+    tucson: 'AZ',
+    tulsa: 'OK',
+  },
+  CA: {
+    calgary: 'AB',
+    edmonton: 'AB',
+    halifax: 'NS',
+    montreal: 'QC',
+    ottawa: 'ON',
+    'quebec city': 'QC',
+    regina: 'SK',
+    saskatoon: 'SK',
+    toronto: 'ON',
+    vancouver: 'BC',
+    victoria: 'BC',
+    winnipeg: 'MB',
+  },
+  AU: {
+    adelaide: 'SA',
+    brisbane: 'QLD',
+    canberra: 'ACT',
+    darwin: 'NT',
+    'gold coast': 'QLD',
+    hobart: 'TAS',
+    melbourne: 'VIC',
+    perth: 'WA',
+    sydney: 'NSW',
+  },
+};
+
+/**
+ * EEA member states plus the United Kingdom, by ISO 3166-1 alpha-2 code
+ */
+export const GDPR_COUNTRIES: Readonly<Record<string, string>> = {
+  AT: 'Austria',
+  BE: 'Belgium',
+  BG: 'Bulgaria',
+  HR: 'Croatia',
+  CY: 'Cyprus',
+  CZ: 'Czechia',
+  DK: 'Denmark',
+  EE: 'Estonia',
+  FI: 'Finland',
+  FR: 'France',
+  DE: 'Germany',
+  GR: 'Greece',
+  HU: 'Hungary',
+  IE: 'Ireland',
+  IT: 'Italy',
+  LV: 'Latvia',
+  LT: 'Lithuania',
+  LU: 'Luxembourg',
+  MT: 'Malta',
+  NL: 'Netherlands',
+  PL: 'Poland',
+  PT: 'Portugal',
+  RO: 'Romania',
+  SK: 'Slovakia',
+  SI: 'Slovenia',
+  ES: 'Spain',
+  SE: 'Sweden',
+  IS: 'Iceland',
+  LI: 'Liechtenstein',
+  NO: 'Norway',
+  GB: 'United Kingdom',
+};
+
+/**
+ * Normalize a free-text place name for lookups
+ *
+ * Lower-cases, strips accents and periods, and collapses other punctuation
+ * to single spaces ("U.S.A." -> "usa", "Côte d'Ivoire" -> "cote d ivoire").
+ */
+export function placeKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Lookup of every country code, name and alias by normalized key
+const COUNTRY_LOOKUP: ReadonlyMap<string, string> = new Map([
+  ...Object.entries(ISO_COUNTRIES).flatMap(
+    ([code, [alpha3, name]]): Array<[string, string]> => [
+      [code.toLowerCase(), code],
+      [alpha3.toLowerCase(), code],
+      [placeKey(name), code],
+    ]
+  ),
+  ...Object.entries(COUNTRY_ALIASES),
+]);
+
+/**
+ * Resolve a free-text country value to its ISO 3166-1 alpha-2 code
+ *
+ * @example
+ * resolveCountryCode('U.S.A.') // 'US'
+ * resolveCountryCode('Deutschland') // 'DE'
+ * resolveCountryCode('Atlantis') // undefined
+ */
+export function resolveCountryCode(country: string | null | undefined): string | undefined {
+  if (!country) return undefined;
+  return COUNTRY_LOOKUP.get(placeKey(country));
+}
+
+/**
+ * Resolve a free-text state or province to its ISO 3166-2 subdivision code
+ *
+ * @param state State value as entered on the record
+ * @param countryCode Alpha-2 code of the record's country
+ * @returns Subdivision code without the country prefix, or undefined if the
+ *   country has no bundled subdivisions or the value does not match
+ *
+ * @example
+ * resolveSubdivisionCode('Calif.', 'US') // 'CA'
+ * resolveSubdivisionCode('Québec', 'CA') // 'QC'
+ */
+export function resolveSubdivisionCode(
+  state: string | null | undefined,
+  countryCode: string
+): string | undefined {
+  const subdivisions = SUBDIVISIONS[countryCode];
+  if (!state || !subdivisions) return undefined;
+
+  const key = placeKey(state).replace(new RegExp(`^${countryCode.toLowerCase()} `), '');
+  const match = Object.entries(subdivisions).find(
+    ([code, name]) => key === code.toLowerCase() || key === placeKey(name)
+  );
+
+  return match?.[0] ?? SUBDIVISION_ALIASES[countryCode]?.[key];
+}
+
+/**
+ * Check whether a country value refers to a GDPR country
+ *
+ * @param country Country name or ISO code as entered on the record
+ * @param additional Extra country names or codes to treat as GDPR countries
+ * @returns True if the value matches a GDPR country
+ *
+ * @example
+ * isGdprCountry('DE') // true
+ * isGdprCountry('The Netherlands') // true
+ * isGdprCountry('United States') // false
+ */
+export function isGdprCountry(
+  country: string | null | undefined,
+  additional: readonly string[] = []
+): boolean {
+  if (!country?.trim()) return false;
+
+  const code = resolveCountryCode(country);
+  if (code && code in GDPR_COUNTRIES) return true;
+
+  return additional.some(
+    (extra) =>
+      placeKey(extra) === placeKey(country) || (!!code && resolveCountryCode(extra) === code)
+  );
+}
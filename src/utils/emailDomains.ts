@@ -0,0 +1,165 @@
+/**
+ * Email domain reference data for deliverability checks
+ *
+ * Provides:
+ * - A bundled list of disposable (throwaway) email domains
+ * - Common role-account local parts
+ * - Corrections for frequently mistyped email domains
+ *
+ * The disposable list can be extended locally through
+ * email_deliverability.disposable_domains_file without a code change.
+ */
+
+/**
+ * Disposable email providers (bundled list)
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: readonly string[] = [
+  '10minutemail.com',
+  '20minutemail.com',
+  '33mail.com',
+  'anonaddy.me',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'harakirimail.com',
+  'inboxkitten.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailinator.net',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spam4.me',
+  'spamgourmet.com',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempmail.com',
+  'tempmail.dev',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+];
+
+/**
+ * Local parts that address a function rather than a person
+ */
+export const ROLE_ACCOUNT_PREFIXES: readonly string[] = [
+  'abuse',
+  'accounts',
+  'admin',
+  'billing',
+  'careers',
+  'contact',
+  'enquiries',
+  'hello',
+  'help',
+  'hr',
+  'info',
+  'inquiries',
+  'jobs',
+  'marketing',
+  'media',
+  'no-reply',
+  'noreply',
+  'office',
+  'postmaster',
+  'press',
+  'privacy',
+  'sales',
+  'service',
+  'support',
+  'team',
+  'webmaster',
+];
+
+/**
+ * Frequently mistyped domains of large email providers
+ */
+const DOMAIN_TYPOS: Readonly<Record<string, string>> = {
+  'gmial.com': 'gmail.com',
+  'gmal.com': 'gmail.com',
+  'gmai.com': 'gmail.com',
+  'gamil.com': 'gmail.com',
+  'gnail.com': 'gmail.com',
+  'gmaill.com': 'gmail.com',
+  'gmail.co': 'gmail.com',
+  'hotmial.com': 'hotmail.com',
+  'hotmal.com': 'hotmail.com',
+  'hotmai.com': 'hotmail.com',
+  'hotamil.com': 'hotmail.com',
+  'hotmail.co': 'hotmail.com',
+  'yaho.com': 'yahoo.com',
+  'yahooo.com': 'yahoo.com',
+  'yhaoo.com': 'yahoo.com',
+  'outlok.com': 'outlook.com',
+  'outloo.com': 'outlook.com',
+  'outlook.co': 'outlook.com',
+  'iclod.com': 'icloud.com',
+  'icoud.com': 'icloud.com',
+};
+
+// Top-level domains that are almost always a slip on ".com"
+const TLD_TYPOS: Readonly<Record<string, string>> = {
+  con: 'com',
+  cmo: 'com',
+  ocm: 'com',
+  vom: 'com',
+  xom: 'com',
+};
+
+/**
+ * Suggest a correction for a mistyped email domain
+ *
+ * @param domain Email domain (lowercase)
+ * @returns Corrected domain, or null when the domain looks intentional
+ *
+ * @example
+ * suggestDomainCorrection('gmial.com') // 'gmail.com'
+ * suggestDomainCorrection('acme.con') // 'acme.com'
+ * suggestDomainCorrection('acme.com') // null
+ */
+export function suggestDomainCorrection(domain: string): string | null {
+  const known = DOMAIN_TYPOS[domain];
+  if (known) return known;
+
+  const dot = domain.lastIndexOf('.');
+  const tld = TLD_TYPOS[domain.slice(dot + 1)];
+  if (dot > 0 && tld) {
+    const corrected = `${domain.slice(0, dot)}.${tld}`;
+    return DOMAIN_TYPOS[corrected] ?? corrected;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a locally maintained domain list (one domain per line, # comments)
+ *
+ * @param contents File contents
+ * @returns Lowercase domains
+ */
+export function parseDomainList(contents: string): string[] {
+  return contents
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim().toLowerCase())
+    .filter((line) => line.length > 0);
+}
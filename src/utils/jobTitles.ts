@@ -0,0 +1,172 @@
+/**
+ * Job title reference data and rules
+ *
+ * Provides:
+ * - Tokenizing titles with common abbreviations expanded ("VP" -> "vice president")
+ * - Consistent casing for free-text titles ("vp of sales" -> "VP of Sales")
+ * - Rule tables mapping a title to a seniority level and a department
+ */
+
+/**
+ * Seniority levels, most senior first
+ */
+export const SENIORITY_LEVELS = [
+  'owner',
+  'c_level',
+  'vp',
+  'director',
+  'manager',
+  'senior',
+  'individual_contributor',
+  'entry',
+] as const;
+
+export type Seniority = (typeof SENIORITY_LEVELS)[number];
+
+/**
+ * Departments (job functions)
+ */
+export const DEPARTMENTS = [
+  'executive',
+  'sales',
+  'marketing',
+  'customer_success',
+  'engineering',
+  'product',
+  'finance',
+  'human_resources',
+  'information_technology',
+  'legal',
+  'operations',
+] as const;
+
+export type Department = (typeof DEPARTMENTS)[number];
+
+/**
+ * Common title abbreviations, expanded before matching
+ */
+export const TITLE_ABBREVIATIONS: Readonly<Record<string, string>> = {
+  ceo: 'chief executive officer',
+  cfo: 'chief financial officer',
+  cio: 'chief information officer',
+  cmo: 'chief marketing officer',
+  coo: 'chief operating officer',
+  cro: 'chief revenue officer',
+  cto: 'chief technology officer',
+  vp: 'vice president',
+  svp: 'senior vice president',
+  evp: 'executive vice president',
+  dir: 'director',
+  mgr: 'manager',
+  sr: 'senior',
+  jr: 'junior',
+};
+
+const TITLE_STOPWORDS = new Set(['of', 'and', 'the', 'for', 'at', 'to', 'in']);
+
+// Words kept upper case when formatting a title
+const TITLE_ACRONYMS = new Set([
+  ...Object.keys(TITLE_ABBREVIATIONS).filter((abbr) => !['dir', 'mgr', 'sr', 'jr'].includes(abbr)),
+  'bdr',
+  'hr',
+  'it',
+  'qa',
+  'sdr',
+  'seo',
+  'ui',
+  'ux',
+]);
+
+// Seniority rules, tried in order; the first rule with a matching word wins
+const SENIORITY_RULES: ReadonlyArray<[Seniority, readonly string[]]> = [
+  ['owner', ['founder', 'cofounder', 'owner']],
+  ['c_level', ['chief']],
+  ['vp', ['vice']],
+  ['owner', ['president']],
+  ['director', ['director', 'head']],
+  ['manager', ['manager', 'lead']],
+  ['senior', ['senior', 'principal', 'staff']],
+  ['entry', ['junior', 'intern', 'assistant', 'trainee', 'coordinator', 'associate']],
+];
+
+// Department rules, tried in order; functions come before the executive catch-all
+// so "EVP Sales" is sales and "CEO" is executive
+const DEPARTMENT_RULES: ReadonlyArray<[Department, readonly string[]]> = [
+  ['sales', ['sales', 'revenue', 'bdr', 'sdr', 'account']],
+  ['marketing', ['marketing', 'brand', 'growth', 'demand', 'content', 'seo', 'communications']],
+  ['customer_success', ['support', 'success', 'service', 'onboarding']],
+  [
+    'engineering',
+    ['engineer', 'engineering', 'developer', 'software', 'devops', 'technology', 'qa'],
+  ],
+  ['product', ['product', 'design', 'designer', 'ux', 'ui']],
+  ['finance', ['finance', 'financial', 'accounting', 'accountant', 'controller', 'treasurer']],
+  ['human_resources', ['hr', 'human', 'people', 'talent', 'recruiter', 'recruiting']],
+  ['information_technology', ['it', 'information', 'systems', 'security', 'network']],
+  ['legal', ['legal', 'counsel', 'compliance', 'attorney', 'lawyer']],
+  ['operations', ['operations', 'operating', 'ops', 'logistics', 'supply']],
+  ['executive', ['executive', 'founder', 'cofounder', 'owner', 'president']],
+];
+
+/**
+ * Split a title into lower-case words with abbreviations expanded
+ * and filler words ("of", "and") removed
+ *
+ * @example
+ * tokenizeTitle('VP of Sales') // ['vice', 'president', 'sales']
+ */
+export function tokenizeTitle(title: string): string[] {
+  return title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .flatMap((token) => (TITLE_ABBREVIATIONS[token] ?? token).split(' '))
+    .filter((token) => token && !TITLE_STOPWORDS.has(token));
+}
+
+/**
+ * Normalize spacing and casing of a title without changing its words
+ *
+ * Words typed in a single case are capitalized, known acronyms are upper
+ * cased and filler words are lower cased; mixed-case words ("DevOps") are
+ * kept as entered.
+ *
+ * @example
+ * formatTitle('vp of  sales') // 'VP of Sales'
+ * formatTitle('SENIOR DevOps ENGINEER') // 'Senior DevOps Engineer'
+ */
+export function formatTitle(title: string): string {
+  return title
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\s+,/g, ',')
+    .split(' ')
+    .map((word, index) =>
+      word.replace(/[A-Za-z0-9]+/g, (part) => {
+        const lower = part.toLowerCase();
+        if (TITLE_ACRONYMS.has(lower)) return lower.toUpperCase();
+        if (index > 0 && TITLE_STOPWORDS.has(lower)) return lower;
+        if (part !== lower && part !== part.toUpperCase()) return part;
+        return lower.charAt(0).toUpperCase() + lower.slice(1);
+      })
+    )
+    .join(' ');
+}
+
+/**
+ * Seniority implied by a title
+ *
+ * Titles with no seniority words are individual contributors.
+ */
+export function classifySeniority(tokens: readonly string[]): Seniority {
+  const words = new Set(tokens);
+  const rule = SENIORITY_RULES.find(([, keywords]) => keywords.some((k) => words.has(k)));
+  return rule ? rule[0] : 'individual_contributor';
+}
+
+/**
+ * Department implied by a title, if any rule matches
+ */
+export function classifyDepartment(tokens: readonly string[]): Department | undefined {
+  const words = new Set(tokens);
+  return DEPARTMENT_RULES.find(([, keywords]) => keywords.some((k) => words.has(k)))?.[0];
+}
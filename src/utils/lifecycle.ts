@@ -0,0 +1,44 @@
+/**
+ * Lifecycle stage ordering
+ *
+ * Provides:
+ * - HubSpot's default lifecycle stages in order
+ * - Detection of backward moves, which HubSpot only accepts after the stage is cleared
+ */
+
+/**
+ * HubSpot's default stages, earliest first ("other" has no position)
+ */
+export const LIFECYCLE_STAGE_ORDER: readonly string[] = [
+  'subscriber',
+  'lead',
+  'marketingqualifiedlead',
+  'salesqualifiedlead',
+  'opportunity',
+  'customer',
+  'evangelist',
+];
+
+/**
+ * Position of a stage in LIFECYCLE_STAGE_ORDER, or -1 for custom and empty stages
+ */
+export function lifecycleStageIndex(stage: string | null | undefined): number {
+  return stage ? LIFECYCLE_STAGE_ORDER.indexOf(stage) : -1;
+}
+
+/**
+ * Check whether moving from one stage to another goes backwards
+ * Moves from or to a stage without a position are not treated as backwards.
+ *
+ * @example
+ * isLifecycleStageRegression('customer', 'lead') // true
+ * isLifecycleStageRegression('lead', 'customer') // false
+ */
+export function isLifecycleStageRegression(
+  current: string | null | undefined,
+  next: string | null | undefined
+): boolean {
+  const currentIndex = lifecycleStageIndex(current);
+  const nextIndex = lifecycleStageIndex(next);
+  return currentIndex >= 0 && nextIndex >= 0 && nextIndex < currentIndex;
+}
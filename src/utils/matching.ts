@@ -4,9 +4,14 @@
  * Provides functions for:
  * - Levenshtein distance calculation
  * - String normalization (names, phones, emails)
- * - Similarity scoring
+ * - Email canonicalization (Gmail dots, plus aliases, domain aliases)
+ * - Similarity scoring (Levenshtein, Jaro-Winkler)
+ * - Phonetic encoding (Soundex, Double Metaphone)
+ * - Diacritic folding and transliteration of Cyrillic and Greek
  */
 
+import { parsePhone } from './phone.js';
+
 /**
  * Calculate Levenshtein distance between two strings
  * Returns the minimum number of single-character edits (insertions, deletions, substitutions)
@@ -95,6 +100,7 @@ export function similarityScore(str1: string, str2: string): number {
 
 /**
  * Normalize a name for comparison
+ * - Transliterate Cyrillic and Greek and fold diacritics (Müller -> muller)
  * - Convert to lowercase
  * - Trim whitespace
  * - Collapse multiple spaces into single space
@@ -106,11 +112,12 @@ export function similarityScore(str1: string, str2: string): number {
  * @example
  * normalizeName('  John  Smith  ') // 'john smith'
  * normalizeName('Mary-Jane O\'Connor') // 'mary-jane o\'connor'
+ * normalizeName('José Müller') // 'jose muller'
  */
 export function normalizeName(name: string | null | undefined): string {
   if (!name) return '';
 
-  return name
+  return foldDiacritics(transliterate(name))
     .toLowerCase()
     .trim()
     .replace(/\s+/g, ' ')  // Collapse multiple spaces
@@ -119,18 +126,20 @@ export function normalizeName(name: string | null | undefined): string {
 
 /**
  * Normalize phone number for comparison
- * - Remove all formatting characters (spaces, dashes, parentheses, dots)
- * - Remove leading + or country code prefixes
- * - Keep only digits
+ * - Parse with the bundled dialing plans (see utils/phone.ts)
+ * - National numbers get the default country's calling code
+ * - Extensions are dropped; they don't make a different person
+ * - Numbers that don't fit any dialing plan fall back to their digits
  *
  * @param phone Phone number to normalize
- * @param countryCode Country code (default: 'US')
- * @returns Normalized phone number (digits only)
+ * @param countryCode Country of national numbers (default: 'US')
+ * @returns E.164 number, digits only if it isn't valid, or empty string
  *
  * @example
- * normalizePhone('(555) 123-4567') // '5551234567'
- * normalizePhone('+1-555-123-4567', 'US') // '5551234567'
- * normalizePhone('555.123.4567') // '5551234567'
+ * normalizePhone('(555) 123-4567') // '+15551234567'
+ * normalizePhone('+1-555-123-4567', 'US') // '+15551234567'
+ * normalizePhone('030 1234567', 'DE') // '+49301234567'
+ * normalizePhone('123') // '123'
  */
 export function normalizePhone(
   phone: string | null | undefined,
@@ -138,15 +147,10 @@ export function normalizePhone(
 ): string {
   if (!phone) return '';
 
-  // Remove all non-digit characters
-  let normalized = phone.replace(/\D/g, '');
-
-  // Remove common country code prefixes
-  if (countryCode === 'US' && normalized.length === 11 && normalized.startsWith('1')) {
-    normalized = normalized.substring(1);
-  }
+  const parsed = parsePhone(phone, countryCode);
+  if (parsed?.valid) return parsed.e164;
 
-  return normalized;
+  return phone.replace(/\D/g, '');
 }
 
 /**
@@ -168,6 +172,121 @@ export function extractEmailDomain(email: string | null | undefined): string {
   return parts[1];
 }
 
+/**
+ * Mailbox rules of email providers whose addresses have known variants
+ */
+interface EmailProvider {
+  domain: string; // Canonical domain of the provider
+  ignoresDots: boolean; // 'j.doe' and 'jdoe' reach the same mailbox
+  aliasSeparator: string; // Starts a tag that is ignored on delivery
+}
+
+const GMAIL: EmailProvider = { domain: 'gmail.com', ignoresDots: true, aliasSeparator: '+' };
+const ICLOUD: EmailProvider = { domain: 'icloud.com', ignoresDots: false, aliasSeparator: '+' };
+const PROTON: EmailProvider = { domain: 'proton.me', ignoresDots: false, aliasSeparator: '+' };
+const YAHOO: EmailProvider = { domain: 'yahoo.com', ignoresDots: false, aliasSeparator: '-' };
+
+const EMAIL_PROVIDERS: Record<string, EmailProvider> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+  'icloud.com': ICLOUD,
+  'me.com': ICLOUD,
+  'mac.com': ICLOUD,
+  'proton.me': PROTON,
+  'protonmail.com': PROTON,
+  'protonmail.ch': PROTON,
+  'pm.me': PROTON,
+  'yahoo.com': YAHOO,
+};
+
+/**
+ * Lowercased alias lookup per configured alias map, built once per map
+ */
+const normalizedDomainAliases = new WeakMap<Record<string, string>, Map<string, string>>();
+
+function getDomainAliasMap(domainAliases: Record<string, string>): Map<string, string> {
+  let aliases = normalizedDomainAliases.get(domainAliases);
+  if (!aliases) {
+    aliases = new Map(
+      Object.entries(domainAliases).map(([alias, canonical]) => [
+        alias.trim().toLowerCase(),
+        canonical.trim().toLowerCase(),
+      ])
+    );
+    normalizedDomainAliases.set(domainAliases, aliases);
+  }
+  return aliases;
+}
+
+/**
+ * Canonicalize an email address to the mailbox it delivers to
+ * - Lowercase and trim
+ * - Map domain aliases (configured ones first, then provider aliases like googlemail.com)
+ * - Drop sub-address tags ('+news'; '-news' on Yahoo)
+ * - Drop dots in the local part where the provider ignores them (Gmail)
+ *
+ * @param email Email address
+ * @param domainAliases Alias domain -> canonical domain (e.g. an acquired company's domain), case-insensitive
+ * @returns Canonical email or empty string if invalid
+ *
+ * @example
+ * canonicalizeEmail('J.Doe+news@gmail.com') // 'jdoe@gmail.com'
+ * canonicalizeEmail('jdoe@googlemail.com') // 'jdoe@gmail.com'
+ * canonicalizeEmail('jane+crm@oldco.com', { 'oldco.com': 'acme.com' }) // 'jane@acme.com'
+ */
+export function canonicalizeEmail(
+  email: string | null | undefined,
+  domainAliases: Record<string, string> = {}
+): string {
+  const normalized = email?.trim().toLowerCase() ?? '';
+  const at = normalized.lastIndexOf('@');
+  if (at <= 0 || at === normalized.length - 1) return '';
+
+  let local = normalized.slice(0, at);
+  let domain = normalized.slice(at + 1);
+  domain = getDomainAliasMap(domainAliases).get(domain) ?? domain;
+
+  const provider = EMAIL_PROVIDERS[domain];
+  domain = provider?.domain ?? domain;
+
+  // Keep the tag if nothing would be left without it ('+1@example.com')
+  const separator = provider?.aliasSeparator ?? '+';
+  const tagStart = local.indexOf(separator);
+  if (tagStart > 0) local = local.slice(0, tagStart);
+
+  if (provider?.ignoresDots) local = local.replace(/\./g, '');
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Normalize a company domain or website URL to a bare domain
+ * Strips protocol, "www.", port, path, query and trailing dots
+ *
+ * @param domain Domain or URL
+ * @returns Domain (lowercase) or empty string if not a valid domain
+ *
+ * @example
+ * normalizeDomain('https://www.Example.com/about') // 'example.com'
+ * normalizeDomain('example.co.uk:8080') // 'example.co.uk'
+ * normalizeDomain('not a domain') // ''
+ */
+export function normalizeDomain(domain: string | null | undefined): string {
+  if (!domain) return '';
+
+  const normalized = domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '') // Protocol
+    .replace(/[/?#].*$/, '') // Path, query, fragment
+    .replace(/:\d+$/, '') // Port
+    .replace(/^www\d*\./, '')
+    .replace(/\.+$/, '');
+
+  const domainRegex = /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+  return domainRegex.test(normalized) ? normalized : '';
+}
+
 /**
  * Check if two names are likely nickname variations
  * Returns true if one name is a common nickname of the other
@@ -236,6 +355,7 @@ export function isLikelyNickname(
  *
  * @param company1 First company name
  * @param company2 Second company name
+ * @param algorithm Algorithm used to compare the names after removing suffixes
  * @returns True if likely the same company
  *
  * @example
@@ -244,7 +364,8 @@ export function isLikelyNickname(
  */
 export function isSameCompany(
   company1: string | null | undefined,
-  company2: string | null | undefined
+  company2: string | null | undefined,
+  algorithm: MatchAlgorithm = 'levenshtein'
 ): boolean {
   if (!company1 || !company2) return false;
 
@@ -264,6 +385,842 @@ export function isSameCompany(
   if (normalized1 === normalized2) return true;
 
   // Check similarity (allow for minor typos)
-  const similarity = similarityScore(normalized1, normalized2);
+  const similarity = fieldSimilarity(normalized1, normalized2, algorithm);
   return similarity >= 0.85;  // 85% similar (allows for minor typos)
 }
+
+/**
+ * Encode a name with American Soundex
+ * Names that sound alike share a code (first letter + three digits)
+ *
+ * @param name Name to encode
+ * @returns Soundex code or empty string if the name has no letters
+ *
+ * @example
+ * soundex('Robert') // 'R163'
+ * soundex('Rupert') // 'R163'
+ * soundex('Smyth') // 'S530'
+ */
+export function soundex(name: string | null | undefined): string {
+  const letters = normalizeName(name).replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6',
+  };
+
+  let code = letters[0].toUpperCase();
+  let previous = codes[letters[0]] ?? '';
+
+  for (const letter of letters.slice(1)) {
+    const digit = codes[letter] ?? '';
+    if (digit && digit !== previous) code += digit;
+    if (code.length === 4) break;
+
+    // Vowels separate letters with the same code; H and W do not
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+  }
+
+  return code.padEnd(4, '0');
+}
+
+// Letters that Unicode does not decompose into a base letter and a mark
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'SS', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE',
+  'ø': 'o', 'Ø': 'O', 'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D',
+  'ð': 'd', 'Ð': 'D', 'þ': 'th', 'Þ': 'TH', 'ı': 'i',
+};
+
+/**
+ * Remove diacritics, keeping the base letters
+ *
+ * @param text Text to fold
+ * @returns Text without accents, umlauts, cedillas etc.
+ *
+ * @example
+ * foldDiacritics('Müller') // 'Muller'
+ * foldDiacritics('François Øberg') // 'Francois Oberg'
+ * foldDiacritics('Straße') // 'Strasse'
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining marks
+    .replace(/[ßẞæÆœŒøØłŁđĐðÐþÞı]/g, (letter) => SPECIAL_LETTERS[letter]);
+}
+
+// Lowercase Cyrillic (Russian, Ukrainian) and Greek letters to Latin
+const TRANSLITERATION: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'ґ': 'g', 'д': 'd', 'е': 'e', 'ё': 'e',
+  'є': 'ye', 'ж': 'zh', 'з': 'z', 'и': 'i', 'і': 'i', 'ї': 'yi', 'й': 'y', 'к': 'k',
+  'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+  'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch',
+  'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  // Greek
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+  'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+  'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps',
+  'ω': 'o',
+};
+
+/**
+ * Transliterate Cyrillic and Greek letters to Latin
+ * Other scripts (Arabic, Hebrew, CJK, ...) are kept as they are, so names in
+ * those scripts only match spellings in the same script; capitalization is preserved
+ *
+ * @param text Text to transliterate
+ * @returns Text in Latin letters
+ *
+ * @example
+ * transliterate('Сергей Иванов') // 'Sergey Ivanov'
+ * transliterate('Νίκος') // 'Nikos'
+ */
+export function transliterate(text: string): string {
+  let result = '';
+
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    // Accented Greek letters (ά, ΐ) are looked up by their base letter
+    const latin =
+      TRANSLITERATION[lower] ??
+      (/[\u0370-\u03ff\u1f00-\u1fff]/.test(lower)
+        ? TRANSLITERATION[lower.normalize('NFD')[0]]
+        : undefined);
+
+    if (latin === undefined) {
+      result += char;
+    } else if (char !== lower && latin) {
+      result += latin[0].toUpperCase() + latin.slice(1);
+    } else {
+      result += latin;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate Jaro-Winkler similarity (0.0 - 1.0)
+ * Rewards strings that share a prefix, which suits short names better
+ * than Levenshtein (Jon / John: 0.93 vs 0.75)
+ *
+ * @param str1 First string
+ * @param str2 Second string
+ * @param prefixScale Weight of the common prefix (max 0.25)
+ * @returns Similarity score (1.0 = identical)
+ *
+ * @example
+ * jaroWinkler('martha', 'marhta') // 0.961
+ * jaroWinkler('jon', 'john') // 0.933
+ */
+export function jaroWinkler(str1: string, str2: string, prefixScale: number = 0.1): number {
+  if (str1 === str2) return 1.0;
+  if (str1.length === 0 || str2.length === 0) return 0.0;
+
+  const window = Math.max(0, Math.floor(Math.max(str1.length, str2.length) / 2) - 1);
+  const matched1: boolean[] = new Array<boolean>(str1.length).fill(false);
+  const matched2: boolean[] = new Array<boolean>(str2.length).fill(false);
+
+  // Count characters that match within the window
+  let matches = 0;
+  for (let i = 0; i < str1.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(str2.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!matched2[j] && str1[i] === str2[j]) {
+        matched1[i] = true;
+        matched2[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0.0;
+
+  // Count matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < str1.length; i++) {
+    if (!matched1[i]) continue;
+    while (!matched2[k]) k++;
+    if (str1[i] !== str2[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / str1.length + matches / str2.length + (matches - transpositions / 2) / matches) / 3;
+
+  // Common prefix, up to 4 characters
+  let prefix = 0;
+  while (prefix < 4 && prefix < Math.min(str1.length, str2.length) && str1[prefix] === str2[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * prefixScale * (1 - jaro);
+}
+
+/**
+ * Encode a name with Double Metaphone (Lawrence Philips, 2000)
+ * Returns a primary and an alternate code of up to 4 characters; names
+ * sound alike when any of their codes match. Handles many Germanic,
+ * Slavic, Romance and Greek spellings (Schmidt / Smith, Jon / John).
+ *
+ * @param name Name to encode (may contain several words)
+ * @returns [primary, alternate] codes, empty if the name has no letters
+ *
+ * @example
+ * doubleMetaphone('Smith') // ['SM0', 'XMT']
+ * doubleMetaphone('Schmidt') // ['XMT', 'SMT']
+ * doubleMetaphone('Müller') // ['MLR', 'MLR']
+ */
+export function doubleMetaphone(name: string | null | undefined): [string, string] {
+  const word = normalizeName(name)
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, '');
+  const length = word.length;
+  const last = length - 1;
+  const padded = `${word}     `; // Lookups may run past the end
+
+  let primary = '';
+  let secondary = '';
+  let current = 0;
+
+  const charAt = (at: number): string => (at < 0 ? '' : padded.charAt(at));
+  const isVowel = (at: number): boolean =>
+    at >= 0 && at < length && 'AEIOUY'.includes(word.charAt(at));
+  const stringAt = (start: number, size: number, ...options: string[]): boolean =>
+    start >= 0 && options.includes(padded.substring(start, start + size));
+  const add = (main: string, alternate: string = main): void => {
+    primary += main;
+    secondary += alternate.trim();
+  };
+
+  const slavoGermanic = /W|K|CZ|WITZ/.test(word);
+  const germanic = stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH');
+
+  // Skip silent first letters
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) current++;
+
+  // Initial 'X' is pronounced 'Z' (Xavier)
+  if (charAt(0) === 'X') {
+    add('S');
+    current++;
+  }
+
+  while ((primary.length < 4 || secondary.length < 4) && current < length) {
+    switch (charAt(current)) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Only an initial vowel is encoded
+        if (current === 0) add('A');
+        current++;
+        break;
+
+      case 'B':
+        add('P');
+        current += charAt(current + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        // Germanic 'ach' (Bacher, Macher)
+        if (
+          current > 1 &&
+          !isVowel(current - 2) &&
+          stringAt(current - 1, 3, 'ACH') &&
+          charAt(current + 2) !== 'I' &&
+          (charAt(current + 2) !== 'E' || stringAt(current - 2, 6, 'BACHER', 'MACHER'))
+        ) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (current === 0 && stringAt(current, 6, 'CAESAR')) {
+          add('S');
+          current += 2;
+          break;
+        }
+
+        // Italian 'chianti'
+        if (stringAt(current, 4, 'CHIA')) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CH')) {
+          // Michael
+          if (current > 0 && stringAt(current, 4, 'CHAE')) {
+            add('K', 'X');
+            current += 2;
+            break;
+          }
+
+          // Greek roots (chemistry, chorus)
+          if (
+            current === 0 &&
+            (stringAt(current + 1, 5, 'HARAC', 'HARIS') ||
+              stringAt(current + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !stringAt(0, 5, 'CHORE')
+          ) {
+            add('K');
+            current += 2;
+            break;
+          }
+
+          // Germanic, Greek or otherwise 'ch' for 'kh' (architect, orchestra, Wachtler)
+          if (
+            germanic ||
+            stringAt(current - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            stringAt(current + 2, 1, 'T', 'S') ||
+            ((stringAt(current - 1, 1, 'A', 'O', 'U', 'E') || current === 0) &&
+              stringAt(current + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))
+          ) {
+            add('K');
+          } else if (current > 0) {
+            if (stringAt(0, 2, 'MC')) {
+              add('K'); // McHugh
+            } else {
+              add('X', 'K');
+            }
+          } else {
+            add('X');
+          }
+          current += 2;
+          break;
+        }
+
+        // Czerny
+        if (stringAt(current, 2, 'CZ') && !stringAt(current - 2, 4, 'WICZ')) {
+          add('S', 'X');
+          current += 2;
+          break;
+        }
+
+        // Focaccia
+        if (stringAt(current + 1, 3, 'CIA')) {
+          add('X');
+          current += 3;
+          break;
+        }
+
+        // Double 'C', but not McClellan
+        if (stringAt(current, 2, 'CC') && !(current === 1 && charAt(0) === 'M')) {
+          // Bellocchio, but not Bacchus
+          if (stringAt(current + 2, 1, 'I', 'E', 'H') && !stringAt(current + 2, 2, 'HU')) {
+            // Accident, accede, succeed
+            if (
+              (current === 1 && charAt(current - 1) === 'A') ||
+              stringAt(current - 1, 5, 'UCCEE', 'UCCES')
+            ) {
+              add('KS');
+            } else {
+              add('X'); // Bacci, Bertucci
+            }
+            current += 3;
+            break;
+          }
+
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          current += 2;
+          break;
+        }
+
+        if (stringAt(current, 2, 'CI', 'CE', 'CY')) {
+          // Italian vs. English
+          if (stringAt(current, 3, 'CIO', 'CIE', 'CIA')) {
+            add('S', 'X');
+          } else {
+            add('S');
+          }
+          current += 2;
+          break;
+        }
+
+        add('K');
+
+        // Mac Caffrey, Mac Gregor
+        if (stringAt(current + 1, 2, ' C', ' Q', ' G')) {
+          current += 3;
+        } else if (stringAt(current + 1, 1, 'C', 'K', 'Q') && !stringAt(current + 1, 2, 'CE', 'CI')) {
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'D':
+        if (stringAt(current, 2, 'DG')) {
+          if (stringAt(current + 2, 1, 'I', 'E', 'Y')) {
+            add('J'); // Edge
+            current += 3;
+          } else {
+            add('TK'); // Edgar
+            current += 2;
+          }
+          break;
+        }
+
+        add('T');
+        current += stringAt(current, 2, 'DT', 'DD') ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        current += charAt(current + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (charAt(current + 1) === 'H') {
+          if (current > 0 && !isVowel(current - 1)) {
+            add('K');
+            current += 2;
+            break;
+          }
+
+          // Ghislane, Ghiradelli
+          if (current === 0) {
+            add(charAt(current + 2) === 'I' ? 'J' : 'K');
+            current += 2;
+            break;
+          }
+
+          // Parker's rule: silent in Hugh, bough, Broughton
+          if (
+            (current > 1 && stringAt(current - 2, 1, 'B', 'H', 'D')) ||
+            (current > 2 && stringAt(current - 3, 1, 'B', 'H', 'D')) ||
+            (current > 3 && stringAt(current - 4, 1, 'B', 'H'))
+          ) {
+            current += 2;
+            break;
+          }
+
+          // Laugh, McLaughlin, cough, rough, tough
+          if (
+            current > 2 &&
+            charAt(current - 1) === 'U' &&
+            stringAt(current - 3, 1, 'C', 'G', 'L', 'R', 'T')
+          ) {
+            add('F');
+          } else if (current > 0 && charAt(current - 1) !== 'I') {
+            add('K');
+          }
+          current += 2;
+          break;
+        }
+
+        if (charAt(current + 1) === 'N') {
+          if (current === 1 && isVowel(0) && !slavoGermanic) {
+            add('KN', 'N');
+          } else if (!stringAt(current + 2, 2, 'EY') && charAt(current + 1) !== 'Y' && !slavoGermanic) {
+            add('N', 'KN'); // Not Cagney
+          } else {
+            add('KN');
+          }
+          current += 2;
+          break;
+        }
+
+        // Tagliaro
+        if (stringAt(current + 1, 2, 'LI') && !slavoGermanic) {
+          add('KL', 'L');
+          current += 2;
+          break;
+        }
+
+        // -ges-, -gep-, -gel-, -gie- at the beginning
+        if (
+          current === 0 &&
+          (charAt(current + 1) === 'Y' ||
+            stringAt(current + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J');
+          current += 2;
+          break;
+        }
+
+        // -ger-, -gy-
+        if (
+          (stringAt(current + 1, 2, 'ER') || charAt(current + 1) === 'Y') &&
+          !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+          !stringAt(current - 1, 1, 'E', 'I') &&
+          !stringAt(current - 1, 3, 'RGY', 'OGY')
+        ) {
+          add('K', 'J');
+          current += 2;
+          break;
+        }
+
+        // Italian (Biaggi)
+        if (stringAt(current + 1, 1, 'E', 'I', 'Y') || stringAt(current - 1, 4, 'AGGI', 'OGGI')) {
+          if (germanic || stringAt(current + 1, 2, 'ET')) {
+            add('K');
+          } else if (stringAt(current + 1, 4, 'IER ')) {
+            add('J'); // Always soft with a French ending
+          } else {
+            add('J', 'K');
+          }
+          current += 2;
+          break;
+        }
+
+        add('K');
+        current += charAt(current + 1) === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only kept when first or between vowels
+        if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+          add('H');
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'J':
+        // Spanish (Jose, San Jacinto)
+        if (stringAt(current, 4, 'JOSE') || stringAt(0, 4, 'SAN ')) {
+          if ((current === 0 && charAt(current + 4) === ' ') || stringAt(0, 4, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          current++;
+          break;
+        }
+
+        if (current === 0) {
+          add('J', 'A'); // Yankelovich / Jankelowicz
+        } else if (
+          isVowel(current - 1) &&
+          !slavoGermanic &&
+          (charAt(current + 1) === 'A' || charAt(current + 1) === 'O')
+        ) {
+          add('J', 'H'); // Spanish 'bajador'
+        } else if (current === last) {
+          add('J', ' ');
+        } else if (
+          !stringAt(current + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') &&
+          !stringAt(current - 1, 1, 'S', 'K', 'L')
+        ) {
+          add('J');
+        }
+
+        current += charAt(current + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        current += charAt(current + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (charAt(current + 1) === 'L') {
+          // Spanish (Cabrillo, Gallegos)
+          if (
+            (current === length - 3 && stringAt(current - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) &&
+              stringAt(current - 1, 4, 'ALLE'))
+          ) {
+            add('L', ' ');
+            current += 2;
+            break;
+          }
+          current += 2;
+        } else {
+          current++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        // Dumb, thumb
+        if (
+          (stringAt(current - 1, 3, 'UMB') &&
+            (current + 1 === last || stringAt(current + 2, 2, 'ER'))) ||
+          charAt(current + 1) === 'M'
+        ) {
+          current += 2;
+        } else {
+          current++;
+        }
+        add('M');
+        break;
+
+      case 'N':
+        add('N');
+        current += charAt(current + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (charAt(current + 1) === 'H') {
+          add('F');
+          current += 2;
+          break;
+        }
+
+        // Campbell, raspberry
+        add('P');
+        current += stringAt(current + 1, 1, 'P', 'B') ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        current += charAt(current + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French (Rogier), but not Hochmeier
+        if (
+          current === last &&
+          !slavoGermanic &&
+          stringAt(current - 2, 2, 'IE') &&
+          !stringAt(current - 4, 2, 'ME', 'MA')
+        ) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        current += charAt(current + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // Island, isle, Carlisle, Carlysle
+        if (stringAt(current - 1, 3, 'ISL', 'YSL')) {
+          current++;
+          break;
+        }
+
+        if (current === 0 && stringAt(current, 5, 'SUGAR')) {
+          add('X', 'S');
+          current++;
+          break;
+        }
+
+        if (stringAt(current, 2, 'SH')) {
+          // Germanic
+          add(stringAt(current + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+          current += 2;
+          break;
+        }
+
+        // Italian and Armenian
+        if (stringAt(current, 3, 'SIO', 'SIA') || stringAt(current, 4, 'SIAN')) {
+          if (slavoGermanic) {
+            add('S');
+          } else {
+            add('S', 'X');
+          }
+          current += 3;
+          break;
+        }
+
+        // German and anglicizations (Smith / Schmidt, Snider / Schneider), Slavic -sz-
+        if ((current === 0 && stringAt(current + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(current + 1, 1, 'Z')) {
+          add('S', 'X');
+          current += stringAt(current + 1, 1, 'Z') ? 2 : 1;
+          break;
+        }
+
+        if (stringAt(current, 2, 'SC')) {
+          // Schlesinger's rule
+          if (charAt(current + 2) === 'H') {
+            // Dutch (school, schooner, Schermerhorn, Schenker)
+            if (stringAt(current + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              if (stringAt(current + 3, 2, 'ER', 'EN')) {
+                add('X', 'SK');
+              } else {
+                add('SK');
+              }
+            } else if (current === 0 && !isVowel(3) && charAt(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            current += 3;
+            break;
+          }
+
+          add(stringAt(current + 2, 1, 'I', 'E', 'Y') ? 'S' : 'SK');
+          current += 3;
+          break;
+        }
+
+        // French (Resnais, Artois)
+        if (current === last && stringAt(current - 2, 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        current += stringAt(current + 1, 1, 'S', 'Z') ? 2 : 1;
+        break;
+
+      case 'T':
+        if (stringAt(current, 4, 'TION') || stringAt(current, 3, 'TIA', 'TCH')) {
+          add('X');
+          current += 3;
+          break;
+        }
+
+        if (stringAt(current, 2, 'TH') || stringAt(current, 3, 'TTH')) {
+          // Thomas, Thames or Germanic
+          if (stringAt(current + 2, 2, 'OM', 'AM') || germanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          current += 2;
+          break;
+        }
+
+        add('T');
+        current += stringAt(current + 1, 1, 'T', 'D') ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        current += charAt(current + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (stringAt(current, 2, 'WR')) {
+          add('R');
+          current += 2;
+          break;
+        }
+
+        // Wasserman / Vasserman, Uomo / Womo
+        if (current === 0 && (isVowel(current + 1) || stringAt(current, 2, 'WH'))) {
+          if (isVowel(current + 1)) {
+            add('A', 'F');
+          } else {
+            add('A');
+          }
+        }
+
+        // Arnow / Arnoff
+        if (
+          (current === last && isVowel(current - 1)) ||
+          stringAt(current - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          stringAt(0, 3, 'SCH')
+        ) {
+          add('', 'F');
+          current++;
+          break;
+        }
+
+        // Polish (Filipowicz)
+        if (stringAt(current, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          current += 4;
+          break;
+        }
+
+        current++;
+        break;
+
+      case 'X':
+        // French (Breaux)
+        if (
+          !(
+            current === last &&
+            (stringAt(current - 3, 3, 'IAU', 'EAU') || stringAt(current - 2, 2, 'AU', 'OU'))
+          )
+        ) {
+          add('KS');
+        }
+        current += stringAt(current + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese pinyin (Zhao)
+        if (charAt(current + 1) === 'H') {
+          add('J');
+          current += 2;
+          break;
+        }
+
+        if (
+          stringAt(current + 1, 2, 'ZO', 'ZI', 'ZA') ||
+          (slavoGermanic && current > 0 && charAt(current - 1) !== 'T')
+        ) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        current += charAt(current + 1) === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        current++;
+    }
+  }
+
+  return [primary.slice(0, 4), secondary.slice(0, 4)];
+}
+
+export type MatchAlgorithm = 'exact' | 'levenshtein' | 'jaro_winkler' | 'double_metaphone';
+
+// Score for names that only sound alike - enough to surface them for review,
+// never enough to count as identical (Smith / Schmidt, Lee / Liu)
+const PHONETIC_MATCH_SCORE = 0.9;
+
+/**
+ * Compare two field values with the chosen algorithm (0.0 - 1.0)
+ * Values are normalized with normalizeName first. Double Metaphone is
+ * Levenshtein raised to PHONETIC_MATCH_SCORE when the names sound alike.
+ *
+ * @param value1 First value
+ * @param value2 Second value
+ * @param algorithm Matching algorithm
+ * @returns Similarity score (0.0 when either value is empty)
+ *
+ * @example
+ * fieldSimilarity('Müller', 'Mueller', 'double_metaphone') // 0.9
+ * fieldSimilarity('Jon', 'John', 'jaro_winkler') // 0.933
+ * fieldSimilarity('Jon', 'John', 'levenshtein') // 0.75
+ */
+export function fieldSimilarity(
+  value1: string | null | undefined,
+  value2: string | null | undefined,
+  algorithm: MatchAlgorithm
+): number {
+  const normalized1 = normalizeName(value1);
+  const normalized2 = normalizeName(value2);
+
+  if (!normalized1 || !normalized2) return 0.0;
+
+  switch (algorithm) {
+    case 'exact':
+      return normalized1 === normalized2 ? 1.0 : 0.0;
+    case 'levenshtein':
+      return similarityScore(normalized1, normalized2);
+    case 'jaro_winkler':
+      return jaroWinkler(normalized1, normalized2);
+    case 'double_metaphone': {
+      const codes1 = doubleMetaphone(normalized1).filter(Boolean);
+      const codes2 = doubleMetaphone(normalized2).filter(Boolean);
+      const soundAlike = codes1.some((code) => codes2.includes(code));
+      const editSimilarity = similarityScore(normalized1, normalized2);
+      return soundAlike ? Math.max(editSimilarity, PHONETIC_MATCH_SCORE) : editSimilarity;
+    }
+  }
+}
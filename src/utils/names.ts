@@ -0,0 +1,146 @@
+/**
+ * Person name utilities for data quality checks
+ *
+ * Provides functions for:
+ * - Casing names typed in all caps or all lower case
+ * - Removing honorifics ("Dr.", "Mrs") from name fields
+ * - Splitting a full name into first and last name
+ */
+
+/**
+ * Honorifics that belong in the salutation, not the name
+ */
+export const HONORIFICS: readonly string[] = [
+  'dr',
+  'miss',
+  'mr',
+  'mrs',
+  'ms',
+  'mx',
+  'prof',
+  'rev',
+  'sir',
+];
+
+// Surname particles kept lower case inside a name ("van der Berg", "de la Cruz")
+const NAME_PARTICLES = new Set([
+  'bin',
+  'da',
+  'das',
+  'de',
+  'del',
+  'della',
+  'den',
+  'der',
+  'di',
+  'dos',
+  'du',
+  'la',
+  'le',
+  'ten',
+  'ter',
+  'van',
+  'von',
+]);
+
+const HONORIFIC_PATTERN = new RegExp(`^(${HONORIFICS.join('|')})\\.?\\s+`, 'i');
+
+/**
+ * Capitalize one name part, handling prefixes like Mc and O'
+ */
+function capitalizePart(part: string): string {
+  const lower = part.toLowerCase();
+
+  // O'Neil, D'Angelo
+  const apostrophe = /^([a-z])['’]([a-z].*)$/.exec(lower);
+  if (apostrophe) {
+    return `${apostrophe[1].toUpperCase()}'${capitalizePart(apostrophe[2])}`;
+  }
+
+  // McDonald (Mac is left alone: Macy, Mackenzie)
+  if (/^mc[a-z]{2,}$/.test(lower)) {
+    return `Mc${lower.charAt(2).toUpperCase()}${lower.slice(3)}`;
+  }
+
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+}
+
+/**
+ * Check whether a name was typed in a single case ("JANE", "jane")
+ *
+ * Values of one or two letters are treated as initials and ignored.
+ */
+export function hasUniformCase(name: string): boolean {
+  const letters = name.replace(/[^\p{L}]/gu, '');
+  if (letters.length <= 2) return false;
+  return letters === letters.toUpperCase() || letters === letters.toLowerCase();
+}
+
+/**
+ * Format a name typed in a single case
+ *
+ * Particles stay lower case unless they start the name, and hyphenated
+ * parts are capitalized separately.
+ *
+ * @example
+ * formatPersonName('MCDONALD') // 'McDonald'
+ * formatPersonName("o'neil") // "O'Neil"
+ * formatPersonName('van der berg', true) // 'van der Berg'
+ * formatPersonName('mary-jane') // 'Mary-Jane'
+ *
+ * @param name Name to format
+ * @param isSurname Keep a leading particle lower case ("van der Berg")
+ */
+export function formatPersonName(name: string, isSurname = false): string {
+  const words = name.trim().split(/\s+/);
+
+  return words
+    .map((word, index) => {
+      const lower = word.toLowerCase();
+      const isLast = index === words.length - 1;
+      if (NAME_PARTICLES.has(lower) && !isLast && (index > 0 || isSurname)) return lower;
+
+      return word.split('-').map(capitalizePart).join('-');
+    })
+    .join(' ');
+}
+
+/**
+ * Remove a leading honorific from a name
+ *
+ * @returns The name without the honorific, or null if there was none
+ *   (or nothing would be left)
+ *
+ * @example
+ * stripHonorific('Dr. Jane') // 'Jane'
+ * stripHonorific('Drew') // null
+ */
+export function stripHonorific(name: string): string | null {
+  const match = HONORIFIC_PATTERN.exec(name.trim());
+  if (!match) return null;
+
+  const rest = name.trim().slice(match[0].length).trim();
+  return rest || null;
+}
+
+/**
+ * Split a full name into first and last name
+ *
+ * The last name starts at the first particle ("Jan van der Berg") or is
+ * the last word otherwise.
+ *
+ * @returns [first, last], or null for single-word names
+ *
+ * @example
+ * splitFullName('Jane Smith') // ['Jane', 'Smith']
+ * splitFullName('Jan van der Berg') // ['Jan', 'van der Berg']
+ */
+export function splitFullName(name: string): [string, string] | null {
+  const words = name.trim().split(/\s+/);
+  if (words.length < 2) return null;
+
+  const particle = words.findIndex((w, i) => i > 0 && NAME_PARTICLES.has(w.toLowerCase()));
+  const split = particle > 0 && particle < words.length - 1 ? particle : words.length - 1;
+
+  return [words.slice(0, split).join(' '), words.slice(split).join(' ')];
+}
@@ -0,0 +1,492 @@
+/**
+ * Phone number parsing and E.164 normalization
+ *
+ * Provides:
+ * - Dialing plans (calling code, trunk prefix, number lengths) for common countries
+ * - Parsing of national and international numbers, with extensions
+ * - Mobile / fixed line detection where the dialing plan allows it
+ */
+
+/**
+ * Dialing plan of a country
+ * Patterns and lengths apply to the national significant number
+ * (the number without trunk prefix or calling code)
+ */
+export interface DialingPlan {
+  callingCode: string;
+  internationalPrefix: string; // Dialed before a calling code (011 in the US)
+  nationalPrefix?: string; // Trunk prefix dialed before national numbers (0 in most of Europe)
+  lengths: readonly number[];
+  pattern?: RegExp; // Shape every valid national number has
+  leadingDigits?: RegExp; // Tells countries sharing a calling code apart
+  mobile?: RegExp;
+  fixedLine?: RegExp;
+}
+
+export type PhoneLineType = 'mobile' | 'fixed_line' | 'unknown';
+
+export interface ParsedPhone {
+  e164: string; // +4915112345678
+  callingCode: string; // Empty when the calling code is not in the dialing plans
+  nationalNumber: string;
+  country?: string; // ISO 3166-1 alpha-2 code
+  extension?: string;
+  lineType: PhoneLineType;
+  valid: boolean; // Length fits the country's dialing plan
+  international: boolean; // Written with a calling code rather than assumed from the default country
+}
+
+// NANP area codes never start with 0 or 1
+const NANP_NUMBER = /^[2-9]\d{9}$/;
+
+// NANP area codes in Canada; other +1 numbers are treated as US
+const CANADIAN_AREA_CODES =
+  /^(204|226|236|249|250|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|450|460|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905)/;
+
+/**
+ * Dialing plans by ISO 3166-1 alpha-2 code
+ * The first country listed for a shared calling code is the fallback for it
+ */
+export const DIALING_PLANS: Readonly<Record<string, DialingPlan>> = {
+  US: {
+    callingCode: '1',
+    internationalPrefix: '011',
+    nationalPrefix: '1',
+    lengths: [10],
+    pattern: NANP_NUMBER,
+  },
+  CA: {
+    callingCode: '1',
+    internationalPrefix: '011',
+    nationalPrefix: '1',
+    lengths: [10],
+    pattern: NANP_NUMBER,
+    leadingDigits: CANADIAN_AREA_CODES,
+  },
+  MX: { callingCode: '52', internationalPrefix: '00', lengths: [10] },
+  BR: {
+    callingCode: '55',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [10, 11],
+    mobile: /^[1-9]{2}9\d{8}$/,
+    fixedLine: /^[1-9]{2}[2-5]\d{7}$/,
+  },
+  AR: { callingCode: '54', internationalPrefix: '00', nationalPrefix: '0', lengths: [10, 11] },
+  GB: {
+    callingCode: '44',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    mobile: /^7[1-57-9]\d{8}$/,
+    fixedLine: /^[12]\d{8,9}$/,
+  },
+  IE: {
+    callingCode: '353',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [7, 8, 9],
+    mobile: /^8[3-9]\d{7}$/,
+    fixedLine: /^[1-79]\d{6,8}$/,
+  },
+  FR: {
+    callingCode: '33',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9],
+    mobile: /^[67]\d{8}$/,
+    fixedLine: /^[1-5]\d{8}$/,
+  },
+  DE: {
+    callingCode: '49',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [6, 7, 8, 9, 10, 11, 12, 13],
+    mobile: /^1[5-7]\d{8,9}$/,
+    fixedLine: /^[2-9]\d{5,10}$/,
+  },
+  AT: {
+    callingCode: '43',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [4, 5, 6, 7, 8, 9, 10, 11, 12, 13],
+    mobile: /^6[5-9]\d{6,11}$/,
+    fixedLine: /^[1-57]\d{3,12}$/,
+  },
+  CH: {
+    callingCode: '41',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9],
+    mobile: /^7[5-9]\d{7}$/,
+    fixedLine: /^[2-69]\d{8}$/,
+  },
+  NL: {
+    callingCode: '31',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9],
+    mobile: /^6\d{8}$/,
+    fixedLine: /^[1-57]\d{8}$/,
+  },
+  BE: {
+    callingCode: '32',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    mobile: /^4[5-9]\d{7}$/,
+    fixedLine: /^[1-9]\d{7}$/,
+  },
+  ES: {
+    callingCode: '34',
+    internationalPrefix: '00',
+    lengths: [9],
+    mobile: /^[67]\d{8}$/,
+    fixedLine: /^[89]\d{8}$/,
+  },
+  PT: {
+    callingCode: '351',
+    internationalPrefix: '00',
+    lengths: [9],
+    mobile: /^9[1236]\d{7}$/,
+    fixedLine: /^2\d{8}$/,
+  },
+  // Italian fixed lines keep their leading 0 after the calling code
+  IT: {
+    callingCode: '39',
+    internationalPrefix: '00',
+    lengths: [6, 7, 8, 9, 10, 11],
+    mobile: /^3\d{8,9}$/,
+    fixedLine: /^0\d{5,10}$/,
+  },
+  SE: {
+    callingCode: '46',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [7, 8, 9, 10],
+    mobile: /^7[02369]\d{7}$/,
+    fixedLine: /^[1-68]\d{6,8}$/,
+  },
+  NO: {
+    callingCode: '47',
+    internationalPrefix: '00',
+    lengths: [8],
+    mobile: /^[49]\d{7}$/,
+    fixedLine: /^[2-35-7]\d{7}$/,
+  },
+  DK: { callingCode: '45', internationalPrefix: '00', lengths: [8] },
+  FI: {
+    callingCode: '358',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [5, 6, 7, 8, 9, 10, 11, 12],
+    mobile: /^(4\d|50)\d{4,8}$/,
+  },
+  PL: {
+    callingCode: '48',
+    internationalPrefix: '00',
+    lengths: [9],
+    mobile: /^(45|5[0137]|6[069]|7[2389]|88)\d{7}$/,
+  },
+  GR: {
+    callingCode: '30',
+    internationalPrefix: '00',
+    lengths: [10],
+    mobile: /^69\d{8}$/,
+    fixedLine: /^2\d{9}$/,
+  },
+  RU: {
+    callingCode: '7',
+    internationalPrefix: '810',
+    nationalPrefix: '8',
+    lengths: [10],
+    mobile: /^9\d{9}$/,
+    fixedLine: /^[348]\d{9}$/,
+  },
+  KZ: {
+    callingCode: '7',
+    internationalPrefix: '810',
+    nationalPrefix: '8',
+    lengths: [10],
+    leadingDigits: /^[67]/,
+    mobile: /^7\d{9}$/,
+    fixedLine: /^7[12]\d{8}$/,
+  },
+  TR: {
+    callingCode: '90',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [10],
+    mobile: /^5\d{9}$/,
+    fixedLine: /^[2-4]\d{9}$/,
+  },
+  IL: {
+    callingCode: '972',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    mobile: /^5\d{8}$/,
+    fixedLine: /^[2-489]\d{7}$/,
+  },
+  AE: {
+    callingCode: '971',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    mobile: /^5\d{8}$/,
+    fixedLine: /^[2-9]\d{7}$/,
+  },
+  ZA: {
+    callingCode: '27',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9],
+    mobile: /^[6-8]\d{8}$/,
+    fixedLine: /^[1-5]\d{8}$/,
+  },
+  IN: {
+    callingCode: '91',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [10],
+    mobile: /^[6-9]\d{9}$/,
+    fixedLine: /^[1-5]\d{9}$/,
+  },
+  CN: {
+    callingCode: '86',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [9, 10, 11],
+    mobile: /^1[3-9]\d{9}$/,
+    fixedLine: /^[2-9]\d{8,10}$/,
+  },
+  HK: {
+    callingCode: '852',
+    internationalPrefix: '001',
+    lengths: [8],
+    mobile: /^[4-79]\d{7}$/,
+    fixedLine: /^[23]\d{7}$/,
+  },
+  JP: {
+    callingCode: '81',
+    internationalPrefix: '010',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    mobile: /^[789]0\d{8}$/,
+    fixedLine: /^[1-9]\d{8}$/,
+  },
+  KR: {
+    callingCode: '82',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    mobile: /^1[016-9]\d{7,8}$/,
+    fixedLine: /^[2-6]\d{7,9}$/,
+  },
+  SG: {
+    callingCode: '65',
+    internationalPrefix: '000',
+    lengths: [8],
+    mobile: /^[89]\d{7}$/,
+    fixedLine: /^6\d{7}$/,
+  },
+  AU: {
+    callingCode: '61',
+    internationalPrefix: '0011',
+    nationalPrefix: '0',
+    lengths: [9],
+    mobile: /^4\d{8}$/,
+    fixedLine: /^[2378]\d{8}$/,
+  },
+  NZ: {
+    callingCode: '64',
+    internationalPrefix: '00',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    mobile: /^2\d{7,9}$/,
+    fixedLine: /^[3-9]\d{7}$/,
+  },
+};
+
+// Non-ISO codes people use for countries
+const COUNTRY_ALIASES: Readonly<Record<string, string>> = {
+  UK: 'GB',
+  EL: 'GR',
+};
+
+// Calling code -> countries sharing it, in DIALING_PLANS order
+const COUNTRIES_BY_CALLING_CODE = new Map<string, string[]>();
+for (const [country, plan] of Object.entries(DIALING_PLANS)) {
+  const countries = COUNTRIES_BY_CALLING_CODE.get(plan.callingCode) ?? [];
+  countries.push(country);
+  COUNTRIES_BY_CALLING_CODE.set(plan.callingCode, countries);
+}
+
+// 'ext. 12', 'extension 12', 'x12', '#12', ';ext=12' at the end of a number
+const EXTENSION_PATTERN = /\s*(?:;\s*ext=|#|extension|ext\.?|x)\s*:?\s*(\d{1,7})\s*$/i;
+
+// E.164 allows at most 15 digits
+const MAX_E164_DIGITS = 15;
+
+/**
+ * Parse a phone number into E.164 form
+ * Numbers without a calling code (+, 00 or the country's international
+ * prefix) are read as national numbers of the default country.
+ *
+ * @param phone Phone number as entered
+ * @param defaultCountry ISO 3166-1 alpha-2 code for national numbers
+ * @returns Parsed number, or null if it has no digits or the default country is unknown
+ *
+ * @example
+ * parsePhone('(555) 123-4567 ext. 89', 'US')?.e164 // '+15551234567'
+ * parsePhone('030 1234567', 'DE')?.e164 // '+49301234567'
+ * parsePhone('+44 (0)7911 123456')?.lineType // 'mobile'
+ */
+export function parsePhone(
+  phone: string | null | undefined,
+  defaultCountry: string = 'US'
+): ParsedPhone | null {
+  if (!phone) return null;
+
+  const extensionMatch = EXTENSION_PATTERN.exec(phone);
+  const body = extensionMatch ? phone.slice(0, extensionMatch.index) : phone;
+  const extension = extensionMatch?.[1];
+
+  let digits = body.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const countryCode = resolveDialingCountry(defaultCountry);
+  const defaultPlan = countryCode ? DIALING_PLANS[countryCode] : undefined;
+
+  // International: '+', the default country's international prefix or the common '00'
+  let international = body.trim().startsWith('+');
+  if (!international) {
+    const prefix = [defaultPlan?.internationalPrefix, '00'].find(
+      (p): p is string => !!p && digits.startsWith(p)
+    );
+    if (prefix) {
+      international = true;
+      digits = digits.slice(prefix.length);
+    }
+  }
+
+  // National number that already starts with the calling code (4930123456 for a DE contact)
+  if (!international && defaultPlan) {
+    const rest = digits.slice(defaultPlan.callingCode.length);
+    if (
+      digits.startsWith(defaultPlan.callingCode) &&
+      !fitsPlan(stripNationalPrefix(digits, defaultPlan), defaultPlan) &&
+      fitsPlan(stripNationalPrefix(rest, defaultPlan), defaultPlan)
+    ) {
+      international = true;
+    }
+  }
+
+  if (!international) {
+    if (!defaultPlan || !countryCode) return null;
+    return buildParsedPhone(
+      countryCode,
+      defaultPlan,
+      stripNationalPrefix(digits, defaultPlan),
+      extension,
+      false
+    );
+  }
+
+  // Calling codes are 1-3 digits and prefix-free
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    const countries = COUNTRIES_BY_CALLING_CODE.get(callingCode);
+    if (!countries) continue;
+
+    const rest = digits.slice(length);
+    const country =
+      countries.find((c) => DIALING_PLANS[c].leadingDigits?.test(rest)) ??
+      (countryCode && countries.includes(countryCode) && !DIALING_PLANS[countryCode].leadingDigits
+        ? countryCode
+        : countries[0]);
+    const plan = DIALING_PLANS[country];
+
+    // '+44 (0)20 ...' repeats the trunk prefix after the calling code
+    return buildParsedPhone(country, plan, stripNationalPrefix(rest, plan), extension, true);
+  }
+
+  // Calling code outside the bundled dialing plans: only the overall length can be checked
+  return {
+    e164: `+${digits}`,
+    callingCode: '',
+    nationalNumber: digits,
+    extension,
+    lineType: 'unknown',
+    valid: digits.length >= 8 && digits.length <= MAX_E164_DIGITS,
+    international: true,
+  };
+}
+
+/**
+ * Format a parsed number canonically: E.164 plus the extension, if any
+ *
+ * @example
+ * formatPhone(parsePhone('555-123-4567 x89')!) // '+15551234567 ext. 89'
+ */
+export function formatPhone(phone: ParsedPhone): string {
+  return phone.extension ? `${phone.e164} ext. ${phone.extension}` : phone.e164;
+}
+
+/**
+ * Resolve a country code to one with a bundled dialing plan
+ */
+function resolveDialingCountry(country: string): string | undefined {
+  const code = country.trim().toUpperCase();
+  const resolved = COUNTRY_ALIASES[code] ?? code;
+  return DIALING_PLANS[resolved] ? resolved : undefined;
+}
+
+/**
+ * Remove the trunk prefix when the rest is a valid national number
+ * National numbers never start with a 0 or 1 trunk prefix; other prefixes
+ * (8 in Russia) are only removed when the number is too long without it
+ */
+function stripNationalPrefix(digits: string, plan: DialingPlan): string {
+  const prefix = plan.nationalPrefix;
+  if (!prefix || !digits.startsWith(prefix)) return digits;
+
+  const rest = digits.slice(prefix.length);
+  const ambiguous = prefix !== '0' && prefix !== '1' && fitsPlan(digits, plan);
+  return fitsPlan(rest, plan) && !ambiguous ? rest : digits;
+}
+
+function fitsPlan(nationalNumber: string, plan: DialingPlan): boolean {
+  return plan.lengths.includes(nationalNumber.length);
+}
+
+function buildParsedPhone(
+  country: string,
+  plan: DialingPlan,
+  nationalNumber: string,
+  extension: string | undefined,
+  international: boolean
+): ParsedPhone {
+  const valid =
+    fitsPlan(nationalNumber, plan) &&
+    (plan.pattern?.test(nationalNumber) ?? true) &&
+    plan.callingCode.length + nationalNumber.length <= MAX_E164_DIGITS;
+
+  let lineType: PhoneLineType = 'unknown';
+  if (valid && plan.mobile?.test(nationalNumber)) {
+    lineType = 'mobile';
+  } else if (valid && plan.fixedLine?.test(nationalNumber)) {
+    lineType = 'fixed_line';
+  }
+
+  return {
+    e164: `+${plan.callingCode}${nationalNumber}`,
+    callingCode: plan.callingCode,
+    nationalNumber,
+    country,
+    extension,
+    lineType,
+    valid,
+    international,
+  };
+}
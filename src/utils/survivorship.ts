@@ -0,0 +1,129 @@
+/**
+ * Survivorship rules for merging duplicate records
+ *
+ * Decides which record survives a merge (the primary) and which value wins
+ * for each property (the golden record), instead of leaving it to HubSpot's
+ * default merge precedence:
+ * - oldest: value or record with the oldest createdate
+ * - most_recent: most recently modified record with a non-empty value
+ * - most_complete: record with the most non-empty properties
+ * - primary: the primary's value, falling back to the most recent one
+ */
+
+export type PrimaryRule = 'oldest' | 'most_complete' | 'recommended';
+export type ValueRule = 'most_recent' | 'most_complete' | 'oldest' | 'primary';
+
+export interface SurvivorshipOptions {
+  properties: string[];
+  default_rule: ValueRule;
+  property_rules: Record<string, ValueRule>;
+}
+
+export interface SurvivorshipRecord {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface GoldenValue {
+  value: string;
+  source: string; // ID of the record the value comes from
+  rule: ValueRule;
+}
+
+const hasValue = (value: string | null | undefined): value is string =>
+  value !== null && value !== undefined && value.trim() !== '';
+
+// Unparseable or missing dates sort last
+const timestamp = (value: string | null | undefined): number => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? Infinity : time;
+};
+
+const createdTime = (record: SurvivorshipRecord): number =>
+  timestamp(record.properties.createdate ?? record.createdAt);
+
+const modifiedTime = (record: SurvivorshipRecord): number =>
+  -timestamp(
+    record.properties.lastmodifieddate ?? record.properties.hs_lastmodifieddate ?? record.updatedAt
+  );
+
+const completeness = (record: SurvivorshipRecord): number =>
+  -Object.values(record.properties).filter(hasValue).length;
+
+/**
+ * First record by a sort key (lowest wins); earlier records win ties
+ */
+function first<T extends SurvivorshipRecord>(
+  records: T[],
+  key: (record: T) => number
+): T | undefined {
+  let best: T | undefined;
+  for (const record of records) {
+    if (!best || key(record) < key(best)) best = record;
+  }
+  return best;
+}
+
+/**
+ * Choose the record that survives the merge
+ *
+ * @param records Records in preference order for ties (e.g. most recommended first)
+ * @param rule Primary rule; 'recommended' keeps the first record
+ */
+export function selectPrimary<T extends SurvivorshipRecord>(records: T[], rule: PrimaryRule): T {
+  switch (rule) {
+    case 'oldest':
+      return first(records, createdTime)!;
+    case 'most_complete':
+      return first(records, completeness)!;
+    case 'recommended':
+      return records[0];
+  }
+}
+
+/**
+ * Build the golden record: the winning value of each property across the records
+ * Properties without a value on any record are left out
+ *
+ * @example
+ * buildGoldenRecord(primary, [primary, secondary], {
+ *   properties: ['jobtitle'], default_rule: 'most_recent', property_rules: {},
+ * })
+ * // { jobtitle: { value: 'VP Sales', source: '2', rule: 'most_recent' } }
+ */
+export function buildGoldenRecord(
+  primary: SurvivorshipRecord,
+  records: SurvivorshipRecord[],
+  options: SurvivorshipOptions
+): Record<string, GoldenValue> {
+  const golden: Record<string, GoldenValue> = {};
+
+  for (const property of options.properties) {
+    const rule = options.property_rules[property] ?? options.default_rule;
+    const withValue = records.filter((r) => hasValue(r.properties[property]));
+
+    let winner: SurvivorshipRecord | undefined;
+    switch (rule) {
+      case 'most_recent':
+        winner = first(withValue, modifiedTime);
+        break;
+      case 'most_complete':
+        winner = first(withValue, completeness);
+        break;
+      case 'oldest':
+        winner = first(withValue, createdTime);
+        break;
+      case 'primary':
+        winner = withValue.includes(primary) ? primary : first(withValue, modifiedTime);
+        break;
+    }
+
+    if (winner) {
+      golden[property] = { value: winner.properties[property]!, source: winner.id, rule };
+    }
+  }
+
+  return golden;
+}
@@ -340,6 +340,19 @@ describe('ActionPlan', () => {
       expect(filteredData.summary.total_actions).toBe(2);
       expect(filteredData.summary.by_confidence.high).toBe(2);
     });
+
+    it('should drop actions whose dependencies were filtered out', () => {
+      const planData = createTestPlan();
+      const [first, second, third] = planData.actions;
+      // first depends on the medium-confidence action, second on first
+      first.dependencies = [third.id];
+      second.dependencies = [first.id];
+
+      const filtered = new ActionPlan(planData).createFiltered({ confidence: ['high'] });
+
+      expect(filtered.getData().actions).toHaveLength(0);
+      expect(filtered.validateDependencies().valid).toBe(true);
+    });
   });
 
   describe('filename parsing', () => {
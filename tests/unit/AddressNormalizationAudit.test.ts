@@ -0,0 +1,164 @@
+/**
+ * AddressNormalizationAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AddressNormalizationAudit } from '../../src/audits/AddressNormalizationAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Company, Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const record = <T extends Contact | Company>(id: string, properties: Record<string, string>): T =>
+  ({
+    id,
+    properties,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    archived: false,
+  }) as T;
+
+describe('AddressNormalizationAudit', () => {
+  let audit: AddressNormalizationAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (contacts: Contact[], companies: Company[] = []): Promise<AuditIssue[]> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new AddressNormalizationAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+      getCompanies: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should standardize country spellings on contacts and companies', async () => {
+    const issues = await runWith(
+      [
+        record('1', { country: 'USA' }),
+        record('2', { country: 'U.S.' }),
+        record('3', { country: 'United States' }),
+        record('4', { country: 'Deutschland' }),
+        record('5', { country: 'Atlantis' }),
+      ],
+      [record('acme', { country: 'gbr' })]
+    );
+
+    expect(issues.map((i) => [i.objectType, i.objectId, i.type, i.suggestedValue])).toEqual([
+      ['contact', '1', 'nonstandard_country', 'United States'],
+      ['contact', '2', 'nonstandard_country', 'United States'],
+      ['contact', '4', 'nonstandard_country', 'Germany'],
+      ['company', 'acme', 'nonstandard_country', 'United Kingdom'],
+    ]);
+  });
+
+  it('should standardize states and flag states outside the country', async () => {
+    context.config.address_normalization.country_format = 'alpha2';
+
+    const issues = await runWith([
+      record('1', { country: 'US', state: 'Calif.' }),
+      record('2', { country: 'US', state: 'new york' }),
+      record('3', { country: 'CA', state: 'Québec' }),
+      record('4', { country: 'US', state: 'Ontario' }),
+      record('5', { country: 'US', state: 'TX' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue])).toEqual([
+      ['1', 'nonstandard_state', 'CA'],
+      ['2', 'nonstandard_state', 'NY'],
+      ['3', 'nonstandard_state', 'QC'],
+      ['4', 'invalid_state', undefined],
+    ]);
+  });
+
+  it('should reformat postal codes and flag invalid ones', async () => {
+    const issues = await runWith([
+      record('us', { country: 'United States', zip: '2134' }),
+      record('ca', { country: 'Canada', zip: 'k1a0b1' }),
+      record('gb', { country: 'United Kingdom', zip: 'SW1A 1AA' }),
+      record('de', { country: 'Germany', zip: '1234' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue, i.confidence])).toEqual([
+      ['us', 'postal_code_format', '02134', 'medium'],
+      ['ca', 'postal_code_format', 'K1A 0B1', 'high'],
+      ['de', 'invalid_postal_code', undefined, 'high'],
+    ]);
+  });
+
+  it('should use the default country for records without one', async () => {
+    const contacts = [record('1', { state: 'Calif', zip: '94105' })];
+
+    expect(await runWith(contacts)).toHaveLength(0);
+
+    context.config.address_normalization.default_country = 'US';
+    expect((await runWith(contacts)).map((i) => [i.type, i.suggestedValue])).toEqual([
+      ['nonstandard_state', 'CA'],
+    ]);
+  });
+
+  it('should flag cities in a different state', async () => {
+    const issues = await runWith([
+      record('1', { country: 'United States', city: 'Boston', state: 'NY' }),
+      record('2', { country: 'United States', city: 'San Francisco', state: 'CA' }),
+      record('3', { country: 'Australia', city: 'Sydney', state: 'VIC' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue])).toEqual([
+      ['1', 'city_state_mismatch', { city: 'Boston', state: 'MA' }],
+      ['3', 'city_state_mismatch', { city: 'Sydney', state: 'NSW' }],
+    ]);
+  });
+
+  it('should plan updates for fixes and reviews for contradictions', async () => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [
+        record('1', { country: 'usa', state: 'Texas', zip: '73301', city: 'Austin' }),
+        record('2', { country: 'United States', state: 'NY', city: 'Chicago' }),
+      ];
+    });
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield [];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.change.property, a.change.new_value])).toEqual([
+      ['update_property', 'country', 'United States'],
+      ['update_property', 'state', 'TX'],
+      ['flag_for_review', 'state', { city: 'Chicago', state: 'IL' }],
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * AssociationIntegrityAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AssociationIntegrityAudit } from '../../src/audits/AssociationIntegrityAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, ProgressReporter } from '../../src/types/audit.js';
+import type { Association, Company, Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const record = <T extends Contact | Company>(id: string, properties: Record<string, string>): T =>
+  ({
+    id,
+    properties,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    archived: false,
+  }) as T;
+
+describe('AssociationIntegrityAudit', () => {
+  let audit: AssociationIntegrityAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+  let associations: Record<string, Association[]>;
+
+  beforeEach(() => {
+    audit = new AssociationIntegrityAudit();
+
+    mockHubSpot = {
+      getCompanies: jest.fn(),
+      getContacts: jest.fn(),
+      getAssociations: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    const companies = [
+      record<Company>('acme', { name: 'Acme', domain: 'acme.com' }),
+      record<Company>('globex', { name: 'Globex', domain: 'https://www.globex.com' }),
+      record<Company>('shared-1', { name: 'Initech East', domain: 'initech.com' }),
+      record<Company>('shared-2', { name: 'Initech West', domain: 'initech.com' }),
+    ];
+    const contacts = [
+      record<Contact>('orphan', { email: 'jane@acme.com' }),
+      record<Contact>('ambiguous', { email: 'bob@initech.com' }),
+      record<Contact>('personal', { email: 'someone@gmail.com' }),
+      record<Contact>('matched', { email: 'amy@eu.globex.com' }),
+      record<Contact>('moved', { email: 'sam@acme.com' }),
+    ];
+    associations = {
+      matched: [{ id: 'globex', type: 'contact_to_company' }],
+      moved: [{ id: 'globex', type: 'contact_to_company' }],
+    };
+
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    mockHubSpot.getAssociations.mockImplementation(
+      async (_from: string, id: string) => associations[id] ?? []
+    );
+  });
+
+  it('should skip contacts with personal email domains', async () => {
+    await audit.run(context);
+
+    const checked = mockHubSpot.getAssociations.mock.calls.map((call) => call[1]);
+    expect(checked).not.toContain('personal');
+    expect(checked).toHaveLength(4);
+  });
+
+  it('should suggest an association when exactly one company matches', async () => {
+    const result = await audit.run(context);
+
+    const unassociated = result.issues.filter((i) => i.type === 'unassociated_contact');
+    expect(unassociated.map((i) => i.objectId)).toEqual(['orphan']);
+    expect(unassociated[0].suggestedValue).toEqual({ type: 'company', id: 'acme' });
+  });
+
+  it('should flag associations whose company domain conflicts with the email', async () => {
+    const result = await audit.run(context);
+
+    const mismatched = result.issues.filter((i) => i.type === 'association_domain_mismatch');
+    expect(mismatched.map((i) => i.objectId)).toEqual(['moved']);
+    expect(mismatched[0].suggestedValue).toEqual({ type: 'company', id: 'acme' });
+  });
+
+  it('should respect max_contacts_to_check', async () => {
+    context.config.association_integrity.max_contacts_to_check = 2;
+
+    const result = await audit.run(context);
+
+    expect(mockHubSpot.getAssociations).toHaveBeenCalledTimes(2);
+    expect(result.summary.total_records).toBe(2);
+  });
+
+  it('should produce create_association actions for unassociated contacts', async () => {
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    const creates = plan.actions.filter((a) => a.type === 'create_association');
+    expect(creates).toHaveLength(1);
+    expect(creates[0].target).toMatchObject({ object_type: 'contact', object_id: 'orphan' });
+    expect(creates[0].change.new_value).toEqual({ type: 'company', id: 'acme' });
+    expect(creates[0].change.property).toBeUndefined();
+
+    const reviews = plan.actions.filter((a) => a.type === 'flag_for_review');
+    expect(reviews.map((a) => a.target.object_id)).toEqual(['moved']);
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for ClaudeService
  */
 
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { ClaudeService } from '../../src/services/ClaudeService.js';
 import type {
   ClaudeConfig,
@@ -333,6 +333,116 @@ describe('ClaudeService', () => {
     });
   });
 
+  describe('analyzeWithExploration', () => {
+    const tools = [
+      { name: 'get_contact_engagement', input_schema: { type: 'object' as const } },
+      { name: 'report_merge_investigation', input_schema: { type: 'object' as const } },
+    ];
+    const usage = { input_tokens: 100, output_tokens: 50 };
+    const toolUse = (id: string, name: string, input: Record<string, unknown>) => ({
+      content: [{ type: 'tool_use', id, name, input }],
+      usage,
+    });
+
+    it('should run data tool handlers until Claude reports a result', async () => {
+      const create = jest
+        .fn<(...args: any[]) => Promise<unknown>>()
+        .mockResolvedValueOnce(toolUse('t1', 'get_contact_engagement', { contact_id: '1' }))
+        .mockResolvedValueOnce(toolUse('t2', 'report_merge_investigation', { decision: 'merge' }));
+      (service as any).client.messages.create = create;
+      const handler = jest.fn(async () => ({ emails: 3 }));
+
+      const result = await service.analyzeWithExploration(
+        'Investigate',
+        { mode: 'exploratory', tools, toolHandlers: { get_contact_engagement: handler } },
+        'test'
+      );
+
+      expect(result).toEqual({ decision: 'merge' });
+      expect(handler).toHaveBeenCalledWith({ contact_id: '1' });
+      expect(create.mock.calls[1][0].messages[2].content).toEqual([
+        { type: 'tool_result', tool_use_id: 't1', content: '{"emails":3}' },
+      ]);
+      expect(service.getUsageStats().totalRequests).toBe(2);
+    });
+
+    it('should report handler errors to Claude and ask for a report at the call limit', async () => {
+      service = new ClaudeService({ ...config, maxToolCalls: 1 });
+      const create = jest
+        .fn<(...args: any[]) => Promise<unknown>>()
+        .mockResolvedValueOnce(toolUse('t1', 'get_contact_engagement', { contact_id: '9' }))
+        .mockResolvedValueOnce(toolUse('t2', 'report_merge_investigation', { decision: 'keep' }));
+      (service as any).client.messages.create = create;
+
+      await service.analyzeWithExploration(
+        'Investigate',
+        {
+          mode: 'exploratory',
+          tools,
+          toolHandlers: {
+            get_contact_engagement: async () => {
+              throw new Error('Contact "9" is not under investigation');
+            },
+          },
+        },
+        'test'
+      );
+
+      const followUp = create.mock.calls[1][0];
+      expect(followUp.messages[2].content[0]).toMatchObject({
+        is_error: true,
+        content: 'Contact "9" is not under investigation',
+      });
+      expect(followUp.messages[2].content[1]).toMatchObject({ type: 'text' });
+      expect(followUp.tools.map((t: { name: string }) => t.name)).toEqual([
+        'get_contact_engagement',
+        'report_merge_investigation',
+      ]);
+    });
+
+    it('should stop when Claude keeps calling data tools after the call limit', async () => {
+      service = new ClaudeService({ ...config, maxToolCalls: 1 });
+      const create = jest
+        .fn<(...args: any[]) => Promise<unknown>>()
+        .mockResolvedValueOnce(toolUse('t1', 'get_contact_engagement', { contact_id: '1' }))
+        .mockResolvedValueOnce(toolUse('t2', 'get_contact_engagement', { contact_id: '2' }));
+      (service as any).client.messages.create = create;
+      const handler = jest.fn(async () => ({ emails: 3 }));
+
+      await expect(
+        service.analyzeWithExploration(
+          'Investigate',
+          { mode: 'exploratory', tools, toolHandlers: { get_contact_engagement: handler } },
+          'test'
+        )
+      ).rejects.toThrow('Tool call limit (1) reached without a report');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the budget before each follow-up request', async () => {
+      // The first request alone costs about $0.001
+      service = new ClaudeService({ ...config, monthlyBudgetUsd: 0.001 });
+      const create = jest
+        .fn<(...args: any[]) => Promise<unknown>>()
+        .mockResolvedValueOnce(toolUse('t1', 'get_contact_engagement', { contact_id: '1' }))
+        .mockResolvedValueOnce(toolUse('t2', 'report_merge_investigation', { decision: 'merge' }));
+      (service as any).client.messages.create = create;
+
+      await expect(
+        service.analyzeWithExploration(
+          'Investigate',
+          {
+            mode: 'exploratory',
+            tools,
+            toolHandlers: { get_contact_engagement: async () => ({ emails: 3 }) },
+          },
+          'test'
+        )
+      ).rejects.toThrow('Monthly budget exceeded');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('resetUsageStats', () => {
     it('should reset all stats to zero', () => {
       // Stats start at zero, but let's verify reset still works
@@ -0,0 +1,143 @@
+/**
+ * CompanyDataQualityAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { CompanyDataQualityAudit } from '../../src/audits/CompanyDataQualityAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Company } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const company = (id: string, properties: Record<string, string | null>): Company => ({
+  id,
+  properties: { name: `Company ${id}`, domain: `${id}.com`, ...properties },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('CompanyDataQualityAudit', () => {
+  let audit: CompanyDataQualityAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (companies: Company[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new CompanyDataQualityAudit();
+
+    mockHubSpot = {
+      getCompanies: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      rules: { industry_mappings: { Tech: 'Technology', SaaS: 'Computer Software' } },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should flag missing required fields and derive domain from website', async () => {
+    const issues = await runWith([
+      company('a', { name: null }),
+      company('b', { domain: null, website: 'https://www.acme.com/contact' }),
+    ]);
+
+    const missing = issues.filter((i) => i.type === 'missing_required_field');
+    expect(missing.map((i) => [i.objectId, i.property])).toEqual([
+      ['a', 'name'],
+      ['b', 'domain'],
+    ]);
+    expect(missing[1].suggestedValue).toBe('acme.com');
+    expect(missing[1].confidence).toBe('high');
+  });
+
+  it('should normalize domains and flag invalid ones', async () => {
+    const issues = await runWith([
+      company('a', { domain: 'https://www.Acme.com/' }),
+      company('b', { domain: 'not a domain' }),
+      company('c', { domain: 'clean.com' }),
+    ]);
+
+    expect(issues.find((i) => i.type === 'unnormalized_domain')?.suggestedValue).toBe('acme.com');
+    expect(issues.find((i) => i.type === 'invalid_domain')?.objectId).toBe('b');
+    expect(issues.filter((i) => i.objectId === 'c')).toHaveLength(0);
+  });
+
+  it('should map industries through rules.industry_mappings', async () => {
+    const issues = await runWith([
+      company('a', { industry: 'tech' }),
+      company('b', { industry: 'Technology' }),
+      company('c', { industry: 'Retail' }),
+    ]);
+
+    const industry = issues.filter((i) => i.type === 'nonstandard_industry');
+    expect(industry).toHaveLength(1);
+    expect(industry[0].objectId).toBe('a');
+    expect(industry[0].suggestedValue).toBe('Technology');
+  });
+
+  it('should normalize formatted employee counts and revenue', async () => {
+    const issues = await runWith([
+      company('a', { numberofemployees: '1,200', annualrevenue: '$2.5M' }),
+    ]);
+
+    expect(issues.find((i) => i.type === 'unnormalized_employee_count')?.suggestedValue).toBe(1200);
+    expect(issues.find((i) => i.type === 'unnormalized_annual_revenue')?.suggestedValue).toBe(
+      2500000
+    );
+  });
+
+  it('should flag implausible employee counts and revenue', async () => {
+    const issues = await runWith([
+      company('a', { numberofemployees: '-5' }),
+      company('b', { numberofemployees: 'lots' }),
+      company('c', { numberofemployees: '3', annualrevenue: '500000000' }),
+    ]);
+
+    const employees = issues.filter((i) => i.type === 'implausible_employee_count');
+    expect(employees.map((i) => i.objectId)).toEqual(['a', 'b']);
+
+    const revenue = issues.filter((i) => i.type === 'implausible_annual_revenue');
+    expect(revenue.map((i) => i.objectId)).toEqual(['c']);
+  });
+
+  it('should produce update_property actions targeting companies', async () => {
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield [company('a', { domain: 'www.acme.com', industry: 'SaaS', numberofemployees: 'lots' })];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    const updates = plan.actions.filter((a) => a.type === 'update_property');
+    expect(updates.map((a) => a.change.property)).toEqual(['domain', 'industry']);
+    expect(updates.every((a) => a.target.object_type === 'company')).toBe(true);
+    expect(updates[0].target.display_name).toBe('Company "Company a"');
+
+    const reviews = plan.actions.filter((a) => a.type === 'flag_for_review');
+    expect(reviews.map((a) => a.change.property)).toEqual(['numberofemployees']);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * CompanyDuplicateAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { CompanyDuplicateAudit } from '../../src/audits/CompanyDuplicateAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Company } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const company = (id: string, properties: Record<string, string | null>): Company => ({
+  id,
+  properties: { createdate: '2024-01-01T00:00:00Z', ...properties },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('CompanyDuplicateAudit', () => {
+  let audit: CompanyDuplicateAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (companies: Company[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  const merges = (issues: AuditIssue[]): AuditIssue[] =>
+    issues.filter((i) => i.type === 'duplicate_company');
+
+  beforeEach(() => {
+    audit = new CompanyDuplicateAudit();
+
+    mockHubSpot = {
+      getCompanies: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      duplicate_detection: { companies: { survivorship_properties: [] } },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should match companies on the normalized domain or website', async () => {
+    const issues = await runWith([
+      company('a', { name: 'Acme Inc.', domain: 'acme.com' }),
+      company('b', { name: 'ACME', domain: 'https://www.Acme.com/about' }),
+      company('c', { name: 'Acme Corporation', domain: null, website: 'http://acme.com' }),
+      company('d', { name: 'Globex', domain: 'globex.com' }),
+    ]);
+
+    const found = merges(issues);
+    expect(found.map((i) => [i.objectId, i.suggestedValue])).toEqual([
+      ['a', 'b'],
+      ['a', 'c'],
+    ]);
+    expect(found.every((i) => i.confidence === 'high')).toBe(true);
+    expect(found[0].currentValue).toMatchObject({
+      match_type: 'domain',
+      match_factors: { domain_match: true, name_match: true, phone_match: false },
+    });
+  });
+
+  it('should only flag a shared domain with different names for review', async () => {
+    const issues = await runWith([
+      company('a', { name: 'Acme Rockets', domain: 'acme.com', phone: '555-123-4567' }),
+      company('b', { name: 'Roadrunner Traps', domain: 'acme.com', phone: '555-123-4567' }),
+    ]);
+
+    expect(merges(issues)).toHaveLength(0);
+    const [review] = issues;
+    expect(review.type).toBe('duplicate_company_needs_review');
+    expect(review.confidence).toBe('medium');
+    expect(review.reasoning).toContain('separate divisions');
+
+    const plan = await new PlanBuilder().buildPlan(await audit.run(context));
+    expect(plan.actions.map((a) => [a.type, a.change.property])).toEqual([
+      ['flag_for_review', undefined],
+    ]);
+
+    context.config.duplicate_detection.companies.domain_match = false;
+    expect(
+      merges(
+        await runWith([company('a', { domain: 'acme.com' }), company('b', { domain: 'acme.com' })])
+      )
+    ).toHaveLength(0);
+  });
+
+  it('should never match on social, hosting or personal email domains', async () => {
+    const issues = await runWith([
+      company('a', { name: 'Acme', domain: null, website: 'https://facebook.com/acme' }),
+      company('b', { name: 'Acme', domain: null, website: 'www.facebook.com/acme-shop' }),
+      company('c', { name: 'Globex', domain: 'globex.wixsite.com' }),
+      company('d', { name: 'Initech', domain: 'globex.wixsite.com' }),
+      company('e', { name: 'Hooli', domain: 'gmail.com' }),
+      company('f', { name: 'Umbrella', domain: 'GMail.com' }),
+    ]);
+
+    expect(issues).toHaveLength(0);
+
+    // A real domain still counts when the website is a social profile
+    const found = merges(
+      await runWith([
+        company('a', { name: 'Acme', domain: 'linkedin.com', website: 'acme.com' }),
+        company('b', { name: 'Acme Inc.', domain: 'acme.com' }),
+      ])
+    );
+    expect(found.map((i) => i.currentValue)).toEqual([
+      expect.objectContaining({ match_type: 'domain' }),
+    ]);
+  });
+
+  it('should match equivalent names only together with a shared phone number', async () => {
+    const issues = await runWith([
+      company('a', { name: 'Initech LLC', phone: '(555) 123-4567' }),
+      company('b', { name: 'Initech', phone: '+1 555 123 4567' }),
+      company('c', { name: 'Initech', phone: '555-987-6543' }),
+      company('d', { name: 'Umbrella', phone: '555-123-4567' }),
+    ]);
+
+    const found = merges(issues);
+    expect(found).toHaveLength(1);
+    expect(found[0].objectId).toBe('a');
+    expect(found[0].suggestedValue).toBe('b');
+    expect(found[0].confidence).toBe('high');
+    expect(found[0].currentValue).toMatchObject({ match_type: 'name_and_phone' });
+  });
+
+  it('should flag name and phone matches with different domains as medium confidence', async () => {
+    const issues = await runWith([
+      company('a', { name: 'Hooli', domain: 'hooli.com', phone: '030 1234567' }),
+      company('b', { name: 'Hooli', domain: 'hooli.de', phone: '+49 30 1234567' }),
+    ]);
+
+    // The default country is US, so the national German number does not normalize to +49
+    expect(merges(issues)).toHaveLength(0);
+
+    context.config.duplicate_detection.default_country_code = 'DE';
+    const found = merges(
+      await runWith([
+        company('a', { name: 'Hooli', domain: 'hooli.com', phone: '030 1234567' }),
+        company('b', { name: 'Hooli', domain: 'hooli.de', phone: '+49 30 1234567' }),
+      ])
+    );
+    expect(found).toHaveLength(1);
+    expect(found[0].confidence).toBe('medium');
+    expect(found[0].reasoning).toContain('additional domain');
+  });
+
+  it('should chain merges of a cluster into the oldest company', async () => {
+    context.config.duplicate_detection.companies.survivorship_properties = ['industry'];
+
+    const issues = await runWith([
+      company('c', { name: 'Acme', domain: 'acme.com', createdate: '2024-03-01T00:00:00Z' }),
+      company('b', {
+        name: 'Acme',
+        domain: 'acme.com',
+        createdate: '2024-02-01T00:00:00Z',
+        industry: 'Technology',
+      }),
+      company('a', { name: 'Acme', domain: 'acme.com', createdate: '2024-01-01T00:00:00Z' }),
+    ]);
+
+    const [update, ...chain] = issues;
+    expect(update.type).toBe('golden_record_value');
+    expect(update.objectType).toBe('company');
+    expect(update.objectId).toBe('a');
+    expect(update.suggestedValue).toBe('Technology');
+
+    expect(chain.map((i) => [i.objectId, i.suggestedValue])).toEqual([
+      ['a', 'c'],
+      ['a', 'b'],
+    ]);
+    expect(chain[0].dependsOn).toEqual([update.id]);
+    expect(chain[1].dependsOn).toEqual([chain[0].id]);
+    expect(chain[0].currentValue).toMatchObject({ cluster: ['a', 'c', 'b'] });
+  });
+
+  it('should produce irreversible merge_companies actions', async () => {
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield [
+        company('a', { name: 'Acme', domain: 'acme.com' }),
+        company('b', { name: 'Acme', domain: 'acme.com' }),
+      ];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions).toHaveLength(1);
+    const [merge] = plan.actions;
+    expect(merge.type).toBe('merge_companies');
+    expect(merge.target).toMatchObject({ object_type: 'company', object_id: 'a' });
+    expect(merge.target.display_name).toBe('Company "Acme"');
+    expect(merge.change.new_value).toBe('b');
+    expect(merge.change.property).toBeUndefined();
+    expect(merge.reversible).toBe(false);
+    expect(merge.requires_confirmation).toBe(true);
+  });
+});
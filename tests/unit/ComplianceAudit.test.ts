@@ -0,0 +1,153 @@
+/**
+ * ComplianceAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ComplianceAudit } from '../../src/audits/ComplianceAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const daysAgo = (days: number): string => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties: { email: `${id}@example.com`, createdate: daysAgo(30), ...properties },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('ComplianceAudit', () => {
+  let audit: ComplianceAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (contacts: Contact[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new ComplianceAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should request the configured consent property', async () => {
+    context.config.compliance.consent_date_property = 'gdpr_consent_at';
+
+    await runWith([]);
+
+    expect(mockHubSpot.getContacts).toHaveBeenCalledWith(
+      expect.arrayContaining(['hs_legal_basis', 'gdpr_consent_at'])
+    );
+  });
+
+  it('should demote marketing contacts with no legal basis', async () => {
+    const issues = await runWith([
+      contact('no-basis', { hs_marketable_status: 'true' }),
+      contact('has-basis', {
+        hs_marketable_status: 'true',
+        hs_legal_basis: 'legitimate_interest_prospect',
+      }),
+      contact('not-marketing', {}),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue])).toEqual([
+      ['no-basis', 'marketing_contact_without_legal_basis', false],
+    ]);
+  });
+
+  it('should flag contacts in GDPR countries without a consent date', async () => {
+    const issues = await runWith([
+      contact('de', { country: 'DE', hs_legal_basis: 'consent_with_notice' }),
+      contact('nl', {
+        country: 'The Netherlands',
+        hs_marketable_status: 'true',
+        hs_legal_basis: 'consent_with_notice',
+      }),
+      contact('consented', { country: 'France', consent_date: daysAgo(10) }),
+      contact('contract', { country: 'Spain', hs_legal_basis: 'performance_of_contract' }),
+      contact('us', { country: 'United States' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type])).toEqual([
+      ['de', 'gdpr_contact_without_consent'],
+      ['nl', 'gdpr_marketing_contact_without_consent'],
+    ]);
+  });
+
+  it('should honour additional GDPR countries', async () => {
+    context.config.compliance.additional_gdpr_countries = ['Switzerland'];
+
+    const issues = await runWith([contact('ch', { country: 'switzerland' })]);
+
+    expect(issues.map((i) => i.type)).toEqual(['gdpr_contact_without_consent']);
+  });
+
+  it('should plan deletion for inactive contacts past retention', async () => {
+    const issues = await runWith([
+      contact('expired', { createdate: daysAgo(1200) }),
+      contact('active', { createdate: daysAgo(1200), notes_last_contacted: daysAgo(20) }),
+      contact('customer', { createdate: daysAgo(1200), lifecyclestage: 'customer' }),
+      contact('reader', { createdate: daysAgo(1200), hs_email_last_open_date: daysAgo(7) }),
+      contact('lead', { createdate: daysAgo(1200), recent_conversion_date: daysAgo(90) }),
+      contact('subscriber', {
+        createdate: daysAgo(1200),
+        hs_marketable_status: 'true',
+        hs_legal_basis: 'freely_given_consent',
+      }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type])).toEqual([
+      ['expired', 'retention_period_exceeded'],
+    ]);
+  });
+
+  it('should map findings to deletion, demotion and review actions', async () => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [
+        contact('expired', { createdate: daysAgo(1200) }),
+        contact('no-basis', { hs_marketable_status: 'true' }),
+        contact('de', { country: 'Germany' }),
+      ];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.requires_confirmation])).toEqual([
+      ['delete_contact', true],
+      ['set_marketing_status', true],
+      ['flag_for_review', false],
+    ]);
+  });
+});
@@ -8,6 +8,7 @@ import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { DataQualityAudit } from '../../src/audits/DataQualityAudit.js';
 import type { AuditContext, ProgressReporter } from '../../src/types/audit.js';
 import type { Config } from '../../src/config/schema.js';
+import { defaultConfig } from '../../src/config/defaults.js';
 import type { Contact } from '../../src/types/hubspot.js';
 import type { HubSpotService } from '../../src/services/HubSpotService.js';
 import type { ClaudeService } from '../../src/services/ClaudeService.js';
@@ -67,6 +68,7 @@ const mockConfig: Config = {
     analyze_semantic_anomalies: true,
     analyze_cross_record_patterns: false,
   },
+  duplicate_detection: defaultConfig.duplicate_detection,
   settings: {
     batch_size: 100,
     rate_limit: {
@@ -321,10 +323,94 @@ describe('DataQualityAudit', () => {
 
       const phoneIssues = result.issues.filter((i) => i.type === 'invalid_phone_format');
       expect(phoneIssues.length).toBe(1);
+      expect(phoneIssues[0].description).toBe(
+        'Phone is not a valid US number (3 digits, expected 10)'
+      );
       expect(phoneIssues[0].severity).toBe('medium');
       expect(phoneIssues[0].detection_method).toBe('rule');
     });
 
+    it('should propose rewriting valid phone numbers to E.164', async () => {
+      const contacts = [
+        createMockContact({
+          properties: {
+            email: 'test@example.com',
+            firstname: 'John',
+            lastname: 'Doe',
+            phone: '(555) 123-4567 x12',
+            mobilephone: '+44 (0)7911 123456',
+          },
+        }),
+        createMockContact({
+          id: 'test-contact-2',
+          properties: {
+            email: 'jane@example.com',
+            firstname: 'Jane',
+            lastname: 'Doe',
+            phone: '+15551234567',
+          },
+        }),
+      ];
+
+      mockHubSpot.getContacts.mockImplementation(async function* () {
+        yield contacts;
+      });
+      mockClaude.getUsageStats.mockReturnValue({ estimatedCostUsd: 0 } as any);
+
+      const result = await audit.run(context);
+
+      const rewrites = result.issues.filter((i) => i.type === 'nonstandard_phone_format');
+      expect(
+        rewrites.map((i) => [i.objectId, i.property, i.suggestedValue, i.confidence, i.severity])
+      ).toEqual([
+        ['test-contact-1', 'phone', '+15551234567 ext. 12', 'medium', 'low'],
+        ['test-contact-1', 'mobilephone', '+447911123456', 'high', 'low'],
+      ]);
+      expect(rewrites[0].description).toBe('Phone is not in E.164 format (read as a US number)');
+      expect(rewrites[1].description).toBe('Mobile phone is not in E.164 format (mobile number)');
+    });
+
+    it('should validate phone numbers against the default country', async () => {
+      const contacts = [
+        createMockContact({
+          properties: {
+            email: 'test@example.com',
+            firstname: 'John',
+            lastname: 'Doe',
+            phone: '030 1234567',
+          },
+        }),
+      ];
+
+      mockHubSpot.getContacts.mockImplementation(async function* () {
+        yield contacts;
+      });
+      mockClaude.getUsageStats.mockReturnValue({ estimatedCostUsd: 0 } as any);
+
+      // Valid in Germany, so it is not reported as invalid under the US default
+      const usResult = await audit.run(context);
+      expect(usResult.issues.filter((i) => i.property === 'phone')).toHaveLength(0);
+
+      contacts[0].properties.mobilephone = '020 7946 0958';
+      contacts[0].properties.phone = '123';
+      const ukResult = await audit.run(context);
+      expect(ukResult.issues.map((i) => [i.property, i.type])).toEqual([
+        ['phone', 'invalid_phone_format'],
+      ]);
+      contacts[0].properties.mobilephone = null;
+      contacts[0].properties.phone = '030 1234567';
+
+      context.config = {
+        ...mockConfig,
+        duplicate_detection: { ...mockConfig.duplicate_detection, default_country_code: 'DE' },
+      };
+      const deResult = await audit.run(context);
+      expect(deResult.issues.filter((i) => i.type === 'invalid_phone_format')).toHaveLength(0);
+      expect(deResult.issues.find((i) => i.type === 'nonstandard_phone_format')?.suggestedValue).toBe(
+        '+49301234567'
+      );
+    });
+
     it('should detect obvious typos (whitespace issues)', async () => {
       const contacts = [
         createMockContact({
@@ -364,6 +450,111 @@ describe('DataQualityAudit', () => {
     });
   });
 
+  describe('name formatting', () => {
+    const nameIssues = async (
+      properties: Record<string, string>
+    ): Promise<Array<[string | undefined, string, unknown]>> => {
+      mockHubSpot.getContacts.mockImplementation(async function* () {
+        yield [createMockContact({ properties: { email: 'test@example.com', ...properties } })];
+      });
+      mockClaude.getUsageStats.mockReturnValue({ estimatedCostUsd: 0 } as any);
+
+      const result = await audit.run(context);
+      return result.issues
+        .filter((i) => i.property === 'firstname' || i.property === 'lastname')
+        .map((i) => [i.property, i.type, i.suggestedValue]);
+    };
+
+    it('should fix names typed in a single case, keeping particles and prefixes', async () => {
+      expect(await nameIssues({ firstname: 'JANE', lastname: 'mcdonald' })).toEqual([
+        ['firstname', 'name_casing', 'Jane'],
+        ['lastname', 'name_casing', 'McDonald'],
+      ]);
+      expect(await nameIssues({ firstname: 'SEAN', lastname: "o'neil" })).toEqual([
+        ['firstname', 'name_casing', 'Sean'],
+        ['lastname', 'name_casing', "O'Neil"],
+      ]);
+      expect(await nameIssues({ firstname: 'Anna', lastname: 'VAN DER BERG' })).toEqual([
+        ['lastname', 'name_casing', 'van der Berg'],
+      ]);
+      expect(await nameIssues({ firstname: 'JP', lastname: 'DeVito' })).toEqual([]);
+    });
+
+    it('should remove honorifics from first names', async () => {
+      expect(await nameIssues({ firstname: 'Dr. Jane', lastname: 'Smith' })).toEqual([
+        ['firstname', 'honorific_in_name', 'Jane'],
+      ]);
+      expect(await nameIssues({ firstname: 'MRS  MARY', lastname: 'Smith' })).toEqual([
+        ['firstname', 'honorific_in_name', 'Mary'],
+      ]);
+      expect(await nameIssues({ firstname: 'Drew', lastname: 'Smith' })).toEqual([]);
+    });
+
+    it('should split full names stored in firstname', async () => {
+      expect(await nameIssues({ firstname: 'Jane Smith' })).toEqual([
+        ['firstname', 'full_name_in_firstname', 'Jane'],
+        ['lastname', 'full_name_in_firstname', 'Smith'],
+      ]);
+      expect(await nameIssues({ firstname: 'jan van der berg', lastname: '' })).toEqual([
+        ['firstname', 'name_casing', 'Jan'],
+        ['lastname', 'name_casing', 'van der Berg'],
+      ]);
+    });
+
+    it('should flag emails and strip digits or emoji from names', async () => {
+      expect(await nameIssues({ firstname: 'jane@acme.com', lastname: 'Smith2 🚀' })).toEqual([
+        ['firstname', 'email_in_name', undefined],
+        ['lastname', 'invalid_name_characters', 'Smith'],
+      ]);
+    });
+  });
+
+  describe('ambiguous name typos', () => {
+    const reasoningPrompt = async (
+      fieldAlgorithms: Partial<Config['duplicate_detection']['field_algorithms']> = {},
+      lastnames = ['Smith', 'Smith', 'Smith', 'Smiht', 'Jones']
+    ): Promise<string | undefined> => {
+      mockHubSpot.getContacts.mockImplementation(async function* () {
+        yield lastnames.map((lastname, i) =>
+          createMockContact({
+            id: `contact-${i}`,
+            properties: { email: `contact${i}@example.com`, firstname: 'Anna', lastname },
+          })
+        );
+      });
+      mockClaude.getUsageStats.mockReturnValue({ estimatedCostUsd: 0 } as any);
+      mockClaude.analyzeWithReasoning.mockResolvedValue({ issues: [], thinking_summary: '' } as never);
+      context.config = {
+        ...mockConfig,
+        data_quality: { ...mockConfig.data_quality, min_ambiguous_cases_for_ai: 1 },
+        duplicate_detection: {
+          ...mockConfig.duplicate_detection,
+          field_algorithms: { ...mockConfig.duplicate_detection.field_algorithms, ...fieldAlgorithms },
+        },
+      };
+
+      await audit.run(context);
+      return mockClaude.analyzeWithReasoning.mock.calls[0]?.[0] as string | undefined;
+    };
+
+    it('should send near misses of a common spelling to AI using the field algorithm', async () => {
+      const prompt = await reasoningPrompt();
+
+      expect(prompt).toContain('Contact ID: contact-3');
+      expect(prompt).toContain('lastname "Smiht" may be a misspelling of the more common "Smith"');
+      expect(prompt).not.toContain('Contact ID: contact-4');
+    });
+
+    it('should not flag two spellings that are both common', async () => {
+      const lastnames = ['Smith', 'Smith', 'Smith', 'Smyth', 'Smyth', 'Smyth'];
+      expect(await reasoningPrompt({}, lastnames)).toBeUndefined();
+    });
+
+    it('should not flag spelling variants when the field uses exact matching', async () => {
+      expect(await reasoningPrompt({ lastname: 'exact' })).toBeUndefined();
+    });
+  });
+
   describe('detection method tracking', () => {
     it('should properly track detection methods in summary', async () => {
       const contacts = [
@@ -0,0 +1,211 @@
+/**
+ * DealHygieneAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { DealHygieneAudit } from '../../src/audits/DealHygieneAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Deal, PropertyDefinition } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const daysAgo = (days: number): string => new Date(Date.now() - days * DAY_MS).toISOString();
+const daysAhead = (days: number): string => new Date(Date.now() + days * DAY_MS).toISOString();
+
+const deal = (id: string, properties: Record<string, string | null>): Deal => ({
+  id,
+  properties: {
+    dealname: `Deal ${id}`,
+    pipeline: 'default',
+    dealstage: 'qualified',
+    amount: '1000',
+    closedate: daysAhead(30),
+    ...properties,
+  },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+const timeInStage = (name: string): PropertyDefinition => ({
+  name,
+  label: name,
+  type: 'number',
+  fieldType: 'calculation_equation',
+  groupName: 'dealinformation',
+  description: '',
+  calculated: true,
+});
+
+describe('DealHygieneAudit', () => {
+  let audit: DealHygieneAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (deals: Deal[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getDeals.mockImplementation(async function* () {
+      yield deals;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new DealHygieneAudit();
+
+    mockHubSpot = {
+      getDealProperties: jest.fn(),
+      getDeals: jest.fn(),
+      getAssociations: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      deal_hygiene: { check_associations: false },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    mockHubSpot.getDealProperties.mockResolvedValue([
+      timeInStage('hs_time_in_qualified'),
+      timeInStage('hs_time_in_closedwon'),
+    ]);
+    mockHubSpot.getAssociations.mockResolvedValue([{ id: '1', type: 'deal_to_contact' }]);
+  });
+
+  it('should request stage timing properties', async () => {
+    await runWith([deal('1', {})]);
+
+    expect(mockHubSpot.getDeals).toHaveBeenCalledWith(
+      expect.arrayContaining(['hs_date_entered_qualified', 'hs_time_in_closedwon'])
+    );
+  });
+
+  it('should flag open deals with a past close date', async () => {
+    const issues = await runWith([
+      deal('overdue', { closedate: daysAgo(10) }),
+      deal('won', { closedate: daysAgo(10), dealstage: 'closedwon', hs_is_closed: 'true' }),
+      deal('future', {}),
+    ]);
+
+    const pastClose = issues.filter((i) => i.type === 'past_close_date');
+    expect(pastClose.map((i) => i.objectId)).toEqual(['overdue']);
+  });
+
+  it('should flag closed-won deals missing amount or close date', async () => {
+    const wonDate = daysAgo(5);
+    const issues = await runWith([
+      deal('won', {
+        dealstage: 'closedwon',
+        hs_is_closed_won: 'true',
+        amount: null,
+        closedate: null,
+        hs_date_entered_closedwon: wonDate,
+      }),
+    ]);
+
+    expect(issues.map((i) => i.type)).toEqual([
+      'closed_won_missing_amount',
+      'closed_won_missing_close_date',
+    ]);
+    expect(issues[1].suggestedValue).toBe(wonDate);
+
+    const [unknown] = await runWith([
+      deal('won', { dealstage: 'closedwon', hs_is_closed_won: 'true', closedate: null }),
+    ]);
+    expect(unknown.type).toBe('closed_won_unknown_close_date');
+    expect(unknown.suggestedValue).toBeUndefined();
+  });
+
+  it('should flag deals stuck far longer than the stage median', async () => {
+    // Five deals that moved on after ~10 days in "qualified"
+    const history = Array.from({ length: 5 }, (_, i) =>
+      deal(`h${i}`, {
+        dealstage: 'closedwon',
+        hs_is_closed: 'true',
+        hs_time_in_qualified: String(10 * DAY_MS),
+      })
+    );
+
+    const issues = await runWith([
+      ...history,
+      deal('stuck', { hs_date_entered_qualified: daysAgo(40) }),
+      deal('fresh', { hs_date_entered_qualified: daysAgo(5) }),
+    ]);
+
+    const stuck = issues.filter((i) => i.type === 'stuck_deal');
+    expect(stuck.map((i) => i.objectId)).toEqual(['stuck']);
+    expect(stuck[0].currentValue).toEqual({
+      dealstage: 'qualified',
+      days_in_stage: 40,
+      median_days: 10,
+    });
+  });
+
+  it('should flag amount outliers within a pipeline', async () => {
+    const deals = Array.from({ length: 12 }, (_, i) =>
+      deal(`d${i}`, { amount: String(1000 + i * 100) })
+    );
+    deals.push(deal('huge', { amount: '5000000' }));
+
+    const issues = await runWith(deals);
+
+    const outliers = issues.filter((i) => i.type === 'outlier_deal_amount');
+    expect(outliers.map((i) => i.objectId)).toEqual(['huge']);
+  });
+
+  it('should flag deals without contact or company associations', async () => {
+    context.config.deal_hygiene.check_associations = true;
+    mockHubSpot.getAssociations.mockImplementation(async (_from, id, to) =>
+      id === 'orphan' || to === 'companies' ? [] : [{ id: 'c1', type: 'deal_to_contact' }]
+    );
+
+    const issues = await runWith([deal('orphan', {}), deal('no-company', {})]);
+
+    const missing = issues.filter((i) => i.type === 'deal_missing_association');
+    expect(missing.map((i) => [i.objectId, i.severity])).toEqual([
+      ['orphan', 'high'],
+      ['no-company', 'medium'],
+    ]);
+  });
+
+  it('should only auto-fix close dates and flag the rest for review', async () => {
+    mockHubSpot.getDeals.mockImplementation(async function* () {
+      yield [
+        deal('won', {
+          dealstage: 'closedwon',
+          hs_is_closed_won: 'true',
+          closedate: null,
+          hs_date_entered_closedwon: daysAgo(5),
+        }),
+        deal('overdue', { closedate: daysAgo(10) }),
+        deal('won-undated', { dealstage: 'closedwon', hs_is_closed_won: 'true', closedate: null }),
+      ];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    const types = plan.actions.map((a) => [a.type, a.target.object_type, a.change.property]);
+    expect(types).toEqual([
+      ['update_property', 'deal', 'closedate'],
+      ['flag_for_review', 'deal', 'closedate'],
+      ['flag_for_review', 'deal', 'closedate'],
+    ]);
+  });
+});
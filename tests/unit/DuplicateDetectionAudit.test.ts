@@ -0,0 +1,567 @@
+/**
+ * DuplicateDetectionAudit Unit Tests (Epic 9)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { DuplicateDetectionAudit } from '../../src/audits/DuplicateDetectionAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditResult, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('DuplicateDetectionAudit', () => {
+  let audit: DuplicateDetectionAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let mockClaude: jest.Mocked<ClaudeService>;
+  let context: AuditContext;
+
+  const runWith = async (contacts: Contact[]): Promise<AuditResult> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    return await audit.run(context);
+  };
+
+  beforeEach(() => {
+    audit = new DuplicateDetectionAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+      getContactEngagement: jest.fn(),
+      getAssociations: jest.fn(),
+      getCompany: jest.fn(),
+    } as any;
+
+    mockClaude = {
+      analyzeWithReasoning: jest.fn(),
+      analyzeWithExploration: jest.fn(),
+      getUsageStats: jest.fn().mockReturnValue({ estimatedCostUsd: 0 } as any),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: mockClaude,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  describe('Tier 1: exact matching', () => {
+    it('should pair contacts with the same email and not review them again', async () => {
+      const result = await runWith([
+        contact('1', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('2', { email: 'JANE@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+      ]);
+
+      expect(result.issues.map((i) => [i.objectId, i.suggestedValue, i.detection_method])).toEqual([
+        ['1', '2', 'rule'],
+      ]);
+      expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+    });
+
+    it('should pair email aliases of the same mailbox with medium confidence', async () => {
+      context.config.duplicate_detection.enable_merge_investigation = false;
+      context.config.duplicate_detection.email_domain_aliases = { 'oldco.com': 'acme.com' };
+      const result = await runWith([
+        contact('1', { email: 'j.doe+news@gmail.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('2', { email: 'jdoe@googlemail.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('3', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Roe' }),
+        contact('4', { email: 'Jane@oldco.com', firstname: 'Jane', lastname: 'Roe' }),
+      ]);
+
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.suggestedValue, i.confidence, i.severity])).toEqual([
+        ['1', '2', 'medium', 'medium'],
+        ['3', '4', 'medium', 'medium'],
+      ]);
+      expect(merges[0].description).toBe(
+        'Potential duplicate: "Jane Doe" and "Jane Doe" have email aliases of the same mailbox, nearly identical names'
+      );
+      expect(merges[0].currentValue).toMatchObject({ match_type: 'canonical_email' });
+    });
+
+    it('should leave identical emails to the exact tier', async () => {
+      context.config.duplicate_detection.exact_email_match = false;
+      const result = await runWith([
+        contact('1', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('2', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+      ]);
+
+      expect(result.issues.filter((i) => i.type === 'duplicate')).toHaveLength(0);
+    });
+
+    it('should compare phones in E.164 form using the default country', async () => {
+      context.config.duplicate_detection.default_country_code = 'DE';
+      const result = await runWith([
+        contact('1', {
+          firstname: 'Anna',
+          lastname: 'Schmidt',
+          phone: '030 1234567',
+          company: 'Acme',
+        }),
+        contact('2', {
+          firstname: 'A.',
+          lastname: 'Schmidt',
+          phone: '+49 30 1234567',
+          company: 'Acme',
+        }),
+      ]);
+
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.suggestedValue, i.currentValue])).toEqual([
+        ['1', '2', expect.objectContaining({ match_type: 'exact_phone_company' })],
+      ]);
+    });
+  });
+
+  describe('clusters', () => {
+    it('should merge transitive duplicates into one primary as a chain', async () => {
+      const result = await runWith([
+        contact('1', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('2', {
+          email: 'jane@acme.com',
+          firstname: 'Jane',
+          lastname: 'Doe',
+          phone: '555-123-4567',
+          company: 'Acme',
+        }),
+        contact('3', {
+          email: 'jdoe@gmail.com',
+          firstname: 'J.',
+          lastname: 'Doe',
+          phone: '(555) 123-4567',
+          company: 'Acme',
+        }),
+      ]);
+
+      expect(result.issues.map((i) => [i.type, i.objectId, i.suggestedValue])).toEqual([
+        ['golden_record_value', '1', '555-123-4567'],
+        ['golden_record_value', '1', 'Acme'],
+        ['duplicate', '1', '2'],
+        ['duplicate', '1', '3'],
+      ]);
+      expect(result.issues[3].description).toBe(
+        'Potential duplicate: "J. Doe" and "Jane Doe" have same phone, same company, similar names; both merge into "Jane Doe"'
+      );
+      expect(result.issues[3].currentValue).toMatchObject({ cluster: ['1', '2', '3'] });
+
+      const plan = await new PlanBuilder().buildPlan(result);
+      const [phone, company, merge1, merge2] = plan.actions;
+      expect(phone.dependencies).toBeUndefined();
+      expect(merge1.dependencies).toEqual([phone.id, company.id]);
+      expect(merge2.dependencies).toEqual([merge1.id]);
+    });
+
+    it('should keep the oldest contact and copy the most recent values onto it', async () => {
+      const result = await runWith([
+        contact('1', {
+          email: 'jane@acme.com',
+          firstname: 'Jane',
+          lastname: 'Doe',
+          jobtitle: 'VP Sales',
+          createdate: '2023-05-01T00:00:00Z',
+          lastmodifieddate: '2024-09-01T00:00:00Z',
+        }),
+        contact('2', {
+          email: 'jane@acme.com',
+          firstname: 'Jane',
+          lastname: 'Doe',
+          jobtitle: 'Sales Manager',
+          company: 'Acme',
+          createdate: '2019-02-01T00:00:00Z',
+          lastmodifieddate: '2021-01-01T00:00:00Z',
+        }),
+      ]);
+
+      expect(result.issues.map((i) => [i.type, i.objectId, i.property, i.suggestedValue])).toEqual([
+        ['golden_record_value', '2', 'jobtitle', 'VP Sales'],
+        ['duplicate', '2', undefined, '1'],
+      ]);
+      expect(result.issues[0].reasoning).toBe(
+        `Survivorship rule "most recent" picks contact 1's jobtitle for the merged record`
+      );
+    });
+
+    it('should follow configured primary and per-property rules', async () => {
+      context.config.duplicate_detection.survivorship = {
+        primary: 'most_complete',
+        default_rule: 'primary',
+        property_rules: { jobtitle: 'oldest' },
+        properties: ['jobtitle', 'company'],
+      };
+
+      const result = await runWith([
+        contact('1', {
+          email: 'jane@acme.com',
+          jobtitle: 'Sales Manager',
+          createdate: '2019-02-01T00:00:00Z',
+        }),
+        contact('2', {
+          email: 'jane@acme.com',
+          jobtitle: 'VP Sales',
+          company: 'Acme',
+          createdate: '2023-05-01T00:00:00Z',
+        }),
+      ]);
+      const plan = await new PlanBuilder().buildPlan(result);
+
+      expect(plan.actions.map((a) => [a.type, a.target.object_id, a.change.new_value])).toEqual([
+        ['update_property', '2', 'Sales Manager'],
+        ['merge_contacts', '2', '1'],
+      ]);
+      expect(mockHubSpot.getContacts).toHaveBeenCalledWith(expect.arrayContaining(['jobtitle']));
+    });
+
+    it('should emit one merge per secondary when every pair matches', async () => {
+      const result = await runWith(
+        ['1', '2', '3', '4'].map((id) =>
+          contact(id, { email: 'info@acme.com', firstname: 'Jane', lastname: 'Doe' })
+        )
+      );
+
+      expect(result.issues.map((i) => [i.objectId, i.suggestedValue, i.dependsOn?.length])).toEqual(
+        [
+          ['1', '2', undefined],
+          ['1', '3', 1],
+          ['1', '4', 1],
+        ]
+      );
+      expect(result.summary.issues_found).toBe(3);
+    });
+  });
+
+  describe('Tier 2: fuzzy matching', () => {
+    it('should decide nickname matches backed by company and phone without AI', async () => {
+      const result = await runWith([
+        contact('1', {
+          firstname: 'Bob',
+          lastname: 'Smith',
+          email: 'bob@acme.com',
+          phone: '555-123-4567',
+          company: 'Acme',
+        }),
+        contact('2', {
+          firstname: 'Robert',
+          lastname: 'Smith',
+          email: 'robert.smith@acme.com',
+          mobilephone: '(555) 123-4567',
+          company: 'Acme Inc.',
+        }),
+      ]);
+
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.confidence, i.detection_method])).toEqual([
+        ['1', 'medium', 'rule'],
+      ]);
+      expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+    });
+
+    it('should send coworkers sharing only a company email domain to AI', async () => {
+      mockClaude.analyzeWithReasoning.mockResolvedValue({ duplicateSets: [], summary: 'None' });
+
+      const result = await runWith([
+        contact('1', {
+          firstname: 'Bob',
+          lastname: 'Smith',
+          email: 'bob@acme.com',
+          phone: 'n/a',
+          company: 'Acme',
+        }),
+        contact('2', {
+          firstname: 'Robert',
+          lastname: 'Smith',
+          email: 'robert.smith@acme.com',
+          phone: 'tbd',
+          company: 'Acme Inc.',
+        }),
+      ]);
+
+      expect(result.issues).toHaveLength(0);
+      const prompt = mockClaude.analyzeWithReasoning.mock.calls[0][0];
+      expect(prompt).toContain('same email domain (acme.com)');
+      expect(prompt).not.toContain('same phone');
+    });
+
+    it('should send ambiguous pairs to AI and keep only reported duplicates', async () => {
+      mockClaude.analyzeWithReasoning.mockResolvedValue({
+        duplicateSets: [
+          {
+            contactIds: ['1', '2'],
+            matchReason: '"Jon" is a common misspelling of "John" and both work at Acme',
+            confidence: 'medium',
+            primaryContactId: '2',
+          },
+          { contactIds: ['1', '9'], matchReason: 'Not a pair we sent', confidence: 'high' },
+        ],
+        summary: 'One duplicate',
+      });
+
+      const result = await runWith([
+        contact('1', { firstname: 'Jon', lastname: 'Smith', company: 'Acme' }),
+        contact('2', { firstname: 'John', lastname: 'Smith', email: 'john@gmail.com' }),
+        contact('3', { firstname: 'Jane', lastname: 'Smyth', company: 'Acme' }),
+      ]);
+
+      const prompt = mockClaude.analyzeWithReasoning.mock.calls[0][0];
+      expect(prompt).toContain('- 1: Jon Smith | Acme');
+      expect(prompt).toContain('- Signals: names 93% similar');
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.suggestedValue, i.detection_method])).toEqual([
+        ['2', '1', 'ai_reasoning'],
+      ]);
+      expect(merges[0].reasoning).toContain('common misspelling');
+    });
+
+    it('should not compare people at different companies', async () => {
+      const result = await runWith([
+        contact('1', { firstname: 'John', lastname: 'Smith', company: 'Acme' }),
+        contact('2', { firstname: 'Jon', lastname: 'Smith', company: 'Globex' }),
+      ]);
+
+      expect(result.issues).toHaveLength(0);
+      expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+    });
+
+    it('should match names across scripts and send spelling variants to AI', async () => {
+      mockClaude.analyzeWithReasoning.mockResolvedValue({ duplicateSets: [], summary: 'None' });
+
+      const result = await runWith([
+        contact('1', {
+          firstname: 'Anna',
+          lastname: 'Müller',
+          email: 'anna@acme.com',
+          company: 'Acme',
+        }),
+        contact('2', {
+          firstname: 'Anna',
+          lastname: 'Mueller',
+          email: 'a.mueller@acme.com',
+          company: 'Acme',
+        }),
+        contact('3', {
+          firstname: 'Сергей',
+          lastname: 'Иванов',
+          email: 'sergey@globex.com',
+          company: 'Globex',
+        }),
+        contact('4', {
+          firstname: 'Sergey',
+          lastname: 'Ivanov',
+          email: 's.ivanov@globex.com',
+          company: 'Globex',
+        }),
+      ]);
+
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.suggestedValue, i.detection_method])).toEqual([
+        ['3', '4', 'rule'],
+      ]);
+
+      // Müller / Mueller is similar but not near-identical, so Claude decides
+      const prompt = mockClaude.analyzeWithReasoning.mock.calls[0][0];
+      expect(prompt).toContain('- 1: Anna Müller | anna@acme.com | Acme');
+      expect(prompt).toContain('- 2: Anna Mueller | a.mueller@acme.com | Acme');
+    });
+
+    it('should limit AI review to max_fuzzy_pairs_for_ai and survive failures', async () => {
+      context.config.duplicate_detection.max_fuzzy_pairs_for_ai = 1;
+      mockClaude.analyzeWithReasoning.mockRejectedValue(new Error('API down'));
+
+      const result = await runWith([
+        contact('1', { firstname: 'Jon', lastname: 'Smith' }),
+        contact('2', { firstname: 'John', lastname: 'Smith' }),
+        contact('3', { firstname: 'Mary', lastname: 'Jones' }),
+        contact('4', { firstname: 'Marie', lastname: 'Jones' }),
+      ]);
+
+      expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(1);
+      expect(mockClaude.analyzeWithReasoning.mock.calls[0][0]).toContain('these 1 contact pairs');
+      expect(result.issues).toHaveLength(0);
+    });
+
+    it('should only compare contacts that share a blocking key', async () => {
+      context.config.duplicate_detection.blocking_keys = ['company_token'];
+
+      const result = await runWith([
+        contact('1', { firstname: 'Jon', lastname: 'Smith' }),
+        contact('2', { firstname: 'John', lastname: 'Smith' }),
+      ]);
+
+      expect(result.issues).toHaveLength(0);
+      expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+      expect(result.ai_insights.patterns_detected).toContain(
+        'Blocking compared 0 of 1 possible contact pairs (0 blocks)'
+      );
+    });
+
+    it('should skip fuzzy matching when disabled', async () => {
+      context.config.duplicate_detection.enable_fuzzy_matching = false;
+
+      const result = await runWith([
+        contact('1', { firstname: 'Jon', lastname: 'Smith' }),
+        contact('2', { firstname: 'John', lastname: 'Smith' }),
+      ]);
+
+      expect(result.issues).toHaveLength(0);
+      expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+    });
+
+    it('should plan confirmed merges that carry the AI reasoning', async () => {
+      mockClaude.analyzeWithReasoning.mockResolvedValue({
+        duplicateSets: [
+          {
+            contactIds: ['2', '1'],
+            matchReason: 'Same person; the second record has a typo in the first name',
+            confidence: 'high',
+          },
+        ],
+        summary: 'One duplicate',
+      });
+
+      const result = await runWith([
+        contact('1', { firstname: 'Jon', lastname: 'Smith' }),
+        contact('2', { firstname: 'John', lastname: 'Smith' }),
+      ]);
+      const plan = await new PlanBuilder().buildPlan(result);
+
+      expect(plan.actions.map((a) => [a.type, a.requires_confirmation])).toEqual([
+        ['merge_contacts', true],
+      ]);
+      expect(plan.actions[0].ai_reasoning?.primary_reason).toContain('typo in the first name');
+    });
+  });
+
+  describe('Tier 3: merge investigation', () => {
+    // Nickname match at the same company with a shared phone: a medium confidence rule match
+    const bobAndRobert = [
+      contact('1', {
+        firstname: 'Bob',
+        lastname: 'Smith',
+        email: 'bob@acme.com',
+        phone: '555-123-4567',
+        company: 'Acme',
+      }),
+      contact('2', {
+        firstname: 'Robert',
+        lastname: 'Smith',
+        email: 'robert.smith@acme.com',
+        mobilephone: '555-123-4567',
+        company: 'Acme Inc.',
+      }),
+    ];
+
+    it('should let Claude fetch data about the pair and record what it looked at', async () => {
+      mockHubSpot.getContactEngagement.mockResolvedValue({ emailsOpened: 12 } as any);
+      mockHubSpot.getAssociations.mockResolvedValue([{ id: 'c1', type: 'contact_to_company' }]);
+      mockHubSpot.getCompany.mockResolvedValue({ id: 'c1', properties: { name: 'Acme' } } as any);
+      mockClaude.analyzeWithExploration.mockImplementation(async (_prompt, config) => {
+        const handlers = config.toolHandlers!;
+        await handlers.get_contact_engagement({ contact_id: '2' });
+        await handlers.get_contact_associations({ contact_id: '1', object_type: 'companies' });
+        await handlers.get_company({ company_id: 'c1' });
+        return {
+          decision: 'merge',
+          primary_contact_id: '2',
+          confidence: 'high',
+          rationale: 'Both records belong to the same Acme employee',
+          risk_assessment: 'low',
+          data_to_preserve: ['phone on contact 1'],
+        };
+      });
+
+      const result = await runWith(bobAndRobert);
+
+      const merges = result.issues.filter((i) => i.type === 'duplicate');
+      expect(merges.map((i) => [i.objectId, i.suggestedValue, i.detection_method])).toEqual([
+        ['2', '1', 'ai_exploratory'],
+      ]);
+      expect(merges[0].reasoning).toBe(
+        'Both records belong to the same Acme employee (merge risk: low)'
+      );
+      expect(merges[0].tool_trace?.map((t) => t.tool)).toEqual([
+        'get_contact_engagement',
+        'get_contact_associations',
+        'get_company',
+      ]);
+      expect(mockHubSpot.getAssociations).toHaveBeenCalledWith('contacts', '1', 'companies');
+
+      const plan = await new PlanBuilder().buildPlan(result);
+      const merge = plan.actions.find((a) => a.type === 'merge_contacts');
+      expect(merge?.ai_reasoning?.tool_trace).toHaveLength(3);
+    });
+
+    it('should only fetch the contacts and companies under investigation', async () => {
+      let errors: string[] = [];
+      mockClaude.analyzeWithExploration.mockImplementation(async (_prompt, config) => {
+        const handlers = config.toolHandlers!;
+        errors = await Promise.all([
+          handlers.get_contact_engagement({ contact_id: '99' }).catch((e: Error) => e.message),
+          handlers.get_company({ company_id: 'c1' }).catch((e: Error) => e.message),
+        ]);
+        return { decision: 'keep_separate', primary_contact_id: '1', confidence: 'high' };
+      });
+
+      const result = await runWith(bobAndRobert);
+
+      expect(errors).toEqual([
+        'Contact "99" is not under investigation',
+        'Company "c1" is not associated with either contact',
+      ]);
+      expect(mockHubSpot.getContactEngagement).not.toHaveBeenCalled();
+      expect(result.issues).toHaveLength(0);
+    });
+
+    it('should flag pairs Claude cannot decide for human review', async () => {
+      mockClaude.analyzeWithExploration.mockResolvedValue({
+        decision: 'needs_human_review',
+        primary_contact_id: 'unknown',
+        confidence: 'low',
+        rationale: 'Same name and company, but different job titles and phone numbers',
+        risk_assessment: 'high',
+      });
+
+      const result = await runWith(bobAndRobert);
+      const plan = await new PlanBuilder().buildPlan(result);
+
+      expect(result.issues.map((i) => [i.type, i.objectId])).toEqual([
+        ['duplicate_needs_review', '1'],
+      ]);
+      expect(plan.actions.map((a) => a.type)).toEqual(['flag_for_review']);
+    });
+
+    it('should not investigate exact matches or when disabled', async () => {
+      const result = await runWith([
+        contact('1', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+        contact('2', { email: 'jane@acme.com', firstname: 'Jane', lastname: 'Doe' }),
+      ]);
+      expect(result.issues).toHaveLength(1);
+
+      context.config.duplicate_detection.enable_merge_investigation = false;
+      await runWith(bobAndRobert);
+
+      expect(mockClaude.analyzeWithExploration).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * EmailDeliverabilityAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EmailDeliverabilityAudit } from '../../src/audits/EmailDeliverabilityAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('EmailDeliverabilityAudit', () => {
+  let audit: EmailDeliverabilityAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+  let tempDir: string | undefined;
+
+  const runWith = async (contacts: Contact[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new EmailDeliverabilityAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  afterEach(async () => {
+    if (tempDir) await rm(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+  });
+
+  it('should suggest corrections for mistyped domains', async () => {
+    const issues = await runWith([
+      contact('1', { email: 'jane@gmial.com' }),
+      contact('2', { email: 'bob@acme.con' }),
+      contact('3', { email: 'amy@acme.com' }),
+    ]);
+
+    expect(issues.map((i) => [i.type, i.suggestedValue])).toEqual([
+      ['email_domain_typo', 'jane@gmail.com'],
+      ['email_domain_typo', 'bob@acme.com'],
+    ]);
+  });
+
+  it('should flag hard bounces, disposable domains and role accounts', async () => {
+    const issues = await runWith([
+      contact('bounced', {
+        email: 'old@acme.com',
+        hs_email_hard_bounce_reason_enum: 'MAILBOX_FULL',
+      }),
+      contact('disposable', { email: 'x@mailinator.com' }),
+      contact('role', { email: 'Sales+web@acme.com' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.severity])).toEqual([
+      ['bounced', 'hard_bounced_email', 'high'],
+      ['disposable', 'disposable_email', 'high'],
+      ['role', 'role_based_email', 'medium'],
+    ]);
+  });
+
+  it('should only flag free-mail addresses for B2B companies', async () => {
+    const contacts = [contact('1', { email: 'jane@gmail.com' })];
+
+    expect((await runWith(contacts)).map((i) => i.type)).toEqual(['free_mail_on_b2b']);
+
+    context.config.company.business_model = 'B2C';
+    expect(await runWith(contacts)).toHaveLength(0);
+  });
+
+  it('should merge a local disposable domains file with the bundled list', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'disposable-'));
+    const file = join(tempDir, 'domains.txt');
+    await writeFile(file, '# Local additions\nThrowaway.example\n\n');
+    context.config.email_deliverability.disposable_domains_file = file;
+
+    const issues = await runWith([
+      contact('1', { email: 'a@throwaway.example' }),
+      contact('2', { email: 'b@yopmail.com' }),
+    ]);
+
+    expect(issues.map((i) => i.type)).toEqual(['disposable_email', 'disposable_email']);
+  });
+
+  it('should fall back to the bundled list when the local file is missing', async () => {
+    context.config.email_deliverability.disposable_domains_file = '/nonexistent/domains.txt';
+
+    const issues = await runWith([contact('1', { email: 'b@yopmail.com' })]);
+
+    expect(issues.map((i) => i.type)).toEqual(['disposable_email']);
+  });
+
+  it('should only auto-fix typos and flag the rest for review', async () => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [contact('1', { email: 'jane@hotmial.com' }), contact('2', { email: 'info@acme.com' })];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.change.property, a.change.new_value])).toEqual([
+      ['update_property', 'email', 'jane@hotmail.com'],
+      ['flag_for_review', 'email', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * EnumerationDriftAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EnumerationDriftAudit } from '../../src/audits/EnumerationDriftAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact, PropertyDefinition, PropertyOption } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const options = (...entries: Array<[string, string, boolean?]>): PropertyOption[] =>
+  entries.map(([value, label, hidden = false], displayOrder) => ({
+    value,
+    label,
+    hidden,
+    displayOrder,
+  }));
+
+const property = (overrides: Partial<PropertyDefinition>): PropertyDefinition => ({
+  name: 'tier',
+  label: 'Tier',
+  type: 'enumeration',
+  fieldType: 'select',
+  groupName: 'contactinformation',
+  description: '',
+  options: options(
+    ['tier_1', 'Tier 1'],
+    ['tier_2', 'Tier 2'],
+    ['enterprise', 'Enterprise'],
+    ['legacy', 'Legacy', true]
+  ),
+  ...overrides,
+});
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('EnumerationDriftAudit', () => {
+  let audit: EnumerationDriftAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (
+    definitions: PropertyDefinition[],
+    contacts: Contact[]
+  ): Promise<AuditIssue[]> => {
+    mockHubSpot.getContactProperties.mockResolvedValue(definitions);
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new EnumerationDriftAudit();
+
+    mockHubSpot = {
+      getContactProperties: jest.fn(),
+      getCompanyProperties: jest.fn(),
+      getDealProperties: jest.fn(),
+      getContacts: jest.fn(),
+      getCompanies: jest.fn(),
+      getDeals: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      enumeration_drift: { object_types: ['contacts'] },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should map case, punctuation and label variants to the option value', async () => {
+    const issues = await runWith(
+      [property({})],
+      [
+        contact('1', { tier: 'Tier-1' }),
+        contact('2', { tier: 'TIER_2' }),
+        contact('3', { tier: 'Enterprise' }),
+        contact('4', { tier: 'tier_1' }),
+        contact('5', { tier: 'legacy' }),
+      ]
+    );
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue, i.confidence])).toEqual([
+      ['1', 'enum_value_variant', 'tier_1', 'high'],
+      ['2', 'enum_value_variant', 'tier_2', 'high'],
+      ['3', 'enum_value_variant', 'enterprise', 'high'],
+    ]);
+  });
+
+  it('should map invalid values to the closest option and report the rest', async () => {
+    const issues = await runWith(
+      [property({})],
+      [contact('1', { tier: 'Enterprize' }), contact('2', { tier: 'Startup' })]
+    );
+
+    expect(issues.map((i) => [i.objectId, i.type, i.suggestedValue, i.confidence])).toEqual([
+      ['1', 'invalid_enum_value', 'enterprise', 'medium'],
+      ['2', 'unmapped_enum_value', undefined, 'high'],
+    ]);
+    expect(issues[0].reasoning).toContain('90% similar');
+  });
+
+  it('should check each value of a multi-select property', async () => {
+    const issues = await runWith(
+      [property({ fieldType: 'checkbox' })],
+      [contact('1', { tier: 'tier_1;Enterprise' }), contact('2', { tier: 'tier_1;tier_2' })]
+    );
+
+    expect(issues.map((i) => [i.objectId, i.currentValue, i.suggestedValue])).toEqual([
+      ['1', 'tier_1;Enterprise', 'tier_1;enterprise'],
+    ]);
+  });
+
+  it('should report options that differ only in case or spelling', async () => {
+    const issues = await runWith(
+      [
+        property({
+          name: 'industry',
+          label: 'Industry',
+          options: options(['healthcare', 'Healthcare'], ['health_care', 'Health Care']),
+        }),
+      ],
+      []
+    );
+
+    expect(issues.map((i) => [i.type, i.objectType, i.objectId, i.currentValue])).toEqual([
+      ['similar_enum_options', 'property', 'contacts:industry', ['healthcare', 'health_care']],
+    ]);
+  });
+
+  it('should only check configured enumeration properties with options', async () => {
+    context.config.enumeration_drift.properties = ['tier', 'owner', 'score'];
+
+    const issues = await runWith(
+      [
+        property({}),
+        property({ name: 'region' }),
+        property({ name: 'owner', options: [] }),
+        property({ name: 'score', calculated: true }),
+        property({ name: 'notes', type: 'string', fieldType: 'text', options: undefined }),
+      ],
+      [contact('1', { tier: 'Tier 2', region: 'Tier 2', owner: '123', score: 'x' })]
+    );
+
+    expect(issues.map((i) => [i.property, i.suggestedValue])).toEqual([['tier', 'tier_2']]);
+    expect(mockHubSpot.getContacts).toHaveBeenCalledWith(['email', 'tier']);
+  });
+
+  it('should check companies and deals with their own definitions', async () => {
+    context.config.enumeration_drift.object_types = ['companies', 'deals'];
+    mockHubSpot.getCompanyProperties.mockResolvedValue([property({})]);
+    mockHubSpot.getDealProperties.mockResolvedValue([property({ name: 'deal_tier' })]);
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield [contact('acme', { name: 'Acme', tier: 'tier 1' })];
+    });
+    mockHubSpot.getDeals.mockImplementation(async function* () {
+      yield [contact('d1', { dealname: 'Renewal', deal_tier: 'ENTERPRISE' })];
+    });
+
+    const result = await audit.run(context);
+
+    expect(result.issues.map((i) => [i.objectType, i.displayName, i.suggestedValue])).toEqual([
+      ['company', 'Acme', 'tier_1'],
+      ['deal', 'Renewal', 'enterprise'],
+    ]);
+    expect(mockHubSpot.getContacts).not.toHaveBeenCalled();
+  });
+
+  it('should plan updates for mapped values and reviews for unmapped ones', async () => {
+    mockHubSpot.getContactProperties.mockResolvedValue([property({})]);
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [contact('1', { tier: 'Tier 1st' }), contact('2', { tier: 'Startup' })];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.change.property, a.change.new_value])).toEqual([
+      ['update_property', 'tier', 'tier_1'],
+      ['flag_for_review', 'tier', undefined],
+    ]);
+    expect(plan.actions[0].requires_confirmation).toBe(true);
+  });
+});
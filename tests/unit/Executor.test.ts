@@ -0,0 +1,188 @@
+/**
+ * Executor Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { Executor } from '../../src/actions/Executor.js';
+import { ActionPlan } from '../../src/actions/ActionPlan.js';
+import { RollbackManager } from '../../src/actions/RollbackManager.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { Action, ActionType } from '../../src/types/actions.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+
+const TEST_DIR = join(process.cwd(), 'test-output', 'executor');
+
+const action = (id: string, type: ActionType, dependencies?: string[]): Action => ({
+  id,
+  type,
+  confidence: 'high',
+  target: { object_type: 'contact', object_id: '1', display_name: 'Contact 1' },
+  change: {
+    description: `${type} ${id}`,
+    property: type === 'update_property' ? 'jobtitle' : undefined,
+    new_value: type === 'update_property' ? 'VP Sales' : '2',
+  },
+  reasoning: 'Test',
+  detection_method: 'rule',
+  reversible: type === 'update_property',
+  requires_confirmation: false,
+  dependencies,
+});
+
+const setStage = (id: string, stage: string): Action => ({
+  ...action(id, 'update_property'),
+  change: { description: `Set stage to ${stage}`, property: 'lifecyclestage', new_value: stage },
+});
+
+describe('Executor', () => {
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+
+  const config = configSchema.parse({
+    company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+  });
+
+  const executeActions = async (actions: Action[]) => {
+    const planFile = join(TEST_DIR, 'plan.json');
+    await new ActionPlan({
+      id: 'plan-1',
+      created_at: new Date(),
+      source_audit: 'duplicate-detection',
+      summary: {
+        total_actions: actions.length,
+        by_type: {},
+        by_confidence: { high: actions.length, medium: 0, low: 0 },
+        by_detection_method: { rule_based: actions.length, ai_reasoning: 0, ai_exploratory: 0 },
+        estimated_api_calls: actions.length,
+        estimated_ai_cost_usd: 0,
+      },
+      actions,
+    }).save(planFile);
+
+    const executor = new Executor(mockHubSpot, config, {
+      continueOnError: true,
+      reportsDir: TEST_DIR,
+    });
+    return executor.execute(planFile);
+  };
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    mockHubSpot = {
+      getContact: jest.fn().mockResolvedValue({ id: '1', properties: { jobtitle: null } } as never),
+      updateContact: jest.fn(),
+      mergeContacts: jest.fn(),
+    } as any;
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should skip actions whose dependency failed, transitively', async () => {
+    mockHubSpot.updateContact.mockRejectedValueOnce(new Error('API down'));
+
+    const record = await executeActions([
+      action('golden', 'update_property'),
+      action('merge-1', 'merge_contacts', ['golden']),
+      action('merge-2', 'merge_contacts', ['merge-1']),
+      action('other', 'update_property'),
+    ]);
+
+    expect(record.actions.map((a) => [a.action_id, a.status])).toEqual([
+      ['golden', 'failed'],
+      ['merge-1', 'skipped'],
+      ['merge-2', 'skipped'],
+      ['other', 'success'],
+    ]);
+    expect(record.actions[1].error).toContain('golden');
+    expect(record.actions[2].error).toContain('merge-1');
+    expect(mockHubSpot.mergeContacts).not.toHaveBeenCalled();
+    expect(record.results).toMatchObject({ successful: 1, failed: 1, skipped: 2 });
+    expect(record.status).toBe('partially_completed');
+  });
+
+  it('should skip actions whose dependency is not in the plan', async () => {
+    const record = await executeActions([
+      action('merge-1', 'merge_contacts', ['filtered-out']),
+      action('merge-2', 'merge_contacts', ['merge-1']),
+    ]);
+
+    expect(record.actions.map((a) => a.status)).toEqual(['skipped', 'skipped']);
+    expect(record.actions[0].error).toContain('filtered-out is not in the plan');
+    expect(mockHubSpot.mergeContacts).not.toHaveBeenCalled();
+  });
+
+  it('should run dependent actions once their dependencies succeed', async () => {
+    const record = await executeActions([
+      action('golden', 'update_property'),
+      action('merge-1', 'merge_contacts', ['golden']),
+    ]);
+
+    expect(record.actions.map((a) => a.status)).toEqual(['success', 'success']);
+    expect(mockHubSpot.mergeContacts).toHaveBeenCalledWith('1', '2');
+  });
+
+  describe('lifecycle stage updates', () => {
+    const stageWrites = () =>
+      mockHubSpot.updateContact.mock.calls.map(([, properties]) => properties.lifecyclestage);
+
+    it('should move a stage forward in a single write', async () => {
+      mockHubSpot.getContact.mockResolvedValue({
+        id: '1',
+        properties: { lifecyclestage: 'lead' },
+      } as never);
+
+      const record = await executeActions([setStage('forward', 'customer')]);
+
+      expect(record.actions[0].status).toBe('success');
+      expect(stageWrites()).toEqual(['customer']);
+    });
+
+    it('should clear the stage before moving it backwards', async () => {
+      mockHubSpot.getContact.mockResolvedValue({
+        id: '1',
+        properties: { lifecyclestage: 'customer' },
+      } as never);
+
+      const record = await executeActions([setStage('backward', 'lead')]);
+
+      expect(record.actions[0].status).toBe('success');
+      expect(stageWrites()).toEqual(['', 'lead']);
+    });
+
+    it('should restore the previous stage when the backward move is rejected', async () => {
+      mockHubSpot.getContact.mockResolvedValue({
+        id: '1',
+        properties: { lifecyclestage: 'customer' },
+      } as never);
+      mockHubSpot.updateContact
+        .mockResolvedValueOnce(undefined as never)
+        .mockRejectedValueOnce(new Error('Invalid stage') as never);
+
+      const record = await executeActions([setStage('backward', 'lead')]);
+
+      expect(record.actions[0].status).toBe('failed');
+      expect(stageWrites()).toEqual(['', 'lead', 'customer']);
+    });
+
+    it('should clear the stage before rolling back a forward move', async () => {
+      mockHubSpot.getContact.mockResolvedValue({
+        id: '1',
+        properties: { lifecyclestage: 'lead' },
+      } as never);
+      const record = await executeActions([setStage('forward', 'customer')]);
+
+      mockHubSpot.getContact.mockResolvedValue({
+        id: '1',
+        properties: { lifecyclestage: 'customer' },
+      } as never);
+      mockHubSpot.updateContact.mockClear();
+      const result = await new RollbackManager(mockHubSpot, config, TEST_DIR).rollback(record.id);
+
+      expect(result.rolled_back).toBe(1);
+      expect(stageWrites()).toEqual(['', 'lead']);
+    });
+  });
+});
@@ -4,6 +4,7 @@
  * Tests HubSpot service configuration, factory methods, and utility functions
  */
 
+import { jest } from '@jest/globals';
 import { HubSpotService } from '../../src/services/HubSpotService.js';
 import { RateLimiter } from '../../src/services/RateLimiter.js';
 import { CacheService } from '../../src/services/CacheService.js';
@@ -316,5 +317,33 @@ describe('HubSpotService', () => {
 
       customService.destroy();
     });
+
+    it('should serve owners from the cache', async () => {
+      const owners = [{ id: '1', type: 'PERSON', archived: false, teams: [] }];
+      cache.set('owners', owners);
+
+      await expect(service.getOwners()).resolves.toEqual(owners);
+    });
+  });
+
+  describe('lists', () => {
+    it('should page through all list memberships', async () => {
+      const getPage = jest
+        .fn()
+        .mockResolvedValueOnce({
+          results: [{ recordId: '1', membershipTimestamp: new Date('2024-01-01T00:00:00Z') }],
+          paging: { next: { after: 'page-2' } },
+        } as never)
+        .mockResolvedValueOnce({
+          results: [{ recordId: '2', membershipTimestamp: new Date('2024-01-02T00:00:00Z') }],
+        } as never);
+      (service as any).client.crm.lists.membershipsApi.getPage = getPage;
+
+      const memberships = await service.getListMembers('42');
+
+      expect(memberships.map((m) => m.recordId)).toEqual(['1', '2']);
+      expect(getPage).toHaveBeenNthCalledWith(1, '42', undefined, undefined, 250);
+      expect(getPage).toHaveBeenNthCalledWith(2, '42', 'page-2', undefined, 250);
+    });
   });
 });
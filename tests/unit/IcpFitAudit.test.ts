@@ -0,0 +1,203 @@
+/**
+ * IcpFitAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { IcpFitAudit } from '../../src/audits/IcpFitAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditResult, ProgressReporter } from '../../src/types/audit.js';
+import type { Company, Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const record = <T extends Contact | Company>(id: string, properties: Record<string, string>): T =>
+  ({
+    id,
+    properties,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    archived: false,
+  }) as T;
+
+describe('IcpFitAudit', () => {
+  let audit: IcpFitAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let mockClaude: jest.Mocked<ClaudeService>;
+  let context: AuditContext;
+
+  const runWith = async (companies: Company[], contacts: Contact[]): Promise<AuditResult> => {
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    return audit.run(context);
+  };
+
+  const scores = (result: AuditResult): Array<[string, unknown]> =>
+    result.issues
+      .filter((i) => i.type === 'icp_fit_score')
+      .map((i) => [i.objectId, i.suggestedValue]);
+
+  beforeEach(() => {
+    audit = new IcpFitAudit();
+
+    mockHubSpot = {
+      getCompanies: jest.fn(),
+      getContacts: jest.fn(),
+    } as any;
+
+    mockClaude = {
+      analyzeWithReasoning: jest.fn(),
+      getUsageStats: jest.fn().mockReturnValue({ estimatedCostUsd: 0 } as any),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      icp: {
+        industries: ['Computer Software'],
+        company_sizes: ['51-200', '201-1000'],
+        job_titles: ['VP Marketing'],
+      },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: mockClaude,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should return an empty result when no ICP is configured', async () => {
+    context.config.icp = { company_sizes: [], industries: [], job_titles: [] };
+
+    const result = await runWith([], []);
+
+    expect(result.issues).toHaveLength(0);
+    expect(mockHubSpot.getContacts).not.toHaveBeenCalled();
+  });
+
+  it('should score companies on industry and size', async () => {
+    const result = await runWith(
+      [
+        record('fit', { industry: 'COMPUTER_SOFTWARE', numberofemployees: '120' }),
+        record('too-small', { industry: 'Computer Software', numberofemployees: '10' }),
+        record('unknown', {}),
+        record('neither', { industry: 'Retail', numberofemployees: '5000' }),
+      ],
+      []
+    );
+
+    expect(scores(result)).toEqual([
+      ['fit', '100'],
+      ['too-small', '50'],
+      ['unknown', '50'],
+      ['neither', '0'],
+    ]);
+  });
+
+  it('should score contacts using their company firmographics and job title', async () => {
+    const result = await runWith(
+      [record('acme', { industry: 'Computer Software', numberofemployees: '300' })],
+      [
+        record('vp', { jobtitle: 'VP of Marketing', associatedcompanyid: 'acme' }),
+        record('engineer', { jobtitle: 'Software Engineer', associatedcompanyid: 'acme' }),
+        record('own-data', { jobtitle: 'Vice President, Marketing', industry: 'Retail' }),
+      ]
+    );
+
+    expect(scores(result).filter(([id]) => id !== 'acme')).toEqual([
+      ['vp', '100'],
+      ['engineer', '67'],
+      ['own-data', '50'],
+    ]);
+  });
+
+  it('should ask AI only about ambiguous job titles', async () => {
+    mockClaude.analyzeWithReasoning.mockResolvedValue({
+      titles: [
+        {
+          title: 'head of marketing',
+          fit: 'strong',
+          confidence: 'medium',
+          reasoning: 'Head of Marketing is the senior marketing role at smaller companies',
+        },
+      ],
+      summary: 'Reviewed 1 title',
+    });
+
+    const result = await runWith(
+      [],
+      [
+        record('head', { jobtitle: 'Head of Marketing' }),
+        record('vp', { jobtitle: 'VP Marketing' }),
+      ]
+    );
+
+    expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(1);
+    expect(mockClaude.analyzeWithReasoning.mock.calls[0][0]).toContain('- head of marketing');
+    const head = result.issues.find((i) => i.objectId === 'head' && i.type === 'icp_fit_score');
+    expect(head).toMatchObject({
+      suggestedValue: '67',
+      confidence: 'medium',
+      detection_method: 'ai_reasoning',
+    });
+  });
+
+  it('should score ambiguous titles as unknown when AI review fails', async () => {
+    mockClaude.analyzeWithReasoning.mockRejectedValue(new Error('API down'));
+
+    const result = await runWith([], [record('head', { jobtitle: 'Head of Marketing' })]);
+
+    expect(scores(result)).toEqual([['head', '50']]);
+    expect(result.summary.ai_cost_usd).toBe(0);
+  });
+
+  it('should skip records whose score and tier are already current', async () => {
+    const result = await runWith(
+      [
+        record('current', {
+          industry: 'Computer Software',
+          numberofemployees: '120',
+          icp_fit_score: '100',
+          icp_fit_tier: 'A',
+        }),
+        record('stale-tier', {
+          industry: 'Computer Software',
+          numberofemployees: '120',
+          icp_fit_score: '100',
+          icp_fit_tier: 'B',
+        }),
+      ],
+      []
+    );
+
+    expect(result.issues.map((i) => [i.objectId, i.type, i.suggestedValue])).toEqual([
+      ['stale-tier', 'icp_fit_tier', 'A'],
+    ]);
+    expect(result.ai_insights.summary).toContain('Tier A: 2 (100%)');
+  });
+
+  it('should plan property updates on the configured properties', async () => {
+    context.config.icp_fit.score_property = 'fit_score';
+    context.config.icp_fit.tier_property = '';
+
+    const result = await runWith([record('fit', { industry: 'Computer Software' })], []);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.change.property, a.change.new_value])).toEqual([
+      ['update_property', 'fit_score', '75'],
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * JobTitleAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { JobTitleAudit } from '../../src/audits/JobTitleAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+const valuesOf = (issues: AuditIssue[], type: string): Array<[string, unknown]> =>
+  issues.filter((i) => i.type === type).map((i) => [i.objectId, i.suggestedValue]);
+
+describe('JobTitleAudit', () => {
+  let audit: JobTitleAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let mockClaude: jest.Mocked<ClaudeService>;
+  let context: AuditContext;
+
+  const runWith = async (contacts: Contact[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new JobTitleAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+    } as any;
+
+    mockClaude = {
+      analyzeWithReasoning: jest.fn(),
+      getUsageStats: jest.fn().mockReturnValue({ estimatedCostUsd: 0 } as any),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: mockClaude,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should map title variants to the most common variant', async () => {
+    const issues = await runWith([
+      contact('1', { jobtitle: 'VP Sales' }),
+      contact('2', { jobtitle: 'VP Sales' }),
+      contact('3', { jobtitle: 'Vice-President, Sales' }),
+      contact('4', { jobtitle: 'vp of sales' }),
+      contact('5', { jobtitle: 'Sales VP' }),
+    ]);
+
+    expect(valuesOf(issues, 'nonstandard_job_title')).toEqual([
+      ['3', 'VP Sales'],
+      ['4', 'VP Sales'],
+      ['5', 'VP Sales'],
+    ]);
+  });
+
+  it('should derive seniority and department from the rule table', async () => {
+    const issues = await runWith([
+      contact('ceo', { jobtitle: 'CEO' }),
+      contact('engineer', { jobtitle: 'Senior Software Engineer' }),
+      contact('growth', { jobtitle: 'Head of Growth', job_seniority: 'manager' }),
+    ]);
+
+    expect(valuesOf(issues, 'job_seniority_mismatch')).toEqual([
+      ['ceo', 'c_level'],
+      ['engineer', 'senior'],
+      ['growth', 'director'],
+    ]);
+    expect(valuesOf(issues, 'job_department_mismatch')).toEqual([
+      ['ceo', 'executive'],
+      ['engineer', 'engineering'],
+      ['growth', 'marketing'],
+    ]);
+    expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+  });
+
+  it('should apply explicit title mappings first', async () => {
+    context.config.title_standardization.title_mappings = { 'vp sales': 'Vice President of Sales' };
+
+    const issues = await runWith([
+      contact('1', { jobtitle: 'VP Sales' }),
+      contact('2', { jobtitle: 'Vice President of Sales' }),
+    ]);
+
+    expect(valuesOf(issues, 'nonstandard_job_title')).toEqual([['1', 'Vice President of Sales']]);
+    expect(issues.find((i) => i.objectId === '1')?.reasoning).toContain('title_mappings');
+  });
+
+  it('should ask AI only about titles the rules cannot place', async () => {
+    mockClaude.analyzeWithReasoning.mockResolvedValue({
+      titles: [
+        {
+          title: 'consultant',
+          standardized_title: 'Consultant',
+          seniority: 'individual_contributor',
+          department: 'operations',
+          confidence: 'low',
+          reasoning: 'Generic consulting role; operations is the closest function',
+        },
+      ],
+      summary: 'Reviewed 1 title',
+    });
+
+    const issues = await runWith([
+      contact('1', { jobtitle: 'consultant' }),
+      contact('2', { jobtitle: 'Marketing Manager' }),
+    ]);
+
+    expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(1);
+    expect(mockClaude.analyzeWithReasoning.mock.calls[0][0]).toContain('- consultant');
+    expect(mockClaude.analyzeWithReasoning.mock.calls[0][0]).not.toContain('Marketing Manager');
+    expect(issues.filter((i) => i.objectId === '1').map((i) => i.detection_method)).toEqual([
+      'ai_reasoning',
+      'ai_reasoning',
+      'ai_reasoning',
+    ]);
+  });
+
+  it('should only fix casing for unplaced titles when AI review fails', async () => {
+    mockClaude.analyzeWithReasoning.mockRejectedValue(new Error('API down'));
+
+    const issues = await runWith([contact('1', { jobtitle: 'consultant' })]);
+
+    expect(issues.map((i) => [i.type, i.suggestedValue])).toEqual([
+      ['nonstandard_job_title', 'Consultant'],
+    ]);
+  });
+
+  it('should skip unconfigured and already standardized fields', async () => {
+    context.config.title_standardization.seniority_property = '';
+
+    const issues = await runWith([
+      contact('1', { jobtitle: 'Marketing Manager', job_department: 'marketing' }),
+    ]);
+
+    expect(issues).toHaveLength(0);
+    expect(mockHubSpot.getContacts).toHaveBeenCalledWith(['email', 'jobtitle', 'job_department']);
+  });
+
+  it('should plan property updates on the configured properties', async () => {
+    context.config.title_standardization.department_property = 'hs_role';
+
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [contact('1', { jobtitle: 'sr. product manager' })];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.change.property, a.change.new_value])).toEqual([
+      ['update_property', 'jobtitle', 'Sr. Product Manager'],
+      ['update_property', 'job_seniority', 'manager'],
+      ['update_property', 'hs_role', 'product'],
+    ]);
+  });
+});
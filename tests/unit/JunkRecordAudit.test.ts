@@ -0,0 +1,167 @@
+/**
+ * JunkRecordAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { JunkRecordAudit } from '../../src/audits/JunkRecordAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const contact = (id: string, properties: Record<string, string>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('JunkRecordAudit', () => {
+  let audit: JunkRecordAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  const runWith = async (contacts: Contact[]): Promise<AuditIssue[]> => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    const result = await audit.run(context);
+    return result.issues;
+  };
+
+  beforeEach(() => {
+    audit = new JunkRecordAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+  });
+
+  it('should score test records and leave real contacts alone', async () => {
+    const issues = await runWith([
+      contact('1', { firstname: 'Test', lastname: 'Test', email: 'asdf@asdf.com' }),
+      contact('2', { firstname: 'Jane', lastname: 'Doe', email: 'jane@example.com' }),
+      contact('3', { firstname: 'Sean', lastname: 'Doherty', email: 'sean@acme.io' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type, i.confidence])).toEqual([
+      ['1', 'junk_record', 'medium'],
+      ['2', 'possible_junk_record', 'low'],
+    ]);
+    expect(issues[0].reasoning).toBe(
+      'Junk score 70/100: contains test word "test"; first and last name are both "Test"'
+    );
+  });
+
+  it('should detect keyboard mash', async () => {
+    const issues = await runWith([
+      contact('1', { firstname: 'Sdfghj', lastname: 'Kwrtzp', email: 'sdfgh@mailinator.com' }),
+      contact('2', { firstname: 'Aaaaaa', lastname: 'Smith', email: 'a@acme.io' }),
+      contact('3', { firstname: 'Liberty', lastname: 'Hagerty', email: 'liberty@acme.io' }),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type])).toEqual([
+      ['1', 'possible_junk_record'],
+      ['2', 'possible_junk_record'],
+    ]);
+    expect(issues[0].reasoning).toContain('disposable email domain mailinator.com');
+  });
+
+  it('should flag sign-ups that differ only by a sequence number', async () => {
+    const issues = await runWith([
+      contact('1', { firstname: 'User1', email: 'user1@acme.io' }),
+      contact('2', { firstname: 'User2', email: 'user2@acme.io' }),
+      contact('3', { firstname: 'User3', email: 'user3@acme.io' }),
+      contact('4', { firstname: 'Jane', email: 'jane1@acme.io' }),
+    ]);
+
+    expect(issues.map((i) => i.objectId)).toEqual(['1', '2', '3']);
+    expect(issues[0].reasoning).toContain('one of 3 sign-ups matching user#@acme.io');
+  });
+
+  it('should flag bursts from one source but not offline imports', async () => {
+    const burst = (id: string, source: string): Contact =>
+      contact(id, {
+        email: `${id}@acme.io`,
+        firstname: 'Pat',
+        lastname: 'Pat',
+        createdate: '2024-03-01T10:00:00.250Z',
+        hs_analytics_source: source,
+      });
+
+    const issues = await runWith([
+      ...['a', 'b', 'c', 'd', 'e'].map((id) => burst(id, 'DIRECT_TRAFFIC')),
+      ...['f', 'g', 'h', 'i', 'j'].map((id) => burst(id, 'OFFLINE')),
+    ]);
+
+    expect(issues.map((i) => [i.objectId, i.type])).toEqual(
+      ['a', 'b', 'c', 'd', 'e'].map((id) => [id, 'possible_junk_record'])
+    );
+    expect(issues[0].reasoning).toContain(
+      'one of 5 contacts created at 2024-03-01T10:00:00.000Z from DIRECT_TRAFFIC'
+    );
+  });
+
+  it('should flag many contacts from one IP when configured', async () => {
+    context.config.junk_detection.ip_property = 'hs_ip';
+    context.config.junk_detection.max_records_per_ip = 2;
+
+    const issues = await runWith([
+      contact('1', { email: 'a@acme.io', hs_ip: '10.0.0.1', firstname: 'Al', lastname: 'Al' }),
+      contact('2', { email: 'b@acme.io', hs_ip: '10.0.0.1', firstname: 'Bo', lastname: 'Bo' }),
+      contact('3', { email: 'c@acme.io', hs_ip: '10.0.0.1', firstname: 'Cy', lastname: 'Cy' }),
+      contact('4', { email: 'd@acme.io', hs_ip: '10.0.0.2', firstname: 'Di', lastname: 'Di' }),
+    ]);
+
+    expect(issues.map((i) => i.objectId)).toEqual(['1', '2', '3']);
+    expect(mockHubSpot.getContacts).toHaveBeenCalledWith(expect.arrayContaining(['hs_ip']));
+  });
+
+  it('should never flag contacts in exempt lifecycle stages', async () => {
+    const issues = await runWith([
+      contact('1', { firstname: 'Test', lastname: 'Test', lifecyclestage: 'customer' }),
+      contact('2', { firstname: 'Test', lastname: 'Test', lifecyclestage: 'lead' }),
+    ]);
+
+    expect(issues.map((i) => i.objectId)).toEqual(['2']);
+  });
+
+  it('should plan confirmed deletions that list the signals', async () => {
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield [
+        contact('1', { firstname: 'Test', lastname: 'Test', email: 'test@test.com' }),
+        contact('2', { firstname: 'Fake', lastname: 'Lead', email: 'lead@acme.io' }),
+      ];
+    });
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.map((a) => [a.type, a.target.object_id, a.requires_confirmation])).toEqual([
+      ['delete_contact', '1', true],
+      ['flag_for_review', '2', true],
+    ]);
+    expect(plan.actions[0].reasoning).toContain('first and last name are both "Test"');
+  });
+});
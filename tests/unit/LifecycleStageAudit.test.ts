@@ -0,0 +1,242 @@
+/**
+ * LifecycleStageAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { LifecycleStageAudit } from '../../src/audits/LifecycleStageAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Association, Company, Contact, Deal } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const record = <T extends Contact | Company | Deal>(
+  id: string,
+  properties: Record<string, string>
+): T =>
+  ({
+    id,
+    properties,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    archived: false,
+  }) as T;
+
+const byContact = (issues: AuditIssue[]): Record<string, AuditIssue> =>
+  Object.fromEntries(issues.map((i) => [i.objectId, i]));
+
+describe('LifecycleStageAudit', () => {
+  let audit: LifecycleStageAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let mockClaude: jest.Mocked<ClaudeService>;
+  let context: AuditContext;
+  let contacts: Contact[];
+
+  beforeEach(() => {
+    audit = new LifecycleStageAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+      getDeals: jest.fn(),
+      getCompanies: jest.fn(),
+      getAssociations: jest.fn(),
+    } as any;
+
+    mockClaude = {
+      analyzeWithReasoning: jest.fn(),
+      getUsageStats: jest.fn(),
+    } as any;
+    mockClaude.getUsageStats.mockReturnValue({ estimatedCostUsd: 0 } as any);
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      lifecycle_stage: { enable_ai_review: false },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: mockClaude,
+      config,
+      progress: mockProgress,
+    };
+
+    contacts = [
+      record<Contact>('lead-open', { email: 'a@x.com', lifecyclestage: 'lead' }),
+      record<Contact>('customer-open', { email: 'b@x.com', lifecyclestage: 'customer' }),
+      record<Contact>('customer-none', { email: 'c@x.com', lifecyclestage: 'customer' }),
+      record<Contact>('regressed', {
+        email: 'd@x.com',
+        lifecyclestage: 'lead',
+        hs_lifecyclestage_customer_date: '2024-03-01T00:00:00Z',
+      }),
+      record<Contact>('behind', {
+        email: 'e@x.com',
+        lifecyclestage: 'subscriber',
+        associatedcompanyid: 'co-opp',
+      }),
+      record<Contact>('won', { email: 'f@x.com', lifecyclestage: 'customer' }),
+      record<Contact>('other', { email: 'g@x.com', lifecyclestage: 'other' }),
+    ];
+    const deals = [
+      record<Deal>('d-open', { dealstage: 'qualified' }),
+      record<Deal>('d-open-2', { dealstage: 'qualified' }),
+      record<Deal>('d-won', { dealstage: 'closedwon', hs_is_closed_won: 'true' }),
+    ];
+    const dealContacts: Record<string, Association[]> = {
+      'd-open': [{ id: 'lead-open', type: 'deal_to_contact' }],
+      'd-open-2': [{ id: 'customer-open', type: 'deal_to_contact' }],
+      'd-won': [{ id: 'won', type: 'deal_to_contact' }],
+    };
+
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    mockHubSpot.getDeals.mockImplementation(async function* () {
+      yield deals;
+    });
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield [
+        record<Company>('co-opp', { lifecyclestage: 'opportunity' }),
+        record<Company>('co-customer', { lifecyclestage: 'customer' }),
+      ];
+    });
+    mockHubSpot.getAssociations.mockImplementation(
+      async (_from: string, id: string) => dealContacts[id] ?? []
+    );
+  });
+
+  it('should apply rule-based checks and skip stages outside the funnel', async () => {
+    const result = await audit.run(context);
+    const issues = byContact(result.issues);
+
+    expect(result.summary.total_records).toBe(6);
+    expect(issues['lead-open']).toMatchObject({
+      type: 'lead_with_open_deal',
+      suggestedValue: 'opportunity',
+      confidence: 'high',
+      detection_method: 'rule',
+    });
+    expect(issues['customer-open']).toMatchObject({
+      type: 'customer_without_won_deal',
+      suggestedValue: 'opportunity',
+    });
+    expect(issues['behind']).toMatchObject({
+      type: 'lifecycle_behind_company',
+      suggestedValue: 'opportunity',
+    });
+    expect(issues['won']).toBeUndefined();
+  });
+
+  it('should keep unreviewed borderline cases at low confidence', async () => {
+    const result = await audit.run(context);
+    const issues = byContact(result.issues);
+
+    expect(mockClaude.analyzeWithReasoning).not.toHaveBeenCalled();
+    expect(issues['regressed']).toMatchObject({
+      type: 'lifecycle_regression',
+      suggestedValue: 'customer',
+      confidence: 'low',
+    });
+    // No deals at all leaves nothing to suggest without a review
+    expect(issues['customer-none']).toBeUndefined();
+    expect(result.ai_insights.patterns_detected).toContain(
+      '1 borderline contacts were not reviewed'
+    );
+  });
+
+  it('should not flag customers whose company is a customer', async () => {
+    contacts[2].properties.associatedcompanyid = 'co-customer';
+
+    const result = await audit.run(context);
+
+    expect(result.issues.map((i) => i.objectId)).not.toContain('customer-none');
+  });
+
+  it('should check won deals first and skip customer downgrades when one was missed', async () => {
+    context.config.lifecycle_stage.max_deal_association_checks = 1;
+
+    let result = await audit.run(context);
+    expect(mockHubSpot.getAssociations).toHaveBeenCalledTimes(1);
+    expect(mockHubSpot.getAssociations).toHaveBeenCalledWith('deals', 'd-won', 'contacts');
+    expect(byContact(result.issues)['won']).toBeUndefined();
+
+    // A failed lookup of the won deal leaves every customer in doubt
+    context.config.lifecycle_stage.max_deal_association_checks = 2000;
+    const lookup = mockHubSpot.getAssociations.getMockImplementation()!;
+    mockHubSpot.getAssociations.mockImplementation(async (from, id, to) => {
+      if (id === 'd-won') throw new Error('API down');
+      return lookup(from, id, to);
+    });
+    result = await audit.run(context);
+    expect(result.issues.filter((i) => i.type === 'customer_without_won_deal')).toHaveLength(0);
+    expect(byContact(result.issues)['lead-open']?.type).toBe('lead_with_open_deal');
+  });
+
+  it('should settle borderline cases with AI reasoning', async () => {
+    context.config.lifecycle_stage.enable_ai_review = true;
+    mockClaude.analyzeWithReasoning.mockResolvedValue({
+      decisions: [
+        {
+          contactId: 'customer-none',
+          recommendedStage: 'lead',
+          confidence: 'medium',
+          reasoning: 'No purchase on record',
+        },
+        {
+          contactId: 'regressed',
+          recommendedStage: 'keep',
+          confidence: 'high',
+          reasoning: 'Churned',
+        },
+        { contactId: 'unknown', recommendedStage: 'lead', confidence: 'high', reasoning: 'n/a' },
+      ],
+      summary: 'Reviewed 2 contacts',
+    });
+
+    const result = await audit.run(context);
+    const issues = byContact(result.issues);
+
+    expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(1);
+    expect(mockClaude.analyzeWithReasoning.mock.calls[0][2]).toBe('lifecycle-stage-reasoning');
+    expect(issues['customer-none']).toMatchObject({
+      type: 'customer_without_won_deal',
+      suggestedValue: 'lead',
+      confidence: 'medium',
+      detection_method: 'ai_reasoning',
+      reasoning: 'No purchase on record',
+    });
+    expect(issues['regressed']).toBeUndefined();
+    expect(issues['unknown']).toBeUndefined();
+  });
+
+  it('should fall back to rule suggestions when AI review fails', async () => {
+    context.config.lifecycle_stage.enable_ai_review = true;
+    mockClaude.analyzeWithReasoning.mockRejectedValue(new Error('API down'));
+
+    const result = await audit.run(context);
+    const issues = byContact(result.issues);
+
+    expect(issues['regressed']).toMatchObject({ confidence: 'low', detection_method: 'rule' });
+    expect(result.summary.ai_cost_usd).toBe(0);
+  });
+
+  it('should produce update_property actions on lifecyclestage', async () => {
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder({ includeLowConfidence: true }).buildPlan(result);
+
+    expect(plan.actions).toHaveLength(4);
+    for (const action of plan.actions) {
+      expect(action.type).toBe('update_property');
+      expect(action.change.property).toBe('lifecyclestage');
+    }
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * ListHygieneAudit Unit Tests (Epic 11)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ListHygieneAudit } from '../../src/audits/ListHygieneAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact, List, ListMembership } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const recent = new Date().toISOString();
+const longAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+
+const list = (overrides: Partial<List>): List => ({
+  listId: '1',
+  name: 'List',
+  dynamic: false,
+  size: 0,
+  createdAt: longAgo,
+  updatedAt: recent,
+  ...overrides,
+});
+
+const membership = (recordId: string): ListMembership => ({
+  recordId,
+  membershipTimestamp: new Date('2024-01-01T00:00:00Z'),
+});
+
+const contact = (id: string, properties: Record<string, string | null> = {}): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('ListHygieneAudit', () => {
+  let audit: ListHygieneAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  beforeEach(() => {
+    audit = new ListHygieneAudit();
+
+    mockHubSpot = {
+      getLists: jest.fn(),
+      getListMembers: jest.fn(),
+      batchReadContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    mockHubSpot.getLists.mockResolvedValue([
+      list({ listId: '1', name: 'Old Webinar', size: 0 }),
+      list({ listId: '2', name: 'Trade Show 2022', size: 2, updatedAt: longAgo }),
+      list({ listId: '3', name: 'Monthly Newsletter', size: 3 }),
+      list({ listId: '4', name: 'Newsletter Copy', size: 3, dynamic: true }),
+    ]);
+
+    const members: Record<string, ListMembership[]> = {
+      '2': [membership('a'), membership('x')],
+      '3': [membership('a'), membership('b'), membership('c')],
+      '4': [membership('a'), membership('b'), membership('c')],
+    };
+    mockHubSpot.getListMembers.mockImplementation(async (listId: string) => members[listId]);
+
+    mockHubSpot.batchReadContacts.mockResolvedValue([
+      contact('a', { email: 'a@example.com', hs_email_optout: 'true' }),
+      contact('b', { email: 'b@example.com', hs_email_hard_bounce_reason_enum: 'UNKNOWN_USER' }),
+      contact('c', { email: 'c@example.com' }),
+    ]);
+  });
+
+  it('should flag empty lists', async () => {
+    const result = await audit.run(context);
+
+    const empty = result.issues.filter((i) => i.type === 'empty_list');
+    expect(empty).toHaveLength(1);
+    expect(empty[0].objectId).toBe('1');
+    expect(empty[0].objectType).toBe('list');
+  });
+
+  it('should flag static lists not updated within the configured window', async () => {
+    const result = await audit.run(context);
+
+    const stale = result.issues.filter((i) => i.type === 'stale_static_list');
+    expect(stale.map((i) => i.objectId)).toEqual(['2']);
+  });
+
+  it('should detect lists that overlap above the threshold', async () => {
+    const result = await audit.run(context);
+
+    const overlapping = result.issues.filter((i) => i.type === 'overlapping_lists');
+    expect(overlapping).toHaveLength(1);
+    expect(overlapping[0].objectId).toBe('3');
+    expect(overlapping[0].suggestedValue).toBe('4');
+  });
+
+  it('should only check members of static marketing lists', async () => {
+    const result = await audit.run(context);
+
+    expect(mockHubSpot.batchReadContacts).toHaveBeenCalledWith(
+      ['a', 'b', 'c'],
+      expect.arrayContaining(['hs_email_optout'])
+    );
+
+    const unsubscribed = result.issues.filter((i) => i.type === 'unsubscribed_list_member');
+    const bounced = result.issues.filter((i) => i.type === 'bounced_list_member');
+    expect(unsubscribed.map((i) => i.suggestedValue)).toEqual(['a']);
+    expect(bounced.map((i) => i.suggestedValue)).toEqual(['b']);
+    expect(unsubscribed[0].objectId).toBe('3');
+  });
+
+  it('should plan removals for unreachable members and review for list findings', async () => {
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    const removals = plan.actions.filter((a) => a.type === 'remove_from_list');
+    expect(removals).toHaveLength(2);
+    expect(removals[0].target.object_id).toBe('3');
+    expect(removals[0].change.new_value).toBe('a');
+
+    const reviews = plan.actions.filter((a) => a.type === 'flag_for_review');
+    expect(reviews).toHaveLength(3);
+  });
+
+  it('should return an empty result when there are no lists', async () => {
+    mockHubSpot.getLists.mockResolvedValue([]);
+
+    const result = await audit.run(context);
+
+    expect(result.issues).toHaveLength(0);
+    expect(mockHubSpot.getListMembers).not.toHaveBeenCalled();
+  });
+});
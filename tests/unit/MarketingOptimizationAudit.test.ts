@@ -0,0 +1,134 @@
+/**
+ * MarketingOptimizationAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MarketingOptimizationAudit } from '../../src/audits/MarketingOptimizationAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { ActionPlan } from '../../src/actions/ActionPlan.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const recent = new Date().toISOString();
+const longAgo = new Date(Date.now() - 2 * 365 * 24 * 60 * 60 * 1000).toISOString();
+
+const contact = (id: string, properties: Record<string, string | null>): Contact => ({
+  id,
+  properties: { hs_marketable_status: 'true', ...properties },
+  createdAt: longAgo,
+  updatedAt: recent,
+  archived: false,
+});
+
+describe('MarketingOptimizationAudit', () => {
+  let audit: MarketingOptimizationAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  beforeEach(() => {
+    audit = new MarketingOptimizationAudit();
+
+    mockHubSpot = {
+      getContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      icp: { industries: ['Software'], job_titles: ['Director', 'VP'] },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    const contacts = [
+      contact('bounced', {
+        email: 'bounced@example.com',
+        hs_email_hard_bounce_reason_enum: 'UNKNOWN_USER',
+        hs_email_last_open_date: recent,
+      }),
+      contact('unengaged', { email: 'old@example.com', hs_email_last_open_date: longAgo }),
+      contact('never-engaged', { email: 'never@example.com' }),
+      contact('off-icp', {
+        email: 'student@example.com',
+        jobtitle: 'Student',
+        industry: 'Software',
+        hs_email_last_click_date: recent,
+      }),
+      contact('good', {
+        email: 'vp@example.com',
+        jobtitle: 'VP Engineering',
+        industry: 'software',
+        hs_analytics_last_visit_timestamp: recent,
+      }),
+      contact('non-marketing', { email: 'nm@example.com', hs_marketable_status: 'false' }),
+    ];
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+  });
+
+  it('should only audit marketing contacts', async () => {
+    const result = await audit.run(context);
+
+    expect(result.summary.total_records).toBe(5);
+    expect(result.issues.map((i) => i.objectId)).not.toContain('non-marketing');
+  });
+
+  it('should flag hard-bounced contacts even when recently engaged', async () => {
+    const result = await audit.run(context);
+
+    const bounced = result.issues.filter((i) => i.type === 'bounced_marketing_contact');
+    expect(bounced.map((i) => i.objectId)).toEqual(['bounced']);
+    expect(bounced[0].confidence).toBe('high');
+  });
+
+  it('should flag contacts without engagement in min_engagement_months', async () => {
+    const result = await audit.run(context);
+
+    const unengaged = result.issues.filter((i) => i.type === 'unengaged_marketing_contact');
+    expect(unengaged.map((i) => i.objectId)).toEqual(['unengaged', 'never-engaged']);
+  });
+
+  it('should flag contacts outside the ICP', async () => {
+    const result = await audit.run(context);
+
+    const nonIcp = result.issues.filter((i) => i.type === 'non_icp_marketing_contact');
+    expect(nonIcp.map((i) => i.objectId)).toEqual(['off-icp']);
+    expect(nonIcp[0].description).toContain('Student');
+  });
+
+  it('should skip the ICP check when no ICP is configured', async () => {
+    context.config.icp = { company_sizes: [], industries: [], job_titles: [] };
+
+    const result = await audit.run(context);
+
+    expect(result.issues.some((i) => i.type === 'non_icp_marketing_contact')).toBe(false);
+  });
+
+  it('should report freed marketing contacts in the plan summary', async () => {
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions.every((a) => a.type === 'set_marketing_status')).toBe(true);
+    expect(plan.actions.every((a) => a.change.new_value === false)).toBe(true);
+    expect(plan.summary.estimated_marketing_contacts_freed).toBe(4);
+
+    const filtered = new ActionPlan(plan).createFiltered({ confidence: ['high'] });
+    expect(filtered.getSummary().estimated_marketing_contacts_freed).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * OwnerAssignmentAudit Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { OwnerAssignmentAudit } from '../../src/audits/OwnerAssignmentAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, AuditIssue, ProgressReporter } from '../../src/types/audit.js';
+import type { Company, Contact, Deal, Owner } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const record = <T extends Contact | Company | Deal>(
+  id: string,
+  properties: Record<string, string>
+): T =>
+  ({
+    id,
+    properties,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    archived: false,
+  }) as T;
+
+const owner = (id: string, overrides: Partial<Owner> = {}): Owner => ({
+  id,
+  firstName: `Rep${id}`,
+  type: 'PERSON',
+  archived: false,
+  teams: [{ id: '10', name: 'Sales', primary: true }],
+  ...overrides,
+});
+
+const byObject = (issues: AuditIssue[]): Record<string, AuditIssue> =>
+  Object.fromEntries(issues.map((i) => [i.objectId, i]));
+
+describe('OwnerAssignmentAudit', () => {
+  let audit: OwnerAssignmentAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+  let companies: Company[];
+  let contacts: Contact[];
+  let deals: Deal[];
+
+  beforeEach(() => {
+    audit = new OwnerAssignmentAudit();
+
+    mockHubSpot = {
+      getOwners: jest.fn(),
+      getCompanies: jest.fn(),
+      getContacts: jest.fn(),
+      getDeals: jest.fn(),
+      getAssociations: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      owner_assignment: { object_types: ['contacts'] },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    mockHubSpot.getOwners.mockResolvedValue([
+      owner('1'),
+      owner('2'),
+      owner('3', { archived: true }),
+      owner('4', { teams: [{ id: '20', name: 'Support', primary: true }] }),
+      owner('5', { type: 'QUEUE' }),
+    ]);
+
+    companies = [
+      record<Company>('acme', { name: 'Acme', hubspot_owner_id: '2' }),
+      record<Company>('orphaned', { name: 'Orphaned Inc', hubspot_owner_id: '3' }),
+    ];
+    contacts = [
+      record<Contact>('at-acme', { email: 'a@acme.com', associatedcompanyid: 'acme' }),
+      record<Contact>('owned', { email: 'b@acme.com', hubspot_owner_id: '1' }),
+      record<Contact>('departed', { email: 'c@x.com', hubspot_owner_id: '3' }),
+      record<Contact>('deleted', { email: 'd@x.com', hubspot_owner_id: '99' }),
+    ];
+    deals = [];
+
+    mockHubSpot.getCompanies.mockImplementation(async function* () {
+      yield companies;
+    });
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+    mockHubSpot.getDeals.mockImplementation(async function* () {
+      yield deals;
+    });
+    mockHubSpot.getAssociations.mockResolvedValue([]);
+  });
+
+  it('should assign the company owner to unowned contacts', async () => {
+    const result = await audit.run(context);
+    const issues = byObject(result.issues);
+
+    expect(issues['at-acme']).toMatchObject({
+      type: 'missing_owner',
+      property: 'hubspot_owner_id',
+      suggestedValue: '2',
+      confidence: 'high',
+    });
+    expect(issues['owned']).toBeUndefined();
+  });
+
+  it('should flag deactivated and deleted owners', async () => {
+    const result = await audit.run(context);
+    const issues = byObject(result.issues);
+
+    expect(issues['departed']).toMatchObject({ type: 'inactive_owner', currentValue: '3' });
+    expect(issues['deleted']).toMatchObject({ type: 'inactive_owner', currentValue: '99' });
+  });
+
+  it('should round-robin within the configured team', async () => {
+    context.config.owner_assignment.round_robin_team = 'sales';
+
+    const result = await audit.run(context);
+    const issues = byObject(result.issues);
+
+    // Archived owners, queues and other teams are never picked
+    expect(issues['departed']).toMatchObject({ suggestedValue: '1', confidence: 'medium' });
+    expect(issues['deleted']).toMatchObject({ suggestedValue: '2' });
+  });
+
+  it('should fall through to round-robin when the company owner is inactive', async () => {
+    contacts = [record<Contact>('at-orphaned', { associatedcompanyid: 'orphaned' })];
+
+    const result = await audit.run(context);
+
+    expect(result.issues[0]).toMatchObject({ suggestedValue: '1', confidence: 'medium' });
+  });
+
+  it('should report records with no eligible owner', async () => {
+    context.config.owner_assignment.assignment_rules = ['company_owner'];
+
+    const result = await audit.run(context);
+
+    expect(result.issues.map((i) => i.objectId)).toEqual(['at-acme']);
+    expect(result.ai_insights.patterns_detected).toContain(
+      '2 records had no eligible owner to assign'
+    );
+  });
+
+  it('should look up the company owner for deals', async () => {
+    context.config.owner_assignment.object_types = ['deals'];
+    deals = [record<Deal>('deal-1', { dealname: 'Renewal' })];
+    mockHubSpot.getAssociations.mockResolvedValue([{ id: 'acme', type: 'deal_to_company' }]);
+
+    const result = await audit.run(context);
+
+    expect(mockHubSpot.getAssociations).toHaveBeenCalledWith('deals', 'deal-1', 'companies');
+    expect(result.issues[0]).toMatchObject({ objectType: 'deal', suggestedValue: '2' });
+  });
+
+  it('should flag companies with contacts split across owners', async () => {
+    context.config.owner_assignment.max_contact_owners_per_company = 1;
+    contacts = [
+      record<Contact>('c1', { associatedcompanyid: 'acme', hubspot_owner_id: '1' }),
+      record<Contact>('c2', { associatedcompanyid: 'acme', hubspot_owner_id: '2' }),
+    ];
+
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      type: 'split_contact_ownership',
+      objectType: 'company',
+      objectId: 'acme',
+      currentValue: ['Rep1', 'Rep2'],
+    });
+    expect(plan.actions[0].type).toBe('flag_for_review');
+  });
+});
@@ -167,7 +167,7 @@ describe('PlanBuilder', () => {
       expect(plan.actions[0].type).toBe('update_property');
     });
 
-    it('should map invalid format issues to update_property', async () => {
+    it('should map invalid format issues to the action that fixes them', async () => {
       const issues: AuditIssue[] = [
         {
           id: randomUUID(),
@@ -196,7 +196,9 @@ describe('PlanBuilder', () => {
       const plan = await builder.buildPlan(auditResult);
 
       expect(plan.actions).toHaveLength(2);
-      expect(plan.actions.every((a) => a.type === 'update_property')).toBe(true);
+      expect(plan.actions[0].type).toBe('update_property');
+      // Phones that fit no dialing plan have no value to write back
+      expect(plan.actions[1].type).toBe('flag_for_review');
     });
 
     it('should map stale_contact to set_marketing_status', async () => {
@@ -290,6 +292,50 @@ describe('PlanBuilder', () => {
     });
   });
 
+  describe('action dependencies', () => {
+    const mergeIssue = (id: string, confidence: AuditIssue['confidence'], dependsOn?: string[]) =>
+      ({
+        id,
+        type: 'duplicate',
+        severity: 'high',
+        objectType: 'contact',
+        objectId: 'primary',
+        description: `Merge ${id}`,
+        suggestedValue: id,
+        confidence,
+        detection_method: 'rule',
+        dependsOn,
+      }) as AuditIssue;
+
+    it('should link actions through the issues they depend on', async () => {
+      const plan = await new PlanBuilder().buildPlan(
+        createTestAuditResult([
+          mergeIssue('a', 'high'),
+          mergeIssue('b', 'high', ['a']),
+          mergeIssue('c', 'high', ['b']),
+        ])
+      );
+
+      const [a, b, c] = plan.actions;
+      expect(a.dependencies).toBeUndefined();
+      expect(b.dependencies).toEqual([a.id]);
+      expect(c.dependencies).toEqual([b.id]);
+    });
+
+    it('should skip over issues that produced no action', async () => {
+      const plan = await new PlanBuilder({ includeLowConfidence: false }).buildPlan(
+        createTestAuditResult([
+          mergeIssue('a', 'high'),
+          mergeIssue('b', 'low', ['a']),
+          mergeIssue('c', 'high', ['b']),
+        ])
+      );
+
+      expect(plan.actions.map((action) => action.change.new_value)).toEqual(['a', 'c']);
+      expect(plan.actions[1].dependencies).toEqual([plan.actions[0].id]);
+    });
+  });
+
   describe('reversibility and confirmation', () => {
     it('should mark update_property actions as reversible', async () => {
       const issues: AuditIssue[] = [
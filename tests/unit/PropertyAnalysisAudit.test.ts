@@ -0,0 +1,171 @@
+/**
+ * PropertyAnalysisAudit Unit Tests (Epic 10)
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PropertyAnalysisAudit } from '../../src/audits/PropertyAnalysisAudit.js';
+import { PlanBuilder } from '../../src/actions/PlanBuilder.js';
+import { configSchema } from '../../src/config/schema.js';
+import type { AuditContext, ProgressReporter } from '../../src/types/audit.js';
+import type { Contact, PropertyDefinition } from '../../src/types/hubspot.js';
+import type { HubSpotService } from '../../src/services/HubSpotService.js';
+import type { ClaudeService } from '../../src/services/ClaudeService.js';
+
+const mockProgress: ProgressReporter = {
+  start: jest.fn(),
+  update: jest.fn(),
+  succeed: jest.fn(),
+  fail: jest.fn(),
+  info: jest.fn(),
+};
+
+const property = (overrides: Partial<PropertyDefinition>): PropertyDefinition => ({
+  name: 'custom',
+  label: 'Custom',
+  type: 'string',
+  fieldType: 'text',
+  groupName: 'contactinformation',
+  description: '',
+  hubspotDefined: false,
+  ...overrides,
+});
+
+const contact = (id: string, properties: Record<string, string | null>): Contact => ({
+  id,
+  properties,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  archived: false,
+});
+
+describe('PropertyAnalysisAudit', () => {
+  let audit: PropertyAnalysisAudit;
+  let mockHubSpot: jest.Mocked<HubSpotService>;
+  let context: AuditContext;
+
+  beforeEach(() => {
+    audit = new PropertyAnalysisAudit();
+
+    mockHubSpot = {
+      getContactProperties: jest.fn(),
+      getContacts: jest.fn(),
+    } as any;
+
+    const config = configSchema.parse({
+      company: { name: 'Test Company', industry: 'Technology', business_model: 'B2B' },
+      property_analysis: { object_types: ['contacts'], enable_ai_recommendations: false },
+    });
+
+    context = {
+      hubspot: mockHubSpot,
+      claude: {} as ClaudeService,
+      config,
+      progress: mockProgress,
+    };
+
+    mockHubSpot.getContactProperties.mockResolvedValue([
+      property({ name: 'industry', label: 'Industry', hubspotDefined: true }),
+      property({ name: 'industry_2', label: 'Industry 2' }),
+      property({ name: 'legacy_score', label: 'Legacy Score' }),
+      property({
+        name: 'region',
+        label: 'Region',
+        type: 'enumeration',
+        options: [
+          { label: 'EMEA', value: 'emea', hidden: false, displayOrder: 0 },
+          { label: 'APAC', value: 'apac', hidden: false, displayOrder: 1 },
+          { label: 'LATAM', value: 'latam', hidden: false, displayOrder: 2 },
+        ],
+      }),
+    ]);
+
+    const contacts = Array.from({ length: 40 }, (_, i) =>
+      contact(`c${i}`, {
+        industry_2: i < 20 ? 'Software' : null,
+        legacy_score: null,
+        region: i % 2 === 0 ? 'emea' : 'apac;emea',
+      })
+    );
+    mockHubSpot.getContacts.mockImplementation(async function* () {
+      yield contacts;
+    });
+  });
+
+  it('should only scan custom properties', async () => {
+    const result = await audit.run(context);
+
+    expect(mockHubSpot.getContacts).toHaveBeenCalledWith(['industry_2', 'legacy_score', 'region']);
+    expect(result.summary.total_records).toBe(3);
+  });
+
+  it('should flag never-populated custom properties', async () => {
+    const result = await audit.run(context);
+
+    const unused = result.issues.filter((i) => i.type === 'unused_property');
+    expect(unused).toHaveLength(1);
+    expect(unused[0].property).toBe('legacy_score');
+    expect(unused[0].objectType).toBe('property');
+    expect(unused[0].confidence).toBe('high');
+  });
+
+  it('should detect near-duplicate properties', async () => {
+    const result = await audit.run(context);
+
+    const duplicates = result.issues.filter((i) => i.type === 'near_duplicate_property');
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].property).toBe('industry_2');
+    expect(duplicates[0].suggestedValue).toBe('industry');
+  });
+
+  it('should report enumeration options nobody uses', async () => {
+    const result = await audit.run(context);
+
+    const unusedOptions = result.issues.filter((i) => i.type === 'unused_enum_option');
+    expect(unusedOptions).toHaveLength(1);
+    expect(unusedOptions[0].currentValue).toEqual(['latam']);
+  });
+
+  it('should flag low fill rates against the configured threshold', async () => {
+    context.config.property_analysis.low_fill_rate_percent = 60;
+
+    const result = await audit.run(context);
+
+    const lowFill = result.issues.filter((i) => i.type === 'low_fill_rate_property');
+    expect(lowFill.map((i) => i.property)).toEqual(['industry_2']);
+  });
+
+  it('should produce review-only plan actions', async () => {
+    const result = await audit.run(context);
+    const plan = await new PlanBuilder().buildPlan(result);
+
+    expect(plan.actions).toHaveLength(result.issues.length);
+    expect(plan.actions.every((a) => a.type === 'flag_for_review')).toBe(true);
+    expect(plan.actions[0].target.display_name).toContain('Contact property');
+  });
+
+  it('should stop requesting AI recommendations once the cost budget is reached', async () => {
+    mockHubSpot.getContactProperties.mockResolvedValue(
+      Array.from({ length: 150 }, (_, i) => property({ name: `custom_${i}`, label: `Custom ${i}` }))
+    );
+    let spent = 0;
+    const mockClaude = {
+      getUsageStats: jest.fn(() => ({ estimatedCostUsd: spent })),
+      analyzeWithReasoning: jest.fn(async () => {
+        spent += 0.6;
+        return { properties: [], summary: 'Batch reviewed', recommendations: [] };
+      }),
+    };
+    context.claude = mockClaude as any;
+    context.config.property_analysis.enable_ai_recommendations = true;
+    context.config.property_analysis.max_ai_cost_per_audit = 0.5;
+
+    const result = await audit.run(context);
+
+    expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(1);
+    expect(result.summary.ai_cost_usd).toBeCloseTo(0.6);
+
+    context.config.property_analysis.max_ai_cost_per_audit = 2.0;
+    await audit.run(context);
+    expect(mockClaude.analyzeWithReasoning).toHaveBeenCalledTimes(3);
+  });
+});
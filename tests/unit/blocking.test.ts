@@ -0,0 +1,142 @@
+/**
+ * Tests for duplicate detection blocking
+ */
+
+import {
+  forEachCandidatePair,
+  getBlockingKeys,
+  type BlockingOptions,
+  type BlockingRecord,
+} from '../../src/utils/blocking.js';
+
+const options: BlockingOptions = {
+  keys: ['email_local_part', 'phone_suffix', 'last_name_phonetic', 'company_token'],
+  maxBlockSize: 100,
+  phoneSuffixLength: 7,
+};
+
+const record = (id: string, properties: Record<string, string>): BlockingRecord => ({
+  id,
+  properties,
+});
+
+const pairsOf = (records: BlockingRecord[], opts: BlockingOptions = options): string[] => {
+  const pairs: string[] = [];
+  forEachCandidatePair(records, opts, (a, b) => pairs.push(`${a.id}-${b.id}`));
+  return pairs;
+};
+
+describe('Get Blocking Keys', () => {
+  test('builds one key per configured type', () => {
+    expect(
+      getBlockingKeys(
+        record('1', {
+          email: 'J.Smith+news@acme.com',
+          phone: '+1 (555) 123-4567',
+          lastname: 'Smith',
+          company: 'The Acme Group, Inc.',
+        }),
+        options
+      )
+    ).toEqual([
+      'company_token:acme',
+      'email_local_part:jsmith',
+      'last_name_phonetic:S530',
+      'phone_suffix:1234567',
+    ]);
+  });
+
+  test('skips missing or too short values', () => {
+    expect(
+      getBlockingKeys(
+        record('1', { email: 'not-an-email', phone: '12345', company: 'Inc.' }),
+        options
+      )
+    ).toEqual([]);
+  });
+
+  test('uses both phone fields and only the configured key types', () => {
+    const keys = getBlockingKeys(
+      record('1', { phone: '555-123-4567', mobilephone: '555-765-4321', lastname: 'Smith' }),
+      { ...options, keys: ['phone_suffix'] }
+    );
+
+    expect(keys).toEqual(['phone_suffix:1234567', 'phone_suffix:7654321']);
+  });
+
+  test('blocks companies on the normalized domain', () => {
+    const keys = getBlockingKeys(record('1', { domain: 'https://www.Acme.com/about' }), {
+      ...options,
+      keys: ['domain'],
+    });
+
+    expect(keys).toEqual(['domain:acme.com']);
+  });
+});
+
+describe('For Each Candidate Pair', () => {
+  test('only pairs records that share a block', () => {
+    const pairs = pairsOf([
+      record('1', { lastname: 'Smith' }),
+      record('2', { lastname: 'Jones' }),
+      record('3', { lastname: 'Smyth' }),
+      record('4', { lastname: 'Brown', company: 'Acme' }),
+      record('5', { lastname: 'Green', company: 'Acme Inc.' }),
+    ]);
+
+    expect(pairs.sort()).toEqual(['1-3', '4-5']);
+  });
+
+  test('visits pairs sharing several blocks once', () => {
+    const pairs = pairsOf([
+      record('1', { lastname: 'Smith', company: 'Acme', email: 'jsmith@acme.com' }),
+      record('2', { lastname: 'Smith', company: 'Acme', email: 'jsmith@gmail.com' }),
+    ]);
+
+    expect(pairs).toEqual(['1-2']);
+  });
+
+  test('skips oversized blocks but still pairs through smaller ones', () => {
+    const records = [
+      record('1', { lastname: 'Smith', company: 'Acme' }),
+      record('2', { lastname: 'Smith', company: 'Acme' }),
+      record('3', { lastname: 'Smith', company: 'Globex' }),
+    ];
+    const visited: string[] = [];
+
+    const stats = forEachCandidatePair(records, { ...options, maxBlockSize: 2 }, (a, b) =>
+      visited.push(`${a.id}-${b.id}`)
+    );
+
+    expect(visited).toEqual(['1-2']);
+    expect(stats).toMatchObject({
+      records: 3,
+      blocks: 2,
+      oversized_blocks: 1,
+      candidate_pairs: 1,
+      naive_pairs: 3,
+    });
+    expect(stats.by_key.last_name_phonetic).toEqual({
+      blocks: 1,
+      largest_block: 3,
+      oversized_blocks: 1,
+    });
+    expect(stats.reduction_ratio).toBeCloseTo(2 / 3);
+  });
+
+  test('scales to large inputs', () => {
+    // 20k records in 5k blocks of four: 30k comparisons instead of ~200 million
+    const records = Array.from({ length: 20000 }, (_, i) =>
+      record(String(i), { email: `user${i % 5000}@example${i}.com` })
+    );
+
+    const stats = forEachCandidatePair(records, options, () => undefined);
+
+    expect(stats).toMatchObject({
+      blocks: 5000,
+      candidate_pairs: 30000,
+      naive_pairs: 199990000,
+    });
+    expect(stats.reduction_ratio).toBeGreaterThan(0.999);
+  });
+});
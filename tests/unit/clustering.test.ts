@@ -0,0 +1,61 @@
+/**
+ * Tests for transitive clustering
+ */
+
+import { clusterLinks } from '../../src/utils/clustering.js';
+
+describe('Cluster Links', () => {
+  test('groups transitively linked IDs', () => {
+    expect(
+      clusterLinks([
+        ['a', 'b'],
+        ['b', 'c'],
+      ])
+    ).toEqual([['a', 'b', 'c']]);
+  });
+
+  test('keeps unrelated pairs apart', () => {
+    expect(
+      clusterLinks([
+        ['a', 'b'],
+        ['x', 'y'],
+      ])
+    ).toEqual([
+      ['a', 'b'],
+      ['x', 'y'],
+    ]);
+  });
+
+  test('joins clusters linked later', () => {
+    expect(
+      clusterLinks([
+        ['a', 'b'],
+        ['c', 'd'],
+        ['e', 'f'],
+        ['d', 'a'],
+      ])
+    ).toEqual([
+      ['a', 'b', 'c', 'd'],
+      ['e', 'f'],
+    ]);
+  });
+
+  test('ignores repeated and circular links', () => {
+    expect(
+      clusterLinks([
+        ['a', 'b'],
+        ['b', 'a'],
+        ['b', 'c'],
+        ['c', 'a'],
+      ])
+    ).toEqual([['a', 'b', 'c']]);
+  });
+
+  test('handles long chains and empty input', () => {
+    const chain = Array.from({ length: 10000 }, (_, i): [string, string] => [`${i}`, `${i + 1}`]);
+
+    expect(clusterLinks(chain)).toHaveLength(1);
+    expect(clusterLinks(chain)[0]).toHaveLength(10001);
+    expect(clusterLinks([])).toEqual([]);
+  });
+});
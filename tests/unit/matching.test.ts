@@ -9,8 +9,16 @@ import {
   normalizeName,
   normalizePhone,
   extractEmailDomain,
+  canonicalizeEmail,
+  normalizeDomain,
   isLikelyNickname,
   isSameCompany,
+  soundex,
+  foldDiacritics,
+  transliterate,
+  jaroWinkler,
+  doubleMetaphone,
+  fieldSimilarity,
 } from '../../src/utils/matching.js';
 
 describe('Levenshtein Distance', () => {
@@ -134,27 +142,41 @@ describe('Normalize Name', () => {
 });
 
 describe('Normalize Phone', () => {
-  test('removes formatting characters', () => {
-    expect(normalizePhone('(555) 123-4567')).toBe('5551234567');
-    expect(normalizePhone('555.123.4567')).toBe('5551234567');
-    expect(normalizePhone('555 123 4567')).toBe('5551234567');
+  test('normalizes US numbers to E.164', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('+15551234567');
+    expect(normalizePhone('555.123.4567')).toBe('+15551234567');
+    expect(normalizePhone('555 123 4567')).toBe('+15551234567');
   });
 
-  test('removes US country code prefix', () => {
-    expect(normalizePhone('+1-555-123-4567', 'US')).toBe('5551234567');
-    expect(normalizePhone('1-555-123-4567', 'US')).toBe('5551234567');
-    expect(normalizePhone('15551234567', 'US')).toBe('5551234567');
+  test('handles the US country code prefix', () => {
+    expect(normalizePhone('+1-555-123-4567', 'US')).toBe('+15551234567');
+    expect(normalizePhone('1-555-123-4567', 'US')).toBe('+15551234567');
+    expect(normalizePhone('15551234567', 'US')).toBe('+15551234567');
   });
 
   test('handles international formats', () => {
-    expect(normalizePhone('+44 20 1234 5678', 'UK')).toBe('442012345678');
-    expect(normalizePhone('+33 1 23 45 67 89', 'FR')).toBe('33123456789');
+    expect(normalizePhone('+44 20 1234 5678', 'UK')).toBe('+442012345678');
+    expect(normalizePhone('+33 1 23 45 67 89', 'FR')).toBe('+33123456789');
+  });
+
+  test('uses the country code for national numbers', () => {
+    expect(normalizePhone('030 1234567', 'DE')).toBe('+49301234567');
+    expect(normalizePhone('+49 30 1234567', 'US')).toBe(normalizePhone('030 1234567', 'DE'));
   });
 
   test('handles various separators', () => {
-    expect(normalizePhone('555-123-4567')).toBe('5551234567');
-    expect(normalizePhone('555/123/4567')).toBe('5551234567');
-    expect(normalizePhone('555·123·4567')).toBe('5551234567');
+    expect(normalizePhone('555-123-4567')).toBe('+15551234567');
+    expect(normalizePhone('555/123/4567')).toBe('+15551234567');
+    expect(normalizePhone('555·123·4567')).toBe('+15551234567');
+  });
+
+  test('ignores extensions', () => {
+    expect(normalizePhone('555-123-4567 ext. 12')).toBe('+15551234567');
+  });
+
+  test('falls back to digits for invalid numbers', () => {
+    expect(normalizePhone('123')).toBe('123');
+    expect(normalizePhone('555-0100')).toBe('5550100');
   });
 
   test('handles null and undefined', () => {
@@ -168,7 +190,7 @@ describe('Normalize Phone', () => {
   });
 
   test('handles already normalized phones', () => {
-    expect(normalizePhone('5551234567')).toBe('5551234567');
+    expect(normalizePhone('+15551234567')).toBe('+15551234567');
   });
 });
 
@@ -205,6 +227,71 @@ describe('Extract Email Domain', () => {
   });
 });
 
+describe('Canonicalize Email', () => {
+  test('removes Gmail dots and plus aliases', () => {
+    expect(canonicalizeEmail('J.Doe+news@gmail.com')).toBe('jdoe@gmail.com');
+    expect(canonicalizeEmail('jdoe@googlemail.com')).toBe('jdoe@gmail.com');
+  });
+
+  test('keeps dots but removes plus aliases on other domains', () => {
+    expect(canonicalizeEmail('jane.doe+crm@acme.com')).toBe('jane.doe@acme.com');
+    expect(canonicalizeEmail('jane.doe@me.com')).toBe('jane.doe@icloud.com');
+  });
+
+  test('uses the provider alias separator', () => {
+    expect(canonicalizeEmail('jdoe-shopping@yahoo.com')).toBe('jdoe@yahoo.com');
+    expect(canonicalizeEmail('mary-jane@acme.com')).toBe('mary-jane@acme.com');
+  });
+
+  test('maps configured domain aliases', () => {
+    const aliases = { 'oldco.com': 'acme.com' };
+    expect(canonicalizeEmail('Jane@OldCo.com', aliases)).toBe('jane@acme.com');
+    expect(canonicalizeEmail('jane@acme.com', aliases)).toBe('jane@acme.com');
+    expect(canonicalizeEmail('jane@oldco.com', { ' OldCo.com ': 'ACME.com' })).toBe('jane@acme.com');
+    expect(canonicalizeEmail('jdoe@foo.com', { 'Foo.com': 'GoogleMail.com' })).toBe('jdoe@gmail.com');
+  });
+
+  test('handles invalid emails', () => {
+    expect(canonicalizeEmail('not-an-email')).toBe('');
+    expect(canonicalizeEmail('@gmail.com')).toBe('');
+    expect(canonicalizeEmail(null)).toBe('');
+    expect(canonicalizeEmail('+1@acme.com')).toBe('+1@acme.com');
+  });
+});
+
+describe('Normalize Domain', () => {
+  test('strips protocol, www and path', () => {
+    expect(normalizeDomain('https://www.example.com/about')).toBe('example.com');
+    expect(normalizeDomain('http://example.com?ref=1')).toBe('example.com');
+    expect(normalizeDomain('www.example.com')).toBe('example.com');
+  });
+
+  test('strips port and trailing dot', () => {
+    expect(normalizeDomain('example.co.uk:8080')).toBe('example.co.uk');
+    expect(normalizeDomain('example.com.')).toBe('example.com');
+  });
+
+  test('converts to lowercase and trims', () => {
+    expect(normalizeDomain('  Example.COM ')).toBe('example.com');
+  });
+
+  test('keeps subdomains other than www', () => {
+    expect(normalizeDomain('shop.example.com')).toBe('shop.example.com');
+  });
+
+  test('rejects invalid domains', () => {
+    expect(normalizeDomain('not a domain')).toBe('');
+    expect(normalizeDomain('localhost')).toBe('');
+    expect(normalizeDomain('example.c')).toBe('');
+  });
+
+  test('handles null, undefined and empty string', () => {
+    expect(normalizeDomain(null)).toBe('');
+    expect(normalizeDomain(undefined)).toBe('');
+    expect(normalizeDomain('')).toBe('');
+  });
+});
+
 describe('Is Likely Nickname', () => {
   test('detects common nicknames - male names', () => {
     expect(isLikelyNickname('Bob', 'Robert')).toBe(true);
@@ -312,3 +399,127 @@ describe('Is Same Company', () => {
     expect(isSameCompany('Acme Corp', '')).toBe(false);
   });
 });
+
+describe('Soundex', () => {
+  test('encodes standard examples', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261'); // H does not separate S and C
+    expect(soundex('Tymczak')).toBe('T522'); // Vowel separates Z and K
+    expect(soundex('Pfister')).toBe('P236'); // F has the same code as the first letter
+  });
+
+  test('gives names that sound alike the same code', () => {
+    expect(soundex('Smith')).toBe(soundex('Smyth'));
+    expect(soundex('Robert')).toBe(soundex('Rupert'));
+    expect(soundex('Smith')).not.toBe(soundex('Jones'));
+  });
+
+  test('pads short names and ignores case and punctuation', () => {
+    expect(soundex('Lee')).toBe('L000');
+    expect(soundex("O'Connor")).toBe(soundex('oconnor'));
+  });
+
+  test('handles empty values', () => {
+    expect(soundex('')).toBe('');
+    expect(soundex('123')).toBe('');
+    expect(soundex(null)).toBe('');
+    expect(soundex(undefined)).toBe('');
+  });
+});
+
+describe('Fold Diacritics', () => {
+  test('removes accents and umlauts', () => {
+    expect(foldDiacritics('Müller')).toBe('Muller');
+    expect(foldDiacritics('José García')).toBe('Jose Garcia');
+    expect(foldDiacritics('François')).toBe('Francois');
+  });
+
+  test('replaces letters without a decomposition', () => {
+    expect(foldDiacritics('Straße')).toBe('Strasse');
+    expect(foldDiacritics('Øberg')).toBe('Oberg');
+    expect(foldDiacritics('Łukasz')).toBe('Lukasz');
+  });
+});
+
+describe('Transliterate', () => {
+  test('converts Cyrillic to Latin', () => {
+    expect(transliterate('Сергей Иванов')).toBe('Sergey Ivanov');
+    expect(transliterate('Щукин')).toBe('Shchukin');
+  });
+
+  test('converts Greek to Latin, including accented letters', () => {
+    expect(transliterate('Νίκος')).toBe('Nikos');
+  });
+
+  test('leaves Latin text unchanged', () => {
+    expect(transliterate('John Müller')).toBe('John Müller');
+  });
+
+  test('lets normalizeName compare names across scripts', () => {
+    expect(normalizeName('Иван Петров')).toBe(normalizeName('Ivan Petrov'));
+    expect(normalizeName('Müller')).toBe('muller');
+  });
+});
+
+describe('Jaro-Winkler', () => {
+  test('scores standard examples', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('dwayne', 'duane')).toBeCloseTo(0.84, 2);
+  });
+
+  test('favors short names with a shared prefix over Levenshtein', () => {
+    expect(jaroWinkler('jon', 'john')).toBeCloseTo(0.933, 3);
+    expect(similarityScore('jon', 'john')).toBe(0.75);
+  });
+
+  test('handles identical, empty and unrelated strings', () => {
+    expect(jaroWinkler('smith', 'smith')).toBe(1.0);
+    expect(jaroWinkler('', 'smith')).toBe(0.0);
+    expect(jaroWinkler('abc', 'xyz')).toBe(0.0);
+  });
+});
+
+describe('Double Metaphone', () => {
+  test('encodes standard examples', () => {
+    expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT']);
+    expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT']);
+    expect(doubleMetaphone('Michael')).toEqual(['MKL', 'MXL']);
+    expect(doubleMetaphone('Jose')).toEqual(['HS', 'HS']);
+  });
+
+  test('gives names that sound alike a shared code', () => {
+    expect(doubleMetaphone('Catherine')).toEqual(doubleMetaphone('Katherine'));
+    expect(doubleMetaphone('Stephen')).toEqual(doubleMetaphone('Steven'));
+    expect(doubleMetaphone('Müller')).toEqual(doubleMetaphone('Mueller'));
+    expect(doubleMetaphone('Snider')[0]).toBe(doubleMetaphone('Schneider')[1]);
+  });
+
+  test('handles empty values', () => {
+    expect(doubleMetaphone('')).toEqual(['', '']);
+    expect(doubleMetaphone(null)).toEqual(['', '']);
+  });
+});
+
+describe('Field Similarity', () => {
+  test('compares with the chosen algorithm', () => {
+    expect(fieldSimilarity('Jon', 'John', 'levenshtein')).toBe(0.75);
+    expect(fieldSimilarity('Jon', 'John', 'jaro_winkler')).toBeCloseTo(0.933, 3);
+    expect(fieldSimilarity('Jon', 'John', 'exact')).toBe(0.0);
+    expect(fieldSimilarity('JOHN', 'john', 'exact')).toBe(1.0);
+  });
+
+  test('double metaphone raises sound-alike names without making them identical', () => {
+    expect(fieldSimilarity('Müller', 'Mueller', 'double_metaphone')).toBe(0.9);
+    expect(fieldSimilarity('Schmidt', 'Smith', 'double_metaphone')).toBe(0.9);
+    expect(fieldSimilarity('Lee', 'Liu', 'double_metaphone')).toBe(0.9);
+    expect(fieldSimilarity('Smith', 'Smith', 'double_metaphone')).toBe(1.0);
+    expect(fieldSimilarity('Smith', 'Jones', 'double_metaphone')).toBe(
+      similarityScore('smith', 'jones')
+    );
+  });
+
+  test('returns 0 when either value is empty', () => {
+    expect(fieldSimilarity('', 'John', 'jaro_winkler')).toBe(0.0);
+    expect(fieldSimilarity('John', null, 'exact')).toBe(0.0);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for phone number parsing
+ */
+
+import { formatPhone, parsePhone } from '../../src/utils/phone.js';
+
+describe('Parse Phone', () => {
+  test('reads national numbers as numbers of the default country', () => {
+    expect(parsePhone('(555) 123-4567', 'US')).toMatchObject({
+      e164: '+15551234567',
+      country: 'US',
+      valid: true,
+      international: false,
+    });
+    expect(parsePhone('1-555-123-4567', 'US')?.e164).toBe('+15551234567');
+    expect(parsePhone('030 1234567', 'DE')?.e164).toBe('+49301234567');
+    expect(parsePhone('020 7946 0958', 'UK')?.country).toBe('GB');
+  });
+
+  test('reads international numbers regardless of the default country', () => {
+    expect(parsePhone('+49 151 12345678', 'US')).toMatchObject({
+      e164: '+4915112345678',
+      country: 'DE',
+      international: true,
+    });
+    expect(parsePhone('0044 20 7946 0958', 'US')?.e164).toBe('+442079460958');
+    expect(parsePhone('011 33 1 23 45 67 89', 'US')?.e164).toBe('+33123456789');
+    expect(parsePhone('442079460958', 'GB')?.e164).toBe('+442079460958');
+  });
+
+  test('drops a trunk prefix written after the calling code but keeps Italian zeros', () => {
+    expect(parsePhone('+44 (0)20 7946 0958')?.e164).toBe('+442079460958');
+    expect(parsePhone('+39 06 1234 5678')?.e164).toBe('+390612345678');
+  });
+
+  test('tells countries sharing a calling code apart', () => {
+    expect(parsePhone('+1 416 555 0199')?.country).toBe('CA');
+    expect(parsePhone('+1 212 555 0199', 'CA')?.country).toBe('US');
+    expect(parsePhone('+7 701 234 5678')?.country).toBe('KZ');
+  });
+
+  test('parses extensions', () => {
+    expect(parsePhone('555-123-4567 ext. 89')?.extension).toBe('89');
+    expect(parsePhone('555-123-4567x12')?.extension).toBe('12');
+    expect(parsePhone('+1 555 123 4567;ext=7')?.extension).toBe('7');
+    expect(parsePhone('555-123-4567')?.extension).toBeUndefined();
+  });
+
+  test('detects mobile and fixed lines where the dialing plan allows', () => {
+    expect(parsePhone('07911 123456', 'GB')?.lineType).toBe('mobile');
+    expect(parsePhone('020 7946 0958', 'GB')?.lineType).toBe('fixed_line');
+    expect(parsePhone('06 12 34 56 78', 'FR')?.lineType).toBe('mobile');
+    expect(parsePhone('(555) 123-4567', 'US')?.lineType).toBe('unknown');
+  });
+
+  test('flags numbers that do not fit the dialing plan', () => {
+    expect(parsePhone('123', 'US')?.valid).toBe(false);
+    expect(parsePhone('(055) 123-4567', 'US')?.valid).toBe(false);
+    expect(parsePhone('+999 1234 5678')).toMatchObject({ callingCode: '', valid: true });
+    expect(parsePhone('no number', 'US')).toBeNull();
+    expect(parsePhone('555-123-4567', 'XX')).toBeNull();
+  });
+});
+
+describe('Format Phone', () => {
+  test('formats as E.164 with the extension', () => {
+    expect(formatPhone(parsePhone('(555) 123-4567')!)).toBe('+15551234567');
+    expect(formatPhone(parsePhone('555.123.4567 x89')!)).toBe('+15551234567 ext. 89');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for merge survivorship rules
+ */
+
+import {
+  buildGoldenRecord,
+  selectPrimary,
+  type SurvivorshipOptions,
+  type SurvivorshipRecord,
+} from '../../src/utils/survivorship.js';
+
+const record = (
+  id: string,
+  createdate: string,
+  lastmodifieddate: string,
+  properties: Record<string, string | null> = {}
+): SurvivorshipRecord => ({ id, properties: { createdate, lastmodifieddate, ...properties } });
+
+// Oldest record, modified in between
+const older = record('1', '2020-01-01', '2023-06-01', {
+  jobtitle: 'Engineer',
+  phone: '555-0100',
+  company: null,
+});
+// Newest record, modified last
+const newer = record('2', '2024-01-01', '2024-06-01', {
+  jobtitle: 'Engineering Manager',
+  phone: '',
+});
+// Most complete record, modified first
+const complete = record('3', '2022-01-01', '2022-01-01', {
+  jobtitle: 'Sr. Engineer',
+  phone: '555-0199',
+  company: 'Acme',
+  city: 'Boston',
+});
+
+const options: SurvivorshipOptions = {
+  properties: ['jobtitle', 'phone', 'company', 'firstname'],
+  default_rule: 'most_recent',
+  property_rules: {},
+};
+
+describe('Select Primary', () => {
+  test('picks the oldest record', () => {
+    expect(selectPrimary([newer, complete, older], 'oldest').id).toBe('1');
+  });
+
+  test('picks the most complete record', () => {
+    expect(selectPrimary([older, newer, complete], 'most_complete').id).toBe('3');
+  });
+
+  test('keeps the first record when recommended or tied', () => {
+    expect(selectPrimary([newer, older], 'recommended').id).toBe('2');
+    expect(
+      selectPrimary([record('a', '2024-01-01', ''), record('b', '2024-01-01', '')], 'oldest').id
+    ).toBe('a');
+  });
+
+  test('ranks records without a createdate last', () => {
+    expect(selectPrimary([record('a', 'unknown', ''), newer], 'oldest').id).toBe('2');
+  });
+});
+
+describe('Build Golden Record', () => {
+  test('takes the most recent non-empty value by default', () => {
+    expect(buildGoldenRecord(older, [older, newer, complete], options)).toEqual({
+      jobtitle: { value: 'Engineering Manager', source: '2', rule: 'most_recent' },
+      phone: { value: '555-0100', source: '1', rule: 'most_recent' },
+      company: { value: 'Acme', source: '3', rule: 'most_recent' },
+    });
+  });
+
+  test('applies per-property overrides', () => {
+    const golden = buildGoldenRecord(older, [older, newer, complete], {
+      ...options,
+      default_rule: 'most_complete',
+      property_rules: { jobtitle: 'oldest', phone: 'primary' },
+    });
+
+    expect(golden.jobtitle).toEqual({ value: 'Engineer', source: '1', rule: 'oldest' });
+    expect(golden.phone).toEqual({ value: '555-0100', source: '1', rule: 'primary' });
+    expect(golden.company).toEqual({ value: 'Acme', source: '3', rule: 'most_complete' });
+  });
+
+  test('falls back to the most recent value when the primary has none', () => {
+    const golden = buildGoldenRecord(newer, [older, newer, complete], {
+      ...options,
+      default_rule: 'primary',
+    });
+
+    expect(golden.jobtitle.source).toBe('2');
+    expect(golden.phone).toEqual({ value: '555-0100', source: '1', rule: 'primary' });
+  });
+});